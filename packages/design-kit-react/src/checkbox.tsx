@@ -0,0 +1,111 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkCheckbox as MonkCheckboxWC,
+  MonkCheckboxGroup as MonkCheckboxGroupWC,
+  type CheckboxGroupOrientation,
+  type ToggleChangeDetail,
+  type ToggleColorScheme,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props shared by Checkbox and Switch
+ */
+export interface ToggleProps extends Omit<TextInputProps, 'onInputChange' | 'onInputChanged'> {
+  /** Whether the control is on */
+  checked?: boolean;
+  /** Semantic color scheme of the "on" state */
+  colorScheme?: ToggleColorScheme;
+  /** Change handler, fired when the control is toggled */
+  onInputChange?: (event: CustomEvent<ToggleChangeDetail>) => void;
+  /** Changed handler, fired when the control is toggled */
+  onInputChanged?: (event: CustomEvent<ToggleChangeDetail>) => void;
+}
+
+/**
+ * Props for the Checkbox component
+ */
+export interface CheckboxProps extends ToggleProps {
+  /** Partially checked state, shown as a dash */
+  indeterminate?: boolean;
+}
+
+/**
+ * Props for the CheckboxGroup component
+ */
+export interface CheckboxGroupProps extends TextInputProps {
+  /** Fewest checked boxes allowed when validating */
+  minSelections?: number;
+  /** Most checked boxes allowed when validating */
+  maxSelections?: number;
+  /** Color scheme applied to every checkbox */
+  colorScheme?: ToggleColorScheme;
+  /** Layout direction */
+  orientation?: CheckboxGroupOrientation;
+}
+
+/**
+ * Checkbox component - Form control for a yes/no choice
+ *
+ * @example
+ * ```tsx
+ * <Checkbox name="terms" required validate>I accept the terms</Checkbox>
+ *
+ * <Checkbox
+ *   checked={all}
+ *   indeterminate={some}
+ *   onInputChange={(e) => setAll(e.detail.checked)}
+ * >
+ *   Select all
+ * </Checkbox>
+ * ```
+ */
+export const Checkbox = createComponent({
+  tagName: 'monk-checkbox',
+  elementClass: MonkCheckboxWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+/**
+ * CheckboxGroup component - Picks any number of values from a set of checkboxes
+ *
+ * @example
+ * ```tsx
+ * <CheckboxGroup
+ *   label="Toppings"
+ *   name="toppings"
+ *   maxSelections={2}
+ *   validate
+ *   onInputChange={(e) => setToppings(e.detail.value.split(','))}
+ * >
+ *   <Checkbox value="cheese">Cheese</Checkbox>
+ *   <Checkbox value="olive">Olive</Checkbox>
+ * </CheckboxGroup>
+ * ```
+ */
+export const CheckboxGroup = createComponent({
+  tagName: 'monk-checkbox-group',
+  elementClass: MonkCheckboxGroupWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type { CheckboxGroupOrientation, ToggleChangeDetail, ToggleColorScheme };
@@ -0,0 +1,53 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import { MonkColorInput as MonkColorInputWC, type ColorFormat } from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the ColorInput component
+ */
+export interface ColorInputProps extends TextInputProps {
+  /** Notation the text field shows the color in */
+  format?: ColorFormat;
+  /** Allow translucent colors, with an opacity slider */
+  alpha?: boolean;
+  /** Swatches: color token names such as "blue-500", or any color */
+  swatches?: string[];
+  /** Background the contrast ratio is measured against: a token name or a color */
+  contrastBackground?: string;
+}
+
+/**
+ * ColorInput component - Color entry with a picker, swatches and a contrast check
+ *
+ * @example
+ * ```tsx
+ * <ColorInput
+ *   label="Brand color"
+ *   name="brand"
+ *   value={brand}
+ *   format="hsl"
+ *   contrastBackground="bg-canvas"
+ *   onInputChange={(e) => setBrand(e.detail.value)}
+ * />
+ * ```
+ */
+export const ColorInput = createComponent({
+  tagName: 'monk-color-input',
+  elementClass: MonkColorInputWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type { ColorFormat };
@@ -32,6 +32,10 @@ export const EmailInput = createComponent({
     onInputFocus: 'input-focus' as EventName<CustomEvent>,
     onInputBlur: 'input-blur' as EventName<CustomEvent>,
     onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
   },
 });
 
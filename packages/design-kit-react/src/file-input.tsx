@@ -0,0 +1,84 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkFileInput as MonkFileInputWC,
+  type FileUploadContext,
+  type FileUploadDetail,
+  type FileUploader,
+  type FileUploadState,
+  type FileUploadStatus,
+  type FilesChangeDetail,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the FileInput component
+ */
+export interface FileInputProps extends TextInputProps {
+  /** Selected files */
+  files?: File[];
+  /** Accepted types: extensions, MIME types or wildcards */
+  accept?: string;
+  /** Allow picking more than one file */
+  multiple?: boolean;
+  /** Largest file size allowed, in bytes */
+  maxSize?: number;
+  /** Most files allowed */
+  maxFiles?: number;
+  /** Uploads each valid file as it is added */
+  uploader?: FileUploader;
+  /** Fired when files are added or removed */
+  onFilesChange?: (event: CustomEvent<FilesChangeDetail>) => void;
+  /** Fired as a file uploads */
+  onUploadProgress?: (event: CustomEvent<FileUploadDetail>) => void;
+  /** Fired when a file has uploaded */
+  onUploadComplete?: (event: CustomEvent<FileUploadDetail>) => void;
+  /** Fired when a file fails to upload */
+  onUploadError?: (event: CustomEvent<FileUploadDetail>) => void;
+}
+
+/**
+ * FileInput component - Picks files by browsing or drag and drop
+ *
+ * @example
+ * ```tsx
+ * <FileInput
+ *   label="Attachments"
+ *   name="attachments"
+ *   accept="image/*,.pdf"
+ *   maxSize={5 * 1024 * 1024}
+ *   multiple
+ *   uploader={(file, { signal, onProgress }) => upload(file, { signal, onProgress })}
+ *   onFilesChange={(e) => setFiles(e.detail.files)}
+ * />
+ * ```
+ */
+export const FileInput = createComponent({
+  tagName: 'monk-file-input',
+  elementClass: MonkFileInputWC,
+  react: React,
+  events: {
+    onFilesChange: 'files-change' as EventName<CustomEvent>,
+    onUploadProgress: 'upload-progress' as EventName<CustomEvent>,
+    onUploadComplete: 'upload-complete' as EventName<CustomEvent>,
+    onUploadError: 'upload-error' as EventName<CustomEvent>,
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type {
+  FileUploadContext,
+  FileUploadDetail,
+  FileUploader,
+  FileUploadState,
+  FileUploadStatus,
+  FilesChangeDetail,
+};
@@ -88,3 +88,113 @@ export {
 } from './text-input.js';
 export { EmailInput, type EmailInputProps } from './email-input.js';
 export { PasswordInput, type PasswordInputProps } from './password-input.js';
+export { Textarea, type TextareaProps, type TextareaResize } from './textarea.js';
+export {
+  OtpInput,
+  type OtpInputProps,
+  type OtpMode,
+  type OtpCompleteDetail,
+} from './otp-input.js';
+export {
+  MaskedInput,
+  type MaskedInputProps,
+  type MaskPattern,
+  type MaskPresetName,
+  type CardBrand,
+  type CardBrandChangeDetail,
+} from './masked-input.js';
+export {
+  FileInput,
+  type FileInputProps,
+  type FileUploader,
+  type FileUploadContext,
+  type FileUploadState,
+  type FileUploadStatus,
+  type FileUploadDetail,
+  type FilesChangeDetail,
+} from './file-input.js';
+export {
+  TagInput,
+  type TagInputProps,
+  type TagChangeDetail,
+  type TagRejectDetail,
+  type TagRejectReason,
+} from './tag-input.js';
+export { ColorInput, type ColorInputProps, type ColorFormat } from './color-input.js';
+export {
+  TimeInput,
+  DateTimeInput,
+  type TimeInputProps,
+  type DateTimeInputProps,
+  type DayPeriod,
+  type HourCycle,
+  type TimeZoneChangeDetail,
+} from './time-input.js';
+
+// Select components
+export {
+  Select,
+  Option,
+  OptionGroup,
+  type SelectProps,
+  type OptionProps,
+  type OptionGroupProps,
+  type SelectOption,
+} from './select.js';
+
+// Checkbox components
+export {
+  Checkbox,
+  CheckboxGroup,
+  type ToggleProps,
+  type CheckboxProps,
+  type CheckboxGroupProps,
+  type CheckboxGroupOrientation,
+  type ToggleChangeDetail,
+  type ToggleColorScheme,
+} from './checkbox.js';
+
+// Switch component
+export { Switch, type SwitchProps } from './switch.js';
+
+// Radio components
+export {
+  RadioGroup,
+  Radio,
+  SegmentedControl,
+  Segment,
+  type RadioGroupProps,
+  type RadioProps,
+  type SegmentedControlProps,
+  type GroupOrientation,
+  type SegmentedControlAppearance,
+  type ValueChangeDetail,
+} from './radio.js';
+
+// Slider components
+export {
+  Slider,
+  RangeSlider,
+  type SliderProps,
+  type RangeSliderProps,
+  type SliderChangeDetail,
+  type SliderFormatter,
+  type SliderMark,
+  type SliderOrientation,
+  type SliderTooltip,
+} from './slider.js';
+
+// Schema form component
+export {
+  SchemaForm,
+  type SchemaFormProps,
+  type JsonSchema,
+  type JsonSchemaType,
+  type UiSchema,
+  type UiOptions,
+  type SchemaWidget,
+  type SchemaValues,
+  type SchemaFormChangeDetail,
+  type SchemaFormSubmitDetail,
+  type SchemaFormInvalidDetail,
+} from './schema-form.js';
@@ -0,0 +1,69 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkMaskedInput as MonkMaskedInputWC,
+  type CardBrand,
+  type CardBrandChangeDetail,
+  type MaskPattern,
+  type MaskPresetName,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the MaskedInput component
+ */
+export interface MaskedInputProps extends TextInputProps {
+  /** Mask pattern, or several from shortest to longest */
+  maskPattern?: MaskPattern;
+  /** Prompt shown in the input while it is incomplete */
+  maskPrompt?: string;
+  /** Custom mask tokens */
+  maskTokens?: MonkMaskedInputWC['maskTokens'];
+  /** Insert the pattern's literal characters as soon as they are reached */
+  eager?: boolean;
+  /** Fill the pattern from the right */
+  reversed?: boolean;
+  /** Bundled format with its own pattern, prompt and validation */
+  preset?: MaskPresetName;
+  /** Submit the formatted value instead of the raw characters */
+  submitMasked?: boolean;
+  /** Fired when the detected card brand changes (credit-card preset) */
+  onCardBrandChange?: (event: CustomEvent<CardBrandChangeDetail>) => void;
+}
+
+/**
+ * MaskedInput component - Text input formatted by any mask pattern
+ *
+ * @example
+ * ```tsx
+ * <MaskedInput label="SSN" preset="ssn" validate />
+ *
+ * <MaskedInput
+ *   label="Card number"
+ *   preset="credit-card"
+ *   onCardBrandChange={(e) => setBrand(e.detail.brand?.id)}
+ * />
+ *
+ * <MaskedInput label="Expiry" maskPattern="##/##" maskPrompt="MM/YY" />
+ * ```
+ */
+export const MaskedInput = createComponent({
+  tagName: 'monk-masked-input',
+  elementClass: MonkMaskedInputWC,
+  react: React,
+  events: {
+    onCardBrandChange: 'card-brand-change' as EventName<CustomEvent>,
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type { CardBrand, CardBrandChangeDetail, MaskPattern, MaskPresetName };
@@ -0,0 +1,56 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkOtpInput as MonkOtpInputWC,
+  type OtpCompleteDetail,
+  type OtpMode,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the OtpInput component
+ */
+export interface OtpInputProps extends TextInputProps {
+  /** Number of characters in the code */
+  length?: number;
+  /** Characters the code may contain */
+  mode?: OtpMode;
+  /** Show entered characters as dots */
+  masked?: boolean;
+  /** Fired when the last cell is filled */
+  onOtpComplete?: (event: CustomEvent<OtpCompleteDetail>) => void;
+}
+
+/**
+ * OtpInput component - One-time code entry shown as a row of single-character cells
+ *
+ * @example
+ * ```tsx
+ * <OtpInput
+ *   label="Verification code"
+ *   name="code"
+ *   onOtpComplete={(e) => verify(e.detail.value)}
+ * />
+ *
+ * <OtpInput label="Recovery code" length={8} mode="alphanumeric" masked />
+ * ```
+ */
+export const OtpInput = createComponent({
+  tagName: 'monk-otp-input',
+  elementClass: MonkOtpInputWC,
+  react: React,
+  events: {
+    onOtpComplete: 'otp-complete' as EventName<CustomEvent>,
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type { OtpCompleteDetail, OtpMode };
@@ -0,0 +1,123 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkRadio as MonkRadioWC,
+  MonkRadioGroup as MonkRadioGroupWC,
+  MonkSegment as MonkSegmentWC,
+  MonkSegmentedControl as MonkSegmentedControlWC,
+  type ButtonColorScheme,
+  type GroupOrientation,
+  type SegmentedControlAppearance,
+  type ValueChangeDetail,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the RadioGroup component
+ */
+export interface RadioGroupProps extends TextInputProps {
+  /** Color scheme applied to every radio */
+  colorScheme?: ButtonColorScheme;
+  /** Layout direction */
+  orientation?: GroupOrientation;
+  /** Fired when the picked value changes */
+  onValueChange?: (event: CustomEvent<ValueChangeDetail>) => void;
+}
+
+/**
+ * Props for the SegmentedControl component
+ */
+export interface SegmentedControlProps extends Omit<RadioGroupProps, 'orientation'> {
+  /** How the picked segment stands out */
+  appearance?: SegmentedControlAppearance;
+  /** Stretch to the container width */
+  fullWidth?: boolean;
+}
+
+/**
+ * Props for the Radio and Segment components
+ */
+export interface RadioProps extends React.HTMLAttributes<HTMLElement> {
+  /** Value the group takes when this one is picked */
+  value?: string;
+  /** Label text, used when there are no children */
+  label?: string;
+  /** Whether it cannot be picked or focused */
+  disabled?: boolean;
+  /** Label content */
+  children?: React.ReactNode;
+}
+
+const groupEvents = {
+  onValueChange: 'value-change' as EventName<CustomEvent>,
+  onInputChange: 'input-change' as EventName<CustomEvent>,
+  onInputChanged: 'input-changed' as EventName<CustomEvent>,
+  onInputFocus: 'input-focus' as EventName<CustomEvent>,
+  onInputBlur: 'input-blur' as EventName<CustomEvent>,
+  onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+  onInputValid: 'input-valid' as EventName<CustomEvent>,
+  onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+};
+
+/**
+ * RadioGroup component - Picks exactly one value from a set of radios
+ *
+ * @example
+ * ```tsx
+ * <RadioGroup
+ *   label="Plan"
+ *   name="plan"
+ *   value={plan}
+ *   required
+ *   onValueChange={(e) => setPlan(e.detail.value)}
+ * >
+ *   <Radio value="free">Free</Radio>
+ *   <Radio value="pro">Pro</Radio>
+ * </RadioGroup>
+ * ```
+ */
+export const RadioGroup = createComponent({
+  tagName: 'monk-radio-group',
+  elementClass: MonkRadioGroupWC,
+  react: React,
+  events: groupEvents,
+});
+
+/**
+ * Radio component - One choice of a RadioGroup
+ */
+export const Radio = createComponent({
+  tagName: 'monk-radio',
+  elementClass: MonkRadioWC,
+  react: React,
+});
+
+/**
+ * SegmentedControl component - Radio group shown as a row of joined buttons
+ *
+ * @example
+ * ```tsx
+ * <SegmentedControl label="View" value={view} onValueChange={(e) => setView(e.detail.value)}>
+ *   <Segment value="list">List</Segment>
+ *   <Segment value="grid">Grid</Segment>
+ * </SegmentedControl>
+ * ```
+ */
+export const SegmentedControl = createComponent({
+  tagName: 'monk-segmented-control',
+  elementClass: MonkSegmentedControlWC,
+  react: React,
+  events: groupEvents,
+});
+
+/**
+ * Segment component - One choice of a SegmentedControl
+ */
+export const Segment = createComponent({
+  tagName: 'monk-segment',
+  elementClass: MonkSegmentWC,
+  react: React,
+});
+
+// Re-export types
+export type { GroupOrientation, SegmentedControlAppearance, ValueChangeDetail };
@@ -0,0 +1,94 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkSchemaForm as MonkSchemaFormWC,
+  type FormErrors,
+  type JsonSchema,
+  type JsonSchemaType,
+  type SchemaFormChangeDetail,
+  type SchemaFormInvalidDetail,
+  type SchemaFormSubmitDetail,
+  type SchemaValues,
+  type SchemaWidget,
+  type UiOptions,
+  type UiSchema,
+} from '@monkbunch/design-kit';
+
+/**
+ * Props for the SchemaForm component
+ */
+export interface SchemaFormProps extends React.HTMLAttributes<HTMLElement> {
+  /** JSON Schema of the values; the root must be an object */
+  schema: JsonSchema;
+  /** Presentation options keyed like the schema's properties (`ui:widget`, `ui:order`, ...) */
+  uiSchema?: UiSchema;
+  /**
+   * Values the form starts with and returns to on reset
+   * Passing equal values on a later render keeps what the user typed.
+   */
+  initialValues?: SchemaValues;
+  /** Skip validation on submit */
+  novalidate?: boolean;
+  /** Disable every field and the add/remove buttons */
+  disabled?: boolean;
+  /** Content after the fields, e.g. submit and reset buttons */
+  children?: React.ReactNode;
+  /** Fired when a value changes or an array row is added or removed */
+  onFormChange?: (event: CustomEvent<SchemaFormChangeDetail>) => void;
+  /** Fired with typed values when all fields are valid on submit */
+  onFormSubmit?: (event: CustomEvent<SchemaFormSubmitDetail>) => void;
+  /** Fired with errors keyed by field path when fields are invalid on submit */
+  onFormInvalid?: (event: CustomEvent<SchemaFormInvalidDetail>) => void;
+  /** Fired after the form has been reset */
+  onFormReset?: (event: CustomEvent) => void;
+}
+
+/**
+ * SchemaForm component - Renders monk inputs for a JSON Schema and emits typed values
+ *
+ * @example
+ * ```tsx
+ * <SchemaForm
+ *   schema={{
+ *     type: 'object',
+ *     required: ['email'],
+ *     properties: {
+ *       email: { type: 'string', format: 'email' },
+ *       age: { type: 'integer', minimum: 18 },
+ *       tags: { type: 'array', items: { type: 'string' } },
+ *     },
+ *   }}
+ *   uiSchema={{ tags: { 'ui:widget': 'tags' } }}
+ *   initialValues={{ tags: ['react'] }}
+ *   onFormSubmit={(e) => save(e.detail.values)}
+ *   onFormInvalid={(e) => console.log(e.detail.errors)}
+ * >
+ *   <Button type="submit">Save</Button>
+ * </SchemaForm>
+ * ```
+ */
+export const SchemaForm = createComponent({
+  tagName: 'monk-schema-form',
+  elementClass: MonkSchemaFormWC,
+  react: React,
+  events: {
+    onFormChange: 'form-change' as EventName<CustomEvent>,
+    onFormSubmit: 'form-submit' as EventName<CustomEvent>,
+    onFormInvalid: 'form-invalid' as EventName<CustomEvent>,
+    onFormReset: 'form-reset' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type {
+  FormErrors,
+  JsonSchema,
+  JsonSchemaType,
+  SchemaFormChangeDetail,
+  SchemaFormInvalidDetail,
+  SchemaFormSubmitDetail,
+  SchemaValues,
+  SchemaWidget,
+  UiOptions,
+  UiSchema,
+};
@@ -0,0 +1,104 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkSelect as MonkSelectWC,
+  MonkOption as MonkOptionWC,
+  MonkOptionGroup as MonkOptionGroupWC,
+  type SelectOption,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the Select component
+ */
+export interface SelectProps extends TextInputProps {
+  /** Options as data; takes precedence over Option children */
+  options?: SelectOption[];
+  /** Allow picking several options; the value is a comma-separated list */
+  multiple?: boolean;
+  /** Type in the field to filter the options */
+  searchable?: boolean;
+}
+
+/**
+ * Props for the Option component
+ */
+export interface OptionProps extends React.HTMLAttributes<HTMLElement> {
+  /** Value submitted with the form; defaults to the label */
+  value?: string;
+  /** Text shown in the list; defaults to the children */
+  label?: string;
+  /** Whether the option cannot be picked */
+  disabled?: boolean;
+  /** Option text */
+  children?: React.ReactNode;
+}
+
+/**
+ * Props for the OptionGroup component
+ */
+export interface OptionGroupProps extends React.HTMLAttributes<HTMLElement> {
+  /** Group heading */
+  label: string;
+  /** Whether all options in the group cannot be picked */
+  disabled?: boolean;
+  /** Option elements */
+  children?: React.ReactNode;
+}
+
+/**
+ * Select component - Single or multiple choice from a listbox popover
+ *
+ * @example
+ * ```tsx
+ * <Select label="Country" name="country" placeholder="Choose a country">
+ *   <Option value="nl">Netherlands</Option>
+ *   <Option value="be">Belgium</Option>
+ * </Select>
+ *
+ * <Select label="Toppings" multiple searchable onInputChange={(e) => setToppings(e.detail.value)}>
+ *   <OptionGroup label="Cheese">
+ *     <Option value="mozzarella">Mozzarella</Option>
+ *   </OptionGroup>
+ * </Select>
+ *
+ * // Thousands of options
+ * <Select label="Airport" searchable options={airports} />
+ * ```
+ */
+export const Select = createComponent({
+  tagName: 'monk-select',
+  elementClass: MonkSelectWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+/**
+ * Option component - One choice of a Select
+ */
+export const Option = createComponent({
+  tagName: 'monk-option',
+  elementClass: MonkOptionWC,
+  react: React,
+});
+
+/**
+ * OptionGroup component - Groups Option elements under a heading
+ */
+export const OptionGroup = createComponent({
+  tagName: 'monk-option-group',
+  elementClass: MonkOptionGroupWC,
+  react: React,
+});
+
+// Re-export types
+export type { SelectOption };
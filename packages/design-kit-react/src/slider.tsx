@@ -0,0 +1,102 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkSlider as MonkSliderWC,
+  MonkRangeSlider as MonkRangeSliderWC,
+  type SliderChangeDetail,
+  type SliderFormatter,
+  type SliderMark,
+  type SliderOrientation,
+  type SliderTooltip,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the Slider component
+ */
+export interface SliderProps extends Omit<TextInputProps, 'onInputChange' | 'onInputChanged'> {
+  /** Direction of the track */
+  orientation?: SliderOrientation;
+  /** When to show the value tooltip */
+  tooltip?: SliderTooltip;
+  /** Draw a tick every this many units */
+  tickInterval?: number;
+  /** Label the interval ticks with their formatted value */
+  tickLabels?: boolean;
+  /** Extra ticks, optionally labelled */
+  marks?: SliderMark[];
+  /** Formats values for the tooltip, tick labels and screen readers */
+  formatter?: SliderFormatter;
+  /** Fired while the value changes */
+  onInputChange?: (event: CustomEvent<SliderChangeDetail>) => void;
+  /** Fired when a change is committed */
+  onInputChanged?: (event: CustomEvent<SliderChangeDetail>) => void;
+}
+
+/**
+ * Props for the RangeSlider component
+ */
+export interface RangeSliderProps extends SliderProps {
+  /** Accessible name of the lower thumb */
+  lowerLabel?: string;
+  /** Accessible name of the upper thumb */
+  upperLabel?: string;
+}
+
+const sliderEvents = {
+  onInputChange: 'input-change' as EventName<CustomEvent>,
+  onInputChanged: 'input-changed' as EventName<CustomEvent>,
+  onInputFocus: 'input-focus' as EventName<CustomEvent>,
+  onInputBlur: 'input-blur' as EventName<CustomEvent>,
+  onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+  onInputValid: 'input-valid' as EventName<CustomEvent>,
+  onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+};
+
+/**
+ * Slider component - Picks a number from a range by dragging a thumb
+ *
+ * @example
+ * ```tsx
+ * <Slider
+ *   label="Session length"
+ *   min="5"
+ *   max="60"
+ *   step="5"
+ *   tickInterval={15}
+ *   tickLabels
+ *   formatter={(value) => `${value} min`}
+ *   onInputChange={(e) => setMinutes(e.detail.values[0])}
+ * />
+ * ```
+ */
+export const Slider = createComponent({
+  tagName: 'monk-slider',
+  elementClass: MonkSliderWC,
+  react: React,
+  events: sliderEvents,
+});
+
+/**
+ * RangeSlider component - Picks a lower and an upper bound with two thumbs
+ *
+ * @example
+ * ```tsx
+ * <RangeSlider
+ *   label="Price"
+ *   name="price"
+ *   max="500"
+ *   value={`${low},${high}`}
+ *   onInputChange={(e) => setRange(e.detail.values)}
+ * />
+ * ```
+ */
+export const RangeSlider = createComponent({
+  tagName: 'monk-range-slider',
+  elementClass: MonkRangeSliderWC,
+  react: React,
+  events: sliderEvents,
+});
+
+// Re-export types
+export type { SliderChangeDetail, SliderFormatter, SliderMark, SliderOrientation, SliderTooltip };
@@ -0,0 +1,36 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import { MonkSwitch as MonkSwitchWC } from '@monkbunch/design-kit';
+import type { ToggleProps } from './checkbox.js';
+
+/**
+ * Switch component - On/off toggle for settings that apply immediately
+ *
+ * @example
+ * ```tsx
+ * <Switch
+ *   name="notifications"
+ *   checked={enabled}
+ *   onInputChange={(e) => setEnabled(e.detail.checked)}
+ * >
+ *   Email notifications
+ * </Switch>
+ * ```
+ */
+export const Switch = createComponent({
+  tagName: 'monk-switch',
+  elementClass: MonkSwitchWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Switch uses the same props as Checkbox, without the indeterminate state
+export type SwitchProps = ToggleProps;
@@ -0,0 +1,70 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkTagInput as MonkTagInputWC,
+  type TagChangeDetail,
+  type TagRejectDetail,
+  type TagRejectReason,
+  type ValidatorFn,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the TagInput component
+ */
+export interface TagInputProps extends TextInputProps {
+  /** The tags */
+  tags?: string[];
+  /** Characters that end a tag as they are typed or pasted, besides Enter */
+  delimiters?: string;
+  /** Most tags allowed */
+  maxTags?: number;
+  /** Pipe-separated named rules every tag must pass, e.g. "email" */
+  tagRules?: string;
+  /** Validators every tag must pass */
+  tagValidators?: ValidatorFn[];
+  /** Fired when a tag is added */
+  onTagAdd?: (event: CustomEvent<TagChangeDetail>) => void;
+  /** Fired when a tag is removed */
+  onTagRemove?: (event: CustomEvent<TagChangeDetail>) => void;
+  /** Fired when a tag is a duplicate or over maxTags */
+  onTagReject?: (event: CustomEvent<TagRejectDetail>) => void;
+}
+
+/**
+ * TagInput component - Free-form entry of several values shown as chips
+ *
+ * @example
+ * ```tsx
+ * <TagInput
+ *   label="Invite"
+ *   name="emails"
+ *   tagRules="email"
+ *   maxTags={10}
+ *   validate
+ *   onInputChange={(e) => setEmails(e.target.tags)}
+ * />
+ * ```
+ */
+export const TagInput = createComponent({
+  tagName: 'monk-tag-input',
+  elementClass: MonkTagInputWC,
+  react: React,
+  events: {
+    onTagAdd: 'tag-add' as EventName<CustomEvent>,
+    onTagRemove: 'tag-remove' as EventName<CustomEvent>,
+    onTagReject: 'tag-reject' as EventName<CustomEvent>,
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+// Re-export types
+export type { TagChangeDetail, TagRejectDetail, TagRejectReason };
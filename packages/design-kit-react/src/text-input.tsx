@@ -4,6 +4,8 @@ import {
   MonkTextInput as MonkTextInputWC,
   type InputSize,
   type InputVariant,
+  type ErrorDisplay,
+  type ValidationResult,
 } from '@monkbunch/design-kit';
 
 /**
@@ -40,6 +42,34 @@ export interface TextInputProps extends Omit<React.HTMLAttributes<HTMLElement>,
   maxlength?: number;
   /** Whether to show character count */
   showCount?: boolean;
+  /** Enable automatic validation */
+  validate?: boolean;
+  /** Regular expression the whole value must match */
+  pattern?: string;
+  /** Minimum number of characters */
+  minlength?: number;
+  /** Minimum numeric value */
+  minValue?: number;
+  /** Maximum numeric value */
+  maxValue?: number;
+  /** Selector of another input whose value this one must equal */
+  match?: string;
+  /** Pipe-separated named rules, e.g. "required|email|minLength:5" */
+  rules?: string;
+  /** Which validator failures to show: the first, or all of them */
+  errorDisplay?: ErrorDisplay;
+  /** Delay in milliseconds before async validators run while typing */
+  validationDebounce?: number;
+  /** Whether async validation is in progress (shows a spinner) */
+  pending?: boolean;
+  /** Show a clear button while the input has a value */
+  clearable?: boolean;
+  /** Whether the input is loading (shows a spinner) */
+  loading?: boolean;
+  /** Icon shown before the input */
+  leadingIcon?: string;
+  /** Icon shown after the input */
+  trailingIcon?: string;
   /** Hidden state */
   hidden?: boolean;
   /** Children content (for slots) */
@@ -54,6 +84,16 @@ export interface TextInputProps extends Omit<React.HTMLAttributes<HTMLElement>,
   onInputBlur?: (event: CustomEvent<{ originalEvent: FocusEvent }>) => void;
   /** Keydown handler */
   onInputKeydown?: (event: CustomEvent<{ key: string; originalEvent: KeyboardEvent }>) => void;
+  /** Clear button handler, with the value it removed */
+  onInputClear?: (event: CustomEvent<{ previousValue: string }>) => void;
+  /** Async validation started handler (the element's `pending` is true until valid/invalid fires) */
+  onInputValidating?: (event: CustomEvent<{ value: string }>) => void;
+  /** Validation succeeded handler */
+  onInputValid?: (event: CustomEvent<{ value: string }>) => void;
+  /** Validation failed handler */
+  onInputInvalid?: (
+    event: CustomEvent<{ value: string; message: string; errors: ValidationResult[] }>
+  ) => void;
 }
 
 /**
@@ -83,6 +123,15 @@ export interface TextInputProps extends Omit<React.HTMLAttributes<HTMLElement>,
  *   <span slot="suffix">.com</span>
  * </TextInput>
  *
+ * // Clearable, with an icon and loading spinner
+ * <TextInput
+ *   label="City"
+ *   leadingIcon="🔍"
+ *   clearable
+ *   loading={isFetching}
+ *   onInputClear={() => setQuery('')}
+ * />
+ *
  * // With character count
  * <TextInput
  *   label="Bio"
@@ -95,6 +144,15 @@ export interface TextInputProps extends Omit<React.HTMLAttributes<HTMLElement>,
  *   label="Search"
  *   onInputChange={(e) => console.log(e.detail.value)}
  * />
+ *
+ * // Tracking async validation
+ * <TextInput
+ *   label="Username"
+ *   validationDebounce={500}
+ *   onInputValidating={() => setChecking(true)}
+ *   onInputValid={() => setChecking(false)}
+ *   onInputInvalid={() => setChecking(false)}
+ * />
  * ```
  */
 export const TextInput = createComponent({
@@ -107,8 +165,12 @@ export const TextInput = createComponent({
     onInputFocus: 'input-focus' as EventName<CustomEvent>,
     onInputBlur: 'input-blur' as EventName<CustomEvent>,
     onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
   },
 });
 
 // Re-export types
-export type { InputSize, InputVariant };
+export type { InputSize, InputVariant, ErrorDisplay, ValidationResult };
@@ -0,0 +1,49 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import { MonkTextarea as MonkTextareaWC, type TextareaResize } from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the Textarea component
+ */
+export interface TextareaProps extends TextInputProps {
+  /** Visible text lines when not auto-growing */
+  rows?: number;
+  /** Fewest lines while auto-growing; defaults to rows */
+  minRows?: number;
+  /** Most lines while auto-growing, after which the textarea scrolls */
+  maxRows?: number;
+  /** Resize handle direction */
+  resize?: TextareaResize;
+}
+
+/**
+ * Textarea component - Multi-line text field
+ *
+ * @example
+ * ```tsx
+ * <Textarea label="Notes" rows={4} />
+ *
+ * <Textarea label="Message" minRows={2} maxRows={8} resize="none" />
+ *
+ * <Textarea label="Bio" maxlength={280} showCount />
+ * ```
+ */
+export const Textarea = createComponent({
+  tagName: 'monk-textarea',
+  elementClass: MonkTextareaWC,
+  react: React,
+  events: {
+    onInputChange: 'input-change' as EventName<CustomEvent>,
+    onInputChanged: 'input-changed' as EventName<CustomEvent>,
+    onInputFocus: 'input-focus' as EventName<CustomEvent>,
+    onInputBlur: 'input-blur' as EventName<CustomEvent>,
+    onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+    onInputClear: 'input-clear' as EventName<CustomEvent>,
+    onInputValidating: 'input-validating' as EventName<CustomEvent>,
+    onInputValid: 'input-valid' as EventName<CustomEvent>,
+    onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+  },
+});
+
+export type { TextareaResize };
@@ -0,0 +1,97 @@
+import * as React from 'react';
+import { createComponent, EventName } from '@lit/react';
+import {
+  MonkTimeInput as MonkTimeInputWC,
+  MonkDateTimeInput as MonkDateTimeInputWC,
+  type DayPeriod,
+  type HourCycle,
+  type TimeZoneChangeDetail,
+} from '@monkbunch/design-kit';
+import type { TextInputProps } from './text-input.js';
+
+/**
+ * Props for the TimeInput component
+ */
+export interface TimeInputProps extends TextInputProps {
+  /** BCP 47 locale that picks the 12- or 24-hour clock */
+  locale?: string;
+  /** Clock to show, overriding the locale */
+  hourCycle?: HourCycle;
+  /** Minutes between allowed times */
+  minuteStep?: number;
+  /** Half of the day on a 12-hour clock */
+  period?: DayPeriod;
+}
+
+/**
+ * Props for the DateTimeInput component
+ */
+export interface DateTimeInputProps extends TimeInputProps {
+  /** Show a button that opens a calendar popover */
+  calendar?: boolean;
+  /** Return true for dates that cannot be picked or entered (given as YYYY-MM-DD) */
+  isDateDisabled?: (date: string) => boolean;
+  /** IANA time zone of the entered date and time */
+  timeZone?: string;
+  /** Time zones offered in the selector */
+  timeZones?: string[];
+  /** Fired when the user picks a time zone */
+  onTimezoneChange?: (event: CustomEvent<TimeZoneChangeDetail>) => void;
+}
+
+const inputEvents = {
+  onInputChange: 'input-change' as EventName<CustomEvent>,
+  onInputChanged: 'input-changed' as EventName<CustomEvent>,
+  onInputFocus: 'input-focus' as EventName<CustomEvent>,
+  onInputBlur: 'input-blur' as EventName<CustomEvent>,
+  onInputKeydown: 'input-keydown' as EventName<CustomEvent>,
+  onInputClear: 'input-clear' as EventName<CustomEvent>,
+  onInputValidating: 'input-validating' as EventName<CustomEvent>,
+  onInputValid: 'input-valid' as EventName<CustomEvent>,
+  onInputInvalid: 'input-invalid' as EventName<CustomEvent>,
+};
+
+/**
+ * TimeInput component - Time of day on a 12-hour (AM/PM) or 24-hour clock
+ *
+ * @example
+ * ```tsx
+ * <TimeInput
+ *   label="Start time"
+ *   minuteStep={15}
+ *   onInputChanged={(e) => setStart(e.target.getApiValue())}
+ * />
+ * ```
+ */
+export const TimeInput = createComponent({
+  tagName: 'monk-time-input',
+  elementClass: MonkTimeInputWC,
+  react: React,
+  events: inputEvents,
+});
+
+/**
+ * DateTimeInput component - Date and time with a time zone, submitted as ISO 8601 with offset
+ *
+ * @example
+ * ```tsx
+ * <DateTimeInput
+ *   label="Appointment"
+ *   timeZone="Europe/Paris"
+ *   calendar
+ *   onInputChanged={(e) => setStartsAt(e.target.getApiValue())}
+ * />
+ * ```
+ */
+export const DateTimeInput = createComponent({
+  tagName: 'monk-datetime-input',
+  elementClass: MonkDateTimeInputWC,
+  react: React,
+  events: {
+    onTimezoneChange: 'timezone-change' as EventName<CustomEvent>,
+    ...inputEvents,
+  },
+});
+
+// Re-export types
+export type { DayPeriod, HourCycle, TimeZoneChangeDetail };
@@ -0,0 +1,161 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkCalendar } from './calendar.js';
+import { todayIso } from '../input/date-utils.js';
+
+const cell = (element: MonkCalendar, date: string): HTMLElement | null | undefined =>
+  element.shadowRoot?.querySelector<HTMLElement>(`[data-date="${date}"]`);
+
+const press = async (element: MonkCalendar, key: string, shiftKey = false): Promise<void> => {
+  const grid = element.shadowRoot?.querySelector('[role="grid"]') as HTMLElement;
+  grid.dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey, bubbles: true }));
+  await element.updateComplete;
+};
+
+describe('MonkCalendar', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-calendar');
+    expect(element).to.be.instanceOf(MonkCalendar);
+  });
+
+  it('should start on today when no value is set', async () => {
+    const element = await fixture<MonkCalendar>(html`<monk-calendar></monk-calendar>`);
+
+    expect(element.activeDate).to.equal(todayIso());
+    expect(cell(element, todayIso())?.getAttribute('aria-current')).to.equal('date');
+  });
+
+  it('should show the month of the selected date', async () => {
+    const element = await fixture<MonkCalendar>(html`
+      <monk-calendar value="2024-02-14" locale="en-US"></monk-calendar>
+    `);
+
+    const title = element.shadowRoot?.querySelector('h2');
+    expect(title?.textContent).to.equal('February 2024');
+    expect(element.shadowRoot?.querySelectorAll('[data-date]').length).to.equal(29);
+    expect(cell(element, '2024-02-14')?.getAttribute('aria-selected')).to.equal('true');
+  });
+
+  describe('Accessibility', () => {
+    it('should label the grid with the month heading', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14"></monk-calendar>
+      `);
+
+      const grid = element.shadowRoot?.querySelector('[role="grid"]');
+      expect(grid?.getAttribute('aria-labelledby')).to.equal('title-2024-2');
+      expect(element.shadowRoot?.getElementById('title-2024-2')).to.exist;
+    });
+
+    it('should use a roving tabindex', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14"></monk-calendar>
+      `);
+
+      const focusable = element.shadowRoot?.querySelectorAll('[data-date][tabindex="0"]');
+      expect(focusable?.length).to.equal(1);
+      expect(focusable?.[0].getAttribute('data-date')).to.equal('2024-02-14');
+    });
+
+    it('should start the week on the locale first day', async () => {
+      const us = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" locale="en-US"></monk-calendar>
+      `);
+      const gb = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" locale="en-GB"></monk-calendar>
+      `);
+
+      expect(us.shadowRoot?.querySelector('th')?.getAttribute('abbr')).to.equal('Sunday');
+      expect(gb.shadowRoot?.querySelector('th')?.getAttribute('abbr')).to.equal('Monday');
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    it('should move by day and week with arrow keys', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14"></monk-calendar>
+      `);
+
+      await press(element, 'ArrowRight');
+      expect(element.activeDate).to.equal('2024-02-15');
+
+      await press(element, 'ArrowDown');
+      expect(element.activeDate).to.equal('2024-02-22');
+
+      await press(element, 'ArrowUp');
+      await press(element, 'ArrowLeft');
+      expect(element.activeDate).to.equal('2024-02-14');
+    });
+
+    it('should move to the start and end of the week with Home and End', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" locale="en-US"></monk-calendar>
+      `);
+
+      await press(element, 'Home');
+      expect(element.activeDate).to.equal('2024-02-11');
+
+      await press(element, 'End');
+      expect(element.activeDate).to.equal('2024-02-17');
+    });
+
+    it('should change month with Page Up/Down and year with Shift', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-01-31"></monk-calendar>
+      `);
+
+      await press(element, 'PageDown');
+      expect(element.activeDate).to.equal('2024-02-29');
+
+      await press(element, 'PageUp', true);
+      expect(element.activeDate).to.equal('2023-02-28');
+    });
+
+    it('should select the active date with Enter', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14"></monk-calendar>
+      `);
+
+      await press(element, 'ArrowRight');
+      setTimeout(() => press(element, 'Enter'));
+      const event = await oneEvent(element, 'date-select');
+
+      expect(event.detail.value).to.equal('2024-02-15');
+      expect(element.value).to.equal('2024-02-15');
+    });
+  });
+
+  describe('Constraints', () => {
+    it('should not select dates outside min and max', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" min="2024-02-10" max="2024-02-20"></monk-calendar>
+      `);
+
+      expect(element.isSelectable('2024-02-09')).to.be.false;
+      expect(element.isSelectable('2024-02-21')).to.be.false;
+      expect(cell(element, '2024-02-09')?.getAttribute('aria-disabled')).to.equal('true');
+
+      cell(element, '2024-02-09')?.click();
+      expect(element.value).to.equal('2024-02-14');
+    });
+
+    it('should not select disabled dates', async () => {
+      const weekends = (date: string): boolean => [0, 6].includes(new Date(date).getUTCDay());
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" .isDateDisabled=${weekends}></monk-calendar>
+      `);
+
+      expect(element.isSelectable('2024-02-17')).to.be.false;
+      expect(element.isSelectable('2024-02-16')).to.be.true;
+    });
+
+    it('should disable month navigation past min and max', async () => {
+      const element = await fixture<MonkCalendar>(html`
+        <monk-calendar value="2024-02-14" min="2024-02-01" max="2024-02-29"></monk-calendar>
+      `);
+
+      const buttons = element.shadowRoot?.querySelectorAll<HTMLButtonElement>('.nav-button');
+      expect(buttons?.[0].disabled).to.be.true;
+      expect(buttons?.[1].disabled).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './calendar.js';
+import './range-calendar.js';
+
+const meta: Meta = {
+  title: 'Components/Calendar',
+  component: 'monk-calendar',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Calendar component renders a keyboard-navigable month grid. It is used by
+\`monk-date-input\` for its calendar popover and can be used on its own.
+
+## Features
+
+- WAI-ARIA date picker grid with a roving tabindex
+- Arrow keys, Home/End, Page Up/Down (Shift for years), Enter/Space to select
+- \`min\`/\`max\` bounds and an \`isDateDisabled\` callback
+- Locale month and weekday names and first day of the week
+- Emits \`date-select\` with an ISO date (YYYY-MM-DD)
+
+## Usage
+
+\`\`\`html
+<monk-calendar value="2024-01-15"></monk-calendar>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`<monk-calendar></monk-calendar>`,
+};
+
+export const WithValue: Story = {
+  render: () => html`<monk-calendar value="2024-02-14"></monk-calendar>`,
+};
+
+export const MinMax: Story = {
+  render: () => html`
+    <monk-calendar value="2024-02-14" min="2024-02-05" max="2024-02-23"></monk-calendar>
+  `,
+};
+
+export const DisabledWeekends: Story = {
+  render: () => html`
+    <monk-calendar
+      value="2024-02-14"
+      .isDateDisabled=${(date: string) => [0, 6].includes(new Date(date).getUTCDay())}
+    ></monk-calendar>
+  `,
+};
+
+export const Locales: Story = {
+  render: () => html`
+    <div style="display: flex; gap: 2rem; flex-wrap: wrap;">
+      <monk-calendar value="2024-02-14" locale="en-US"></monk-calendar>
+      <monk-calendar value="2024-02-14" locale="de-DE"></monk-calendar>
+      <monk-calendar value="2024-02-14" locale="ja-JP"></monk-calendar>
+    </div>
+  `,
+};
+
+export const RangeCalendar: Story = {
+  render: () => html`
+    <monk-range-calendar start="2024-02-12" end="2024-02-18" max-span="31"></monk-range-calendar>
+  `,
+};
@@ -0,0 +1,479 @@
+import {
+  html,
+  css,
+  nothing,
+  type CSSResultArray,
+  type PropertyValues,
+  type TemplateResult,
+} from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+import { coreStyles, reducedMotionStyles } from '../../core/styles.js';
+import {
+  addDays,
+  addMonths,
+  clampDate,
+  daysInMonth,
+  parseIsoDate,
+  todayIso,
+  toIsoDate,
+} from '../input/date-utils.js';
+
+/**
+ * Detail of the `date-select` event
+ */
+export interface CalendarSelectDetail {
+  /** Selected date (YYYY-MM-DD) */
+  value: string;
+}
+
+/**
+ * Calendar component - Keyboard-navigable month grid
+ * Follows the WAI-ARIA date picker dialog pattern for the grid itself; monk-date-input
+ * wraps it in a popover.
+ *
+ * @element monk-calendar
+ *
+ * @example
+ * ```html
+ * <monk-calendar
+ *   value="2024-01-15"
+ *   min="2024-01-01"
+ *   .isDateDisabled=${(date) => new Date(date).getDay() === 0}
+ *   @date-select=${(e) => console.log(e.detail.value)}
+ * ></monk-calendar>
+ * ```
+ *
+ * @accessibility
+ * - Grid uses `role="grid"`, labelled by the month heading, which is announced on change
+ * - Arrow keys move by day/week, Home/End to the start/end of the week
+ * - Page Up/Down change month, Shift+Page Up/Down change year
+ * - Enter or Space selects the focused date; disabled dates are focusable but not selectable
+ * - Today is marked with `aria-current="date"`, the selected date with `aria-selected`
+ *
+ * @fires date-select - Fired when a date is picked, detail: `{ value }`
+ *
+ * @csspart header - Month heading and navigation buttons
+ * @csspart nav-button - Previous/next month buttons
+ * @csspart grid - The month table
+ * @csspart day - Each day cell
+ */
+@customElement('monk-calendar')
+export class MonkCalendar extends MonkBaseElement {
+  /**
+   * Selected date (YYYY-MM-DD)
+   */
+  @property({ type: String, reflect: true })
+  value?: string;
+
+  /**
+   * Earliest selectable date (YYYY-MM-DD)
+   */
+  @property({ type: String })
+  min?: string;
+
+  /**
+   * Latest selectable date (YYYY-MM-DD)
+   */
+  @property({ type: String })
+  max?: string;
+
+  /**
+   * BCP 47 locale for month and weekday names and the first day of the week
+   */
+  @property({ type: String })
+  locale?: string;
+
+  /**
+   * Return true for dates that cannot be selected (e.g. weekends, holidays)
+   */
+  @property({ attribute: false })
+  isDateDisabled?: (date: string) => boolean;
+
+  /**
+   * Date that holds keyboard focus in the grid (YYYY-MM-DD)
+   * Defaults to the selected date, or today within min/max
+   */
+  @property({ type: String, attribute: 'active-date' })
+  activeDate = '';
+
+  static override styles: CSSResultArray = [
+    coreStyles,
+    reducedMotionStyles,
+    css`
+      :host {
+        display: inline-block;
+        font-family: var(--monk-font-family-base);
+        font-size: var(--monk-font-size-sm);
+        color: var(--monk-color-text-primary);
+      }
+
+      .header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: var(--monk-space-2);
+        margin-bottom: var(--monk-space-2);
+      }
+
+      .title {
+        margin: 0;
+        font-size: var(--monk-font-size-md);
+        font-weight: var(--monk-font-weight-semibold);
+      }
+
+      .nav-button {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        width: 2rem;
+        height: 2rem;
+        padding: 0;
+        border: none;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-lg);
+        cursor: pointer;
+      }
+
+      .nav-spacer {
+        width: 2rem;
+      }
+
+      .nav-button:hover:not(:disabled) {
+        background-color: var(--monk-color-bg-hover);
+        color: var(--monk-color-text-primary);
+      }
+
+      .nav-button:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+
+      table {
+        border-collapse: collapse;
+      }
+
+      th {
+        width: 2.25rem;
+        height: 2rem;
+        font-weight: var(--monk-font-weight-medium);
+        color: var(--monk-color-text-secondary);
+      }
+
+      td {
+        padding: 0;
+        text-align: center;
+      }
+
+      .day {
+        width: 2.25rem;
+        height: 2.25rem;
+        border-radius: var(--monk-radius-sm);
+        cursor: pointer;
+        transition: background-color 150ms ease-in-out;
+      }
+
+      .day:hover:not(.disabled):not(.selected) {
+        background-color: var(--monk-color-bg-hover);
+      }
+
+      .day.today {
+        font-weight: var(--monk-font-weight-bold);
+        color: var(--monk-color-text-link);
+      }
+
+      .day.selected {
+        background-color: var(--monk-color-bg-primary);
+        color: var(--monk-color-text-on-primary);
+      }
+
+      .day.disabled {
+        color: var(--monk-color-text-tertiary);
+        text-decoration: line-through;
+        cursor: not-allowed;
+      }
+
+      .day:focus-visible,
+      .nav-button:focus-visible {
+        outline: var(--monk-focus-ring-width) solid var(--monk-focus-ring-color);
+        outline-offset: 1px;
+      }
+    `,
+  ];
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Follow the selected date, or start on today when nothing is selected
+    if (changedProperties.has('value') && this.value && parseIsoDate(this.value)) {
+      this.activeDate = this.value;
+    }
+    if (!parseIsoDate(this.activeDate)) {
+      this.activeDate = clampDate(todayIso(), this.min, this.max);
+    }
+  }
+
+  /**
+   * Move focus to the active date in the grid
+   */
+  override focus(options?: FocusOptions): void {
+    this.activeCell?.focus(options);
+  }
+
+  /**
+   * Whether a date can be selected
+   */
+  public isSelectable(date: string): boolean {
+    if (this.min && date < this.min) return false;
+    if (this.max && date > this.max) return false;
+    return !this.isDateDisabled?.(date);
+  }
+
+  private get activeCell(): HTMLElement | null {
+    return this.renderRoot.querySelector<HTMLElement>(`[data-date="${this.activeDate}"]`);
+  }
+
+  /**
+   * Move the active date and keep focus on it after re-rendering
+   */
+  private async moveTo(date: string): Promise<void> {
+    this.activeDate = date;
+    await this.updateComplete;
+    this.focus();
+  }
+
+  /**
+   * Whether a date is shown as selected
+   */
+  protected isSelected(date: string): boolean {
+    return date === this.value;
+  }
+
+  /**
+   * Pick a date (from a click, Enter or Space)
+   */
+  protected select(date: string): void {
+    if (!this.isSelectable(date)) return;
+
+    this.value = date;
+    this.activeDate = date;
+    this.emitEvent<CalendarSelectDetail>('date-select', { value: date });
+  }
+
+  /**
+   * Show an earlier or later month (from the navigation buttons)
+   */
+  protected showMonth(offset: number): void {
+    this.activeDate = addMonths(this.activeDate, offset);
+  }
+
+  private _handleGridKeydown(event: KeyboardEvent): void {
+    const date = this.activeDate;
+    const weekday = this.weekdayIndex(date);
+
+    const targets: Record<string, () => string> = {
+      ArrowLeft: () => addDays(date, -1),
+      ArrowRight: () => addDays(date, 1),
+      ArrowUp: () => addDays(date, -7),
+      ArrowDown: () => addDays(date, 7),
+      Home: () => addDays(date, -weekday),
+      End: () => addDays(date, 6 - weekday),
+      PageUp: () => addMonths(date, event.shiftKey ? -12 : -1),
+      PageDown: () => addMonths(date, event.shiftKey ? 12 : 1),
+    };
+
+    if (event.key in targets) {
+      event.preventDefault();
+      this.moveTo(targets[event.key]());
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.select(date);
+    }
+  }
+
+  private _handleGridClick(event: MouseEvent): void {
+    const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-date]');
+    if (cell?.dataset.date) {
+      this.activeDate = cell.dataset.date;
+      this.select(cell.dataset.date);
+    }
+  }
+
+  /**
+   * First day of the week for the locale (0 = Sunday), from Intl.Locale week info
+   */
+  private get firstDayOfWeek(): number {
+    try {
+      const locale = new Intl.Locale(this.locale ?? navigator.language) as Intl.Locale & {
+        weekInfo?: { firstDay: number };
+        getWeekInfo?: () => { firstDay: number };
+      };
+      const firstDay = (locale.getWeekInfo?.() ?? locale.weekInfo)?.firstDay;
+      return firstDay === undefined ? 0 : firstDay % 7;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Column of a date in the grid, counted from the locale's first day of the week
+   */
+  private weekdayIndex(date: string): number {
+    const [year, month, day] = date.split('-').map(Number);
+    return (new Date(year, month - 1, day).getDay() - this.firstDayOfWeek + 7) % 7;
+  }
+
+  private renderWeekdayHeaders(): TemplateResult[] {
+    const short = new Intl.DateTimeFormat(this.locale, { weekday: 'short' });
+    const long = new Intl.DateTimeFormat(this.locale, { weekday: 'long' });
+
+    // 2024-01-07 is a Sunday
+    return Array.from({ length: 7 }, (_, index) => {
+      const date = new Date(2024, 0, 7 + ((index + this.firstDayOfWeek) % 7));
+      return html`<th scope="col" abbr=${long.format(date)}>${short.format(date)}</th>`;
+    });
+  }
+
+  /**
+   * Render the grid for one month
+   * @param year - Full year
+   * @param month - Month (1-12)
+   */
+  protected renderMonth(year: number, month: number): TemplateResult {
+    const today = todayIso();
+    const leading = this.weekdayIndex(toIsoDate(year, month, 1));
+    const cells: (string | null)[] = [
+      ...Array.from({ length: leading }, () => null),
+      ...Array.from({ length: daysInMonth(year, month) }, (_, index) =>
+        toIsoDate(year, month, index + 1)
+      ),
+    ];
+    const weeks = Array.from({ length: Math.ceil(cells.length / 7) }, (_, index) =>
+      cells.slice(index * 7, index * 7 + 7)
+    );
+    const titleId = `title-${year}-${month}`;
+
+    return html`
+      <table
+        role="grid"
+        part="grid"
+        aria-labelledby=${titleId}
+        @keydown=${this._handleGridKeydown}
+        @click=${this._handleGridClick}
+      >
+        <thead>
+          <tr>
+            ${this.renderWeekdayHeaders()}
+          </tr>
+        </thead>
+        <tbody>
+          ${weeks.map(
+            (week) => html`
+              <tr>
+                ${week.map((date) => (date ? this.renderDay(date, today) : html`<td></td>`))}
+              </tr>
+            `
+          )}
+        </tbody>
+      </table>
+    `;
+  }
+
+  /**
+   * Classes of a day cell
+   */
+  protected getDayClasses(date: string, today: string): Record<string, boolean> {
+    return {
+      day: true,
+      today: date === today,
+      selected: this.isSelected(date),
+      disabled: !this.isSelectable(date),
+    };
+  }
+
+  protected renderDay(date: string, today: string): TemplateResult {
+    const selectable = this.isSelectable(date);
+    const selected = this.isSelected(date);
+
+    return html`
+      <td
+        class=${classMap(this.getDayClasses(date, today))}
+        part="day"
+        data-date=${date}
+        tabindex=${date === this.activeDate ? 0 : -1}
+        aria-selected=${selected ? 'true' : 'false'}
+        aria-disabled=${selectable ? nothing : 'true'}
+        aria-current=${date === today ? 'date' : nothing}
+      >
+        ${Number(date.slice(8))}
+      </td>
+    `;
+  }
+
+  /**
+   * Render the month heading with its navigation buttons
+   * @param showPrevious - Render the previous month button
+   * @param showNext - Render the next month button
+   */
+  protected renderHeader(
+    year: number,
+    month: number,
+    showPrevious = true,
+    showNext = true
+  ): TemplateResult {
+    const title = new Intl.DateTimeFormat(this.locale, { month: 'long', year: 'numeric' }).format(
+      new Date(year, month - 1, 1)
+    );
+    const firstOfMonth = toIsoDate(year, month, 1);
+    const lastOfMonth = toIsoDate(year, month, daysInMonth(year, month));
+
+    return html`
+      <div class="header" part="header">
+        ${showPrevious
+          ? html`
+              <button
+                type="button"
+                class="nav-button"
+                part="nav-button"
+                aria-label="Previous month"
+                ?disabled=${!!this.min && firstOfMonth <= this.min}
+                @click=${() => this.showMonth(-1)}
+              >
+                ‹
+              </button>
+            `
+          : html`<span class="nav-spacer"></span>`}
+        <h2 class="title" id="title-${year}-${month}" aria-live="polite">${title}</h2>
+        ${showNext
+          ? html`
+              <button
+                type="button"
+                class="nav-button"
+                part="nav-button"
+                aria-label="Next month"
+                ?disabled=${!!this.max && lastOfMonth >= this.max}
+                @click=${() => this.showMonth(1)}
+              >
+                ›
+              </button>
+            `
+          : html`<span class="nav-spacer"></span>`}
+      </div>
+    `;
+  }
+
+  protected override render(): TemplateResult {
+    const [year, month] = this.activeDate.split('-').map(Number);
+
+    return html`${this.renderHeader(year, month)} ${this.renderMonth(year, month)}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-calendar': MonkCalendar;
+  }
+}
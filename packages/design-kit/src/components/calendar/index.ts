@@ -0,0 +1,4 @@
+export { MonkCalendar } from './calendar.js';
+export { MonkRangeCalendar } from './range-calendar.js';
+export type { CalendarSelectDetail } from './calendar.js';
+export type { RangeSelectDetail } from './range-calendar.js';
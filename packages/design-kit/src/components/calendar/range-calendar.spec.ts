@@ -0,0 +1,82 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkRangeCalendar } from './range-calendar.js';
+
+const cell = (element: MonkRangeCalendar, date: string): HTMLElement =>
+  element.shadowRoot?.querySelector<HTMLElement>(`[data-date="${date}"]`) as HTMLElement;
+
+describe('MonkRangeCalendar', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-range-calendar');
+    expect(element).to.be.instanceOf(MonkRangeCalendar);
+  });
+
+  it('should render two consecutive months', async () => {
+    const element = await fixture<MonkRangeCalendar>(html`
+      <monk-range-calendar start="2024-12-10" locale="en-US"></monk-range-calendar>
+    `);
+
+    const titles = Array.from(element.shadowRoot?.querySelectorAll('h2') ?? []);
+    expect(titles.map((title) => title.textContent)).to.deep.equal([
+      'December 2024',
+      'January 2025',
+    ]);
+    expect(element.shadowRoot?.querySelectorAll('.nav-button').length).to.equal(2);
+  });
+
+  it('should mark the selected range', async () => {
+    const element = await fixture<MonkRangeCalendar>(html`
+      <monk-range-calendar start="2024-12-10" end="2024-12-12"></monk-range-calendar>
+    `);
+
+    expect(cell(element, '2024-12-09').getAttribute('aria-selected')).to.equal('false');
+    expect(cell(element, '2024-12-11').getAttribute('aria-selected')).to.equal('true');
+    expect(cell(element, '2024-12-10').classList.contains('range-start')).to.be.true;
+    expect(cell(element, '2024-12-12').classList.contains('range-end')).to.be.true;
+  });
+
+  it('should pick the start, preview on hover and emit on the second pick', async () => {
+    const element = await fixture<MonkRangeCalendar>(html`
+      <monk-range-calendar start="2024-12-01"></monk-range-calendar>
+    `);
+
+    cell(element, '2024-12-20').click();
+    await element.updateComplete;
+
+    cell(element, '2024-12-17').dispatchEvent(new PointerEvent('pointerover', { bubbles: true }));
+    await element.updateComplete;
+    expect(cell(element, '2024-12-18').classList.contains('in-range')).to.be.true;
+
+    setTimeout(() => cell(element, '2024-12-17').click());
+    const event = await oneEvent(element, 'range-select');
+
+    expect(event.detail).to.deep.equal({ start: '2024-12-17', end: '2024-12-20' });
+  });
+
+  it('should not allow an end beyond the maximum span', async () => {
+    const element = await fixture<MonkRangeCalendar>(html`
+      <monk-range-calendar start="2024-12-01" max-span="7"></monk-range-calendar>
+    `);
+
+    cell(element, '2024-12-10').click();
+    await element.updateComplete;
+
+    expect(element.isSelectable('2024-12-16')).to.be.true;
+    expect(element.isSelectable('2024-12-17')).to.be.false;
+    expect(element.isSelectable('2024-12-04')).to.be.true;
+    expect(element.isSelectable('2024-12-03')).to.be.false;
+  });
+
+  it('should keep keyboard focus within the visible months', async () => {
+    const element = await fixture<MonkRangeCalendar>(html`
+      <monk-range-calendar start="2025-01-28" locale="en-US"></monk-range-calendar>
+    `);
+
+    const grid = element.shadowRoot?.querySelector('[role="grid"]') as HTMLElement;
+    grid.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageDown', bubbles: true }));
+    await element.updateComplete;
+
+    const titles = Array.from(element.shadowRoot?.querySelectorAll('h2') ?? []);
+    expect(element.activeDate).to.equal('2025-02-28');
+    expect(titles[0].textContent).to.equal('January 2025');
+  });
+});
@@ -0,0 +1,220 @@
+import { html, css, type CSSResultArray, type PropertyValues, type TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { MonkCalendar } from './calendar.js';
+import { addMonths, daysBetween, parseIsoDate } from '../input/date-utils.js';
+
+/**
+ * Detail of the `range-select` event
+ */
+export interface RangeSelectDetail {
+  /** First date of the range (YYYY-MM-DD) */
+  start: string;
+  /** Last date of the range (YYYY-MM-DD) */
+  end: string;
+}
+
+/**
+ * Range calendar component - Two consecutive months for picking a start and end date
+ * The first pick sets the start; the range to the hovered or focused date is previewed
+ * until the second pick sets the end.
+ *
+ * @element monk-range-calendar
+ *
+ * @example
+ * ```html
+ * <monk-range-calendar
+ *   start="2024-01-08"
+ *   end="2024-01-14"
+ *   max-span="31"
+ *   @range-select=${(e) => console.log(e.detail.start, e.detail.end)}
+ * ></monk-range-calendar>
+ * ```
+ *
+ * @accessibility
+ * - Keyboard navigation is the same as monk-calendar and moves across both months
+ * - Every date in the range has `aria-selected="true"`
+ *
+ * @fires range-select - Fired when both ends are picked, detail: `{ start, end }`
+ *
+ * @csspart header - Month heading and navigation buttons
+ * @csspart nav-button - Previous/next month buttons
+ * @csspart grid - Each month table
+ * @csspart day - Each day cell
+ */
+@customElement('monk-range-calendar')
+export class MonkRangeCalendar extends MonkCalendar {
+  /**
+   * First date of the range (YYYY-MM-DD)
+   */
+  @property({ type: String, reflect: true })
+  start?: string;
+
+  /**
+   * Last date of the range (YYYY-MM-DD)
+   */
+  @property({ type: String, reflect: true })
+  end?: string;
+
+  /**
+   * Longest allowed range in days, counting both ends
+   * Once a start is picked, dates further away cannot be picked as the end.
+   */
+  @property({ type: Number, attribute: 'max-span' })
+  maxSpan?: number;
+
+  /**
+   * Start picked while waiting for the end
+   */
+  @state()
+  private _anchor?: string;
+
+  @state()
+  private _hoverDate?: string;
+
+  /**
+   * First day of the left-hand month
+   */
+  @state()
+  private _firstMonth = '';
+
+  static override styles: CSSResultArray = [
+    ...(MonkCalendar.styles as CSSResultArray),
+    css`
+      .months {
+        display: flex;
+        flex-wrap: wrap;
+        gap: var(--monk-space-6);
+      }
+
+      .day.in-range:not(.selected) {
+        background-color: var(--monk-color-bg-subtle);
+      }
+
+      .day.in-range {
+        border-radius: 0;
+      }
+
+      .day.range-start {
+        border-top-left-radius: var(--monk-radius-sm);
+        border-bottom-left-radius: var(--monk-radius-sm);
+      }
+
+      .day.range-end {
+        border-top-right-radius: var(--monk-radius-sm);
+        border-bottom-right-radius: var(--monk-radius-sm);
+      }
+    `,
+  ];
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    if (changedProperties.has('start') && this.start && parseIsoDate(this.start)) {
+      this.activeDate = this.start;
+    }
+    if (changedProperties.has('start') || changedProperties.has('end')) {
+      this._anchor = undefined;
+    }
+
+    super.willUpdate(changedProperties);
+
+    // Keep the active date within the two visible months
+    const activeMonth = `${this.activeDate.slice(0, 7)}-01`;
+    if (!this._firstMonth || activeMonth < this._firstMonth) {
+      this._firstMonth = activeMonth;
+    } else if (activeMonth > addMonths(this._firstMonth, 1)) {
+      this._firstMonth = addMonths(activeMonth, -1);
+    }
+  }
+
+  override isSelectable(date: string): boolean {
+    if (!super.isSelectable(date)) return false;
+    if (!this._anchor || !this.maxSpan) return true;
+    return Math.abs(daysBetween(this._anchor, date)) < this.maxSpan;
+  }
+
+  protected override isSelected(date: string): boolean {
+    const [from, to] = this.previewRange;
+    return !!from && date >= from && date <= (to ?? from);
+  }
+
+  protected override getDayClasses(date: string, today: string): Record<string, boolean> {
+    const [from, to] = this.previewRange;
+    return {
+      ...super.getDayClasses(date, today),
+      'in-range': !!from && !!to && date >= from && date <= to,
+      'range-start': date === from,
+      'range-end': date === (to ?? from),
+    };
+  }
+
+  protected override select(date: string): void {
+    if (!this.isSelectable(date)) return;
+
+    if (!this._anchor) {
+      this._anchor = date;
+      this.activeDate = date;
+      return;
+    }
+
+    const [start, end] = [this._anchor, date].sort();
+    this.start = start;
+    this.end = end;
+    this.activeDate = date;
+    this._anchor = undefined;
+    this.emitEvent<RangeSelectDetail>('range-select', { start, end });
+  }
+
+  protected override showMonth(offset: number): void {
+    this._firstMonth = addMonths(this._firstMonth, offset);
+    this.activeDate = addMonths(this.activeDate, offset);
+  }
+
+  /**
+   * Range to highlight, ordered: the picked range, or the anchor to the hovered/active date
+   */
+  private get previewRange(): [string | undefined, string | undefined] {
+    if (this._anchor) {
+      const other = this._hoverDate ?? this.activeDate;
+      return other < this._anchor ? [other, this._anchor] : [this._anchor, other];
+    }
+    return [this.start, this.end];
+  }
+
+  private _handlePointerOver(event: PointerEvent): void {
+    const cell = (event.target as HTMLElement).closest<HTMLElement>('[data-date]');
+    const date = cell?.dataset.date;
+    if (date && date !== this._hoverDate) {
+      this._hoverDate = date;
+    }
+  }
+
+  private _handlePointerLeave(): void {
+    this._hoverDate = undefined;
+  }
+
+  protected override render(): TemplateResult {
+    const [year, month] = this._firstMonth.split('-').map(Number);
+    const [nextYear, nextMonth] = addMonths(this._firstMonth, 1).split('-').map(Number);
+
+    return html`
+      <div
+        class="months"
+        @pointerover=${this._handlePointerOver}
+        @pointerleave=${this._handlePointerLeave}
+      >
+        <div class="month">
+          ${this.renderHeader(year, month, true, false)} ${this.renderMonth(year, month)}
+        </div>
+        <div class="month">
+          ${this.renderHeader(nextYear, nextMonth, false, true)}
+          ${this.renderMonth(nextYear, nextMonth)}
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-range-calendar': MonkRangeCalendar;
+  }
+}
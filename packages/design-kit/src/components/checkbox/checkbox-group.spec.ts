@@ -0,0 +1,179 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkCheckboxGroup } from './checkbox-group.js';
+import type { MonkCheckbox } from './checkbox.js';
+
+const clickCheckbox = (group: MonkCheckboxGroup, value: string): void => {
+  const checkbox = group.querySelector(`monk-checkbox[value="${value}"]`) as MonkCheckbox;
+  (checkbox.shadowRoot?.querySelector('input') as HTMLInputElement).click();
+};
+
+const toppings = html`
+  <monk-checkbox value="cheese">Cheese</monk-checkbox>
+  <monk-checkbox value="mushroom">Mushroom</monk-checkbox>
+  <monk-checkbox value="olive">Olive</monk-checkbox>
+`;
+
+describe('MonkCheckboxGroup', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-checkbox-group');
+    expect(element).to.be.instanceOf(MonkCheckboxGroup);
+  });
+
+  it('should render a labelled group', async () => {
+    const element = await fixture<MonkCheckboxGroup>(html`
+      <monk-checkbox-group label="Toppings">${toppings}</monk-checkbox-group>
+    `);
+
+    const group = element.shadowRoot?.querySelector('[role="group"]');
+    expect(group?.getAttribute('aria-labelledby')).to.equal('label');
+    expect(element.shadowRoot?.querySelector('#label')?.textContent).to.include('Toppings');
+  });
+
+  describe('Value', () => {
+    it('should take its value from checked checkboxes', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group>
+          <monk-checkbox value="cheese" checked>Cheese</monk-checkbox>
+          <monk-checkbox value="mushroom">Mushroom</monk-checkbox>
+          <monk-checkbox value="olive" checked>Olive</monk-checkbox>
+        </monk-checkbox-group>
+      `);
+
+      expect(element.value).to.equal('cheese,olive');
+      expect(element.selectedValues).to.deep.equal(['cheese', 'olive']);
+    });
+
+    it('should check the boxes named in its value', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group value="mushroom">${toppings}</monk-checkbox-group>
+      `);
+
+      expect(element.checkboxes.map((checkbox) => checkbox.checked)).to.deep.equal([
+        false,
+        true,
+        false,
+      ]);
+
+      element.selectedValues = ['cheese'];
+      await element.updateComplete;
+
+      expect(element.checkboxes[0].checked).to.be.true;
+      expect(element.checkboxes[1].checked).to.be.false;
+    });
+
+    it('should emit its own input-change when a checkbox is toggled', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group>${toppings}</monk-checkbox-group>
+      `);
+
+      setTimeout(() => clickCheckbox(element, 'olive'));
+      const event = await oneEvent(element, 'input-change');
+
+      expect(event.target).to.equal(element);
+      expect(event.detail.value).to.equal('olive');
+      expect(element.value).to.equal('olive');
+    });
+
+    it('should apply its size and color scheme to the checkboxes', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group size="lg" color-scheme="success">${toppings}</monk-checkbox-group>
+      `);
+
+      for (const checkbox of element.checkboxes) {
+        expect(checkbox.size).to.equal('lg');
+        expect(checkbox.colorScheme).to.equal('success');
+      }
+    });
+
+    it('should disable every checkbox when disabled', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group disabled>${toppings}</monk-checkbox-group>
+      `);
+
+      expect(element.checkboxes.every((checkbox) => checkbox.disabled)).to.be.true;
+
+      element.disabled = false;
+      await element.updateComplete;
+
+      expect(element.checkboxes.some((checkbox) => checkbox.disabled)).to.be.false;
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require at least min-selections checked boxes', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group min-selections="2" validate>${toppings}</monk-checkbox-group>
+      `);
+
+      setTimeout(() => clickCheckbox(element, 'cheese'));
+      const invalid = await oneEvent(element, 'input-invalid');
+
+      expect(invalid.detail.message).to.equal('Select at least 2 options');
+      expect(element.validationErrors[0].code).to.equal('minSelections');
+
+      setTimeout(() => clickCheckbox(element, 'olive'));
+      await oneEvent(element, 'input-valid');
+
+      expect(element.invalid).to.be.false;
+    });
+
+    it('should allow at most max-selections checked boxes', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group value="cheese" max-selections="1" validate>
+          ${toppings}
+        </monk-checkbox-group>
+      `);
+
+      setTimeout(() => clickCheckbox(element, 'olive'));
+      const event = await oneEvent(element, 'input-invalid');
+
+      expect(event.detail.message).to.equal('Select at most 1 option');
+      expect(element.validationErrors[0].code).to.equal('maxSelections');
+    });
+
+    it('should be invalid while required and empty', async () => {
+      const element = await fixture<MonkCheckboxGroup>(html`
+        <monk-checkbox-group required>${toppings}</monk-checkbox-group>
+      `);
+
+      expect(element.checkValidity()).to.be.false;
+      expect(element.validity.valueMissing).to.be.true;
+
+      element.selectedValues = ['cheese'];
+      await element.updateComplete;
+
+      expect(element.checkValidity()).to.be.true;
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit each checked value under its name', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-checkbox-group name="toppings" value="cheese,olive">
+            ${toppings}
+          </monk-checkbox-group>
+        </form>
+      `);
+      await form.querySelector('monk-checkbox-group')?.updateComplete;
+
+      expect(new FormData(form).getAll('toppings')).to.deep.equal(['cheese', 'olive']);
+    });
+
+    it('should block native submission when a validator fails', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-checkbox-group name="toppings" min-selections="2" validate>
+            ${toppings}
+          </monk-checkbox-group>
+        </form>
+      `);
+      const element = form.querySelector('monk-checkbox-group') as MonkCheckboxGroup;
+      await element.updateComplete;
+
+      element.performValidation();
+
+      expect(form.checkValidity()).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { html, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { GroupInput, type GroupOrientation } from '../input/group-input.js';
+import type { Validator } from '../input/validators.js';
+import { MonkCheckbox } from './checkbox.js';
+
+/**
+ * Layout direction of the checkboxes in a group
+ */
+export type CheckboxGroupOrientation = GroupOrientation;
+
+/**
+ * Checkbox group component - Picks any number of values from a set of checkboxes
+ *
+ * The value is the comma-separated values of the checked boxes, in document
+ * order; each one is submitted under the group's name, like a native
+ * `<select multiple>`. The checkboxes themselves need no name.
+ *
+ * @element monk-checkbox-group
+ *
+ * @example
+ * ```html
+ * <monk-checkbox-group
+ *   label="Toppings"
+ *   name="toppings"
+ *   min-selections="1"
+ *   max-selections="3"
+ *   validate
+ * >
+ *   <monk-checkbox value="cheese" checked>Cheese</monk-checkbox>
+ *   <monk-checkbox value="mushroom">Mushroom</monk-checkbox>
+ *   <monk-checkbox value="olive">Olive</monk-checkbox>
+ *   <monk-checkbox value="pepper">Pepper</monk-checkbox>
+ * </monk-checkbox-group>
+ * ```
+ *
+ * @accessibility
+ * - Checkboxes are wrapped in role="group", labelled by the group label
+ * - Each checkbox keeps its own Tab stop, like native checkboxes
+ * - Errors are announced through a live region
+ *
+ * @fires input-change - Fired when a checkbox is toggled, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when a checkbox is toggled, detail: `{ value, originalEvent }`
+ * @fires input-focus - Fired when focus moves into the group
+ * @fires input-blur - Fired when focus leaves the group
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart group - The element around the checkboxes
+ *
+ * @slot - `monk-checkbox` elements
+ */
+@customElement('monk-checkbox-group')
+export class MonkCheckboxGroup extends GroupInput<MonkCheckbox> {
+  /**
+   * Fewest checked boxes allowed when validating
+   */
+  @property({ type: Number, attribute: 'min-selections' })
+  minSelections?: number;
+
+  /**
+   * Most checked boxes allowed when validating
+   */
+  @property({ type: Number, attribute: 'max-selections' })
+  maxSelections?: number;
+
+  /**
+   * The checkboxes in the group
+   */
+  get checkboxes(): MonkCheckbox[] {
+    return Array.from(this.querySelectorAll('monk-checkbox'));
+  }
+
+  get items(): MonkCheckbox[] {
+    return this.checkboxes;
+  }
+
+  /**
+   * Values of the checked boxes
+   */
+  get selectedValues(): string[] {
+    return this.value ? this.value.split(',') : [];
+  }
+
+  set selectedValues(values: string[]) {
+    this.value = values.join(',');
+  }
+
+  override get fieldValue(): string[] {
+    return this.selectedValues;
+  }
+
+  protected override get valueMissingMessage(): string {
+    return 'Please select at least one option.';
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    const { minSelections: min, maxSelections: max } = this;
+    const plural = (count: number) => (count === 1 ? 'option' : 'options');
+
+    if (min !== undefined) {
+      declared.push(() => ({
+        valid: this.selectedValues.length >= min,
+        code: 'minSelections',
+        message: `Select at least ${min} ${plural(min)}`,
+      }));
+    }
+    if (max !== undefined) {
+      declared.push(() => ({
+        valid: this.selectedValues.length <= max,
+        code: 'maxSelections',
+        message: `Select at most ${max} ${plural(max)}`,
+      }));
+    }
+
+    return declared;
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    // Without a value, start from the checkboxes' own `checked` attributes
+    if (!this.value) {
+      this.selectedValues = this.checkedValues();
+    }
+  }
+
+  /**
+   * Submit each checked value under the group name
+   */
+  protected override updateFormState(): void {
+    const data = new FormData();
+    if (this.name) {
+      this.selectedValues.forEach((value) => data.append(this.name as string, value));
+    }
+    this.internals.setFormValue(data, this.value);
+    this.updateFormValidity();
+  }
+
+  override formResetCallback(): void {
+    super.formResetCallback();
+    if (!this.hasAttribute('value')) {
+      this.selectedValues = this.checkboxes
+        .filter((checkbox) => checkbox.hasAttribute('checked'))
+        .map((checkbox) => checkbox.value);
+    }
+  }
+
+  private checkedValues(): string[] {
+    return this.checkboxes.filter((checkbox) => checkbox.checked).map((checkbox) => checkbox.value);
+  }
+
+  protected syncItems(): void {
+    const values = this.selectedValues;
+    for (const checkbox of this.checkboxes) {
+      checkbox.checked = values.includes(checkbox.value);
+      checkbox.size = this.size;
+      checkbox.colorScheme = this.colorScheme;
+    }
+  }
+
+  /**
+   * Take over a checkbox's change event and report the group's value instead
+   * Listened for inside the shadow root, so the checkbox's own event never reaches the host
+   */
+  private _handleCheckboxChange(event: Event): void {
+    if (!(event.target instanceof MonkCheckbox)) return;
+
+    event.stopPropagation();
+    const { originalEvent } = (event as CustomEvent<{ originalEvent?: Event }>).detail;
+
+    this.value = this.checkedValues().join(',');
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+  }
+
+  protected override renderInput() {
+    return html`
+      <div
+        class="group"
+        part="group"
+        role="group"
+        aria-labelledby=${ifDefined(this.label ? 'label' : undefined)}
+        aria-invalid=${this.invalid ? 'true' : 'false'}
+        @input-change=${this._handleCheckboxChange}
+        @input-changed=${this._stopItemEvent}
+        @input-focus=${this._stopItemEvent}
+        @input-blur=${this._stopItemEvent}
+      >
+        <slot @slotchange=${this._handleSlotChange}></slot>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-checkbox-group': MonkCheckboxGroup;
+  }
+}
@@ -0,0 +1,214 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkCheckbox } from './checkbox.js';
+import '../form/form.js';
+import type { MonkForm } from '../form/form.js';
+
+const nativeInput = (element: MonkCheckbox): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+describe('MonkCheckbox', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-checkbox');
+    expect(element).to.be.instanceOf(MonkCheckbox);
+  });
+
+  it('should render a native checkbox labelled by its content', async () => {
+    const element = await fixture<MonkCheckbox>(html`
+      <monk-checkbox>Accept terms</monk-checkbox>
+    `);
+
+    const input = nativeInput(element);
+    expect(input.type).to.equal('checkbox');
+    expect(input.closest('label')).to.exist;
+    expect(element.textContent?.trim()).to.equal('Accept terms');
+  });
+
+  it('should use the label property when there is no content', async () => {
+    const element = await fixture<MonkCheckbox>(html`
+      <monk-checkbox label="Remember me"></monk-checkbox>
+    `);
+
+    expect(element.shadowRoot?.querySelector('.text')?.textContent).to.include('Remember me');
+  });
+
+  it('should reflect size and color scheme like MonkButton', async () => {
+    const element = await fixture<MonkCheckbox>(html`<monk-checkbox></monk-checkbox>`);
+
+    expect(element.getAttribute('size')).to.equal('md');
+    expect(element.getAttribute('color-scheme')).to.equal('primary');
+
+    element.colorScheme = 'success';
+    element.size = 'lg';
+    await element.updateComplete;
+
+    expect(element.getAttribute('color-scheme')).to.equal('success');
+    expect(element.getAttribute('size')).to.equal('lg');
+  });
+
+  describe('Checked State', () => {
+    it('should start checked from the checked attribute', async () => {
+      const element = await fixture<MonkCheckbox>(html`<monk-checkbox checked></monk-checkbox>`);
+
+      expect(element.checked).to.be.true;
+      expect(nativeInput(element).checked).to.be.true;
+    });
+
+    it('should toggle on click and emit input-change', async () => {
+      const element = await fixture<MonkCheckbox>(html`
+        <monk-checkbox value="yes">Subscribe</monk-checkbox>
+      `);
+
+      setTimeout(() => nativeInput(element).click());
+      const event = await oneEvent(element, 'input-change');
+
+      expect(element.checked).to.be.true;
+      expect(event.detail.checked).to.be.true;
+      expect(event.detail.value).to.equal('yes');
+    });
+
+    it('should toggle from script with toggle()', async () => {
+      const element = await fixture<MonkCheckbox>(html`<monk-checkbox></monk-checkbox>`);
+
+      element.toggle();
+      await element.updateComplete;
+
+      expect(element.checked).to.be.true;
+      expect(nativeInput(element).checked).to.be.true;
+    });
+
+    it('should not toggle when readonly', async () => {
+      const element = await fixture<MonkCheckbox>(html`<monk-checkbox readonly></monk-checkbox>`);
+
+      nativeInput(element).click();
+      element.toggle();
+      await element.updateComplete;
+
+      expect(element.checked).to.be.false;
+      expect(nativeInput(element).checked).to.be.false;
+    });
+  });
+
+  describe('Indeterminate', () => {
+    it('should set the native indeterminate state', async () => {
+      const element = await fixture<MonkCheckbox>(html`
+        <monk-checkbox indeterminate></monk-checkbox>
+      `);
+
+      expect(nativeInput(element).indeterminate).to.be.true;
+      expect(nativeInput(element).matches(':indeterminate')).to.be.true;
+    });
+
+    it('should clear indeterminate when the user toggles it', async () => {
+      const element = await fixture<MonkCheckbox>(html`
+        <monk-checkbox indeterminate></monk-checkbox>
+      `);
+
+      nativeInput(element).click();
+      await element.updateComplete;
+
+      expect(element.indeterminate).to.be.false;
+      expect(element.hasAttribute('indeterminate')).to.be.false;
+      expect(element.checked).to.be.true;
+    });
+  });
+
+  describe('Validation', () => {
+    it('should emit input-invalid when a required checkbox is unchecked', async () => {
+      const element = await fixture<MonkCheckbox>(html`
+        <monk-checkbox required validate checked>I agree</monk-checkbox>
+      `);
+
+      setTimeout(() => nativeInput(element).click());
+      const event = await oneEvent(element, 'input-invalid');
+
+      expect(event.detail.message).to.be.a('string').and.not.be.empty;
+      expect(element.invalid).to.be.true;
+    });
+
+    it('should emit input-valid once checked', async () => {
+      const element = await fixture<MonkCheckbox>(html`
+        <monk-checkbox required validate>I agree</monk-checkbox>
+      `);
+
+      setTimeout(() => nativeInput(element).click());
+      await oneEvent(element, 'input-valid');
+
+      expect(element.invalid).to.be.false;
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit its value only while checked', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-checkbox name="terms" value="accepted"></monk-checkbox>
+        </form>
+      `);
+      const element = form.querySelector('monk-checkbox') as MonkCheckbox;
+      await element.updateComplete;
+
+      expect(new FormData(form).has('terms')).to.be.false;
+
+      element.checked = true;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('terms')).to.equal('accepted');
+    });
+
+    it('should default its value to "on"', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-checkbox name="agree" checked></monk-checkbox></form>
+      `);
+      await form.querySelector('monk-checkbox')?.updateComplete;
+
+      expect(new FormData(form).get('agree')).to.equal('on');
+    });
+
+    it('should block native form validity while required and unchecked', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-checkbox name="agree" required></monk-checkbox></form>
+      `);
+      await form.querySelector('monk-checkbox')?.updateComplete;
+
+      expect(form.checkValidity()).to.be.false;
+    });
+
+    it('should restore the checked attribute on form reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-checkbox name="agree" checked></monk-checkbox></form>
+      `);
+      const element = form.querySelector('monk-checkbox') as MonkCheckbox;
+      element.checked = false;
+      await element.updateComplete;
+
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.checked).to.be.true;
+    });
+
+    it('should take part in monk-form values, dirty state and reset', async () => {
+      const form = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-checkbox name="news" value="yes"></monk-checkbox>
+        </monk-form>
+      `);
+      const element = form.querySelector('monk-checkbox') as MonkCheckbox;
+
+      expect(form.values).to.deep.equal({ news: '' });
+      expect(form.isDirty).to.be.false;
+
+      element.toggle();
+      await element.updateComplete;
+
+      expect(form.values).to.deep.equal({ news: 'yes' });
+      expect(form.isDirty).to.be.true;
+
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.checked).to.be.false;
+      expect(form.isDirty).to.be.false;
+    });
+  });
+});
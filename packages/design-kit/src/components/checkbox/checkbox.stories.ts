@@ -0,0 +1,158 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './checkbox.js';
+import './checkbox-group.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Checkbox',
+  component: 'monk-checkbox',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Checkbox component is a form-associated yes/no control. It uses the same \`size\`
+and \`color-scheme\` attributes as the Button, and the same validation events as the
+input components.
+
+## Features
+
+- Checked, unchecked and indeterminate states
+- Submits its \`value\` (default "on") only while checked, like a native checkbox
+- \`required\` and \`validate\` emit \`input-invalid\` / \`input-valid\`
+- \`monk-checkbox-group\` collects several checkboxes into one field with
+  \`min-selections\` / \`max-selections\` validation
+
+## Usage
+
+\`\`\`html
+<monk-checkbox name="terms" required validate>I accept the terms</monk-checkbox>
+
+<monk-checkbox-group label="Toppings" name="toppings" max-selections="2" validate>
+  <monk-checkbox value="cheese">Cheese</monk-checkbox>
+  <monk-checkbox value="olive">Olive</monk-checkbox>
+</monk-checkbox-group>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-checkbox>Unchecked</monk-checkbox>
+      <monk-checkbox checked>Checked</monk-checkbox>
+      <monk-checkbox indeterminate>Indeterminate</monk-checkbox>
+      <monk-checkbox disabled>Disabled</monk-checkbox>
+      <monk-checkbox disabled checked>Disabled and checked</monk-checkbox>
+    </monk-stack>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-checkbox size="sm" checked>Small</monk-checkbox>
+      <monk-checkbox size="md" checked>Medium</monk-checkbox>
+      <monk-checkbox size="lg" checked>Large</monk-checkbox>
+    </monk-stack>
+  `,
+};
+
+export const ColorSchemes: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-checkbox color-scheme="primary" checked>Primary</monk-checkbox>
+      <monk-checkbox color-scheme="neutral" checked>Neutral</monk-checkbox>
+      <monk-checkbox color-scheme="success" checked>Success</monk-checkbox>
+      <monk-checkbox color-scheme="error" checked>Error</monk-checkbox>
+      <monk-checkbox color-scheme="warning" checked>Warning</monk-checkbox>
+    </monk-stack>
+  `,
+};
+
+export const SelectAll: Story = {
+  render: () => {
+    const update = (event: Event) => {
+      const group = (event.currentTarget as HTMLElement).closest('monk-stack');
+      const all = group?.querySelector<HTMLElementTagNameMap['monk-checkbox']>('#all');
+      const items = Array.from(
+        group?.querySelectorAll<HTMLElementTagNameMap['monk-checkbox']>('.item') ?? []
+      );
+      if (!all) return;
+
+      if ((event.target as HTMLElement).id === 'all') {
+        items.forEach((item) => (item.checked = all.checked));
+      }
+      const checked = items.filter((item) => item.checked).length;
+      all.checked = checked === items.length;
+      all.indeterminate = checked > 0 && checked < items.length;
+    };
+
+    return html`
+      <monk-stack spacing="2" @input-change=${update}>
+        <monk-checkbox id="all" indeterminate>Select all</monk-checkbox>
+        <monk-stack spacing="2" style="padding-inline-start: 1.75rem;">
+          <monk-checkbox class="item" checked>Photos</monk-checkbox>
+          <monk-checkbox class="item">Videos</monk-checkbox>
+          <monk-checkbox class="item">Documents</monk-checkbox>
+        </monk-stack>
+      </monk-stack>
+    `;
+  },
+};
+
+export const WithHelperText: Story = {
+  render: () => html`
+    <monk-checkbox helper-text="We send at most one email a week">
+      Subscribe to the newsletter
+    </monk-checkbox>
+  `,
+};
+
+export const Required: Story = {
+  render: () => html`
+    <monk-checkbox required validate checked helper-text="Uncheck to see the error">
+      I accept the terms and conditions
+    </monk-checkbox>
+  `,
+};
+
+export const Group: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      <monk-checkbox-group
+        label="Toppings"
+        helper-text="Pick between 1 and 3"
+        min-selections="1"
+        max-selections="3"
+        validate
+      >
+        <monk-checkbox value="cheese" checked>Cheese</monk-checkbox>
+        <monk-checkbox value="mushroom">Mushroom</monk-checkbox>
+        <monk-checkbox value="olive">Olive</monk-checkbox>
+        <monk-checkbox value="pepper">Pepper</monk-checkbox>
+        <monk-checkbox value="onion">Onion</monk-checkbox>
+      </monk-checkbox-group>
+
+      <monk-checkbox-group
+        label="Days"
+        orientation="horizontal"
+        color-scheme="success"
+        value="mon,wed"
+      >
+        <monk-checkbox value="mon">Mon</monk-checkbox>
+        <monk-checkbox value="tue">Tue</monk-checkbox>
+        <monk-checkbox value="wed">Wed</monk-checkbox>
+        <monk-checkbox value="thu">Thu</monk-checkbox>
+        <monk-checkbox value="fri">Fri</monk-checkbox>
+      </monk-checkbox-group>
+    </monk-stack>
+  `,
+};
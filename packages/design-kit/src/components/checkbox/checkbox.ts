@@ -0,0 +1,197 @@
+import { html, css, type CSSResultArray } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import { ToggleInput } from './toggle-input.js';
+
+/**
+ * Checkbox component - Form control for a yes/no choice
+ *
+ * @element monk-checkbox
+ *
+ * @example
+ * ```html
+ * <monk-checkbox name="terms" required validate>I accept the terms</monk-checkbox>
+ *
+ * <!-- Submits "weekly" under "newsletter" while checked -->
+ * <monk-checkbox name="newsletter" value="weekly" checked>Weekly newsletter</monk-checkbox>
+ *
+ * <!-- Partially selected, e.g. a "select all" box -->
+ * <monk-checkbox indeterminate>Select all</monk-checkbox>
+ *
+ * <monk-checkbox color-scheme="success" size="lg">Done</monk-checkbox>
+ * ```
+ *
+ * @accessibility
+ * - Uses a native checkbox, so Space toggles it and screen readers announce its state
+ * - Indeterminate checkboxes are announced as "mixed"
+ * - Clicking the label toggles the checkbox
+ * - Helper text and errors are linked with aria-describedby
+ *
+ * @fires input-change - Fired when the checked state changes, detail: `{ value, checked }`
+ * @fires input-changed - Fired when the checked state changes, detail: `{ value, checked }`
+ * @fires input-focus - Fired when the checkbox receives focus
+ * @fires input-blur - Fired when the checkbox loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart control - The clickable label around the box and text
+ * @csspart box - The visible box
+ * @csspart input - The native checkbox (visually hidden)
+ * @csspart label - The label text
+ *
+ * @slot - Label content; falls back to the `label` property
+ */
+@customElement('monk-checkbox')
+export class MonkCheckbox extends ToggleInput {
+  /**
+   * Partially checked state, shown as a dash
+   * Cleared when the user toggles the checkbox, like the native property
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  indeterminate = false;
+
+  static override styles: CSSResultArray = [
+    ...(ToggleInput.styles as CSSResultArray),
+    css`
+      .box {
+        position: relative;
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        flex-shrink: 0;
+        width: 1.125rem;
+        height: 1.125rem;
+        border: 2px solid var(--monk-color-border-emphasized);
+        border-radius: var(--monk-radius-sm);
+        background: var(--monk-color-bg-canvas);
+        color: var(--monk-toggle-on-accent);
+        transition:
+          background-color 150ms ease-in-out,
+          border-color 150ms ease-in-out;
+      }
+
+      :host([size='sm']) .box {
+        width: 0.875rem;
+        height: 0.875rem;
+      }
+
+      :host([size='lg']) .box {
+        width: 1.375rem;
+        height: 1.375rem;
+      }
+
+      .box svg {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        visibility: hidden;
+      }
+
+      .control:hover .box {
+        border-color: var(--monk-toggle-accent);
+      }
+
+      input:checked + .indicator-line .box,
+      input:indeterminate + .indicator-line .box {
+        border-color: var(--monk-toggle-accent);
+        background: var(--monk-toggle-accent);
+      }
+
+      .control:hover input:checked + .indicator-line .box,
+      .control:hover input:indeterminate + .indicator-line .box {
+        border-color: var(--monk-toggle-accent-hover);
+        background: var(--monk-toggle-accent-hover);
+      }
+
+      input:checked:not(:indeterminate) + .indicator-line .check,
+      input:indeterminate + .indicator-line .dash {
+        visibility: visible;
+      }
+
+      :host([invalid]) .box {
+        border-color: var(--monk-color-border-error);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .box {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  protected override _handleChange(event: Event): void {
+    this.indeterminate = false;
+    super._handleChange(event);
+  }
+
+  override toggle(): void {
+    if (this.isDisabled || this.readonly) return;
+
+    this.indeterminate = false;
+    super.toggle();
+  }
+
+  protected override render() {
+    return html`
+      <div class="input-wrapper" part="wrapper">
+        <label class="control" part="control">
+          <input
+            id="input"
+            class="sr-only"
+            part="input"
+            type="checkbox"
+            name=${ifDefined(this.name)}
+            .value=${this.value}
+            .checked=${live(this.checked)}
+            .indeterminate=${live(this.indeterminate)}
+            ?disabled=${this.isDisabled}
+            ?required=${this.required}
+            aria-readonly=${ifDefined(this.readonly ? 'true' : undefined)}
+            aria-invalid=${this.invalid ? 'true' : 'false'}
+            aria-describedby=${ifDefined(
+              this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+            )}
+            @click=${this._handleClick}
+            @change=${this._handleChange}
+            @focus=${this._handleFocus}
+            @blur=${this._handleBlur}
+            @keydown=${this._handleKeyDown}
+          />
+          <span class="indicator-line">
+            <span class="box" part="box" aria-hidden="true">
+              <svg class="check" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M3.5 8.5l3 3 6-7"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                />
+              </svg>
+              <svg class="dash" viewBox="0 0 16 16" fill="none">
+                <path d="M4 8h8" stroke="currentColor" stroke-width="2" stroke-linecap="round" />
+              </svg>
+            </span>
+          </span>
+          <span class="text" part="label">
+            <slot>${this.label}</slot>
+            ${this.required ? html`<span class="required-indicator">*</span>` : ''}
+          </span>
+        </label>
+        ${this.renderHelperText()}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-checkbox': MonkCheckbox;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Checkbox Components
+ *
+ * Boolean form controls: checkbox with indeterminate state and a checkbox group with
+ * min/max selection validation
+ */
+
+export { ToggleInput } from './toggle-input.js';
+export { MonkCheckbox } from './checkbox.js';
+export { MonkCheckboxGroup } from './checkbox-group.js';
+export type { ToggleColorScheme, ToggleChangeDetail } from './toggle-input.js';
+export type { CheckboxGroupOrientation } from './checkbox-group.js';
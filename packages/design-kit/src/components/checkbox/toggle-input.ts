@@ -0,0 +1,198 @@
+import { css, type CSSResultArray } from 'lit';
+import { property } from 'lit/decorators.js';
+import { BaseInput } from '../input/base-input.js';
+import { srOnlyStyles } from '../../core/styles.js';
+import type { ButtonColorScheme } from '../button/button.js';
+
+/**
+ * Toggle color schemes, shared with MonkButton
+ */
+export type ToggleColorScheme = ButtonColorScheme;
+
+/**
+ * Detail of the `input-change` and `input-changed` events of toggles
+ */
+export interface ToggleChangeDetail {
+  value: string;
+  checked: boolean;
+  originalEvent?: Event;
+}
+
+/**
+ * Base class for on/off controls built on a native checkbox
+ *
+ * Like a native checkbox, `value` is what gets submitted (default "on") and
+ * only while `checked`; an unchecked toggle submits nothing.
+ */
+export abstract class ToggleInput extends BaseInput {
+  /**
+   * Whether the control is on
+   * The `checked` attribute sets the initial state, restored on form reset
+   * @default false
+   */
+  @property({ type: Boolean })
+  checked = false;
+
+  /**
+   * Semantic color scheme of the "on" state
+   * @default 'primary'
+   */
+  @property({ type: String, reflect: true, attribute: 'color-scheme' })
+  colorScheme: ToggleColorScheme = 'primary';
+
+  override value = 'on';
+
+  protected override get inputType(): string {
+    return 'checkbox';
+  }
+
+  /**
+   * The value while checked, otherwise empty
+   */
+  override get formValue(): string {
+    return this.checked ? this.value : '';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
+    css`
+      :host {
+        display: inline-block;
+        --monk-toggle-accent: var(--monk-color-bg-primary);
+        --monk-toggle-accent-hover: var(--monk-color-bg-primary-hover);
+        --monk-toggle-on-accent: var(--monk-color-text-on-primary);
+      }
+
+      :host([color-scheme='neutral']) {
+        --monk-toggle-accent: var(--monk-color-bg-neutral);
+        --monk-toggle-accent-hover: var(--monk-color-bg-neutral-hover);
+        --monk-toggle-on-accent: var(--monk-color-text-on-neutral);
+      }
+
+      :host([color-scheme='success']) {
+        --monk-toggle-accent: var(--monk-color-bg-success);
+        --monk-toggle-accent-hover: var(--monk-color-bg-success-hover);
+        --monk-toggle-on-accent: var(--monk-color-text-on-success);
+      }
+
+      :host([color-scheme='error']) {
+        --monk-toggle-accent: var(--monk-color-bg-error);
+        --monk-toggle-accent-hover: var(--monk-color-bg-error-hover);
+        --monk-toggle-on-accent: var(--monk-color-text-on-error);
+      }
+
+      :host([color-scheme='warning']) {
+        --monk-toggle-accent: var(--monk-color-bg-warning);
+        --monk-toggle-accent-hover: var(--monk-color-bg-warning-hover);
+        --monk-toggle-on-accent: var(--monk-color-text-on-warning);
+      }
+
+      .control {
+        display: inline-flex;
+        align-items: flex-start;
+        gap: var(--monk-space-2);
+        cursor: pointer;
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-base);
+        line-height: var(--monk-font-lineHeight-normal);
+      }
+
+      :host([size='sm']) .control {
+        font-size: var(--monk-font-size-sm);
+      }
+
+      :host([size='lg']) .control {
+        font-size: var(--monk-font-size-lg);
+      }
+
+      :host([disabled]) .control,
+      :host(:disabled) .control {
+        cursor: not-allowed;
+        opacity: 0.5;
+      }
+
+      /* Keep the indicator centred on the first line of the label */
+      .indicator-line {
+        display: inline-flex;
+        align-items: center;
+        height: calc(1em * var(--monk-font-lineHeight-normal));
+      }
+
+      input:focus-visible + .indicator-line > * {
+        box-shadow: 0 0 0 var(--monk-focus-ring-width, 2px) var(--monk-focus-ring-color);
+      }
+
+      .input-wrapper {
+        gap: var(--monk-space-1);
+      }
+    `,
+  ];
+
+  /**
+   * Flip the checked state as if the user had clicked the control
+   */
+  public toggle(): void {
+    if (this.isDisabled || this.readonly) return;
+
+    this.checked = !this.checked;
+    this.commitToggle();
+  }
+
+  /**
+   * Restore the state from the `checked` attribute and clear errors
+   */
+  override formResetCallback(): void {
+    super.formResetCallback();
+    this.value = this.getAttribute('value') ?? 'on';
+    this.checked = this.hasAttribute('checked');
+  }
+
+  override formStateRestoreCallback(state: string | File | FormData | null): void {
+    this.checked = state === 'checked';
+  }
+
+  /**
+   * Submit the value only while checked, like a native checkbox
+   */
+  protected override updateFormState(): void {
+    this.internals.setFormValue(this.checked ? this.value : null, this.checked ? 'checked' : '');
+    this.updateFormValidity();
+  }
+
+  /**
+   * Native checkboxes ignore `readonly`, so cancel the click instead
+   */
+  protected _handleClick(event: MouseEvent): void {
+    if (this.readonly) {
+      event.preventDefault();
+    }
+  }
+
+  protected override _handleChange(event: Event): void {
+    this.checked = (event.target as HTMLInputElement).checked;
+    this.commitToggle(event);
+  }
+
+  /**
+   * Validate and announce a new checked state
+   */
+  protected commitToggle(originalEvent?: Event): void {
+    // Keep the native input in step so constraint validation sees the new state
+    if (this._input) {
+      this._input.checked = this.checked;
+    }
+
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent<ToggleChangeDetail>(name, {
+        value: this.value,
+        checked: this.checked,
+        originalEvent,
+      });
+    }
+  }
+}
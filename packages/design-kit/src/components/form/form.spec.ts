@@ -0,0 +1,388 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkForm } from './form.js';
+import type { MonkTextInput } from '../input/text-input.js';
+import type { MonkFileInput } from '../input/file-input.js';
+import { asyncValidator } from '../input/validators.js';
+import '../input/text-input.js';
+import '../input/file-input.js';
+import '../input/phone-input.js';
+import '../input/tag-input.js';
+import '../select/select.js';
+import '../button/button.js';
+
+describe('MonkForm', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-form');
+    expect(element).to.be.instanceOf(MonkForm);
+  });
+
+  it('should render with default properties', async () => {
+    const element = await fixture<MonkForm>(html`<monk-form></monk-form>`);
+
+    expect(element.novalidate).to.be.false;
+    expect(element.isDirty).to.be.false;
+    expect(element.touched.size).to.equal(0);
+  });
+
+  describe('Field Discovery', () => {
+    it('should find nested inputs', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first"></monk-text-input>
+          <div><monk-text-input name="last"></monk-text-input></div>
+        </monk-form>
+      `);
+
+      expect(element.fields.map((field) => field.name)).to.deep.equal(['first', 'last']);
+    });
+
+    it('should find inputs assigned through slots', async () => {
+      const host = await fixture<HTMLDivElement>(html`
+        <div><monk-text-input name="slotted"></monk-text-input></div>
+      `);
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<monk-form><slot></slot></monk-form>';
+      const element = shadow.querySelector('monk-form') as MonkForm;
+      await element.updateComplete;
+
+      expect(element.fields.map((field) => field.name)).to.deep.equal(['slotted']);
+    });
+  });
+
+  describe('Values', () => {
+    it('should collect values by field name', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+          <monk-text-input name="last" value="Lovelace"></monk-text-input>
+        </monk-form>
+      `);
+
+      expect(element.values).to.deep.equal({ first: 'Ada', last: 'Lovelace' });
+    });
+
+    it('should use the unmasked value of masked inputs', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-phone-input name="phone" value="(555) 123-4567"></monk-phone-input>
+        </monk-form>
+      `);
+
+      expect(element.values).to.deep.equal({ phone: '5551234567' });
+    });
+
+    it('should give lists and files for multi-value fields', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-tag-input name="tags" value="lit,web components"></monk-tag-input>
+          <monk-select
+            name="toppings"
+            multiple
+            value="cheese,basil"
+            .options=${[
+              { value: 'cheese', label: 'Cheese' },
+              { value: 'basil', label: 'Basil' },
+            ]}
+          ></monk-select>
+          <monk-file-input name="attachments"></monk-file-input>
+        </monk-form>
+      `);
+      const file = new File(['monk'], 'notes.txt', { type: 'text/plain' });
+      (element.querySelector('monk-file-input') as MonkFileInput).files = [file];
+
+      expect(element.values).to.deep.equal({
+        tags: ['lit', 'web components'],
+        toppings: ['cheese', 'basil'],
+        attachments: [file],
+      });
+    });
+
+    it('should skip disabled fields', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+          <monk-text-input name="last" value="Lovelace" disabled></monk-text-input>
+        </monk-form>
+      `);
+
+      expect(element.values).to.deep.equal({ first: 'Ada' });
+    });
+  });
+
+  describe('Submit', () => {
+    it('should emit form-submit with values when valid', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada" required></monk-text-input>
+        </monk-form>
+      `);
+
+      setTimeout(() => element.submit());
+
+      const event = await oneEvent(element, 'form-submit');
+      expect(event.detail.values).to.deep.equal({ first: 'Ada' });
+    });
+
+    it('should emit form-invalid with a per-field error map', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input
+            name="username"
+            value="abc"
+            validate
+            .validators=${[(val: string) => val.length >= 5]}
+            validation-message="Too short"
+          ></monk-text-input>
+          <monk-text-input name="other" value="ok"></monk-text-input>
+        </monk-form>
+      `);
+
+      setTimeout(() => element.submit());
+
+      const event = await oneEvent(element, 'form-invalid');
+      expect(event.detail.errors).to.deep.equal({ username: 'Too short' });
+    });
+
+    it('should block submit for empty required fields', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" required></monk-text-input>
+        </monk-form>
+      `);
+
+      expect(await element.submit()).to.be.false;
+    });
+
+    it('should skip validation when novalidate is set', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form novalidate>
+          <monk-text-input name="first" required></monk-text-input>
+        </monk-form>
+      `);
+
+      expect(await element.submit()).to.be.true;
+    });
+
+    it('should wait for async validators before submitting', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input
+            name="username"
+            value="taken"
+            validate
+            .validators=${[asyncValidator(async (value) => value !== 'taken')]}
+            validation-message="Username is taken"
+          ></monk-text-input>
+        </monk-form>
+      `);
+
+      setTimeout(() => element.submit());
+
+      const event = await oneEvent(element, 'form-invalid');
+      expect(event.detail.errors).to.deep.equal({ username: 'Username is taken' });
+    });
+
+    it('should keep the result of fields validated on blur or input', async () => {
+      let runs = 0;
+      const counted = (value: string) => {
+        runs++;
+        return value.length >= 3;
+      };
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input
+            name="first"
+            value="Ada"
+            validate
+            .validators=${[counted]}
+          ></monk-text-input>
+        </monk-form>
+      `);
+      const field = element.querySelector('monk-text-input') as MonkTextInput;
+
+      field.performValidation();
+      expect(await element.submit()).to.be.true;
+      expect(runs, 'unchanged value re-uses the blur result').to.equal(1);
+
+      field.value = 'Al';
+      expect(await element.submit()).to.be.false;
+      expect(runs, 'changed value is validated again').to.equal(2);
+    });
+
+    it('should always validate fields with validate-on="submit"', async () => {
+      let runs = 0;
+      const counted = () => {
+        runs++;
+        return true;
+      };
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input
+            name="first"
+            value="Ada"
+            validate
+            validate-on="submit"
+            .validators=${[counted]}
+          ></monk-text-input>
+        </monk-form>
+      `);
+
+      await element.submit();
+      await element.submit();
+
+      expect(runs).to.equal(2);
+    });
+
+    it('should focus the first invalid field', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada" required></monk-text-input>
+          <monk-text-input name="last" required></monk-text-input>
+        </monk-form>
+      `);
+
+      await element.submit();
+
+      expect(document.activeElement).to.equal(element.querySelector('[name="last"]'));
+    });
+
+    it('should submit when a submit button is clicked', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+          <monk-button type="submit">Save</monk-button>
+        </monk-form>
+      `);
+      const button = element.querySelector('monk-button');
+      await button?.updateComplete;
+
+      setTimeout(() => (button?.shadowRoot?.querySelector('button') as HTMLButtonElement).click());
+
+      const event = await oneEvent(element, 'form-submit');
+      expect(event.detail.values).to.deep.equal({ first: 'Ada' });
+    });
+
+    it('should submit and reset when a monk-button host is clicked from script', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+          <monk-button type="reset">Reset</monk-button>
+          <monk-button type="submit">Save</monk-button>
+        </monk-form>
+      `);
+      const [reset, submit] = Array.from(element.querySelectorAll('monk-button'));
+
+      setTimeout(() => submit.click());
+      const event = await oneEvent(element, 'form-submit');
+      expect(event.detail.values).to.deep.equal({ first: 'Ada' });
+
+      setTimeout(() => reset.click());
+      await oneEvent(element, 'form-reset');
+    });
+
+    it('should submit when Enter is pressed in an input', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+        </monk-form>
+      `);
+      const input = element
+        .querySelector('monk-text-input')
+        ?.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      setTimeout(() => input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' })));
+
+      const event = await oneEvent(element, 'form-submit');
+      expect(event).to.exist;
+    });
+  });
+
+  describe('Dirty and Touched', () => {
+    it('should report dirty after a value changes', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+        </monk-form>
+      `);
+      expect(element.isDirty).to.be.false;
+
+      const field = element.querySelector('monk-text-input') as MonkTextInput;
+      field.value = 'Grace';
+
+      expect(element.isDirty).to.be.true;
+    });
+
+    it('should track touched fields on blur', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first"></monk-text-input>
+        </monk-form>
+      `);
+      const input = element
+        .querySelector('monk-text-input')
+        ?.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      input.focus();
+      input.blur();
+
+      expect(element.touched.has('first')).to.be.true;
+    });
+  });
+
+  describe('Reset', () => {
+    it('should restore initial values and clear state', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="first" value="Ada"></monk-text-input>
+        </monk-form>
+      `);
+      const field = element.querySelector('monk-text-input') as MonkTextInput;
+
+      expect(element.isDirty).to.be.false;
+      field.value = 'Grace';
+      field.setError('Nope');
+
+      setTimeout(() => element.reset());
+      await oneEvent(element, 'form-reset');
+
+      expect(field.value).to.equal('Ada');
+      expect(field.invalid).to.be.false;
+      expect(element.isDirty).to.be.false;
+      expect(element.touched.size).to.equal(0);
+    });
+  });
+
+  describe('setErrors()', () => {
+    it('should apply server errors to fields by name', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="email" value="taken@example.com"></monk-text-input>
+        </monk-form>
+      `);
+      const field = element.querySelector('monk-text-input') as MonkTextInput;
+
+      element.setErrors({ email: 'Email already registered' });
+
+      expect(field.invalid).to.be.true;
+      expect(field.errorMessage).to.equal('Email already registered');
+
+      element.setErrors({ email: '' });
+
+      expect(field.invalid).to.be.false;
+    });
+
+    it('should apply server errors to readonly fields', async () => {
+      const element = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-text-input name="id" value="42" readonly></monk-text-input>
+        </monk-form>
+      `);
+      const field = element.querySelector('monk-text-input') as MonkTextInput;
+
+      element.setErrors({ id: 'Record no longer exists' });
+
+      expect(field.invalid).to.be.true;
+      expect(field.errorMessage).to.equal('Record no longer exists');
+    });
+  });
+});
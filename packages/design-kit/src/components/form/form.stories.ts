@@ -0,0 +1,99 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './form.js';
+import '../input/text-input.js';
+import '../input/email-input.js';
+import '../input/password-input.js';
+import '../input/phone-input.js';
+import '../layout/stack.js';
+import '../layout/flex.js';
+import '../button/button.js';
+import { validators } from '../input/validators.js';
+import type { MonkForm } from './form.js';
+
+const meta: Meta = {
+  title: 'Components/Form',
+  component: 'monk-form',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Form component collects the monk inputs inside it, validates them together on submit and reports the result as a single event.
+
+## Features
+
+- **Discovery**: Finds descendant inputs, including those assigned through slots
+- **Validation**: Runs each input's validators on submit and focuses the first invalid field
+- **Events**: \`form-submit\` with a values object, \`form-invalid\` with a per-field error map
+- **State**: \`isDirty\`, \`touched\`, \`reset()\` and \`setErrors()\` for server-side errors
+
+## Usage
+
+\`\`\`html
+<monk-form>
+  <monk-email-input name="email" label="Email" required validate></monk-email-input>
+  <monk-button type="submit">Sign in</monk-button>
+</monk-form>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-form
+      style="max-width: 400px;"
+      @form-submit=${(e: CustomEvent) => console.log('Submit:', e.detail.values)}
+      @form-invalid=${(e: CustomEvent) => console.log('Invalid:', e.detail.errors)}
+    >
+      <monk-stack spacing="4">
+        <monk-email-input
+          name="email"
+          label="Email"
+          required
+          validate
+          .validators=${[validators.email]}
+          validation-message="Please enter a valid email address"
+        ></monk-email-input>
+        <monk-password-input
+          name="password"
+          label="Password"
+          required
+          validate
+          show-toggle
+        ></monk-password-input>
+        <monk-phone-input name="phone" label="Phone"></monk-phone-input>
+        <monk-flex gap="3">
+          <monk-button type="reset" variant="outline" color-scheme="neutral">Reset</monk-button>
+          <monk-button type="submit">Sign up</monk-button>
+        </monk-flex>
+      </monk-stack>
+    </monk-form>
+  `,
+};
+
+/**
+ * Errors returned from the server can be shown with setErrors()
+ */
+export const ServerErrors: Story = {
+  render: () => html`
+    <monk-form
+      style="max-width: 400px;"
+      @form-submit=${(e: CustomEvent) => {
+        const form = e.target as MonkForm;
+        setTimeout(() => form.setErrors({ username: 'That username is already taken' }), 500);
+      }}
+    >
+      <monk-stack spacing="4">
+        <monk-text-input name="username" label="Username" value="monk" required></monk-text-input>
+        <monk-button type="submit">Create account</monk-button>
+      </monk-stack>
+    </monk-form>
+  `,
+};
@@ -0,0 +1,299 @@
+import { html, css, type CSSResultArray, type TemplateResult } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+import { coreStyles } from '../../core/styles.js';
+import { BaseInput, type FieldValue } from '../input/base-input.js';
+import { MonkTextarea } from '../input/textarea.js';
+import { ToggleInput } from '../checkbox/toggle-input.js';
+import type { MonkButton } from '../button/button.js';
+
+/**
+ * Form values keyed by field name
+ * Text fields give a string; tags, multiple selects and checkbox groups a string[];
+ * file inputs a File[]
+ */
+export type FormValues = Record<string, FieldValue>;
+
+/**
+ * Field errors keyed by field name
+ */
+export type FormErrors = Record<string, string>;
+
+/**
+ * Detail of the `form-submit` event
+ */
+export interface FormSubmitDetail<T extends FormValues = FormValues> {
+  values: T;
+}
+
+/**
+ * Detail of the `form-invalid` event
+ */
+export interface FormInvalidDetail<T extends FormValues = FormValues> {
+  values: T;
+  errors: FormErrors;
+}
+
+/**
+ * Whether a field is disabled, by its own `disabled` or by a disabled fieldset
+ */
+const isDisabled = (field: BaseInput): boolean => field.disabled || field.matches(':disabled');
+
+/**
+ * Form component - Collects, validates and submits descendant monk inputs
+ *
+ * @element monk-form
+ *
+ * @example
+ * ```html
+ * <monk-form @form-submit=${(e) => save(e.detail.values)}>
+ *   <monk-email-input name="email" label="Email" required validate></monk-email-input>
+ *   <monk-password-input name="password" label="Password" required validate></monk-password-input>
+ *   <monk-button type="submit">Sign in</monk-button>
+ * </monk-form>
+ * ```
+ *
+ * @accessibility
+ * - Moves focus to the first invalid field after a failed submit
+ * - Enter in a single-line input submits, like a native form
+ *
+ * @fires form-submit - Fired when all fields are valid on submit, detail: `{ values }`
+ * @fires form-invalid - Fired when one or more fields are invalid on submit, detail: `{ values, errors }`
+ * @fires form-reset - Fired after the form has been reset
+ *
+ * @slot - Form content, including monk inputs and submit/reset buttons
+ */
+@customElement('monk-form')
+export class MonkForm<T extends FormValues = FormValues> extends MonkBaseElement {
+  /**
+   * Skip validation on submit (like the native `novalidate` attribute)
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  novalidate = false;
+
+  /**
+   * Value of each field when it was first discovered or last reset
+   */
+  private _initialValues = new WeakMap<BaseInput, string>();
+
+  /**
+   * Checked state of each checkbox and switch when first discovered or last reset
+   */
+  private _initialChecked = new WeakMap<ToggleInput, boolean>();
+
+  /**
+   * Names of fields that have lost focus at least once
+   */
+  private _touched = new Set<string>();
+
+  static override styles: CSSResultArray = [
+    coreStyles,
+    css`
+      :host {
+        display: block;
+      }
+    `,
+  ];
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.addEventListener('click', this._handleClick);
+    this.addEventListener('input-keydown', this._handleInputKeydown);
+    this.addEventListener('input-blur', this._handleInputBlur);
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.removeEventListener('click', this._handleClick);
+    this.removeEventListener('input-keydown', this._handleInputKeydown);
+    this.removeEventListener('input-blur', this._handleInputBlur);
+  }
+
+  /**
+   * All monk inputs inside the form, including those assigned through slots
+   */
+  get fields(): BaseInput[] {
+    const fields: BaseInput[] = [];
+
+    const visit = (element: Element): void => {
+      if (element instanceof BaseInput) {
+        fields.push(element);
+        if (!this._initialValues.has(element)) {
+          this._initialValues.set(element, element.value);
+          if (element instanceof ToggleInput) {
+            this._initialChecked.set(element, element.checked);
+          }
+        }
+        return;
+      }
+
+      const children =
+        element instanceof HTMLSlotElement
+          ? element.assignedElements({ flatten: true })
+          : Array.from(element.children);
+      children.forEach(visit);
+    };
+
+    Array.from(this.children).forEach(visit);
+    return fields;
+  }
+
+  /**
+   * Current values of all named fields, as each field's `fieldValue`
+   */
+  get values(): T {
+    const values: FormValues = {};
+    for (const field of this.fields) {
+      if (field.name && !isDisabled(field)) {
+        values[field.name] = field.fieldValue;
+      }
+    }
+    return values as T;
+  }
+
+  /**
+   * Whether any field differs from its initial value
+   */
+  get isDirty(): boolean {
+    return this.fields.some(
+      (field) =>
+        field.value !== this._initialValues.get(field) ||
+        (field instanceof ToggleInput && field.checked !== this._initialChecked.get(field))
+    );
+  }
+
+  /**
+   * Names of fields that have been focused and blurred
+   */
+  get touched(): ReadonlySet<string> {
+    return new Set(this._touched);
+  }
+
+  /**
+   * Validate every field and emit `form-submit` or `form-invalid`
+   * Waits for any async validators to settle first
+   * @returns true if the form was submitted, false if validation failed
+   */
+  public async submit(): Promise<boolean> {
+    const values = this.values;
+
+    if (!this.novalidate) {
+      const { valid, errors } = await this.validateFields();
+
+      if (!valid) {
+        this.emitEvent<FormInvalidDetail<T>>('form-invalid', { values, errors });
+        return false;
+      }
+    }
+
+    this.emitEvent<FormSubmitDetail<T>>('form-submit', { values });
+    return true;
+  }
+
+  /**
+   * Restore every field to its initial value and clear errors and touched state
+   */
+  public reset(): void {
+    for (const field of this.fields) {
+      field.value = this._initialValues.get(field) ?? '';
+      if (field instanceof ToggleInput) {
+        field.checked = this._initialChecked.get(field) ?? false;
+      }
+      field.clearError();
+    }
+    this._touched.clear();
+    this.emitEvent('form-reset');
+  }
+
+  /**
+   * Show errors on fields by name, e.g. from a server response
+   * An empty message clears that field's error
+   */
+  public setErrors(errors: FormErrors): void {
+    for (const field of this.fields) {
+      if (field.name && field.name in errors) {
+        field.setError(errors[field.name]);
+      }
+    }
+  }
+
+  /**
+   * Run validation on all enabled fields and focus the first invalid one
+   * Each field honours its `validateOn` (see BaseInput.validateForSubmit)
+   */
+  private async validateFields(): Promise<{ valid: boolean; errors: FormErrors }> {
+    const errors: FormErrors = {};
+    let firstInvalid: BaseInput | undefined;
+
+    const fields = this.fields.filter((field) => !isDisabled(field));
+    const results = await Promise.all(fields.map((field) => field.validateForSubmit()));
+
+    for (const [index, field] of fields.entries()) {
+      if (results[index]) continue;
+
+      firstInvalid ??= field;
+      if (field.name) {
+        errors[field.name] = field.errorMessage || 'Invalid value';
+      }
+    }
+
+    firstInvalid?.focus();
+    return { valid: !firstInvalid, errors };
+  }
+
+  private _handleClick = (event: MouseEvent): void => {
+    // A native button or the inner <button> of monk-button carries the type; a click()
+    // from script on a monk-button host never reaches the inner button, so the host does
+    const button = event
+      .composedPath()
+      .find(
+        (target): target is HTMLButtonElement | MonkButton =>
+          target instanceof HTMLButtonElement ||
+          (target instanceof Element && target.localName === 'monk-button')
+      );
+
+    if (!button || button.disabled) return;
+
+    if (button.type === 'submit') {
+      event.preventDefault();
+      this.submit();
+    } else if (button.type === 'reset') {
+      event.preventDefault();
+      this.reset();
+    }
+  };
+
+  private _handleInputKeydown = (event: Event): void => {
+    const { key, originalEvent } = (
+      event as CustomEvent<{ key: string; originalEvent: KeyboardEvent }>
+    ).detail;
+
+    // Fields that handle Enter themselves (picking a suggestion) prevent the default
+    if (
+      key === 'Enter' &&
+      !originalEvent.isComposing &&
+      !originalEvent.defaultPrevented &&
+      !(event.target instanceof MonkTextarea)
+    ) {
+      originalEvent.preventDefault();
+      this.submit();
+    }
+  };
+
+  private _handleInputBlur = (event: Event): void => {
+    if (event.target instanceof BaseInput && event.target.name) {
+      this._touched.add(event.target.name);
+    }
+  };
+
+  protected override render(): TemplateResult {
+    return html`<slot></slot>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-form': MonkForm;
+  }
+}
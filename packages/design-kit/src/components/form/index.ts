@@ -0,0 +1,24 @@
+export { MonkForm } from './form.js';
+export type { FormValues, FormErrors, FormSubmitDetail, FormInvalidDetail } from './form.js';
+export { MonkSchemaForm } from './schema-form.js';
+export type {
+  SchemaFormSubmitDetail,
+  SchemaFormInvalidDetail,
+  SchemaFormChangeDetail,
+} from './schema-form.js';
+export {
+  schemaWidget,
+  schemaValidators,
+  schemaChoices,
+  withDefaults,
+  fromFieldValue,
+  toFieldValue,
+} from './schema-utils.js';
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  UiSchema,
+  UiOptions,
+  SchemaWidget,
+  SchemaValues,
+} from './schema-utils.js';
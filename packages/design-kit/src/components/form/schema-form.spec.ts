@@ -0,0 +1,480 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkSchemaForm } from './schema-form.js';
+import type { JsonSchema } from './schema-utils.js';
+import {
+  orderedProperties,
+  schemaValidators,
+  schemaWidget,
+  titleFromKey,
+  withDefaults,
+} from './schema-utils.js';
+import type { BaseInput } from '../input/base-input.js';
+import '../button/button.js';
+
+const profileSchema: JsonSchema = {
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: { type: 'string', format: 'email', title: 'Email' },
+    age: { type: 'integer', minimum: 18, maximum: 120 },
+    birthday: { type: 'string', format: 'date' },
+    newsletter: { type: 'boolean', default: true },
+    plan: { type: 'string', enum: ['free', 'pro'], default: 'free' },
+    address: {
+      type: 'object',
+      title: 'Address',
+      properties: {
+        city: { type: 'string' },
+        zip: { type: 'string', pattern: '^\\d{5}$' },
+      },
+    },
+    phones: { type: 'array', items: { type: 'string', title: 'Phone' }, maxItems: 2 },
+  },
+};
+
+const fieldOf = <T extends BaseInput = BaseInput>(element: MonkSchemaForm, name: string): T =>
+  element.shadowRoot?.querySelector(`[name="${name}"]`) as T;
+
+const typeInto = (field: BaseInput, value: string): void => {
+  const input = field.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+describe('MonkSchemaForm', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-schema-form');
+    expect(element).to.be.instanceOf(MonkSchemaForm);
+  });
+
+  describe('Fields', () => {
+    it('should render the input matching each schema value', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+
+      expect(fieldOf(element, 'email').localName).to.equal('monk-email-input');
+      expect(fieldOf(element, 'age').localName).to.equal('monk-number-input');
+      expect(fieldOf(element, 'birthday').localName).to.equal('monk-date-input');
+      expect(fieldOf(element, 'newsletter').localName).to.equal('monk-checkbox');
+      expect(fieldOf(element, 'plan').localName).to.equal('monk-select');
+      expect(fieldOf(element, 'address.city').localName).to.equal('monk-text-input');
+    });
+
+    it('should label fields from titles, UI titles and property names', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .uiSchema=${{ age: { 'ui:title': 'Your age' } }}
+        ></monk-schema-form>
+      `);
+
+      expect(fieldOf(element, 'email').label).to.equal('Email');
+      expect(fieldOf(element, 'age').label).to.equal('Your age');
+      expect(fieldOf(element, 'birthday').label).to.equal('Birthday');
+      expect(element.shadowRoot?.querySelector('legend')?.textContent).to.equal('Address');
+    });
+
+    it('should mark required fields and map number bounds', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+      const age = fieldOf(element, 'age');
+
+      expect(fieldOf(element, 'email').required).to.be.true;
+      expect(age.required).to.be.false;
+      expect(age.getAttribute('min')).to.equal('18');
+      expect(age.getAttribute('max')).to.equal('120');
+      expect(age.getAttribute('step')).to.equal('1');
+    });
+
+    it('should follow ui:widget and ui:order', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .uiSchema=${{
+            'ui:order': ['plan', '*'],
+            email: { 'ui:widget': 'hidden' },
+            newsletter: { 'ui:widget': 'switch' },
+          }}
+        ></monk-schema-form>
+      `);
+      const fields = element.shadowRoot?.querySelector('[part="fields"]') as HTMLElement;
+
+      expect(fieldOf(element, 'email')).to.be.null;
+      expect(fieldOf(element, 'newsletter').localName).to.equal('monk-switch');
+      expect(fields.firstElementChild?.getAttribute('name')).to.equal('plan');
+    });
+  });
+
+  describe('Values', () => {
+    it('should fill defaults and show given values', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ email: 'ada@example.com', age: 36, address: { city: 'London' } }}
+        ></monk-schema-form>
+      `);
+
+      expect(element.values).to.deep.equal({
+        email: 'ada@example.com',
+        age: 36,
+        newsletter: true,
+        plan: 'free',
+        address: { city: 'London' },
+        phones: [],
+      });
+      expect(fieldOf(element, 'age').value).to.equal('36');
+      expect(fieldOf(element, 'address.city').value).to.equal('London');
+    });
+
+    it('should emit typed values as fields change', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+
+      setTimeout(() => typeInto(fieldOf(element, 'age'), '42'));
+      const event = await oneEvent(element, 'form-change');
+
+      expect(event.detail.path).to.equal('age');
+      expect(event.detail.values.age).to.equal(42);
+
+      setTimeout(() => typeInto(fieldOf(element, 'address.zip'), '12345'));
+      await oneEvent(element, 'form-change');
+      expect(element.values.address).to.deep.equal({ zip: '12345' });
+    });
+
+    it('should report booleans and dates as typed values', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+
+      const checkbox = fieldOf(element, 'newsletter').shadowRoot?.querySelector('input');
+      setTimeout(() => checkbox?.click());
+      await oneEvent(element, 'form-change');
+      expect(element.values.newsletter).to.be.false;
+
+      setTimeout(() => typeInto(fieldOf(element, 'birthday'), '07/04/1990'));
+      await oneEvent(element, 'form-change');
+      expect(element.values.birthday).to.equal('1990-07-04');
+    });
+
+    it('should drop emptied optional values', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema} .initialValues=${{ age: 30 }}></monk-schema-form>
+      `);
+
+      setTimeout(() => typeInto(fieldOf(element, 'age'), ''));
+      await oneEvent(element, 'form-change');
+
+      expect(element.values).not.to.have.property('age');
+    });
+
+    it('should keep typed values when given equal initial values again', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ email: 'ada@example.com' }}
+        ></monk-schema-form>
+      `);
+
+      setTimeout(() => typeInto(fieldOf(element, 'email'), 'grace@example.com'));
+      await oneEvent(element, 'form-change');
+
+      // e.g. a framework re-rendering with a fresh but equal object
+      element.initialValues = { email: 'ada@example.com' };
+      element.values = element.values;
+      await element.updateComplete;
+      expect(element.values.email).to.equal('grace@example.com');
+      expect(fieldOf(element, 'email').value).to.equal('grace@example.com');
+
+      element.initialValues = { email: 'alan@example.com' };
+      await element.updateComplete;
+      expect(element.values.email).to.equal('alan@example.com');
+      expect(fieldOf(element, 'email').value).to.equal('alan@example.com');
+    });
+  });
+
+  describe('Arrays', () => {
+    it('should add and remove rows', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+      const add = element.shadowRoot?.querySelector('[part="add-button"]') as HTMLButtonElement;
+
+      setTimeout(() => add.click());
+      const event = await oneEvent(element, 'form-change');
+      await element.updateComplete;
+
+      expect(event.detail.path).to.equal('phones');
+      expect(fieldOf(element, 'phones.0').label).to.equal('Phone 1');
+
+      add.click();
+      await element.updateComplete;
+      expect(add.disabled, 'maxItems reached').to.be.true;
+
+      setTimeout(() => typeInto(fieldOf(element, 'phones.1'), '555-0100'));
+      await oneEvent(element, 'form-change');
+
+      const remove = element.shadowRoot?.querySelector(
+        '[part="remove-button"]'
+      ) as HTMLButtonElement;
+      expect(remove.getAttribute('aria-label')).to.equal('Remove Phone 1');
+
+      remove.click();
+      await element.updateComplete;
+      expect(element.values.phones).to.deep.equal(['555-0100']);
+      expect(fieldOf(element, 'phones.0').value).to.equal('555-0100');
+      expect(fieldOf(element, 'phones.1')).to.be.null;
+    });
+
+    it('should keep the inputs of the remaining rows when a row is removed', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ phones: ['555-0100', '555-0199'] }}
+        ></monk-schema-form>
+      `);
+      const second = fieldOf(element, 'phones.1');
+
+      (element.shadowRoot?.querySelector('[part="remove-button"]') as HTMLButtonElement).click();
+      await element.updateComplete;
+
+      expect(fieldOf(element, 'phones.0')).to.equal(second);
+      expect(second.label).to.equal('Phone 1');
+      expect(element.values.phones).to.deep.equal(['555-0199']);
+    });
+
+    it('should render rows of objects and keep minItems rows', async () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+          contacts: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              title: 'Contact',
+              properties: { name: { type: 'string' }, primary: { type: 'boolean' } },
+            },
+          },
+        },
+      };
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${schema}></monk-schema-form>
+      `);
+      const remove = element.shadowRoot?.querySelector(
+        '[part="remove-button"]'
+      ) as HTMLButtonElement;
+
+      expect(element.values.contacts).to.deep.equal([{}]);
+      expect(fieldOf(element, 'contacts.0.name')).to.exist;
+      expect(remove.disabled).to.be.true;
+    });
+
+    it('should render arrays of choices as a multiple select', async () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+          sizes: { type: 'array', items: { type: 'integer', enum: [1, 2, 3] } },
+        },
+      };
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${schema} .initialValues=${{ sizes: [1, 3] }}></monk-schema-form>
+      `);
+      const select = fieldOf(element, 'sizes');
+
+      expect(select.localName).to.equal('monk-select');
+      expect(select.hasAttribute('multiple')).to.be.true;
+      expect(select.value).to.equal('1,3');
+    });
+
+    it('should count the items of list inputs for minItems', async () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+          skills: { type: 'array', items: { type: 'string' }, minItems: 2 },
+        },
+      };
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${schema}
+          .uiSchema=${{ skills: { 'ui:widget': 'tags' } }}
+          .initialValues=${{ skills: ['lit'] }}
+        ></monk-schema-form>
+      `);
+
+      setTimeout(() => element.submit());
+      const event = await oneEvent(element, 'form-invalid');
+
+      expect(event.detail.errors.skills).to.equal('Choose at least 2');
+    });
+  });
+
+  describe('Submit', () => {
+    it('should submit typed values', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ email: 'ada@example.com', age: 36 }}
+        ></monk-schema-form>
+      `);
+
+      setTimeout(() => element.submit());
+      const event = await oneEvent(element, 'form-submit');
+
+      expect(event.detail.values.email).to.equal('ada@example.com');
+      expect(event.detail.values.age).to.equal(36);
+    });
+
+    it('should report schema constraint errors by path', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ age: 12, address: { zip: '123' } }}
+        ></monk-schema-form>
+      `);
+
+      setTimeout(() => element.submit());
+      const event = await oneEvent(element, 'form-invalid');
+
+      expect(Object.keys(event.detail.errors)).to.have.members(['email', 'age', 'address.zip']);
+      expect(event.detail.errors.age).to.equal('Must be at least 18');
+    });
+
+    it('should submit from a slotted submit button', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema} .initialValues=${{ email: 'ada@example.com' }}>
+          <monk-button type="submit">Save</monk-button>
+        </monk-schema-form>
+      `);
+
+      setTimeout(() => (element.querySelector('monk-button') as HTMLElement).click());
+      const event = await oneEvent(element, 'form-submit');
+
+      expect(event.detail.values.email).to.equal('ada@example.com');
+    });
+
+    it('should reset from a slotted reset button', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema} .initialValues=${{ email: 'ada@example.com' }}>
+          <monk-button type="reset">Reset</monk-button>
+        </monk-schema-form>
+      `);
+
+      setTimeout(() => typeInto(fieldOf(element, 'email'), 'grace@example.com'));
+      await oneEvent(element, 'form-change');
+
+      setTimeout(() => (element.querySelector('monk-button') as HTMLElement).click());
+      await oneEvent(element, 'form-reset');
+
+      expect(element.values.email).to.equal('ada@example.com');
+    });
+
+    it('should show server errors by path', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form .schema=${profileSchema}></monk-schema-form>
+      `);
+
+      element.setErrors({ 'address.city': 'Unknown city' });
+
+      expect(fieldOf(element, 'address.city').errorMessage).to.equal('Unknown city');
+    });
+  });
+
+  describe('Reset', () => {
+    it('should restore the initial values and rows', async () => {
+      const element = await fixture<MonkSchemaForm>(html`
+        <monk-schema-form
+          .schema=${profileSchema}
+          .initialValues=${{ phones: ['555-0100'] }}
+        ></monk-schema-form>
+      `);
+
+      (element.shadowRoot?.querySelector('[part="add-button"]') as HTMLButtonElement).click();
+      await element.updateComplete;
+      expect(element.isDirty).to.be.true;
+
+      setTimeout(() => element.reset());
+      await oneEvent(element, 'form-reset');
+      await element.updateComplete;
+
+      expect(element.isDirty).to.be.false;
+      expect(element.values.phones).to.deep.equal(['555-0100']);
+      expect(fieldOf(element, 'phones.1')).to.be.null;
+    });
+  });
+
+  describe('Schema helpers', () => {
+    it('should choose widgets from type, enum and format', () => {
+      expect(schemaWidget({ type: 'string', format: 'date-time' })).to.equal('datetime');
+      expect(schemaWidget({ type: 'string', format: 'uri' })).to.equal('url');
+      expect(schemaWidget({ type: 'number', enum: [1, 2] })).to.equal('select');
+      expect(schemaWidget({ type: 'object' })).to.be.null;
+      expect(schemaWidget({ type: 'array', items: { type: 'string' } })).to.be.null;
+      expect(
+        schemaWidget({ type: 'array', items: { type: 'string' } }, { 'ui:widget': 'tags' })
+      ).to.equal('tags');
+      expect(schemaWidget({ type: 'string' }, { 'ui:widget': 'textarea' })).to.equal('textarea');
+    });
+
+    it('should map constraints to validators that skip empty values', () => {
+      const [minLength, pattern] = schemaValidators(
+        { type: 'string', minLength: 3, pattern: '^[a-z]+$' },
+        'text'
+      );
+
+      expect(minLength('')).to.be.true;
+      expect(minLength('ab')).to.include({
+        valid: false,
+        message: 'Must be at least 3 characters',
+      });
+      expect(pattern('abc')).to.include({ valid: true });
+      expect(pattern('ABC')).to.include({ valid: false });
+
+      const [integer, multipleOf] = schemaValidators({ type: 'integer', multipleOf: 5 }, 'number');
+      expect(integer('2.5')).to.include({ valid: false, code: 'integer' });
+      expect(multipleOf('15')).to.include({ valid: true });
+      expect(multipleOf('12')).to.include({ valid: false, message: 'Must be a multiple of 5' });
+    });
+
+    it('should skip an invalid pattern with a single warning', () => {
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => warnings.push(args[0]);
+      try {
+        const schema: JsonSchema = { type: 'string', pattern: '^[a-z' };
+        expect(schemaValidators(schema, 'text')).to.have.length(0);
+        expect(schemaValidators(schema, 'text')).to.have.length(0);
+      } finally {
+        console.warn = warn;
+      }
+
+      expect(warnings).to.have.length(1);
+    });
+
+    it('should order properties and title property names', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: { a: {}, b: {}, c: {} },
+      };
+
+      expect(orderedProperties(schema, { 'ui:order': ['c', '*', 'a'] })).to.deep.equal([
+        'c',
+        'b',
+        'a',
+      ]);
+      expect(titleFromKey('firstName')).to.equal('First name');
+      expect(titleFromKey('zip_code')).to.equal('Zip code');
+    });
+
+    it('should fill defaults without overwriting values', () => {
+      expect(withDefaults(profileSchema, { plan: 'pro' })).to.deep.equal({
+        newsletter: true,
+        plan: 'pro',
+        address: {},
+        phones: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './schema-form.js';
+import '../layout/flex.js';
+import '../button/button.js';
+import type { JsonSchema, UiSchema } from './schema-utils.js';
+import type { MonkSchemaForm } from './schema-form.js';
+
+const meta: Meta = {
+  title: 'Components/Form/SchemaForm',
+  component: 'monk-schema-form',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Schema Form renders monk inputs for a JSON Schema, validates them with the schema's constraints and emits typed values.
+
+## Features
+
+- **Widgets**: \`format\` email, uri, date, time, date-time and color pick the matching input; numbers get a number input, \`enum\` / \`oneOf\` a select and booleans a checkbox
+- **UI schema**: \`ui:widget\`, \`ui:title\`, \`ui:help\`, \`ui:placeholder\`, \`ui:order\`, \`ui:disabled\` and \`ui:readonly\`
+- **Validation**: \`required\`, \`minLength\`, \`maxLength\`, \`pattern\`, \`minimum\`, \`maximum\`, \`multipleOf\`, \`minItems\` and \`maxItems\` become each input's validators
+- **Nesting**: Objects render as groups, arrays as rows with add and remove buttons
+- **Typed values**: \`form-change\`, \`form-submit\` and \`form-invalid\` carry numbers, booleans and arrays, not strings; errors are keyed by path (\`address.city\`)
+
+## Usage
+
+\`\`\`html
+<monk-schema-form .schema=\${schema} .uiSchema=\${uiSchema} .initialValues=\${initialValues}>
+  <monk-button type="submit">Save</monk-button>
+</monk-schema-form>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+const profileSchema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'email'],
+  properties: {
+    name: { type: 'string', title: 'Full name', minLength: 2 },
+    email: { type: 'string', format: 'email', title: 'Email' },
+    birthday: { type: 'string', format: 'date' },
+    age: { type: 'integer', minimum: 18, maximum: 120 },
+    plan: {
+      type: 'string',
+      title: 'Plan',
+      oneOf: [
+        { const: 'free', title: 'Free' },
+        { const: 'team', title: 'Team' },
+        { const: 'enterprise', title: 'Enterprise' },
+      ],
+      default: 'free',
+    },
+    newsletter: { type: 'boolean', title: 'Send me the newsletter', default: true },
+    bio: { type: 'string', maxLength: 280, description: 'Shown on your public profile' },
+    address: {
+      type: 'object',
+      title: 'Address',
+      properties: {
+        street: { type: 'string' },
+        city: { type: 'string' },
+        zip: { type: 'string', title: 'ZIP code', pattern: '^\\d{5}$' },
+      },
+    },
+    phones: {
+      type: 'array',
+      title: 'Phone numbers',
+      items: { type: 'string', title: 'Phone' },
+      maxItems: 3,
+    },
+    skills: { type: 'array', title: 'Skills', items: { type: 'string' } },
+  },
+};
+
+const profileUi: UiSchema = {
+  'ui:order': ['name', 'email', '*'],
+  bio: { 'ui:widget': 'textarea' },
+  newsletter: { 'ui:widget': 'switch' },
+  phones: { items: { 'ui:widget': 'phone' } },
+  skills: { 'ui:widget': 'tags', 'ui:placeholder': 'Add a skill' },
+};
+
+export const Default: Story = {
+  render: () => html`
+    <monk-schema-form
+      style="max-width: 480px;"
+      .schema=${profileSchema}
+      .uiSchema=${profileUi}
+      .initialValues=${{ name: 'Ada Lovelace', phones: ['+44 20 7946 0000'] }}
+      @form-change=${(e: CustomEvent) => console.log('Change:', e.detail.path, e.detail.values)}
+      @form-submit=${(e: CustomEvent) => console.log('Submit:', e.detail.values)}
+      @form-invalid=${(e: CustomEvent) => console.log('Invalid:', e.detail.errors)}
+    >
+      <monk-flex gap="3">
+        <monk-button type="reset" variant="outline" color-scheme="neutral">Reset</monk-button>
+        <monk-button type="submit">Save</monk-button>
+      </monk-flex>
+    </monk-schema-form>
+  `,
+};
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  required: ['customer'],
+  properties: {
+    customer: { type: 'string' },
+    deliverAt: { type: 'string', format: 'date-time', title: 'Delivery' },
+    lines: {
+      type: 'array',
+      title: 'Order lines',
+      minItems: 1,
+      items: {
+        type: 'object',
+        title: 'Line',
+        required: ['product', 'quantity'],
+        properties: {
+          product: { type: 'string', enum: ['Coffee', 'Tea', 'Cocoa'] },
+          quantity: { type: 'integer', minimum: 1, default: 1 },
+          giftWrap: { type: 'boolean' },
+        },
+      },
+    },
+  },
+};
+
+export const NestedArrays: Story = {
+  render: () => html`
+    <monk-schema-form
+      style="max-width: 480px;"
+      .schema=${orderSchema}
+      @form-submit=${(e: CustomEvent) => console.log('Submit:', e.detail.values)}
+    >
+      <monk-button type="submit">Place order</monk-button>
+    </monk-schema-form>
+  `,
+};
+
+/**
+ * Errors returned from the server can be shown by path with setErrors()
+ */
+export const ServerErrors: Story = {
+  render: () => html`
+    <monk-schema-form
+      style="max-width: 480px;"
+      .schema=${profileSchema}
+      .initialValues=${{
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        address: { zip: '99999' },
+      }}
+      @form-submit=${(e: CustomEvent) => {
+        const form = e.target as MonkSchemaForm;
+        setTimeout(() => form.setErrors({ 'address.zip': 'No deliveries to this ZIP code' }), 500);
+      }}
+    >
+      <monk-button type="submit">Save</monk-button>
+    </monk-schema-form>
+  `,
+};
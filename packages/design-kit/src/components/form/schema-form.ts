@@ -0,0 +1,688 @@
+import {
+  html,
+  css,
+  nothing,
+  type CSSResultArray,
+  type PropertyValues,
+  type TemplateResult,
+} from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { keyed } from 'lit/directives/keyed.js';
+import { live } from 'lit/directives/live.js';
+import { repeat } from 'lit/directives/repeat.js';
+import { unsafeStatic, html as staticHtml } from 'lit/static-html.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+import { coreStyles } from '../../core/styles.js';
+import { BaseInput } from '../input/base-input.js';
+import { MonkDateInput } from '../input/date-input.js';
+import { ToggleInput } from '../checkbox/toggle-input.js';
+import type { FormErrors, MonkForm } from './form.js';
+import {
+  type JsonSchema,
+  type SchemaValues,
+  type SchemaWidget,
+  type UiSchema,
+  childUi,
+  cloneValue,
+  fromFieldValue,
+  getAt,
+  orderedProperties,
+  schemaAt,
+  schemaChoices,
+  schemaValidators,
+  schemaWidget,
+  setAt,
+  titleFromKey,
+  toFieldValue,
+  uiAt,
+  withDefaults,
+} from './schema-utils.js';
+import './form.js';
+import '../input/text-input.js';
+import '../input/textarea.js';
+import '../input/password-input.js';
+import '../input/email-input.js';
+import '../input/url-input.js';
+import '../input/phone-input.js';
+import '../input/number-input.js';
+import '../input/date-input.js';
+import '../input/time-input.js';
+import '../input/datetime-input.js';
+import '../input/color-input.js';
+import '../input/tag-input.js';
+import '../select/select.js';
+import '../checkbox/checkbox.js';
+import '../switch/switch.js';
+
+/**
+ * Detail of the `form-submit` event
+ */
+export interface SchemaFormSubmitDetail<T extends SchemaValues = SchemaValues> {
+  values: T;
+}
+
+/**
+ * Detail of the `form-invalid` event
+ * Errors are keyed by field path, e.g. "address.city" or "phones.0"
+ */
+export interface SchemaFormInvalidDetail<T extends SchemaValues = SchemaValues> {
+  values: T;
+  errors: FormErrors;
+}
+
+/**
+ * Detail of the `form-change` event
+ */
+export interface SchemaFormChangeDetail<T extends SchemaValues = SchemaValues> {
+  values: T;
+  /** Path of the field, or array, that changed */
+  path: string;
+}
+
+/**
+ * Elements for the widgets that share the plain text field template
+ */
+const FIELD_TAGS: Partial<Record<SchemaWidget, string>> = {
+  text: 'monk-text-input',
+  textarea: 'monk-textarea',
+  password: 'monk-password-input',
+  email: 'monk-email-input',
+  url: 'monk-url-input',
+  phone: 'monk-phone-input',
+  date: 'monk-date-input',
+  time: 'monk-time-input',
+  datetime: 'monk-datetime-input',
+  color: 'monk-color-input',
+  tags: 'monk-tag-input',
+};
+
+/**
+ * Whether two JSON values are equal
+ */
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Where and how one schema value is rendered
+ */
+interface FieldContext {
+  path: string;
+  label: string;
+  required: boolean;
+  ui?: UiSchema;
+}
+
+/**
+ * Schema form component - Renders monk inputs for a JSON Schema and emits typed values
+ *
+ * @element monk-schema-form
+ *
+ * @example
+ * ```html
+ * <monk-schema-form
+ *   .schema=${{
+ *     type: 'object',
+ *     required: ['email'],
+ *     properties: {
+ *       email: { type: 'string', format: 'email', title: 'Email' },
+ *       age: { type: 'integer', minimum: 18 },
+ *       address: {
+ *         type: 'object',
+ *         properties: { city: { type: 'string' }, zip: { type: 'string', pattern: '^\\d{5}$' } },
+ *       },
+ *       phones: { type: 'array', items: { type: 'string', title: 'Phone' } },
+ *     },
+ *   }}
+ *   .uiSchema=${{ phones: { items: { 'ui:widget': 'phone' } } }}
+ *   .initialValues=${{ email: 'ada@example.com' }}
+ *   @form-submit=${(e) => save(e.detail.values)}
+ * >
+ *   <monk-button type="submit">Save</monk-button>
+ * </monk-schema-form>
+ * ```
+ *
+ * Inputs are chosen from the schema: `format` email, uri, date, time and date-time get the
+ * matching monk input, numbers get `monk-number-input`, `enum` / `oneOf` get `monk-select`,
+ * booleans get `monk-checkbox`. `ui:widget` in the UI schema overrides the choice.
+ * Schema constraints become each input's `validators`. Objects render as groups and
+ * arrays as rows that can be added and removed.
+ *
+ * @accessibility
+ * - Objects and arrays are `<fieldset>`s labelled by their title
+ * - Each remove button names the row it removes; a new row's first input receives focus
+ * - Submitting works as in monk-form: Enter submits, the first invalid input receives focus
+ *
+ * @fires form-submit - Fired when all fields are valid on submit, detail: `{ values }`
+ * @fires form-invalid - Fired when fields are invalid on submit, detail: `{ values, errors }`
+ * @fires form-change - Fired when a value or the rows of an array change, detail: `{ values, path }`
+ * @fires form-reset - Fired after the form has been reset
+ *
+ * @csspart form - The inner monk-form
+ * @csspart fields - The generated fields
+ * @csspart group - Each object or array fieldset
+ * @csspart legend - The title of each group
+ * @csspart description - The description of each group
+ * @csspart array-row - Each row of an array
+ * @csspart add-button - The button adding a row to an array
+ * @csspart remove-button - The button removing an array row
+ *
+ * @slot - Content after the fields, e.g. submit and reset buttons
+ */
+@customElement('monk-schema-form')
+export class MonkSchemaForm<T extends SchemaValues = SchemaValues> extends MonkBaseElement {
+  /**
+   * JSON Schema of the values; the root must be an object
+   */
+  @property({ attribute: false })
+  schema: JsonSchema = { type: 'object', properties: {} };
+
+  /**
+   * Presentation options keyed like the schema's properties (`ui:widget`, `ui:order`, ...)
+   */
+  @property({ attribute: false })
+  uiSchema: UiSchema = {};
+
+  /**
+   * Skip validation on submit (like the native `novalidate` attribute)
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  novalidate = false;
+
+  /**
+   * Disable every field and the add/remove buttons
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Values the form started with, and returns to on reset
+   */
+  private _initialValues: SchemaValues = {};
+
+  /**
+   * Current values; updated in place as fields change, without re-rendering the fields
+   */
+  private _values: SchemaValues = {};
+
+  /**
+   * Bumped to render fresh fields when the values are replaced or reset
+   */
+  @state()
+  private _generation = 0;
+
+  /**
+   * Stable ids of the rows of each array, so rows keep their inputs when one is removed
+   */
+  private _rowIds = new WeakMap<unknown[], number[]>();
+
+  private _nextRowId = 0;
+
+  @query('monk-form')
+  private _form?: MonkForm;
+
+  static override styles: CSSResultArray = [
+    coreStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .fields,
+      .group {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-4);
+      }
+
+      .fields {
+        margin-bottom: var(--monk-space-4);
+      }
+
+      .group {
+        min-width: 0;
+        margin: 0;
+        padding: var(--monk-space-4);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+      }
+
+      .legend {
+        padding: 0 var(--monk-space-1);
+        font-size: var(--monk-font-size-sm);
+        font-weight: var(--monk-font-weight-semibold);
+        color: var(--monk-color-text-primary);
+      }
+
+      .description {
+        margin: 0;
+        font-size: var(--monk-font-size-sm);
+        color: var(--monk-color-text-secondary);
+      }
+
+      .array-row {
+        display: flex;
+        align-items: flex-start;
+        gap: var(--monk-space-2);
+      }
+
+      .array-item {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .add-button,
+      .remove-button {
+        padding: var(--monk-space-1) var(--monk-space-2);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font: inherit;
+        font-size: var(--monk-font-size-sm);
+        cursor: pointer;
+      }
+
+      .add-button {
+        align-self: flex-start;
+      }
+
+      .add-button:hover:not(:disabled),
+      .remove-button:hover:not(:disabled) {
+        background: var(--monk-color-bg-subtle);
+      }
+
+      .add-button:focus-visible,
+      .remove-button:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      .add-button:disabled,
+      .remove-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    `,
+  ];
+
+  /**
+   * Values the form starts with, and returns to on reset
+   * Setting values equal to the current initial values keeps what the user typed,
+   * so frameworks can pass the same values on every render.
+   */
+  get initialValues(): Partial<T> {
+    return cloneValue(this._initialValues) as Partial<T>;
+  }
+
+  set initialValues(values: Partial<T>) {
+    const initialValues = this.applyDefaults(cloneValue(values) ?? {});
+    if (sameValue(initialValues, this._initialValues)) return;
+
+    this._initialValues = initialValues;
+    this.replaceValues(initialValues);
+  }
+
+  /**
+   * Current values, typed by the schema
+   * Setting them replaces what the fields show, unless they equal the current values;
+   * reset still returns to `initialValues`.
+   */
+  get values(): T {
+    return cloneValue(this._values) as T;
+  }
+
+  set values(values: Partial<T>) {
+    const next = this.applyDefaults(cloneValue(values) ?? {});
+    if (!sameValue(next, this._values)) this.replaceValues(next);
+  }
+
+  /**
+   * Whether the values differ from the initial values
+   */
+  get isDirty(): boolean {
+    return !sameValue(this._values, this._initialValues);
+  }
+
+  /**
+   * Validate every field and emit `form-submit` or `form-invalid`
+   * @returns true if the form was submitted, false if validation failed
+   */
+  public async submit(): Promise<boolean> {
+    await this.updateComplete;
+    return this._form?.submit() ?? false;
+  }
+
+  /**
+   * Restore the initial values and clear errors
+   */
+  public reset(): void {
+    this._form?.reset();
+  }
+
+  /**
+   * Show errors on fields by path, e.g. `{ 'address.city': 'Unknown city' }` from a server
+   * An empty message clears that field's error
+   */
+  public setErrors(errors: FormErrors): void {
+    this._form?.setErrors(errors);
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('schema') || changedProperties.has('uiSchema')) {
+      this._initialValues = this.applyDefaults(this._initialValues);
+      this._values = this.applyDefaults(this._values);
+    }
+  }
+
+  private applyDefaults(values: SchemaValues): SchemaValues {
+    return withDefaults(this.schema, values, this.uiSchema) as SchemaValues;
+  }
+
+  /**
+   * Show other values in fresh fields
+   */
+  private replaceValues(values: SchemaValues): void {
+    this._values = cloneValue(values);
+    this._generation++;
+  }
+
+  /**
+   * Ids of an array's rows; rows added since the last call get new ids
+   */
+  private rowIds(rows: unknown[]): number[] {
+    const ids = this._rowIds.get(rows) ?? [];
+    while (ids.length < rows.length) ids.push(this._nextRowId++);
+    this._rowIds.set(rows, ids);
+    return ids;
+  }
+
+  /**
+   * Items a list input (tags, multiple select) holds right now
+   * Validators run before the change reaches `values`, so they read the field itself.
+   */
+  private fieldItems(path: string): readonly unknown[] {
+    const value = this._form?.fields.find((field) => field.name === path)?.fieldValue;
+    return Array.isArray(value) ? value : [];
+  }
+
+  private emitChange(path: string): void {
+    this.emitEvent<SchemaFormChangeDetail<T>>('form-change', { values: this.values, path });
+  }
+
+  /**
+   * Typed value of a generated field
+   */
+  private readField(field: BaseInput, schema: JsonSchema, widget: SchemaWidget): unknown {
+    if (field instanceof ToggleInput) return field.checked;
+
+    // Date inputs hold their digits in display order; the API value is ISO 8601
+    const raw = field instanceof MonkDateInput ? field.getApiValue() : field.fieldValue;
+    return fromFieldValue(schema, widget, raw);
+  }
+
+  private _handleFieldChange = (event: Event): void => {
+    const field = event.target;
+    // Inputs slotted in by the page are not part of the schema
+    if (!(field instanceof BaseInput) || field.getRootNode() !== this.renderRoot || !field.name) {
+      return;
+    }
+
+    const path = field.name;
+    const schema = schemaAt(this.schema, path);
+    const widget = schema && schemaWidget(schema, uiAt(this.schema, this.uiSchema, path));
+    if (!schema || !widget) return;
+
+    setAt(this._values, path, this.readField(field, schema, widget));
+    this.emitChange(path);
+  };
+
+  /**
+   * Re-emit the inner form's events with typed values
+   */
+  private _handleSubmit = (event: Event): void => {
+    event.stopPropagation();
+    this.emitEvent<SchemaFormSubmitDetail<T>>('form-submit', { values: this.values });
+  };
+
+  private _handleInvalid = (event: Event): void => {
+    event.stopPropagation();
+    const { errors } = (event as CustomEvent<{ errors: FormErrors }>).detail;
+    this.emitEvent<SchemaFormInvalidDetail<T>>('form-invalid', { values: this.values, errors });
+  };
+
+  private _handleReset = (event: Event): void => {
+    event.stopPropagation();
+    this.replaceValues(this._initialValues);
+    this.emitEvent('form-reset');
+  };
+
+  private async addRow(path: string, items: JsonSchema, ui?: UiSchema): Promise<void> {
+    const rows = getAt(this._values, path) as unknown[];
+    const rowPath = `${path}.${rows.length}`;
+    rows.push(withDefaults(items, undefined, ui));
+    this.requestUpdate();
+    this.emitChange(path);
+
+    await this.updateComplete;
+    const first = this._form?.fields.find(
+      (field) => field.name === rowPath || field.name?.startsWith(`${rowPath}.`)
+    );
+    first?.focus();
+  }
+
+  private removeRow(path: string, index: number): void {
+    const rows = getAt(this._values, path) as unknown[];
+    this.rowIds(rows).splice(index, 1);
+    rows.splice(index, 1);
+    this.requestUpdate();
+    this.emitChange(path);
+  }
+
+  private renderNode(schema: JsonSchema, context: FieldContext): TemplateResult | typeof nothing {
+    const widget = schemaWidget(schema, context.ui);
+
+    if (widget === 'hidden') return nothing;
+    if (widget) return this.renderField(schema, widget, context);
+    return schema.type === 'array'
+      ? this.renderArray(schema, context)
+      : this.renderObject(schema, context);
+  }
+
+  private renderProperties(schema: JsonSchema, ui: UiSchema | undefined, path: string) {
+    return orderedProperties(schema, ui).map((key) => {
+      const property = (schema.properties as Record<string, JsonSchema>)[key];
+      const propertyUi = childUi(ui, key);
+
+      return this.renderNode(property, {
+        path: path ? `${path}.${key}` : key,
+        label: propertyUi?.['ui:title'] ?? property.title ?? titleFromKey(key),
+        required: schema.required?.includes(key) ?? false,
+        ui: propertyUi,
+      });
+    });
+  }
+
+  private renderDescription(schema: JsonSchema, ui?: UiSchema) {
+    const description = ui?.['ui:help'] ?? schema.description;
+    return description
+      ? html`<p class="description" part="description">${description}</p>`
+      : nothing;
+  }
+
+  private renderObject(schema: JsonSchema, { path, label, ui }: FieldContext) {
+    return html`
+      <fieldset class="group" part="group">
+        <legend class="legend" part="legend">${label}</legend>
+        ${this.renderDescription(schema, ui)} ${this.renderProperties(schema, ui, path)}
+      </fieldset>
+    `;
+  }
+
+  private renderArray(schema: JsonSchema, { path, label, ui }: FieldContext) {
+    const rows = (getAt(this._values, path) as unknown[] | undefined) ?? [];
+    const items = schema.items ?? { type: 'string' };
+    const itemUi = childUi(ui, 'items');
+    const itemTitle = itemUi?.['ui:title'] ?? items.title ?? 'Item';
+    const locked = this.disabled || !!ui?.['ui:disabled'] || !!ui?.['ui:readonly'];
+    const canAdd = !locked && rows.length < (schema.maxItems ?? Infinity);
+    const canRemove = !locked && rows.length > (schema.minItems ?? 0);
+    const ids = this.rowIds(rows);
+
+    return html`
+      <fieldset class="group" part="group">
+        <legend class="legend" part="legend">${label}</legend>
+        ${this.renderDescription(schema, ui)}
+        ${repeat(
+          rows,
+          (_, index) => ids[index],
+          (_, index) => {
+            const rowLabel = `${itemTitle} ${index + 1}`;
+            return html`
+              <div class="array-row" part="array-row">
+                <div class="array-item">
+                  ${this.renderNode(items, {
+                    path: `${path}.${index}`,
+                    label: rowLabel,
+                    required: false,
+                    ui: itemUi,
+                  })}
+                </div>
+                <button
+                  type="button"
+                  class="remove-button"
+                  part="remove-button"
+                  aria-label=${`Remove ${rowLabel}`}
+                  ?disabled=${!canRemove}
+                  @click=${() => this.removeRow(path, index)}
+                >
+                  Remove
+                </button>
+              </div>
+            `;
+          }
+        )}
+        <button
+          type="button"
+          class="add-button"
+          part="add-button"
+          ?disabled=${!canAdd}
+          @click=${() => this.addRow(path, items, itemUi)}
+        >
+          Add ${itemTitle.toLowerCase()}
+        </button>
+      </fieldset>
+    `;
+  }
+
+  private renderField(schema: JsonSchema, widget: SchemaWidget, context: FieldContext) {
+    const { path, label, required, ui } = context;
+    const value = getAt(this._values, path);
+    const helperText = ui?.['ui:help'] ?? schema.description;
+    const disabled = this.disabled || !!ui?.['ui:disabled'];
+    const readonly = !!schema.readOnly || !!ui?.['ui:readonly'];
+    const validators = schemaValidators(schema, widget, () => this.fieldItems(path));
+
+    if (widget === 'checkbox' || widget === 'switch') {
+      const tag = unsafeStatic(`monk-${widget}`);
+      return staticHtml`
+        <${tag}
+          name=${path}
+          label=${label}
+          helper-text=${ifDefined(helperText)}
+          .checked=${live(value === true)}
+          ?disabled=${disabled || readonly}
+        ></${tag}>
+      `;
+    }
+
+    if (widget === 'select') {
+      const multiple = schema.type === 'array';
+      return html`
+        <monk-select
+          name=${path}
+          label=${label}
+          helper-text=${ifDefined(helperText)}
+          placeholder=${ifDefined(ui?.['ui:placeholder'])}
+          .options=${schemaChoices(multiple ? (schema.items ?? {}) : schema)}
+          .value=${live(toFieldValue(value))}
+          ?multiple=${multiple}
+          ?required=${required}
+          ?disabled=${disabled}
+          ?readonly=${readonly}
+          validate
+          .validators=${validators}
+        ></monk-select>
+      `;
+    }
+
+    if (widget === 'number') {
+      return html`
+        <monk-number-input
+          name=${path}
+          label=${label}
+          helper-text=${ifDefined(helperText)}
+          placeholder=${ifDefined(ui?.['ui:placeholder'])}
+          .value=${live(toFieldValue(value))}
+          min=${ifDefined(schema.minimum)}
+          max=${ifDefined(schema.maximum)}
+          step=${ifDefined(schema.multipleOf ?? (schema.type === 'integer' ? 1 : undefined))}
+          ?required=${required}
+          ?disabled=${disabled}
+          ?readonly=${readonly}
+          validate
+          .validators=${validators}
+        ></monk-number-input>
+      `;
+    }
+
+    const tag = unsafeStatic(FIELD_TAGS[widget] ?? 'monk-text-input');
+    return staticHtml`
+      <${tag}
+        name=${path}
+        label=${label}
+        helper-text=${ifDefined(helperText)}
+        placeholder=${ifDefined(ui?.['ui:placeholder'])}
+        .value=${live(toFieldValue(value))}
+        ?required=${required}
+        ?disabled=${disabled}
+        ?readonly=${readonly}
+        validate
+        .validators=${validators}
+      ></${tag}>
+    `;
+  }
+
+  protected override render(): TemplateResult {
+    return html`
+      <monk-form
+        part="form"
+        ?novalidate=${this.novalidate}
+        @input-change=${this._handleFieldChange}
+        @input-clear=${this._handleFieldChange}
+        @form-submit=${this._handleSubmit}
+        @form-invalid=${this._handleInvalid}
+        @form-reset=${this._handleReset}
+      >
+        ${keyed(
+          this._generation,
+          html`
+            <div class="fields" part="fields">
+              ${this.renderProperties(this.schema, this.uiSchema, '')}
+            </div>
+          `
+        )}
+        <slot></slot>
+      </monk-form>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-schema-form': MonkSchemaForm;
+  }
+}
@@ -0,0 +1,438 @@
+/**
+ * JSON Schema and UI schema helpers for monk-schema-form
+ * Field paths are dot-separated property names and array indexes, e.g. "address.city", "phones.0"
+ */
+
+import type { SelectOption } from '../select/select.js';
+import type { FieldValue } from '../input/base-input.js';
+import {
+  type ValidationResult,
+  type ValidatorFn,
+  compilePattern,
+  validators,
+  whenFilled,
+} from '../input/validators.js';
+
+/**
+ * Value types of a JSON Schema
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) that monk-schema-form renders
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  readOnly?: boolean;
+  /** Allowed values, shown as a select */
+  enum?: (string | number)[];
+  /** Allowed values with labels: `[{ const: 'nl', title: 'Netherlands' }]`, shown as a select */
+  oneOf?: { const: string | number; title?: string }[];
+  /** e.g. 'email', 'uri', 'date', 'time', 'date-time', 'color' */
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Input rendered for a schema value
+ */
+export type SchemaWidget =
+  | 'text'
+  | 'textarea'
+  | 'password'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'number'
+  | 'date'
+  | 'time'
+  | 'datetime'
+  | 'color'
+  | 'select'
+  | 'checkbox'
+  | 'switch'
+  | 'tags'
+  | 'hidden';
+
+/**
+ * Presentation options for one schema value
+ */
+export interface UiOptions {
+  /** Input to render instead of the one chosen from the schema */
+  'ui:widget'?: SchemaWidget;
+  /** Label, in place of the schema title */
+  'ui:title'?: string;
+  /** Helper text, in place of the schema description */
+  'ui:help'?: string;
+  'ui:placeholder'?: string;
+  /** Order of an object's properties; '*' stands for the properties not listed */
+  'ui:order'?: string[];
+  'ui:disabled'?: boolean;
+  'ui:readonly'?: boolean;
+}
+
+/**
+ * UI schema: options for a value, plus the UI schema of each property (by name)
+ * or of array items (under `items`)
+ */
+export type UiSchema = UiOptions & {
+  [property: string]: UiSchema | UiOptions[keyof UiOptions];
+};
+
+/**
+ * Values produced by a schema form
+ */
+export type SchemaValues = Record<string, unknown>;
+
+/**
+ * Widgets chosen by string `format`
+ */
+const FORMAT_WIDGETS: Record<string, SchemaWidget> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  time: 'time',
+  'date-time': 'datetime',
+  color: 'color',
+};
+
+/**
+ * Widgets that edit free text, and so take the string length and pattern constraints
+ */
+const TEXT_WIDGETS: SchemaWidget[] = ['text', 'textarea', 'password', 'email', 'url'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Deep copy of a JSON value
+ */
+export const cloneValue = <T>(value: T): T =>
+  value === undefined ? value : structuredClone(value);
+
+/**
+ * UI schema of a property, or of array items for 'items'
+ */
+export function childUi(ui: UiSchema | undefined, key: string): UiSchema | undefined {
+  const child = key.startsWith('ui:') ? undefined : ui?.[key];
+  return isRecord(child) ? (child as UiSchema) : undefined;
+}
+
+/**
+ * Label for a property without a title, e.g. "firstName" → "First name"
+ */
+export function titleFromKey(key: string): string {
+  const words = key
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Property names of an object schema in display order
+ */
+export function orderedProperties(schema: JsonSchema, ui?: UiSchema): string[] {
+  const keys = Object.keys(schema.properties ?? {});
+  const order = ui?.['ui:order'];
+  if (!order) return keys;
+
+  const listed = order.filter((key) => key === '*' || keys.includes(key));
+  const rest = keys.filter((key) => !listed.includes(key));
+  const wildcard = listed.indexOf('*');
+
+  return wildcard === -1
+    ? [...listed, ...rest]
+    : [...listed.slice(0, wildcard), ...rest, ...listed.slice(wildcard + 1)];
+}
+
+/**
+ * Choices of an `enum` or `oneOf` schema, as select options
+ */
+export function schemaChoices(schema: JsonSchema): SelectOption[] {
+  if (schema.oneOf) {
+    return schema.oneOf.map((choice) => ({
+      value: String(choice.const),
+      label: choice.title ?? String(choice.const),
+    }));
+  }
+  return (schema.enum ?? []).map((choice) => ({ value: String(choice), label: String(choice) }));
+}
+
+const hasChoices = (schema?: JsonSchema): boolean => !!(schema?.enum || schema?.oneOf);
+
+/**
+ * Input for a schema value, or null for objects and arrays rendered as groups and rows
+ * The UI schema's `ui:widget` wins; otherwise the type, `enum` and `format` decide,
+ * e.g. `format: 'email'` → 'email', numbers → 'number', booleans → 'checkbox'.
+ * Arrays are a single input only as 'tags' or 'select' (the default for arrays of choices).
+ */
+export function schemaWidget(schema: JsonSchema, ui?: UiSchema): SchemaWidget | null {
+  const widget = ui?.['ui:widget'];
+
+  switch (schema.type) {
+    case 'object':
+      return null;
+    case 'array':
+      if (widget === 'tags' || widget === 'select' || widget === 'hidden') return widget;
+      return hasChoices(schema.items) ? 'select' : null;
+    case 'boolean':
+      return widget ?? 'checkbox';
+    case 'number':
+    case 'integer':
+      return widget ?? (hasChoices(schema) ? 'select' : 'number');
+    default:
+      if (widget) return widget;
+      return hasChoices(schema) ? 'select' : (FORMAT_WIDGETS[schema.format ?? ''] ?? 'text');
+  }
+}
+
+/**
+ * Schema of the value at a path, or undefined if the schema has no such value
+ */
+export function schemaAt(schema: JsonSchema, path: string): JsonSchema | undefined {
+  let current: JsonSchema | undefined = schema;
+  for (const segment of path.split('.')) {
+    current = current?.type === 'array' ? current.items : current?.properties?.[segment];
+  }
+  return current;
+}
+
+/**
+ * UI schema of the value at a path
+ */
+export function uiAt(
+  schema: JsonSchema,
+  ui: UiSchema | undefined,
+  path: string
+): UiSchema | undefined {
+  let current: JsonSchema | undefined = schema;
+  let currentUi = ui;
+  for (const segment of path.split('.')) {
+    const array: boolean = current?.type === 'array';
+    currentUi = childUi(currentUi, array ? 'items' : segment);
+    current = array ? current?.items : current?.properties?.[segment];
+  }
+  return currentUi;
+}
+
+/**
+ * Value at a path
+ */
+export function getAt(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (Array.isArray(current)) return current[Number(segment)];
+    return isRecord(current) ? current[segment] : undefined;
+  }, value);
+}
+
+/**
+ * Set the value at a path in place, creating objects along the way
+ * Setting undefined removes an object property.
+ */
+export function setAt(target: SchemaValues, path: string, value: unknown): void {
+  const segments = path.split('.');
+  const last = segments.pop() as string;
+
+  let current: unknown = target;
+  for (const segment of segments) {
+    const container = current as Record<string, unknown>;
+    if (!isRecord(container[segment]) && !Array.isArray(container[segment])) {
+      container[segment] = {};
+    }
+    current = container[segment];
+  }
+
+  if (Array.isArray(current)) {
+    current[Number(last)] = value;
+  } else if (value === undefined) {
+    delete (current as Record<string, unknown>)[last];
+  } else {
+    (current as Record<string, unknown>)[last] = value;
+  }
+}
+
+/**
+ * Fill in `default`s, nested objects and `minItems` rows that a value is missing
+ * Empty values without a default stay undefined, and so are left out of objects.
+ */
+export function withDefaults(schema: JsonSchema, value: unknown, ui?: UiSchema): unknown {
+  const current = value === undefined ? cloneValue(schema.default) : value;
+
+  if (schema.type === 'object') {
+    const source = isRecord(current) ? current : {};
+    const result: SchemaValues = { ...source };
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      const child = withDefaults(property, source[key], childUi(ui, key));
+      if (child === undefined) {
+        delete result[key];
+      } else {
+        result[key] = child;
+      }
+    }
+    return result;
+  }
+
+  if (schema.type === 'array') {
+    const rows = Array.isArray(current) ? [...current] : [];
+    if (!schema.items || schemaWidget(schema, ui)) return rows;
+
+    const itemUi = childUi(ui, 'items');
+    const filled = rows.map((row) => withDefaults(schema.items as JsonSchema, row, itemUi));
+    while (filled.length < (schema.minItems ?? 0)) {
+      filled.push(withDefaults(schema.items, undefined, itemUi));
+    }
+    return filled;
+  }
+
+  return current;
+}
+
+/**
+ * The string an input shows for a value
+ * Arrays become comma-separated lists, as used by monk-select (multiple) and monk-tag-input.
+ */
+export function toFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+/**
+ * Original `enum` / `oneOf` value for the string a select reports, so numbers stay numbers
+ */
+const choiceValue = (schema: JsonSchema, raw: string): unknown => {
+  const choices = schema.oneOf?.map((choice) => choice.const) ?? schema.enum ?? [];
+  return choices.find((choice) => String(choice) === raw) ?? raw;
+};
+
+/**
+ * Typed value for the value an input reports (see BaseInput.fieldValue)
+ * List inputs give their items as they are, so items may contain commas.
+ * Empty input gives undefined (or an empty array for list inputs).
+ */
+export function fromFieldValue(schema: JsonSchema, widget: SchemaWidget, raw: FieldValue): unknown {
+  if (schema.type === 'array') {
+    const items = Array.isArray(raw) ? (raw as string[]) : raw ? [raw] : [];
+    return widget === 'select' && schema.items
+      ? items.map((item) => choiceValue(schema.items as JsonSchema, item))
+      : items;
+  }
+
+  if (typeof raw !== 'string' || raw === '') return undefined;
+  if (widget === 'select') return choiceValue(schema, raw);
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const number = Number(raw);
+    return Number.isNaN(number) ? undefined : number;
+  }
+  return raw;
+}
+
+const numberCheck = (
+  test: (value: number) => boolean,
+  code: string,
+  message: string
+): ValidatorFn =>
+  whenFilled((value: string): ValidationResult => ({ valid: test(Number(value)), code, message }));
+
+/**
+ * Validators for the constraints of a schema
+ * - Text inputs: `minLength`, `maxLength`, `pattern`, and `format` email / uri
+ * - Number inputs: `type: 'integer'`, `minimum`, `maximum`, `exclusiveMinimum`,
+ *   `exclusiveMaximum` and `multipleOf`
+ * - List inputs (tags, multiple select): `minItems`, `maxItems`, counted on the list
+ *   `items` returns, i.e. the field's own items
+ * Date and time inputs check their own values.
+ */
+export function schemaValidators(
+  schema: JsonSchema,
+  widget: SchemaWidget,
+  items?: () => readonly unknown[]
+): ValidatorFn[] {
+  const checks: ValidatorFn[] = [];
+
+  if (schema.type === 'array') {
+    if (!items) return checks;
+    if (schema.minItems !== undefined) {
+      const min = schema.minItems;
+      checks.push(() => ({
+        valid: items().length >= min,
+        code: 'minItems',
+        message: `Choose at least ${min}`,
+      }));
+    }
+    if (schema.maxItems !== undefined) {
+      const max = schema.maxItems;
+      checks.push(() => ({
+        valid: items().length <= max,
+        code: 'maxItems',
+        message: `Choose at most ${max}`,
+      }));
+    }
+    return checks;
+  }
+
+  if (TEXT_WIDGETS.includes(widget)) {
+    if (schema.minLength !== undefined) checks.push(validators.minLength(schema.minLength));
+    if (schema.maxLength !== undefined) checks.push(validators.maxLength(schema.maxLength));
+    // An invalid pattern is reported once and skipped rather than breaking the form
+    const regex = schema.pattern === undefined ? undefined : compilePattern(schema.pattern);
+    if (regex) checks.push(validators.pattern(regex));
+    if (schema.format === 'email') checks.push(validators.email);
+    if (schema.format === 'uri') checks.push(validators.url);
+    return checks.map(whenFilled);
+  }
+
+  if (widget === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+
+    if (schema.type === 'integer') {
+      checks.push(numberCheck(Number.isInteger, 'integer', 'Please enter a whole number'));
+    }
+    if (minimum !== undefined) checks.push(whenFilled(validators.min(minimum)));
+    if (maximum !== undefined) checks.push(whenFilled(validators.max(maximum)));
+    if (exclusiveMinimum !== undefined) {
+      checks.push(
+        numberCheck(
+          (n) => n > exclusiveMinimum,
+          'exclusiveMinimum',
+          `Must be greater than ${exclusiveMinimum}`
+        )
+      );
+    }
+    if (exclusiveMaximum !== undefined) {
+      checks.push(
+        numberCheck(
+          (n) => n < exclusiveMaximum,
+          'exclusiveMaximum',
+          `Must be less than ${exclusiveMaximum}`
+        )
+      );
+    }
+    if (multipleOf !== undefined) {
+      // Compare with a tolerance so decimal steps like 0.1 are not thrown off by rounding
+      const isMultiple = (n: number): boolean => {
+        const quotient = n / multipleOf;
+        return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+      };
+      checks.push(numberCheck(isMultiple, 'multipleOf', `Must be a multiple of ${multipleOf}`));
+    }
+  }
+
+  return checks;
+}
@@ -4,7 +4,18 @@ import { ifDefined } from 'lit/directives/if-defined.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { MonkBaseElement } from '../../core/base-element.js';
 import { coreStyles, reducedMotionStyles } from '../../core/styles.js';
-import { type ValidatorFn } from './validators.js';
+import {
+  type AsyncValidatorFn,
+  type ValidationResult,
+  type Validator,
+  type ValidatorFn,
+  compilePattern,
+  isAsyncValidator,
+  parseRules,
+  toValidationResult,
+  validators,
+  whenFilled,
+} from './validators.js';
 
 /**
  * Input size
@@ -21,11 +32,50 @@ export type InputVariant = 'outline' | 'filled' | 'flushed';
  */
 export type ValidateOn = 'blur' | 'input' | 'change' | 'submit';
 
+/**
+ * Which validator failures to show
+ */
+export type ErrorDisplay = 'first' | 'all';
+
+/**
+ * Properties whose change calls for validating again
+ */
+const VALIDATION_PROPERTIES = [
+  'validators',
+  'rules',
+  'required',
+  'pattern',
+  'minlength',
+  'minValue',
+  'maxValue',
+  'match',
+  'min',
+  'max',
+  'step',
+  'minuteStep',
+];
+
+/**
+ * Value a field contributes to monk-form: text, a list (tags, multiple select) or files
+ */
+export type FieldValue = string | string[] | File[];
+
 /**
  * Base input class for all input components
  * Provides common functionality for text, email, password, etc.
+ *
+ * Inputs are form-associated custom elements: they contribute their value to
+ * the surrounding `<form>`, take part in `form.reset()` and block native
+ * submission while invalid.
  */
-export abstract class BaseInput extends MonkBaseElement {
+export abstract class BaseInput<
+  E extends HTMLInputElement | HTMLTextAreaElement = HTMLInputElement,
+> extends MonkBaseElement {
+  /**
+   * Opt in to form association via ElementInternals
+   */
+  static formAssociated = true;
+
   /**
    * Input size
    * @default 'md'
@@ -168,18 +218,108 @@ export abstract class BaseInput extends MonkBaseElement {
 
   /**
    * Array of custom validator functions
-   * Each function receives the input value and returns true if valid
+   * Each function receives the input value (the API value for dates, e.g. ISO 8601) and returns
+   * a ValidationResult (or true if valid). Validators created with `asyncValidator()` run after
+   * the synchronous ones pass.
    */
   @property({ type: Array, attribute: false })
-  validators?: ValidatorFn[];
+  validators?: Validator[];
+
+  /**
+   * Regular expression the whole value must match
+   */
+  @property({ type: String })
+  pattern?: string;
+
+  /**
+   * Minimum number of characters
+   */
+  @property({ type: Number })
+  minlength?: number;
+
+  /**
+   * Minimum numeric value, checked by a validator (unlike `min`, which is passed to the native input)
+   */
+  @property({ type: Number, attribute: 'min-value' })
+  minValue?: number;
+
+  /**
+   * Maximum numeric value, checked by a validator (unlike `max`, which is passed to the native input)
+   */
+  @property({ type: Number, attribute: 'max-value' })
+  maxValue?: number;
+
+  /**
+   * Selector of another input whose value this one must equal (e.g. "#password")
+   * Resolved against this input's root node at validation time
+   */
+  @property({ type: String })
+  match?: string;
+
+  /**
+   * Pipe-separated named rules, e.g. "required|email|minLength:5"
+   * A `pattern:` rule must come last, as its regex may contain '|'.
+   * See `registerValidator()` for adding custom rules
+   */
+  @property({ type: String })
+  rules?: string;
+
+  /**
+   * Delay in milliseconds before async validators run while typing
+   * @default 300
+   */
+  @property({ type: Number, attribute: 'validation-debounce' })
+  validationDebounce = 300;
+
+  /**
+   * Whether async validation is in progress
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  pending = false;
+
+  /**
+   * Show a clear button while the input has a value
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  clearable = false;
+
+  /**
+   * Whether the input is loading, e.g. fetching suggestions (shows a spinner)
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  loading = false;
+
+  /**
+   * Icon shown before the input (e.g. an emoji or symbol); decorative, hidden from screen readers
+   */
+  @property({ type: String, attribute: 'leading-icon' })
+  leadingIcon?: string;
+
+  /**
+   * Icon shown after the input (e.g. an emoji or symbol); decorative, hidden from screen readers
+   */
+  @property({ type: String, attribute: 'trailing-icon' })
+  trailingIcon?: string;
 
   /**
    * Custom validation error message
-   * Used when custom validators fail
+   * Used when custom validators fail, in place of each validator's own message
    */
   @property({ type: String, attribute: 'validation-message' })
   validationMessage?: string;
 
+  /**
+   * Which custom validator failures to show
+   * - 'first': Stop at the first failing validator
+   * - 'all': Run every validator and list each failure
+   * @default 'first'
+   */
+  @property({ type: String, attribute: 'error-display' })
+  errorDisplay: ErrorDisplay = 'first';
+
   /**
    * Internal focus state
    */
@@ -187,16 +327,104 @@ export abstract class BaseInput extends MonkBaseElement {
   protected _focused = false;
 
   /**
-   * Reference to the native input element
+   * Failures from the latest validation run
    */
-  @query('input')
-  protected _input!: HTMLInputElement;
+  @state()
+  protected _validationErrors: ValidationResult[] = [];
+
+  /**
+   * Whether an ancestor fieldset is disabled
+   * Kept apart from `disabled` so the attribute is not written and re-enabling restores the input
+   */
+  @state()
+  private _formDisabled = false;
+
+  /**
+   * Form value checked by the latest validation run, while that result still stands
+   */
+  private _validatedValue?: string;
+
+  /**
+   * Message last given to the native input's setCustomValidity()
+   */
+  private _customMessage = '';
+
+  /**
+   * Controller for the in-flight async validation run
+   */
+  private _asyncValidation?: AbortController;
+
+  /**
+   * Settles with the result of the latest validation run
+   */
+  private _validationComplete: Promise<boolean> = Promise.resolve(true);
+
+  /**
+   * Reference to the native input element (`<input>`, or `<textarea>` for monk-textarea)
+   */
+  @query('#input')
+  protected _input!: E;
+
+  /**
+   * Element internals used for form participation
+   */
+  protected readonly internals: ElementInternals;
 
   /**
    * Get the input type (to be implemented by subclasses)
    */
   protected abstract get inputType(): string;
 
+  constructor() {
+    super();
+    this.internals = this.attachInternals();
+  }
+
+  /**
+   * The form this input is associated with, if any
+   */
+  get form(): HTMLFormElement | null {
+    return this.internals.form;
+  }
+
+  /**
+   * Validity state reported to the owning form
+   */
+  get validity(): ValidityState {
+    return this.internals.validity;
+  }
+
+  /**
+   * Value submitted with the owning form
+   * Subclasses that display a formatted value override this to submit the raw value
+   */
+  get formValue(): string {
+    return this.value;
+  }
+
+  /**
+   * Value collected by monk-form
+   * Fields holding several values override this to return them as a list
+   */
+  get fieldValue(): FieldValue {
+    return this.formValue;
+  }
+
+  /**
+   * Value passed to the `validators` property and `rules` attribute
+   * Subclasses that store an internal form (e.g. date digits) pass their API value instead
+   */
+  protected get validatorValue(): string {
+    return this.value;
+  }
+
+  /**
+   * Whether the input is disabled, by its own `disabled` or by a disabled fieldset
+   */
+  protected get isDisabled(): boolean {
+    return this.disabled || this._formDisabled;
+  }
+
   static override styles: CSSResultArray = [
     coreStyles,
     reducedMotionStyles,
@@ -396,6 +624,11 @@ export abstract class BaseInput extends MonkBaseElement {
         color: var(--monk-color-text-error);
       }
 
+      .error-list {
+        margin: 0;
+        padding-left: var(--monk-space-4);
+      }
+
       /* Character count */
       .char-count {
         font-size: var(--monk-font-size-xs);
@@ -407,10 +640,70 @@ export abstract class BaseInput extends MonkBaseElement {
         color: var(--monk-color-text-error);
       }
 
+      /* Leading and trailing icons */
+      .icon {
+        display: flex;
+        flex-shrink: 0;
+        align-items: center;
+        color: var(--monk-color-text-secondary);
+        line-height: 1;
+      }
+
+      /* Clear button */
+      .clear-button {
+        display: flex;
+        flex-shrink: 0;
+        align-items: center;
+        justify-content: center;
+        padding: var(--monk-space-1);
+        border: none;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        cursor: pointer;
+        font: inherit;
+        line-height: 1;
+        transition: background-color 150ms ease-in-out, color 150ms ease-in-out;
+      }
+
+      .clear-button:hover {
+        background: var(--monk-color-bg-subtle);
+        color: var(--monk-color-text-primary);
+      }
+
+      .clear-button:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      /* Async validation and loading spinners */
+      .pending-indicator,
+      .loading-indicator {
+        flex-shrink: 0;
+        width: 1em;
+        height: 1em;
+        border: 2px solid var(--monk-color-border-default);
+        border-top-color: var(--monk-color-border-accent);
+        border-radius: 50%;
+        animation: monk-input-spin 600ms linear infinite;
+      }
+
+      @keyframes monk-input-spin {
+        to {
+          transform: rotate(360deg);
+        }
+      }
+
       @media (prefers-reduced-motion: reduce) {
-        .input-container {
+        .input-container,
+        .clear-button {
           transition: none;
         }
+
+        .pending-indicator,
+        .loading-indicator {
+          animation-duration: 1.5s;
+        }
       }
     `,
   ];
@@ -424,14 +717,103 @@ export abstract class BaseInput extends MonkBaseElement {
     }
   }
 
+  protected override willUpdate(changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    // New constraints make the latest validation result stale; checked here because
+    // subclasses replace updated() without calling super
+    if (VALIDATION_PROPERTIES.some((key) => changedProperties.has(key))) {
+      this._validatedValue = undefined;
+    }
+  }
+
   protected override updated(changedProperties: PropertyValues): void {
     super.updated(changedProperties);
 
-    // Sync value to native input
-    if (changedProperties.has('value') && this._input) {
-      if (this._input.value !== this.value) {
-        this._input.value = this.value;
-      }
+    if (changedProperties.has('value')) {
+      this.syncInputValue();
+    }
+
+    this.updateFormState();
+  }
+
+  /**
+   * Show the value in the native input
+   * Inputs that display a formatted value override this
+   */
+  protected syncInputValue(): void {
+    if (this._input && this._input.value !== this.value) {
+      this._input.value = this.value;
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.cancelAsyncValidation();
+  }
+
+  /**
+   * Called by the browser when the owning form is reset
+   * Restores the value from the `value` attribute and clears errors
+   */
+  formResetCallback(): void {
+    this.cancelAsyncValidation();
+    this.value = this.getAttribute('value') ?? '';
+    this.clearError();
+  }
+
+  /**
+   * Called by the browser when an ancestor fieldset is disabled or enabled
+   */
+  formDisabledCallback(disabled: boolean): void {
+    this._formDisabled = disabled;
+  }
+
+  /**
+   * Called by the browser when restoring form state (back/forward navigation, autofill)
+   */
+  formStateRestoreCallback(state: string | File | FormData | null): void {
+    if (typeof state === 'string') {
+      this.value = state;
+    }
+  }
+
+  /**
+   * Push the current value and validity to the owning form
+   * Subclasses that override `updated()` without calling super must call this
+   */
+  protected updateFormState(): void {
+    this.internals.setFormValue(this.formValue, this.value);
+    this.updateFormValidity();
+  }
+
+  /**
+   * Mirror the native input's constraint validation onto the host element
+   * Required is checked against the form value so masked inputs showing a
+   * prompt are still reported as missing
+   * Controls without a native input (e.g. groups) override this
+   */
+  protected updateFormValidity(): void {
+    const input = this._input;
+    if (!input) return;
+
+    if (!input.validity.valid) {
+      // Readonly and disabled inputs are barred from constraint validation and report no
+      // message, which setValidity() rejects, so fall back to the field's own error
+      const message =
+        input.validationMessage ||
+        this._customMessage ||
+        this.errorMessage ||
+        'Please enter a valid value.';
+      this.internals.setValidity(input.validity, message, input);
+    } else if (this.required && !this.formValue) {
+      this.internals.setValidity(
+        { valueMissing: true },
+        this.validationMessage || 'Please fill out this field.',
+        input
+      );
+    } else {
+      this.internals.setValidity({});
     }
   }
 
@@ -461,7 +843,8 @@ export abstract class BaseInput extends MonkBaseElement {
    * @returns true if valid, false otherwise
    */
   public checkValidity(): boolean {
-    return this._input?.checkValidity() ?? true;
+    this.updateFormValidity();
+    return this.internals.checkValidity();
   }
 
   /**
@@ -469,7 +852,8 @@ export abstract class BaseInput extends MonkBaseElement {
    * @returns true if valid, false otherwise
    */
   public reportValidity(): boolean {
-    return this._input?.reportValidity() ?? true;
+    this.updateFormValidity();
+    return this.internals.reportValidity();
   }
 
   /**
@@ -478,7 +862,10 @@ export abstract class BaseInput extends MonkBaseElement {
    * @param message - Error message or empty string to clear
    */
   public setCustomValidity(message: string): void {
-    this._input?.setCustomValidity(message);
+    // An error set from outside replaces the validators' result
+    this._validatedValue = undefined;
+    this.setNativeCustomValidity(message);
+    this._validationErrors = message ? [{ valid: false, message }] : [];
     if (message) {
       this.invalid = true;
       this.errorMessage = message;
@@ -486,6 +873,15 @@ export abstract class BaseInput extends MonkBaseElement {
       this.invalid = false;
       this.errorMessage = '';
     }
+    this.updateFormValidity();
+  }
+
+  /**
+   * Store a custom error on the native input, where `updateFormValidity()` picks it up
+   */
+  protected setNativeCustomValidity(message: string): void {
+    this._customMessage = message;
+    this._input?.setCustomValidity(message);
   }
 
   /**
@@ -503,56 +899,279 @@ export abstract class BaseInput extends MonkBaseElement {
     this.setCustomValidity('');
   }
 
+  /**
+   * Validators built from the declarative validation attributes
+   * Like native constraints, they pass on an empty value; `required` covers that.
+   */
+  protected get declarativeValidators(): Validator[] {
+    const declared: Validator[] = [];
+
+    if (this.rules) {
+      // Rules are the page's own checks, so like `validators` they receive validatorValue
+      declared.push(...parseRules(this.rules).map((rule) => () => rule(this.validatorValue)));
+    }
+    if (this.pattern) {
+      // Match the whole value, like the native pattern attribute
+      const regex = compilePattern(`^(?:${this.pattern})$`);
+      if (regex) declared.push(whenFilled(validators.pattern(regex)));
+    }
+    if (this.minlength !== undefined) {
+      declared.push(whenFilled(validators.minLength(this.minlength)));
+    }
+    if (this.minValue !== undefined) {
+      declared.push(
+        whenFilled(
+          validators.min(this.minValue, `Must be at least ${this.formatBound(this.minValue)}`)
+        )
+      );
+    }
+    if (this.maxValue !== undefined) {
+      declared.push(
+        whenFilled(
+          validators.max(this.maxValue, `Must be at most ${this.formatBound(this.maxValue)}`)
+        )
+      );
+    }
+    if (this.match) {
+      const selector = this.match;
+      declared.push(
+        validators.match(() => {
+          const root = this.getRootNode() as Document | ShadowRoot;
+          return (root.querySelector(selector) as { value?: string } | null)?.value;
+        })
+      );
+    }
+
+    return declared;
+  }
+
+  /**
+   * Display form of a `min-value` / `max-value` bound in validation messages
+   * Subclasses with formatted values (e.g. currency) override this
+   */
+  protected formatBound(bound: number): string {
+    return String(bound);
+  }
+
+  /**
+   * Failures from the latest validation run, with each rule's message and code
+   */
+  get validationErrors(): ValidationResult[] {
+    return this._validationErrors;
+  }
+
+  /**
+   * Resolves with the result of the latest validation, once any async
+   * validators have settled
+   */
+  get validationComplete(): Promise<boolean> {
+    return this._validationComplete;
+  }
+
   /**
    * Manually trigger validation
-   * Runs custom validators first, then HTML5 validation
-   * @returns true if valid, false if invalid
+   * Runs custom validators first, then HTML5 validation, then async validators
+   * @returns true if valid (or async validation is pending), false if invalid
    */
   public performValidation(): boolean {
+    return this.runValidation(0);
+  }
+
+  /**
+   * Validate for a form submit, honouring `validateOn`
+   * Fields validated on input, change or blur keep the result of their own latest run while
+   * the value is unchanged, so async checks are not repeated; fields validated on submit,
+   * and fields not validated yet, run their validators now.
+   * Fields without `validate` are checked against native constraints only.
+   * @returns Promise resolving to whether the field is valid
+   */
+  public async validateForSubmit(): Promise<boolean> {
+    if (!this.validate) return this.checkValidity();
+
+    if (this.validateOn === 'submit' || this._validatedValue !== this.formValue) {
+      return this.performValidation() && this.validationComplete;
+    }
+    return this.validationComplete;
+  }
+
+  /**
+   * Validate while the user is typing
+   * Async validators are debounced so they only run once typing pauses
+   */
+  protected validateWhileTyping(): boolean {
+    return this.runValidation(this.validationDebounce);
+  }
+
+  private runValidation(asyncDelay: number): boolean {
     if (!this.validate) return true;
 
+    this.cancelAsyncValidation();
+    this._validatedValue = this.formValue;
+
+    // Clear the error from a previous run so native constraints are re-evaluated
+    this.setNativeCustomValidity('');
+
+    const userValidators = this.validators ?? [];
+    const allValidators = [...this.declarativeValidators, ...userValidators];
+    const syncValidators = allValidators.filter(
+      (validator): validator is ValidatorFn => !isAsyncValidator(validator)
+    );
+    const asyncValidators = allValidators.filter(isAsyncValidator);
+    const valueFor = (validator: Validator): string =>
+      userValidators.includes(validator) ? this.validatorValue : this.value;
+
     // Run custom validators first
-    if (this.validators && this.validators.length > 0) {
-      const hasError = this.validators.some((validator) => !validator(this.value));
-      if (hasError) {
-        this.invalid = true;
-        this.errorMessage = this.validationMessage || 'Validation failed';
+    const failures: ValidationResult[] = [];
+    for (const validator of syncValidators) {
+      const result = toValidationResult(validator(valueFor(validator)));
+      if (result.valid) continue;
+
+      failures.push(result);
+      if (this.errorDisplay === 'first') break;
+    }
+
+    if (failures.length > 0) {
+      this.setCustomValidationError(failures);
+      return false;
+    }
+
+    // Then check HTML5 validity
+    if (!this.checkValidity()) {
+      const message = this.validationMessage || this.internals.validationMessage;
+      this._validationErrors = [{ valid: false, message }];
+      this.setValidationError(message);
+      return false;
+    }
+
+    if (asyncValidators.length > 0) {
+      this.scheduleAsyncValidation(asyncValidators, valueFor, asyncDelay);
+      return true;
+    }
+
+    this.clearValidationError();
+    return true;
+  }
+
+  /**
+   * Run async validators after a delay, superseding any earlier run
+   */
+  private scheduleAsyncValidation(
+    asyncValidators: AsyncValidatorFn[],
+    valueFor: (validator: AsyncValidatorFn) => string,
+    delay: number
+  ): void {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const value = this.value;
+    const values = asyncValidators.map(valueFor);
+
+    this._asyncValidation = controller;
+    this.pending = true;
+
+    this._validationComplete = new Promise<boolean>((resolve) => {
+      const timer = setTimeout(async () => {
         this.dispatchEvent(
-          new CustomEvent('input-invalid', {
-            detail: { value: this.value, message: this.errorMessage },
+          new CustomEvent('input-validating', {
+            detail: { value },
             bubbles: true,
             composed: true,
           })
         );
-        return false;
-      }
-    }
 
-    // Then check HTML5 validity
-    const isValid = this.checkValidity();
-    this.invalid = !isValid;
-
-    if (!isValid) {
-      this.errorMessage = this.validationMessage || this._input.validationMessage;
-      this.dispatchEvent(
-        new CustomEvent('input-invalid', {
-          detail: { value: this.value, message: this.errorMessage },
-          bubbles: true,
-          composed: true,
-        })
-      );
-    } else {
-      this.errorMessage = '';
-      this.dispatchEvent(
-        new CustomEvent('input-valid', {
-          detail: { value: this.value },
-          bubbles: true,
-          composed: true,
-        })
-      );
-    }
+        let failures: ValidationResult[];
+        try {
+          const results = await Promise.all(
+            asyncValidators.map((validator, index) => validator(values[index], signal))
+          );
+          failures = results.map(toValidationResult).filter((result) => !result.valid);
+        } catch {
+          failures = [{ valid: false }];
+        }
+
+        // A newer run (or cancellation) owns the result
+        if (signal.aborted) return;
+
+        this._asyncValidation = undefined;
+        this.pending = false;
 
-    return isValid;
+        const valid = failures.length === 0;
+        if (valid) {
+          this.clearValidationError();
+        } else {
+          this.setCustomValidationError(
+            this.errorDisplay === 'first' ? failures.slice(0, 1) : failures
+          );
+        }
+        resolve(valid);
+      }, delay);
+
+      // Superseded runs settle with the result of whichever run replaced them
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        queueMicrotask(() => resolve(this._validationComplete));
+      });
+    });
+  }
+
+  /**
+   * Abort any pending async validation run
+   */
+  private cancelAsyncValidation(): void {
+    if (!this._asyncValidation) return;
+
+    this._asyncValidation.abort();
+    this._asyncValidation = undefined;
+    this.pending = false;
+    this._validationComplete = Promise.resolve(!this.invalid);
+  }
+
+  /**
+   * Message shown for a failed validator
+   * `validation-message` overrides the validator's own message
+   */
+  protected messageFor(result: ValidationResult): string {
+    return this.validationMessage || result.message || 'Validation failed';
+  }
+
+  /**
+   * Report custom validator failures, feeding them into the form's constraint validation
+   */
+  private setCustomValidationError(failures: ValidationResult[]): void {
+    const message = this.messageFor(failures[0]);
+
+    this._validationErrors = failures;
+    this.setNativeCustomValidity(message);
+    this.updateFormValidity();
+    this.setValidationError(message);
+  }
+
+  private setValidationError(message: string): void {
+    this.invalid = true;
+    this.errorMessage = message;
+    this._validationComplete = Promise.resolve(false);
+
+    this.dispatchEvent(
+      new CustomEvent('input-invalid', {
+        detail: { value: this.value, message: this.errorMessage, errors: this._validationErrors },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private clearValidationError(): void {
+    this.invalid = false;
+    this.errorMessage = '';
+    this._validationErrors = [];
+    this._validationComplete = Promise.resolve(true);
+
+    this.dispatchEvent(
+      new CustomEvent('input-valid', {
+        detail: { value: this.value },
+        bubbles: true,
+        composed: true,
+      })
+    );
   }
 
   protected _handleInput(event: Event): void {
@@ -561,7 +1180,7 @@ export abstract class BaseInput extends MonkBaseElement {
 
     // Trigger validation if validateOn is 'input'
     if (this.validate && this.validateOn === 'input') {
-      this.performValidation();
+      this.validateWhileTyping();
     }
 
     this.dispatchEvent(
@@ -591,6 +1210,27 @@ export abstract class BaseInput extends MonkBaseElement {
     );
   }
 
+  /**
+   * Empty the input from the clear button and return focus to it
+   */
+  protected _handleClear(): void {
+    const previousValue = this.value;
+    this.value = '';
+    this.focus();
+
+    if (this.validate && (this.validateOn === 'input' || this.validateOn === 'change')) {
+      this.performValidation();
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('input-clear', {
+        detail: { previousValue },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   protected _handleFocus(event: FocusEvent): void {
     this._focused = true;
 
@@ -642,6 +1282,18 @@ export abstract class BaseInput extends MonkBaseElement {
   }
 
   protected renderHelperText() {
+    if (this.invalid && this.errorMessage && this.errorDisplay === 'all') {
+      const messages = [...new Set(this._validationErrors.map((error) => this.messageFor(error)))];
+
+      if (messages.length > 1) {
+        return html`
+          <ul class="error-message error-list" role="alert" aria-live="polite">
+            ${messages.map((message) => html`<li>${message}</li>`)}
+          </ul>
+        `;
+      }
+    }
+
     if (this.invalid && this.errorMessage) {
       return html`
         <div class="error-message" role="alert" aria-live="polite">${this.errorMessage}</div>
@@ -655,25 +1307,114 @@ export abstract class BaseInput extends MonkBaseElement {
     return null;
   }
 
+  /**
+   * Length shown by `show-count`; subclasses may count grapheme clusters instead
+   */
+  protected get characterCount(): number {
+    return this.value.length;
+  }
+
   protected renderCharCount() {
     if (!this.showCount || !this.maxlength) return null;
 
-    const count = this.value.length;
+    const count = this.characterCount;
     const max = this.maxlength;
 
     return html`<div class="char-count">${count} / ${max}</div>`;
   }
 
+  protected renderPendingIndicator() {
+    if (!this.pending) return null;
+
+    return html`
+      <span
+        class="pending-indicator"
+        part="pending-indicator"
+        role="status"
+        aria-label="Validating"
+      ></span>
+    `;
+  }
+
+  protected renderLoadingIndicator() {
+    if (!this.loading) return null;
+
+    return html`
+      <span
+        class="loading-indicator"
+        part="loading-indicator"
+        role="status"
+        aria-label="Loading"
+      ></span>
+    `;
+  }
+
+  protected renderClearButton() {
+    if (!this.clearable || !this.value || this.isDisabled || this.readonly) return null;
+
+    return html`
+      <button
+        type="button"
+        class="clear-button"
+        part="clear-button"
+        aria-label=${this.label ? `Clear ${this.label}` : 'Clear'}
+        @click=${this._handleClear}
+      >
+        ✕
+      </button>
+    `;
+  }
+
+  protected renderIcon(icon: string | undefined, position: 'leading' | 'trailing') {
+    if (!icon) return null;
+
+    return html`
+      <span class="icon ${position}-icon" part="${position}-icon" aria-hidden="true">${icon}</span>
+    `;
+  }
+
+  /**
+   * Everything the container shows before the native input: the leading icon and prefix
+   */
+  protected renderStartAdornments() {
+    return html`${this.renderIcon(this.leadingIcon, 'leading')} ${this.renderPrefix()}`;
+  }
+
+  /**
+   * Everything the container shows after the native input: spinners, the clear button,
+   * the suffix and the trailing icon
+   */
+  protected renderEndAdornments() {
+    return html`
+      ${this.renderPendingIndicator()} ${this.renderLoadingIndicator()} ${this.renderClearButton()}
+      ${this.renderSuffix()} ${this.renderIcon(this.trailingIcon, 'trailing')}
+    `;
+  }
+
+  /**
+   * Content before the native input; subclasses may add built-in controls
+   */
+  protected renderPrefix() {
+    return html`<slot name="prefix"></slot>`;
+  }
+
+  /**
+   * Content after the native input; subclasses may add built-in controls
+   */
+  protected renderSuffix() {
+    return html`<slot name="suffix"></slot>`;
+  }
+
   protected renderInput() {
     const containerClasses = {
       'input-container': true,
       focused: this._focused,
-      disabled: this.disabled,
+      disabled: this.isDisabled,
     };
 
     return html`
       <div class=${classMap(containerClasses)} part="input-container">
-        <slot name="prefix"></slot>
+        ${this.renderStartAdornments()}
         <input
           id="input"
           part="input"
@@ -681,7 +1422,7 @@ export abstract class BaseInput extends MonkBaseElement {
           name=${ifDefined(this.name)}
           .value=${this.value}
           placeholder=${ifDefined(this.placeholder)}
-          ?disabled=${this.disabled}
+          ?disabled=${this.isDisabled}
           ?readonly=${this.readonly}
           ?required=${this.required}
           autocomplete=${ifDefined(this.autocomplete)}
@@ -691,6 +1432,7 @@ export abstract class BaseInput extends MonkBaseElement {
           step=${ifDefined(this.step)}
           inputmode=${ifDefined(this.inputmode)}
           aria-invalid=${this.invalid ? 'true' : 'false'}
+          aria-busy=${this.pending || this.loading ? 'true' : 'false'}
           aria-describedby=${ifDefined(
             this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
           )}
@@ -700,7 +1442,7 @@ export abstract class BaseInput extends MonkBaseElement {
           @blur=${this._handleBlur}
           @keydown=${this._handleKeyDown}
         />
-        <slot name="suffix"></slot>
+        ${this.renderEndAdornments()}
       </div>
     `;
   }
@@ -0,0 +1,106 @@
+/**
+ * Payment card metadata for the credit card mask preset
+ * Brands are recognised from the leading digits (IIN ranges)
+ */
+export interface CardBrand {
+  /** Stable identifier, e.g. "visa" */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Matches the leading digits of the brand's card numbers */
+  pattern: RegExp;
+  /** Number mask, # is a digit */
+  mask: string;
+  /** Allowed card number lengths in digits */
+  lengths: number[];
+}
+
+/**
+ * Mask for numbers whose brand is not (yet) known, long enough for any brand
+ */
+export const genericCardMask = '#### #### #### #### ###';
+
+/**
+ * Bundled brand table; the first match wins, so narrower ranges come first
+ */
+export const cardBrands: readonly CardBrand[] = [
+  {
+    id: 'amex',
+    name: 'American Express',
+    pattern: /^3[47]/,
+    mask: '#### ###### #####',
+    lengths: [15],
+  },
+  {
+    id: 'diners',
+    name: 'Diners Club',
+    pattern: /^3(0[0-5]|[689])/,
+    mask: '#### ###### ####',
+    lengths: [14, 16, 19],
+  },
+  {
+    id: 'jcb',
+    name: 'JCB',
+    pattern: /^35(2[89]|[3-8])/,
+    mask: '#### #### #### ####',
+    lengths: [16, 17, 18, 19],
+  },
+  {
+    id: 'visa',
+    name: 'Visa',
+    pattern: /^4/,
+    mask: '#### #### #### #### ###',
+    lengths: [13, 16, 19],
+  },
+  {
+    id: 'mastercard',
+    name: 'Mastercard',
+    pattern: /^(5[1-5]|2(2[2-9]|[3-6]|7[01]|720))/,
+    mask: '#### #### #### ####',
+    lengths: [16],
+  },
+  {
+    id: 'discover',
+    name: 'Discover',
+    pattern: /^(6011|64[4-9]|65)/,
+    mask: '#### #### #### #### ###',
+    lengths: [16, 19],
+  },
+  {
+    id: 'unionpay',
+    name: 'UnionPay',
+    pattern: /^62/,
+    mask: '#### #### #### #### ###',
+    lengths: [16, 17, 18, 19],
+  },
+];
+
+/**
+ * Find the brand of a card number from its leading digits
+ * Formatting such as spaces is ignored
+ */
+export function detectCardBrand(cardNumber: string): CardBrand | undefined {
+  const digits = cardNumber.replace(/\D/g, '');
+  return digits ? cardBrands.find((brand) => brand.pattern.test(digits)) : undefined;
+}
+
+/**
+ * Whether a card number passes the Luhn (mod 10) checksum
+ * Formatting such as spaces is ignored; numbers without digits fail
+ */
+export function passesLuhn(cardNumber: string): boolean {
+  const digits = cardNumber.replace(/\D/g, '');
+  if (!digits) return false;
+
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
@@ -0,0 +1,237 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkColorInput } from './color-input.js';
+import { contrastRatio, formatColor, parseColor, toHex } from './color-utils.js';
+
+const inputOf = (element: MonkColorInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const part = <T extends HTMLElement = HTMLElement>(element: MonkColorInput, name: string): T =>
+  element.shadowRoot?.querySelector(`[part="${name}"]`) as T;
+
+const type = (element: MonkColorInput, text: string): void => {
+  const input = inputOf(element);
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const openPicker = async (element: MonkColorInput): Promise<void> => {
+  await element.openPicker();
+  await element.updateComplete;
+};
+
+describe('MonkColorInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-color-input');
+    expect(element).to.be.instanceOf(MonkColorInput);
+  });
+
+  describe('Entry', () => {
+    it('should store typed colors as hex', async () => {
+      const element = await fixture<MonkColorInput>(html`<monk-color-input></monk-color-input>`);
+
+      setTimeout(() => type(element, 'rgb(255, 0, 0)'));
+      const event = await oneEvent(element, 'input-change');
+
+      expect(event.detail.value).to.equal('#ff0000');
+      expect(element.value).to.equal('#ff0000');
+    });
+
+    it('should show the color in the chosen format', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="#3366CC" format="hsl"></monk-color-input>
+      `);
+
+      expect(element.value).to.equal('#3366cc');
+      expect(inputOf(element).value).to.equal('hsl(220, 60%, 50%)');
+
+      element.format = 'rgb';
+      await element.updateComplete;
+
+      expect(inputOf(element).value).to.equal('rgb(51, 102, 204)');
+    });
+
+    it('should drop alpha unless it is allowed', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="rgba(0, 0, 0, 0.5)"></monk-color-input>
+      `);
+      expect(element.value).to.equal('#000000');
+
+      element.alpha = true;
+      element.value = 'rgba(0, 0, 0, 0.5)';
+      await element.updateComplete;
+
+      expect(element.value).to.equal('#00000080');
+    });
+
+    it('should flag text that is not a color', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input validate></monk-color-input>
+      `);
+
+      type(element, 'blurple');
+      inputOf(element).dispatchEvent(new FocusEvent('blur'));
+      await element.updateComplete;
+
+      expect(element.value).to.equal('blurple');
+      expect(element.invalid).to.be.true;
+      expect(element.errorMessage).to.equal('Please enter a valid color');
+    });
+  });
+
+  describe('Picker', () => {
+    it('should open a labelled dialog from the swatch button', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="#3366cc"></monk-color-input>
+      `);
+      const toggle = part<HTMLButtonElement>(element, 'picker-toggle');
+
+      toggle.click();
+      await element.updateComplete;
+
+      expect(toggle.getAttribute('aria-expanded')).to.equal('true');
+      expect(part(element, 'picker-popover').getAttribute('role')).to.equal('dialog');
+    });
+
+    it('should close on Escape and return focus to the swatch button', async () => {
+      const element = await fixture<MonkColorInput>(html`<monk-color-input></monk-color-input>`);
+      await openPicker(element);
+
+      part(element, 'picker-popover').dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'Escape', bubbles: true })
+      );
+      await element.updateComplete;
+
+      expect(part(element, 'picker-popover')).to.not.exist;
+      expect(element.shadowRoot?.activeElement).to.equal(part(element, 'picker-toggle'));
+    });
+
+    it('should change brightness with the arrow keys', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="#ff0000"></monk-color-input>
+      `);
+      await openPicker(element);
+      const thumb = element.shadowRoot?.querySelector('.saturation-thumb') as HTMLElement;
+
+      setTimeout(() =>
+        thumb.dispatchEvent(
+          new KeyboardEvent('keydown', { key: 'ArrowDown', shiftKey: true, bubbles: true })
+        )
+      );
+      const event = await oneEvent(element, 'input-changed');
+      await element.updateComplete;
+
+      expect(event.detail.value).to.equal('#e60000');
+      expect(thumb.getAttribute('aria-valuetext')).to.equal('Saturation 100%, brightness 90%');
+    });
+
+    it('should keep the hue when the color becomes gray', async () => {
+      const element = await fixture<MonkColorInput>(html`<monk-color-input></monk-color-input>`);
+      await openPicker(element);
+      const hue = part<HTMLInputElement>(element, 'hue');
+
+      hue.value = '120';
+      hue.dispatchEvent(new Event('input'));
+      await element.updateComplete;
+
+      expect(element.value).to.equal('#000000');
+      expect(hue.value).to.equal('120');
+    });
+
+    it('should show an opacity slider with alpha', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="#ff0000" alpha></monk-color-input>
+      `);
+      await openPicker(element);
+      const opacity = part<HTMLInputElement>(element, 'alpha');
+
+      opacity.value = '50';
+      opacity.dispatchEvent(new Event('input'));
+      await element.updateComplete;
+
+      expect(element.value).to.equal('#ff000080');
+    });
+
+    it('should pick token swatches', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input swatches="brand-500 #00ff00" style="--monk-color-brand-500: #123456">
+        </monk-color-input>
+      `);
+      await openPicker(element);
+      const swatches = part(element, 'swatches').querySelectorAll('button');
+
+      expect(swatches[0].getAttribute('aria-label')).to.equal('brand-500');
+
+      swatches[0].click();
+      await element.updateComplete;
+
+      expect(element.value).to.equal('#123456');
+      expect(swatches[0].getAttribute('aria-pressed')).to.equal('true');
+    });
+  });
+
+  describe('Contrast', () => {
+    it('should measure contrast against the background token', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input
+          value="#000000"
+          contrast-background="surface"
+          style="--monk-color-surface: #ffffff"
+        ></monk-color-input>
+      `);
+      await openPicker(element);
+
+      expect(element.contrast).to.equal(21);
+      expect(part(element, 'contrast').textContent).to.contain('21.00:1');
+    });
+
+    it('should report the WCAG levels met', async () => {
+      const element = await fixture<MonkColorInput>(html`
+        <monk-color-input value="#777777" contrast-background="#ffffff"></monk-color-input>
+      `);
+      await openPicker(element);
+
+      const levels = Array.from(part(element, 'contrast').querySelectorAll('.contrast-level'));
+      expect(levels.map((level) => level.classList.contains('pass'))).to.deep.equal([
+        false,
+        false,
+        true,
+      ]);
+    });
+  });
+
+  describe('Form association', () => {
+    it('should submit the hex value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-color-input name="brand" value="RGB(0, 128, 255)"></monk-color-input></form>
+      `);
+      const element = form.querySelector('monk-color-input') as MonkColorInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('brand')).to.equal('#0080ff');
+    });
+  });
+
+  describe('Color helpers', () => {
+    it('should parse hex, rgb and hsl', () => {
+      expect(parseColor('#0f08')).to.deep.equal({ r: 0, g: 255, b: 0, a: 0.533 });
+      expect(parseColor('rgb(10 20 30 / 50%)')).to.deep.equal({ r: 10, g: 20, b: 30, a: 0.5 });
+      expect(toHex(parseColor('hsl(0, 100%, 50%)')!)).to.equal('#ff0000');
+      expect(parseColor('red')).to.be.null;
+    });
+
+    it('should format colors', () => {
+      const color = { r: 255, g: 0, b: 0, a: 0.5 };
+
+      expect(formatColor(color, 'hex')).to.equal('#ff000080');
+      expect(formatColor(color, 'rgb')).to.equal('rgba(255, 0, 0, 0.5)');
+      expect(formatColor(color, 'hsl')).to.equal('hsla(0, 100%, 50%, 0.5)');
+    });
+
+    it('should compute contrast ratios', () => {
+      const white = { r: 255, g: 255, b: 255, a: 1 };
+
+      expect(contrastRatio({ r: 0, g: 0, b: 0, a: 1 }, white)).to.equal(21);
+      expect(contrastRatio(white, white)).to.equal(1);
+    });
+  });
+});
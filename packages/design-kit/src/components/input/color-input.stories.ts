@@ -0,0 +1,111 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './color-input.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/ColorInput',
+  component: 'monk-color-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The ColorInput component picks a color by typing it or with a picker popover.
+
+## Features
+
+- Accepts hex, \`rgb()\` and \`hsl()\`; \`value\` is always hex, \`format\` sets how it is shown
+- Saturation/brightness area and hue slider, usable with the keyboard
+- \`alpha\` adds an opacity slider and allows \`#rrggbbaa\` values
+- Eyedropper in browsers that support the EyeDropper API
+- Swatches from the \`color.*\` design tokens, or your own with \`swatches\`
+- WCAG contrast ratio against \`contrast-background\` (a token name or a color)
+
+## Usage
+
+\`\`\`html
+<monk-color-input label="Brand color" name="brand" value="#3d6ce8"></monk-color-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-color-input
+      label="Brand color"
+      value="#3d6ce8"
+      helper-text="Type a color or open the picker"
+    ></monk-color-input>
+  `,
+};
+
+export const Formats: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-color-input label="Hex" value="#2f9e44" format="hex"></monk-color-input>
+      <monk-color-input label="RGB" value="#2f9e44" format="rgb"></monk-color-input>
+      <monk-color-input label="HSL" value="#2f9e44" format="hsl"></monk-color-input>
+    </monk-stack>
+  `,
+};
+
+export const Alpha: Story = {
+  render: () => html`
+    <monk-color-input
+      label="Overlay"
+      value="#1c1d1f99"
+      format="rgb"
+      alpha
+      helper-text="Includes opacity"
+    ></monk-color-input>
+  `,
+};
+
+export const Swatches: Story = {
+  render: () => html`
+    <monk-color-input
+      label="Status color"
+      swatches="green-500 yellow-500 red-500 blue-500"
+      helper-text="Limited to the status tokens"
+    ></monk-color-input>
+  `,
+};
+
+export const Contrast: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-color-input
+        label="Text on canvas"
+        value="#6b7280"
+        contrast-background="bg-canvas"
+      ></monk-color-input>
+      <monk-color-input
+        label="Text on dark"
+        value="#6b7280"
+        contrast-background="gray-900"
+      ></monk-color-input>
+    </monk-stack>
+  `,
+};
+
+export const Validation: Story = {
+  render: () => html`
+    <monk-color-input label="Accent" value="not a color" validate required></monk-color-input>
+  `,
+};
+
+export const States: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-color-input label="Readonly" value="#3d6ce8" readonly></monk-color-input>
+      <monk-color-input label="Disabled" value="#3d6ce8" disabled></monk-color-input>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,883 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { srOnlyStyles } from '../../core/styles.js';
+import { BaseInput } from './base-input.js';
+import {
+  contrastLevels,
+  contrastRatio,
+  formatColor,
+  hsvToRgb,
+  parseColor,
+  rgbToHsv,
+  toHex,
+  type ColorFormat,
+  type HsvaColor,
+  type RgbaColor,
+} from './color-utils.js';
+import { validators, type Validator } from './validators.js';
+
+/**
+ * Swatches from the base `color.*` design tokens, by token name
+ */
+export const colorTokenSwatches: string[] = [
+  ...['blue', 'green', 'red', 'yellow', 'gray'].flatMap((hue) =>
+    ['300', '500', '700'].map((shade) => `${hue}-${shade}`)
+  ),
+  'white',
+  'black',
+];
+
+/**
+ * Read the `swatches` attribute: token names or colors separated by spaces
+ * (commas may appear inside rgb() and hsl())
+ */
+const toSwatches = (value: string | null): string[] =>
+  value?.match(/[a-z]+\([^)]*\)|[^\s]+/gi) ?? [];
+
+/**
+ * Minimal shape of the EyeDropper API, which is not in the DOM type library
+ */
+type EyeDropperConstructor = new () => { open(): Promise<{ sRGBHex: string }> };
+
+const EyeDropper = (globalThis as unknown as { EyeDropper?: EyeDropperConstructor }).EyeDropper;
+
+const FORMATS: ColorFormat[] = ['hex', 'rgb', 'hsl'];
+
+/**
+ * Color input component - Color entry with a picker, swatches and a contrast check
+ *
+ * The text field accepts hex, `rgb()` or `hsl()` and shows the color in
+ * `format`; `value` is always hex (`#rrggbb`, or `#rrggbbaa` with `alpha`).
+ * The picker popover has a saturation/brightness area, hue and opacity
+ * sliders, an eyedropper where the browser supports one, swatches from the
+ * `color.*` design tokens, and the WCAG contrast ratio against
+ * `contrast-background`.
+ *
+ * @element monk-color-input
+ *
+ * @example
+ * ```html
+ * <monk-color-input label="Brand color" name="brand" value="#3d6ce8"></monk-color-input>
+ *
+ * <!-- Translucent overlay, shown as rgba(), checked against the dark surface -->
+ * <monk-color-input
+ *   label="Overlay"
+ *   format="rgb"
+ *   alpha
+ *   contrast-background="gray-900"
+ * ></monk-color-input>
+ *
+ * <!-- Custom swatches: token names or colors -->
+ * <monk-color-input label="Accent" swatches="blue-500 green-500 #ff6b6b"></monk-color-input>
+ * ```
+ *
+ * @accessibility
+ * - The swatch button opens the picker as a dialog; Escape closes it and returns focus
+ * - The saturation/brightness area is a slider: Left/Right change saturation, Up/Down
+ *   brightness, with Shift for larger steps
+ * - Hue and opacity are native range inputs; swatches are labelled with their token name
+ * - The contrast ratio is announced with the WCAG levels it meets
+ *
+ * @fires input-change - Fired when the color changes, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when the color is committed, with the same detail
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart picker-toggle - The swatch button that opens the picker
+ * @csspart picker-popover - The picker popover
+ * @csspart saturation - The saturation/brightness area
+ * @csspart hue - The hue slider
+ * @csspart alpha - The opacity slider
+ * @csspart swatches - The swatch palette
+ * @csspart contrast - The contrast readout
+ */
+@customElement('monk-color-input')
+export class MonkColorInput extends BaseInput {
+  /**
+   * Notation the text field shows the color in
+   * @default 'hex'
+   */
+  @property({ type: String, reflect: true })
+  format: ColorFormat = 'hex';
+
+  /**
+   * Allow translucent colors, with an opacity slider
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  alpha = false;
+
+  /**
+   * Swatches: `color.*` token names such as "blue-500", or any color
+   * (attribute: separated by spaces)
+   */
+  @property({ converter: toSwatches })
+  swatches: string[] = colorTokenSwatches;
+
+  /**
+   * Background the contrast ratio is measured against: a color token name such as
+   * "bg-canvas", or any color
+   * @default 'bg-canvas'
+   */
+  @property({ type: String, attribute: 'contrast-background' })
+  contrastBackground = 'bg-canvas';
+
+  @state()
+  private _pickerOpen = false;
+
+  /**
+   * Color shown by the picker; keeps the hue while the color is gray
+   */
+  @state()
+  private _hsv: HsvaColor = { h: 0, s: 0, v: 0, a: 1 };
+
+  /**
+   * Whether the user is typing, so the text is not reformatted under them
+   */
+  private _editing = false;
+
+  /**
+   * Saturation/brightness drag in progress, with the value it started from
+   */
+  private _dragStartValue?: string;
+
+  protected override get inputType(): string {
+    return 'text';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
+    css`
+      :host {
+        --monk-color-input-checkerboard: repeating-conic-gradient(
+            var(--monk-color-gray-200) 0% 25%,
+            var(--monk-color-white) 0% 50%
+          )
+          0 0 / 8px 8px;
+      }
+
+      .input-container {
+        position: relative;
+      }
+
+      .picker-toggle,
+      .swatch {
+        position: relative;
+        flex-shrink: 0;
+        padding: 0;
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-sm);
+        background: var(--monk-color-input-checkerboard);
+        cursor: pointer;
+        overflow: hidden;
+      }
+
+      .picker-toggle {
+        width: 1.5em;
+        height: 1.5em;
+      }
+
+      .picker-toggle:disabled {
+        cursor: not-allowed;
+      }
+
+      .picker-toggle:focus-visible,
+      .swatch:focus-visible,
+      .tool-button:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      .color-fill {
+        position: absolute;
+        inset: 0;
+      }
+
+      .picker-popover {
+        position: absolute;
+        top: calc(100% + var(--monk-space-1));
+        left: 0;
+        z-index: 10;
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-3);
+        width: 16rem;
+        padding: var(--monk-space-3);
+        background-color: var(--monk-color-bg-surface);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        box-shadow: var(--monk-shadow-lg);
+        cursor: default;
+      }
+
+      .saturation {
+        position: relative;
+        height: 10rem;
+        border-radius: var(--monk-radius-sm);
+        background:
+          linear-gradient(to top, #000, transparent),
+          linear-gradient(to right, #fff, hsl(var(--monk-color-input-hue) 100% 50%));
+        cursor: crosshair;
+        touch-action: none;
+      }
+
+      .saturation-thumb {
+        position: absolute;
+        left: var(--monk-color-input-saturation);
+        top: calc(100% - var(--monk-color-input-brightness));
+        width: 14px;
+        height: 14px;
+        border: 2px solid #fff;
+        border-radius: 50%;
+        box-shadow: 0 0 0 1px rgb(0 0 0 / 40%);
+        transform: translate(-50%, -50%);
+        outline: none;
+      }
+
+      .saturation-thumb:focus-visible {
+        box-shadow:
+          0 0 0 1px rgb(0 0 0 / 40%),
+          0 0 0 4px var(--monk-focus-ring-color);
+      }
+
+      .channel {
+        width: 100%;
+        height: 12px;
+        margin: 0;
+        border-radius: var(--monk-radius-full, 9999px);
+        appearance: none;
+        cursor: pointer;
+      }
+
+      .channel::-webkit-slider-thumb {
+        width: 14px;
+        height: 14px;
+        border: 2px solid #fff;
+        border-radius: 50%;
+        background: transparent;
+        box-shadow: 0 0 0 1px rgb(0 0 0 / 40%);
+        appearance: none;
+      }
+
+      .channel::-moz-range-thumb {
+        width: 10px;
+        height: 10px;
+        border: 2px solid #fff;
+        border-radius: 50%;
+        background: transparent;
+        box-shadow: 0 0 0 1px rgb(0 0 0 / 40%);
+      }
+
+      .channel:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      .hue {
+        background: linear-gradient(
+          to right,
+          #f00 0%,
+          #ff0 17%,
+          #0f0 33%,
+          #0ff 50%,
+          #00f 67%,
+          #f0f 83%,
+          #f00 100%
+        );
+      }
+
+      .alpha {
+        background:
+          linear-gradient(to right, transparent, var(--monk-color-input-opaque)),
+          var(--monk-color-input-checkerboard);
+      }
+
+      .tools {
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-1);
+      }
+
+      .tool-button {
+        padding: var(--monk-space-1) var(--monk-space-2);
+        border: 1px solid transparent;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        font: inherit;
+        font-size: var(--monk-font-size-xs);
+        font-weight: var(--monk-font-weight-semibold);
+        cursor: pointer;
+      }
+
+      .tool-button:hover {
+        background: var(--monk-color-bg-subtle);
+        color: var(--monk-color-text-primary);
+      }
+
+      .tool-button[aria-pressed='true'] {
+        border-color: var(--monk-color-border-accent);
+        color: var(--monk-color-text-primary);
+      }
+
+      .eyedropper {
+        margin-left: auto;
+        font-size: var(--monk-font-size-base);
+      }
+
+      .swatches {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(1.5rem, 1fr));
+        gap: var(--monk-space-1);
+      }
+
+      .swatch {
+        aspect-ratio: 1;
+      }
+
+      .swatch[aria-pressed='true'] {
+        box-shadow: 0 0 0 2px var(--monk-color-border-accent);
+      }
+
+      .contrast {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: var(--monk-space-2);
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-xs);
+      }
+
+      .contrast-sample {
+        padding: 0 var(--monk-space-2);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-sm);
+        font-size: var(--monk-font-size-base);
+        font-weight: var(--monk-font-weight-semibold);
+      }
+
+      .contrast-ratio {
+        color: var(--monk-color-text-primary);
+        font-weight: var(--monk-font-weight-semibold);
+      }
+
+      .contrast-level.pass {
+        color: var(--monk-color-text-success, var(--monk-color-text-primary));
+      }
+
+      .contrast-level.fail {
+        color: var(--monk-color-text-error);
+      }
+    `,
+  ];
+
+  /**
+   * The value as a color, if it is one
+   */
+  get color(): RgbaColor | null {
+    return parseColor(this.value);
+  }
+
+  /**
+   * WCAG contrast ratio of the color against `contrast-background`, if both resolve
+   */
+  get contrast(): number | undefined {
+    const color = this.color;
+    const background = this.resolveColor(this.contrastBackground);
+    return color && background ? contrastRatio(color, background) : undefined;
+  }
+
+  /**
+   * Entries must be colors, once something has been entered
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (this.value) {
+      declared.push(validators.color);
+    }
+    return declared;
+  }
+
+  /**
+   * Open the picker popover and move focus into it
+   */
+  public async openPicker(): Promise<void> {
+    if (this.isDisabled || this.readonly) return;
+
+    this._pickerOpen = true;
+    document.addEventListener('pointerdown', this._handleDocumentPointerDown);
+
+    await this.updateComplete;
+    this.renderRoot.querySelector<HTMLElement>('.saturation-thumb')?.focus();
+  }
+
+  /**
+   * Close the picker popover
+   * @param restoreFocus - Return focus to the picker button
+   */
+  public closePicker(restoreFocus = false): void {
+    if (!this._pickerOpen) return;
+
+    this._pickerOpen = false;
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+
+    if (restoreFocus) {
+      this.renderRoot.querySelector<HTMLButtonElement>('.picker-toggle')?.focus();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Store colors as hex, and move the picker to colors set from outside
+    if (changedProperties.has('value') || changedProperties.has('alpha')) {
+      const color = this.color;
+      if (color) {
+        this.value = this.toValue(color);
+        if (this.toValue(hsvToRgb(this._hsv)) !== this.value) {
+          const hsv = rgbToHsv(color);
+          const gray = hsv.s === 0 || hsv.v === 0;
+          this._hsv = { ...hsv, h: gray ? this._hsv.h : hsv.h, a: this.alpha ? hsv.a : 1 };
+        }
+      }
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+    // The text field shows the color in `format`, not the hex BaseInput syncs into it
+    if (!this._editing) {
+      this.syncDisplayValue();
+    }
+  }
+
+  /**
+   * Text shown in the field: the color in `format`, or whatever was typed
+   */
+  get displayValue(): string {
+    const color = this.color;
+    return color ? formatColor(color, this.format) : this.value;
+  }
+
+  private syncDisplayValue(): void {
+    if (this._input && this._input.value !== this.displayValue) {
+      this._input.value = this.displayValue;
+    }
+  }
+
+  /**
+   * Hex form of a color, without alpha unless it is allowed
+   */
+  private toValue(color: RgbaColor): string {
+    return toHex(this.alpha ? color : { ...color, a: 1 });
+  }
+
+  /**
+   * A token name (`--monk-color-<name>`) or a color, as a color
+   */
+  private resolveColor(reference: string): RgbaColor | null {
+    const color = parseColor(reference);
+    if (color || !/^[a-z0-9-]+$/i.test(reference)) return color;
+
+    const token = getComputedStyle(this).getPropertyValue(`--monk-color-${reference}`);
+    return parseColor(token);
+  }
+
+  protected override _handleInput(event: Event): void {
+    this._editing = true;
+
+    const text = (event.target as HTMLInputElement).value;
+    const color = parseColor(text);
+    this.value = color ? this.toValue(color) : text;
+
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+    this.emitEvent('input-change', { value: this.value, originalEvent: event });
+  }
+
+  protected override _handleChange(event: Event): void {
+    this._editing = false;
+    this.syncDisplayValue();
+    this.commitChange(event);
+  }
+
+  protected override _handleBlur(event: FocusEvent): void {
+    this._editing = false;
+    this.syncDisplayValue();
+    super._handleBlur(event);
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    if (event.altKey && event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.openPicker();
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  /**
+   * Show a color picked in the popover and report it as it changes
+   */
+  private moveColor(hsv: HsvaColor, originalEvent?: Event): void {
+    this._hsv = hsv;
+    const value = this.toValue(hsvToRgb(hsv));
+    if (value === this.value) return;
+
+    this.value = value;
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+    this.emitEvent('input-change', { value: this.value, originalEvent });
+  }
+
+  private commitChange(originalEvent?: Event): void {
+    if (this.validate && this.validateOn === 'change') {
+      this.performValidation();
+    }
+    this.emitEvent('input-changed', { value: this.value, originalEvent });
+  }
+
+  /**
+   * Apply a color from a swatch or the eyedropper
+   */
+  private pickColor(color: RgbaColor, originalEvent?: Event): void {
+    this.moveColor({ ...rgbToHsv(color), a: this.alpha ? color.a : 1 }, originalEvent);
+    this.commitChange(originalEvent);
+  }
+
+  private _handlePickerToggle(): void {
+    if (this._pickerOpen) {
+      this.closePicker();
+    } else {
+      this.openPicker();
+    }
+  }
+
+  private _handlePopoverKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.closePicker(true);
+    }
+  }
+
+  private _handlePopoverFocusout(event: FocusEvent): void {
+    const next = event.relatedTarget as Node | null;
+    const popover = event.currentTarget as HTMLElement;
+
+    // Tabbing out of the popover closes it; clicks are handled on pointerdown
+    if (next && !popover.contains(next)) {
+      this.closePicker();
+    }
+  }
+
+  private _handleDocumentPointerDown = (event: PointerEvent): void => {
+    if (!event.composedPath().includes(this)) {
+      this.closePicker();
+    }
+  };
+
+  private hsvFromPointer(event: PointerEvent): HsvaColor {
+    const area = event.currentTarget as HTMLElement;
+    const rect = area.getBoundingClientRect();
+    const x = rect.width ? (event.clientX - rect.left) / rect.width : 0;
+    const y = rect.height ? (event.clientY - rect.top) / rect.height : 0;
+
+    return {
+      ...this._hsv,
+      s: Math.min(100, Math.max(0, x * 100)),
+      v: Math.min(100, Math.max(0, (1 - y) * 100)),
+    };
+  }
+
+  private _handleAreaPointerDown(event: PointerEvent): void {
+    if (event.button !== 0) return;
+
+    event.preventDefault();
+    this._dragStartValue = this.value;
+    (event.currentTarget as HTMLElement).setPointerCapture?.(event.pointerId);
+    this.renderRoot.querySelector<HTMLElement>('.saturation-thumb')?.focus();
+    this.moveColor(this.hsvFromPointer(event), event);
+  }
+
+  private _handleAreaPointerMove(event: PointerEvent): void {
+    if (this._dragStartValue === undefined) return;
+    this.moveColor(this.hsvFromPointer(event), event);
+  }
+
+  private _handleAreaPointerUp(event: PointerEvent): void {
+    if (this._dragStartValue === undefined) return;
+
+    const changed = this.value !== this._dragStartValue;
+    this._dragStartValue = undefined;
+    if (changed) {
+      this.commitChange(event);
+    }
+  }
+
+  private _handleAreaKeyDown(event: KeyboardEvent): void {
+    const step = event.shiftKey ? 10 : 1;
+    const rtl = getComputedStyle(this).direction === 'rtl' ? -1 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowRight: [step * rtl, 0],
+      ArrowLeft: [-step * rtl, 0],
+      ArrowUp: [0, step],
+      ArrowDown: [0, -step],
+    };
+    const move = moves[event.key];
+    if (!move) return;
+
+    event.preventDefault();
+    const { s, v } = this._hsv;
+    this.moveColor(
+      {
+        ...this._hsv,
+        s: Math.min(100, Math.max(0, s + move[0])),
+        v: Math.min(100, Math.max(0, v + move[1])),
+      },
+      event
+    );
+    this.commitChange(event);
+  }
+
+  private _handleHueInput(event: Event): void {
+    const h = Number((event.target as HTMLInputElement).value);
+    this.moveColor({ ...this._hsv, h }, event);
+  }
+
+  private _handleAlphaInput(event: Event): void {
+    const a = Number((event.target as HTMLInputElement).value) / 100;
+    this.moveColor({ ...this._hsv, a }, event);
+  }
+
+  private _handleChannelChange(event: Event): void {
+    event.stopPropagation();
+    this.commitChange(event);
+  }
+
+  private _handleSwatchClick(swatch: string, event: MouseEvent): void {
+    const color = this.resolveColor(swatch);
+    if (color) {
+      this.pickColor(color, event);
+    }
+  }
+
+  private async _handleEyedropperClick(event: MouseEvent): Promise<void> {
+    if (!EyeDropper) return;
+
+    try {
+      const { sRGBHex } = await new EyeDropper().open();
+      const color = parseColor(sRGBHex);
+      if (color) {
+        this.pickColor(color, event);
+      }
+    } catch {
+      // The user dismissed the eyedropper
+    }
+  }
+
+  protected override renderPrefix() {
+    const fill = this.color ? this.value : 'transparent';
+
+    return html`
+      ${super.renderPrefix()}
+      <button
+        type="button"
+        class="picker-toggle"
+        part="picker-toggle"
+        aria-label="Choose color"
+        aria-haspopup="dialog"
+        aria-expanded=${this._pickerOpen ? 'true' : 'false'}
+        aria-controls="picker-popover"
+        ?disabled=${this.isDisabled || this.readonly}
+        @click=${this._handlePickerToggle}
+      >
+        <span class="color-fill" style=${`background: ${fill}`}></span>
+      </button>
+    `;
+  }
+
+  protected override renderSuffix() {
+    return html`
+      ${super.renderSuffix()} ${this._pickerOpen ? this.renderPicker() : nothing}
+    `;
+  }
+
+  private renderPicker() {
+    const { h, s, v, a } = this._hsv;
+    const opaque = toHex({ ...hsvToRgb(this._hsv), a: 1 });
+    const area = [
+      `--monk-color-input-hue: ${h}`,
+      `--monk-color-input-saturation: ${s}%`,
+      `--monk-color-input-brightness: ${v}%`,
+    ].join('; ');
+
+    return html`
+      <div
+        id="picker-popover"
+        class="picker-popover"
+        part="picker-popover"
+        role="dialog"
+        aria-label="Choose color"
+        @keydown=${this._handlePopoverKeydown}
+        @focusout=${this._handlePopoverFocusout}
+        @change=${this._handleChannelChange}
+      >
+        <div
+          class="saturation"
+          part="saturation"
+          style=${area}
+          @pointerdown=${this._handleAreaPointerDown}
+          @pointermove=${this._handleAreaPointerMove}
+          @pointerup=${this._handleAreaPointerUp}
+          @pointercancel=${this._handleAreaPointerUp}
+        >
+          <div
+            class="saturation-thumb"
+            role="slider"
+            tabindex="0"
+            aria-label="Saturation and brightness"
+            aria-valuemin="0"
+            aria-valuemax="100"
+            aria-valuenow=${Math.round(s)}
+            aria-valuetext=${`Saturation ${Math.round(s)}%, brightness ${Math.round(v)}%`}
+            @keydown=${this._handleAreaKeyDown}
+          ></div>
+        </div>
+        <input
+          class="channel hue"
+          part="hue"
+          type="range"
+          min="0"
+          max="360"
+          aria-label="Hue"
+          .value=${String(Math.round(h))}
+          @input=${this._handleHueInput}
+        />
+        ${this.alpha
+          ? html`
+              <input
+                class="channel alpha"
+                part="alpha"
+                type="range"
+                min="0"
+                max="100"
+                aria-label="Opacity"
+                style=${`--monk-color-input-opaque: ${opaque}`}
+                .value=${String(Math.round(a * 100))}
+                @input=${this._handleAlphaInput}
+              />
+            `
+          : nothing}
+        <div class="tools" role="group" aria-label="Format">
+          ${FORMATS.map(
+            (format) => html`
+              <button
+                type="button"
+                class="tool-button"
+                aria-pressed=${this.format === format ? 'true' : 'false'}
+                @click=${() => (this.format = format)}
+              >
+                ${format.toUpperCase()}
+              </button>
+            `
+          )}
+          ${EyeDropper
+            ? html`
+                <button
+                  type="button"
+                  class="tool-button eyedropper"
+                  aria-label="Pick a color from the screen"
+                  @click=${this._handleEyedropperClick}
+                >
+                  💧
+                </button>
+              `
+            : nothing}
+        </div>
+        ${this.renderSwatches()} ${this.renderContrast()}
+      </div>
+    `;
+  }
+
+  private renderSwatches() {
+    if (this.swatches.length === 0) return nothing;
+
+    return html`
+      <div class="swatches" part="swatches" role="group" aria-label="Swatches">
+        ${this.swatches.map((swatch) => {
+          const color = this.resolveColor(swatch);
+          const selected = !!color && this.toValue(color) === this.value;
+          const fill = parseColor(swatch) ? swatch : `var(--monk-color-${swatch})`;
+
+          return html`
+            <button
+              type="button"
+              class="swatch"
+              aria-label=${swatch}
+              title=${swatch}
+              aria-pressed=${selected ? 'true' : 'false'}
+              @click=${(event: MouseEvent) => this._handleSwatchClick(swatch, event)}
+            >
+              <span class="color-fill" style=${`background: ${fill}`}></span>
+            </button>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  private renderContrast() {
+    const ratio = this.contrast;
+    const background = this.resolveColor(this.contrastBackground);
+    if (ratio === undefined || !background) return nothing;
+
+    const levels = contrastLevels(ratio);
+    const checks = [
+      { label: 'AA', pass: levels.aa },
+      { label: 'AAA', pass: levels.aaa },
+      { label: 'AA large', pass: levels.aaLarge },
+    ];
+
+    return html`
+      <div class="contrast" part="contrast" role="status">
+        <span
+          class="contrast-sample"
+          aria-hidden="true"
+          style=${`color: ${this.value}; background: ${toHex(background)}`}
+        >
+          Aa
+        </span>
+        <span>
+          <span class="contrast-ratio">${ratio.toFixed(2)}:1</span>
+          against ${this.contrastBackground}
+        </span>
+        ${checks.map(
+          ({ label, pass }) => html`
+            <span class=${classMap({ 'contrast-level': true, pass, fail: !pass })}>
+              ${label} ${pass ? '✓' : '✗'}<span class="sr-only">${pass ? 'pass' : 'fail'}</span>
+            </span>
+          `
+        )}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-color-input': MonkColorInput;
+  }
+}
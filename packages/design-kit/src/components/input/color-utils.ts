@@ -0,0 +1,246 @@
+/**
+ * Color helpers for color inputs: parsing, conversion between models and
+ * WCAG contrast
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Color in sRGB, channels 0-255 and alpha 0-1
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Color by hue (0-360), saturation and value (0-100) and alpha (0-1), as shown by a picker
+ */
+export interface HsvaColor {
+  h: number;
+  s: number;
+  v: number;
+  a: number;
+}
+
+/**
+ * Notation a color is written in
+ */
+export type ColorFormat = 'hex' | 'rgb' | 'hsl';
+
+/**
+ * WCAG 2 conformance of a contrast ratio
+ */
+export interface ContrastLevels {
+  /** At least 4.5:1, for body text */
+  aa: boolean;
+  /** At least 3:1, for large text and UI components */
+  aaLarge: boolean;
+  /** At least 7:1 */
+  aaa: boolean;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 0): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Read a channel that may be a percentage, scaled to `max`
+ */
+const channel = (text: string, max: number): number => {
+  const number = parseFloat(text);
+  return text.trim().endsWith('%') ? (number / 100) * max : number;
+};
+
+const parseHex = (text: string): RgbaColor | null => {
+  const hex = text.replace(/^#/, '');
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return null;
+
+  const full = hex.length <= 4 ? [...hex].map((digit) => digit + digit).join('') : hex;
+  const [r, g, b, a = 255] = (full.match(/../g) ?? []).map((pair) => parseInt(pair, 16));
+  return { r, g, b, a: round(a / 255, 3) };
+};
+
+/**
+ * Parse a color written as hex (`#rgb`, `#rrggbb`, with optional alpha),
+ * `rgb()` / `rgba()` or `hsl()` / `hsla()`, with commas or spaces
+ * @returns null if the text is not a color
+ */
+export const parseColor = (text: string): RgbaColor | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+
+  const functional = value.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!functional) return parseHex(value);
+
+  const [, name, body] = functional;
+  const parts = body.split(/[\s,/]+/).filter(Boolean);
+  if (parts.length < 3 || parts.length > 4) return null;
+  if (parts.some((part) => Number.isNaN(parseFloat(part)))) return null;
+
+  const a = parts[3] === undefined ? 1 : clamp(channel(parts[3], 1), 0, 1);
+
+  if (name.startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map((part) => clamp(channel(part, 255), 0, 255));
+    return { r: Math.round(r), g: Math.round(g), b: Math.round(b), a };
+  }
+
+  const h = ((parseFloat(parts[0]) % 360) + 360) % 360;
+  const s = clamp(parseFloat(parts[1]), 0, 100);
+  const l = clamp(parseFloat(parts[2]), 0, 100);
+  return { ...hslToRgb(h, s, l), a };
+};
+
+/**
+ * Convert HSL (hue 0-360, saturation and lightness 0-100) to sRGB channels
+ */
+export const hslToRgb = (h: number, s: number, l: number): Omit<RgbaColor, 'a'> => {
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const k = (n: number) => (n + h / 30) % 12;
+  const chroma = saturation * Math.min(lightness, 1 - lightness);
+  const f = (n: number) =>
+    lightness - chroma * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+
+  return {
+    r: Math.round(f(0) * 255),
+    g: Math.round(f(8) * 255),
+    b: Math.round(f(4) * 255),
+  };
+};
+
+/**
+ * Convert sRGB channels to HSL (hue 0-360, saturation and lightness 0-100)
+ */
+export const rgbToHsl = ({ r, g, b }: RgbaColor): { h: number; s: number; l: number } => {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const delta = max - min;
+  const l = (max + min) / 2;
+
+  let h = 0;
+  if (delta !== 0) {
+    if (max === red) h = ((green - blue) / delta) % 6;
+    else if (max === green) h = (blue - red) / delta + 2;
+    else h = (red - green) / delta + 4;
+  }
+
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+  return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 };
+};
+
+/**
+ * Convert sRGB to hue, saturation and value
+ */
+export const rgbToHsv = (color: RgbaColor): HsvaColor => {
+  const { r, g, b, a } = color;
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const { h } = rgbToHsl(color);
+
+  return {
+    h,
+    s: max === 0 ? 0 : ((max - min) / max) * 100,
+    v: max * 100,
+    a,
+  };
+};
+
+/**
+ * Convert hue, saturation and value to sRGB
+ */
+export const hsvToRgb = ({ h, s, v, a }: HsvaColor): RgbaColor => {
+  const saturation = s / 100;
+  const value = v / 100;
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+
+  return {
+    r: Math.round(f(5) * 255),
+    g: Math.round(f(3) * 255),
+    b: Math.round(f(1) * 255),
+    a,
+  };
+};
+
+/**
+ * Hex notation, `#rrggbb`, or `#rrggbbaa` when the color is translucent
+ */
+export const toHex = ({ r, g, b, a }: RgbaColor): string => {
+  const pairs = [r, g, b, ...(a < 1 ? [Math.round(a * 255)] : [])];
+  return `#${pairs.map((part) => part.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Write a color in the given notation
+ */
+export const formatColor = (color: RgbaColor, format: ColorFormat): string => {
+  const alpha = color.a < 1 ? round(color.a, 2) : undefined;
+
+  if (format === 'rgb') {
+    const { r, g, b } = color;
+    return alpha === undefined ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  }
+
+  if (format === 'hsl') {
+    const { h, s, l } = rgbToHsl(color);
+    const hsl = `${Math.round(h)}, ${Math.round(s)}%, ${Math.round(l)}%`;
+    return alpha === undefined ? `hsl(${hsl})` : `hsla(${hsl}, ${alpha})`;
+  }
+
+  return toHex(color);
+};
+
+/**
+ * A translucent color as it appears over an opaque background
+ */
+export const blendOver = (color: RgbaColor, background: RgbaColor): RgbaColor => {
+  const mix = (top: number, bottom: number) => Math.round(top * color.a + bottom * (1 - color.a));
+  return {
+    r: mix(color.r, background.r),
+    g: mix(color.g, background.g),
+    b: mix(color.b, background.b),
+    a: 1,
+  };
+};
+
+/**
+ * WCAG 2 relative luminance, from 0 (black) to 1 (white)
+ */
+export const relativeLuminance = ({ r, g, b }: RgbaColor): number => {
+  const linear = (part: number) => {
+    const srgb = part / 255;
+    return srgb <= 0.04045 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+/**
+ * WCAG 2 contrast ratio between two colors, from 1 to 21
+ * A translucent foreground is blended over the background first.
+ */
+export const contrastRatio = (foreground: RgbaColor, background: RgbaColor): number => {
+  const opaqueBackground = { ...background, a: 1 };
+  const front = relativeLuminance(blendOver(foreground, opaqueBackground));
+  const back = relativeLuminance(opaqueBackground);
+  const [high, low] = front > back ? [front, back] : [back, front];
+  return (high + 0.05) / (low + 0.05);
+};
+
+/**
+ * Which WCAG 2 levels a contrast ratio meets
+ */
+export const contrastLevels = (ratio: number): ContrastLevels => ({
+  aa: ratio >= 4.5,
+  aaLarge: ratio >= 3,
+  aaa: ratio >= 7,
+});
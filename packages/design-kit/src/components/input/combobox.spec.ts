@@ -0,0 +1,304 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkCombobox, type ComboboxOption } from './combobox.js';
+
+const fruits: ComboboxOption[] = [
+  { value: 'apple', label: 'Apple' },
+  { value: 'apricot', label: 'Apricot' },
+  { value: 'banana', label: 'Banana', disabled: true },
+  { value: 'pineapple', label: 'Pineapple' },
+];
+
+const typeText = (element: MonkCombobox, text: string): void => {
+  const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const press = async (element: MonkCombobox, key: string, init: KeyboardEventInit = {}) => {
+  const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.dispatchEvent(
+    new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init })
+  );
+  await element.updateComplete;
+};
+
+const optionTexts = (element: MonkCombobox): string[] =>
+  Array.from(element.shadowRoot?.querySelectorAll('[role="option"]') ?? []).map(
+    (option) => option.textContent?.trim() ?? ''
+  );
+
+describe('MonkCombobox', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-combobox');
+    expect(element).to.be.instanceOf(MonkCombobox);
+  });
+
+  it('should render a closed ARIA 1.2 combobox', async () => {
+    const element = await fixture<MonkCombobox>(html`
+      <monk-combobox label="Fruit" .options=${fruits}></monk-combobox>
+    `);
+
+    const input = element.shadowRoot?.querySelector('input');
+    expect(input?.getAttribute('role')).to.equal('combobox');
+    expect(input?.getAttribute('aria-autocomplete')).to.equal('list');
+    expect(input?.getAttribute('aria-controls')).to.equal('listbox');
+    expect(input?.getAttribute('aria-expanded')).to.equal('false');
+    expect(input?.getAttribute('autocomplete')).to.equal('off');
+    expect(element.shadowRoot?.querySelector('#listbox')?.getAttribute('role')).to.equal(
+      'listbox'
+    );
+  });
+
+  describe('Static Options', () => {
+    it('should filter options by the typed text', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'ap');
+      await element.updateComplete;
+
+      expect(element.expanded).to.be.true;
+      expect(optionTexts(element)).to.deep.equal(['Apple', 'Apricot', 'Pineapple']);
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.getAttribute('aria-expanded')).to.equal('true');
+    });
+
+    it('should highlight the matching text', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'apple');
+      await element.updateComplete;
+
+      const marks = element.shadowRoot?.querySelectorAll('mark');
+      expect(Array.from(marks ?? []).map((mark) => mark.textContent)).to.deep.equal([
+        'Apple',
+        'apple',
+      ]);
+    });
+
+    it('should wait for min-chars before showing suggestions', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox min-chars="2" .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'a');
+      await element.updateComplete;
+      expect(element.expanded).to.be.false;
+
+      typeText(element, 'ap');
+      await element.updateComplete;
+      expect(element.expanded).to.be.true;
+    });
+
+    it('should show the no-results message', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}>
+          <span slot="no-results">Nothing found</span>
+        </monk-combobox>
+      `);
+
+      typeText(element, 'kiwi');
+      await element.updateComplete;
+
+      const slot = element.shadowRoot?.querySelector<HTMLSlotElement>('slot[name="no-results"]');
+      expect(slot?.assignedElements()[0].textContent).to.equal('Nothing found');
+      const status = element.shadowRoot?.querySelector('[role="status"]');
+      expect(status?.textContent?.trim()).to.equal('No results');
+    });
+
+    it('should list grouped options under their heading', async () => {
+      const options: ComboboxOption[] = [
+        { value: 'carrot', label: 'Carrot', group: 'Vegetables' },
+        { value: 'cherry', label: 'Cherry', group: 'Fruit' },
+        { value: 'celery', label: 'Celery', group: 'Vegetables' },
+      ];
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${options}></monk-combobox>
+      `);
+
+      typeText(element, 'c');
+      await element.updateComplete;
+
+      const groups = element.shadowRoot?.querySelectorAll('[role="group"]');
+      expect(groups?.length).to.equal(2);
+      expect(groups?.[0].querySelector('.group-label')?.textContent?.trim()).to.equal(
+        'Vegetables'
+      );
+      expect(optionTexts(element)).to.deep.equal(['Carrot', 'Celery', 'Cherry']);
+      const labelId = groups?.[0].getAttribute('aria-labelledby') as string;
+      expect(element.shadowRoot?.getElementById(labelId)?.textContent?.trim()).to.equal(
+        'Vegetables'
+      );
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('should move the active option with the arrow keys, skipping disabled ones', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+      const input = element.shadowRoot?.querySelector('input');
+
+      await press(element, 'ArrowDown');
+      expect(element.expanded).to.be.true;
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-0');
+
+      await press(element, 'ArrowDown');
+      await press(element, 'ArrowDown');
+      // Banana (option-2) is disabled
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-3');
+
+      await press(element, 'ArrowDown');
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-0');
+
+      await press(element, 'ArrowUp');
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-3');
+      const active = element.shadowRoot?.querySelector('#option-3');
+      expect(active?.getAttribute('aria-selected')).to.equal('true');
+    });
+
+    it('should pick the active option with Enter', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      await press(element, 'ArrowDown');
+      setTimeout(() => press(element, 'Enter'));
+      const event = await oneEvent(element, 'suggestion-select');
+
+      expect(event.detail.value).to.equal('apple');
+      expect(element.value).to.equal('Apple');
+      expect(element.expanded).to.be.false;
+    });
+
+    it('should close with Escape, then clear the input', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'ap');
+      await element.updateComplete;
+
+      await press(element, 'Escape');
+      expect(element.expanded).to.be.false;
+      expect(element.value).to.equal('ap');
+
+      await press(element, 'Escape');
+      expect(element.value).to.equal('');
+    });
+  });
+
+  describe('Selection', () => {
+    it('should pick an option on click', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'apr');
+      await element.updateComplete;
+
+      const option = element.shadowRoot?.querySelector('[role="option"]') as HTMLElement;
+      setTimeout(() => option.click());
+      const event = await oneEvent(element, 'suggestion-select');
+
+      expect(event.detail.option.label).to.equal('Apricot');
+      expect(element.selectedOption?.value).to.equal('apricot');
+      expect(element.formValue).to.equal('apricot');
+    });
+
+    it('should not pick disabled options', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      element.selectOption(fruits[2]);
+      expect(element.value).to.equal('');
+    });
+
+    it('should show the label for an option given by value', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox value="pineapple" .options=${fruits}></monk-combobox>
+      `);
+
+      expect(element.value).to.equal('Pineapple');
+      expect(element.formValue).to.equal('pineapple');
+    });
+
+    it('should submit free text by default', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'Dragonfruit');
+      expect(element.formValue).to.equal('Dragonfruit');
+    });
+
+    it('should require a suggestion in must-select mode', async () => {
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox must-select validate .options=${fruits}></monk-combobox>
+      `);
+
+      typeText(element, 'Dragonfruit');
+      expect(element.formValue).to.equal('');
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please choose an option from the list');
+
+      typeText(element, 'apple');
+      expect(element.selectedOption?.value).to.equal('apple');
+      expect(element.performValidation()).to.be.true;
+    });
+  });
+
+  describe('Async Provider', () => {
+    it('should debounce queries and show loading', async () => {
+      const queries: string[] = [];
+      const provider = async (query: string) => {
+        queries.push(query);
+        return fruits.filter((fruit) => fruit.value.startsWith(query));
+      };
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox debounce="20" .provider=${provider}></monk-combobox>
+      `);
+
+      typeText(element, 'a');
+      typeText(element, 'ap');
+      await element.updateComplete;
+      expect(element.shadowRoot?.querySelector('slot[name="loading"]')).to.exist;
+
+      await element.searchComplete;
+      await element.updateComplete;
+
+      expect(queries).to.deep.equal(['ap']);
+      expect(optionTexts(element)).to.deep.equal(['Apple', 'Apricot']);
+      const status = element.shadowRoot?.querySelector('[role="status"]');
+      expect(status?.textContent?.trim()).to.equal('2 suggestions available');
+    });
+
+    it('should abort superseded queries and ignore their results', async () => {
+      const signals: AbortSignal[] = [];
+      const provider = (query: string, signal: AbortSignal) => {
+        signals.push(signal);
+        const delay = query === 'a' ? 40 : 0;
+        return new Promise<ComboboxOption[]>((resolve) =>
+          setTimeout(() => resolve([{ value: query, label: `Result for ${query}` }]), delay)
+        );
+      };
+      const element = await fixture<MonkCombobox>(html`
+        <monk-combobox debounce="0" .provider=${provider}></monk-combobox>
+      `);
+
+      typeText(element, 'a');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      typeText(element, 'ab');
+      await element.searchComplete;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await element.updateComplete;
+
+      expect(signals[0].aborted).to.be.true;
+      expect(optionTexts(element)).to.deep.equal(['Result for ab']);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './combobox.js';
+import type { ComboboxOption, ComboboxProvider } from './combobox.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/Combobox',
+  component: 'monk-combobox',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Combobox component is a text input with a list of suggestions, following the
+ARIA 1.2 combobox pattern.
+
+## Features
+
+- Static \`options\` filtered as you type, or an async \`provider\`
+- Provider calls are debounced and superseded calls are aborted
+- Matching text is highlighted
+- Arrow keys, Enter and Escape keyboard support; focus stays in the input
+- Grouped options
+- \`loading\` and \`no-results\` slots
+- Free text (default) or \`must-select\` mode
+- \`suggestion-select\` event with the picked option
+
+## Usage
+
+\`\`\`html
+<monk-combobox
+  label="City"
+  must-select
+  .provider=\${searchCities}
+  @suggestion-select=\${(e) => console.log(e.detail.value)}
+></monk-combobox>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+const fruits: ComboboxOption[] = [
+  'Apple',
+  'Apricot',
+  'Banana',
+  'Blackberry',
+  'Blueberry',
+  'Cherry',
+  'Grape',
+  'Lemon',
+  'Mango',
+  'Orange',
+  'Peach',
+  'Pear',
+  'Pineapple',
+  'Strawberry',
+].map((label) => ({ value: label.toLowerCase(), label }));
+
+const produce: ComboboxOption[] = [
+  { value: 'apple', label: 'Apple', group: 'Fruit' },
+  { value: 'banana', label: 'Banana', group: 'Fruit' },
+  { value: 'cherry', label: 'Cherry', group: 'Fruit', disabled: true },
+  { value: 'carrot', label: 'Carrot', group: 'Vegetables' },
+  { value: 'celery', label: 'Celery', group: 'Vegetables' },
+  { value: 'potato', label: 'Potato', group: 'Vegetables' },
+  { value: 'basil', label: 'Basil', group: 'Herbs' },
+  { value: 'parsley', label: 'Parsley', group: 'Herbs' },
+];
+
+const cities = [
+  'Amsterdam',
+  'Athens',
+  'Barcelona',
+  'Berlin',
+  'Brussels',
+  'Copenhagen',
+  'Dublin',
+  'Lisbon',
+  'London',
+  'Madrid',
+  'Paris',
+  'Prague',
+  'Rome',
+  'Vienna',
+];
+
+/**
+ * Simulates a server search with latency
+ */
+const searchCities: ComboboxProvider = (query, signal) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const needle = query.toLowerCase();
+      resolve(
+        cities
+          .filter((city) => city.toLowerCase().includes(needle))
+          .map((city) => ({ value: city.slice(0, 3).toUpperCase(), label: city }))
+      );
+    }, 600);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+export const Default: Story = {
+  render: () => html`
+    <monk-combobox
+      label="Favorite fruit"
+      placeholder="Start typing..."
+      helper-text="Pick a suggestion or type your own"
+      .options=${fruits}
+      style="max-width: 400px;"
+    ></monk-combobox>
+  `,
+};
+
+export const Grouped: Story = {
+  render: () => html`
+    <monk-combobox
+      label="Produce"
+      placeholder="Search produce..."
+      .options=${produce}
+      style="max-width: 400px;"
+    ></monk-combobox>
+  `,
+};
+
+export const AsyncProvider: Story = {
+  render: () => html`
+    <monk-combobox
+      label="City"
+      placeholder="Type at least 2 characters"
+      min-chars="2"
+      debounce="300"
+      .provider=${searchCities}
+      style="max-width: 400px;"
+    >
+      <span slot="loading">Searching cities…</span>
+      <span slot="no-results">No matching cities</span>
+    </monk-combobox>
+  `,
+};
+
+export const MustSelect: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-combobox
+        label="Free text (default)"
+        helper-text="Any text is accepted"
+        .options=${fruits}
+      ></monk-combobox>
+
+      <monk-combobox
+        label="Must select"
+        helper-text="Only a suggestion is accepted"
+        must-select
+        validate
+        required
+        .options=${fruits}
+      ></monk-combobox>
+    </monk-stack>
+  `,
+};
+
+export const InitialValue: Story = {
+  render: () => html`
+    <monk-combobox
+      label="Favorite fruit"
+      value="mango"
+      .options=${fruits}
+      style="max-width: 400px;"
+    ></monk-combobox>
+  `,
+};
@@ -0,0 +1,678 @@
+import {
+  html,
+  css,
+  nothing,
+  type CSSResultArray,
+  type PropertyValues,
+  type TemplateResult,
+} from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { srOnlyStyles } from '../../core/styles.js';
+import { BaseInput } from './base-input.js';
+import type { Validator } from './validators.js';
+
+/**
+ * A suggestion shown in the combobox list
+ */
+export interface ComboboxOption {
+  /** Value submitted with the form and passed to `suggestion-select` */
+  value: string;
+  /** Text shown in the list and put in the input when picked */
+  label: string;
+  /** Options with the same group are listed together under this heading */
+  group?: string;
+  /** Shown but cannot be picked */
+  disabled?: boolean;
+}
+
+/**
+ * Loads suggestions for the typed text
+ * The signal is aborted when a newer query supersedes this one.
+ *
+ * @example
+ * ```ts
+ * combobox.provider = async (query, signal) => {
+ *   const res = await fetch(`/api/cities?q=${encodeURIComponent(query)}`, { signal });
+ *   return (await res.json()).map((city) => ({ value: city.id, label: city.name }));
+ * };
+ * ```
+ */
+export type ComboboxProvider = (
+  query: string,
+  signal: AbortSignal
+) => Promise<ComboboxOption[]> | ComboboxOption[];
+
+/**
+ * Detail of the `suggestion-select` event
+ */
+export interface SuggestionSelectDetail {
+  /** The picked option */
+  option: ComboboxOption;
+  /** The option's value */
+  value: string;
+  originalEvent?: Event;
+}
+
+/**
+ * Options grouped for rendering, with their index in the flat result list
+ */
+interface OptionGroup {
+  label?: string;
+  options: Array<{ option: ComboboxOption; index: number }>;
+}
+
+/**
+ * Order options so each group is contiguous, keeping the order in which groups first appear
+ */
+const orderByGroup = (options: ComboboxOption[]): ComboboxOption[] => {
+  const groups = new Map<string | undefined, ComboboxOption[]>();
+  for (const option of options) {
+    const group = groups.get(option.group) ?? [];
+    group.push(option);
+    groups.set(option.group, group);
+  }
+  return [...groups.values()].flat();
+};
+
+/**
+ * Split a label into text and <mark>ed occurrences of the query (case-insensitive)
+ */
+const highlightMatches = (label: string, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return label;
+
+  const parts: Array<string | TemplateResult> = [];
+  const haystack = label.toLowerCase();
+  let from = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    parts.push(label.slice(from, index));
+    parts.push(html`<mark part="match">${label.slice(index, index + needle.length)}</mark>`);
+    from = index + needle.length;
+    index = haystack.indexOf(needle, from);
+  }
+  parts.push(label.slice(from));
+
+  return parts;
+};
+
+/**
+ * Combobox component - Text input with a list of suggestions (ARIA 1.2 combobox pattern)
+ * Suggestions come from a static `options` list filtered by the typed text, or from an
+ * async `provider` that is debounced and cancelled when the text changes.
+ *
+ * @element monk-combobox
+ *
+ * @example
+ * ```html
+ * <!-- Static options; any text is allowed -->
+ * <monk-combobox
+ *   label="Fruit"
+ *   .options=${[
+ *     { value: 'apple', label: 'Apple' },
+ *     { value: 'banana', label: 'Banana' },
+ *   ]}
+ * ></monk-combobox>
+ *
+ * <!-- Async suggestions; one of them must be picked -->
+ * <monk-combobox
+ *   label="City"
+ *   must-select
+ *   validate
+ *   min-chars="2"
+ *   .provider=${searchCities}
+ *   @suggestion-select=${(e) => console.log(e.detail.value)}
+ * >
+ *   <span slot="no-results">No matching cities</span>
+ * </monk-combobox>
+ * ```
+ *
+ * @accessibility
+ * - The input has `role="combobox"` and controls a `role="listbox"` popup
+ * - Focus stays in the input; the highlighted option is exposed with `aria-activedescendant`
+ * - Arrow Up/Down move through suggestions (opening the list if needed), Enter picks,
+ *   Escape closes the list or, if closed, clears the input
+ * - Grouped options are wrapped in `role="group"` labelled by their heading
+ * - The number of suggestions is announced politely when it changes
+ *
+ * @fires suggestion-select - Fired when a suggestion is picked, detail: `{ option, value }`
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart popup - The popup with the suggestions and status messages
+ * @csspart listbox - The list of suggestions
+ * @csspart group-label - Heading of each option group
+ * @csspart option - Each suggestion
+ * @csspart match - Highlighted text matching the query
+ * @csspart status - The loading and no-results messages
+ *
+ * @slot prefix - Content to display before the input (e.g., icons, text)
+ * @slot suffix - Content to display after the input (e.g., icons, buttons)
+ * @slot loading - Shown while the provider is loading (default: "Loading…")
+ * @slot no-results - Shown when nothing matches (default: "No results")
+ */
+@customElement('monk-combobox')
+export class MonkCombobox extends BaseInput {
+  override autocomplete = 'off';
+
+  /**
+   * Static suggestions, filtered by the typed text
+   */
+  @property({ attribute: false })
+  options: ComboboxOption[] = [];
+
+  /**
+   * Loads suggestions for the typed text; takes precedence over `options`
+   */
+  @property({ attribute: false })
+  provider?: ComboboxProvider;
+
+  /**
+   * Delay in milliseconds after typing before the provider is called
+   * @default 250
+   */
+  @property({ type: Number })
+  debounce = 250;
+
+  /**
+   * Characters to type before suggestions are shown
+   * @default 0
+   */
+  @property({ type: Number, attribute: 'min-chars' })
+  minChars = 0;
+
+  /**
+   * Only accept text that matches a suggestion; validation fails for free text
+   * and the form value is empty until a suggestion is picked
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'must-select' })
+  mustSelect = false;
+
+  @state()
+  private _open = false;
+
+  @state()
+  private _results: ComboboxOption[] = [];
+
+  @state()
+  private _activeIndex = -1;
+
+  @state()
+  private _loading = false;
+
+  /**
+   * Option whose label is in the input, if one was picked
+   */
+  @state()
+  private _selected?: ComboboxOption;
+
+  private _search?: AbortController;
+  private _searchComplete: Promise<void> = Promise.resolve();
+
+  protected override get inputType(): string {
+    return 'text';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
+    css`
+      .popup {
+        position: absolute;
+        top: calc(100% + var(--monk-space-1));
+        left: 0;
+        right: 0;
+        z-index: 10;
+        max-height: 16rem;
+        margin: 0;
+        padding: var(--monk-space-1);
+        overflow-y: auto;
+        background-color: var(--monk-color-bg-surface);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        box-shadow: var(--monk-shadow-lg);
+      }
+
+      .popup[hidden] {
+        display: none;
+      }
+
+      .group-label {
+        padding: var(--monk-space-2) var(--monk-space-3) var(--monk-space-1);
+        font-size: var(--monk-font-size-xs);
+        font-weight: var(--monk-font-weight-semibold);
+        color: var(--monk-color-text-secondary);
+        text-transform: uppercase;
+      }
+
+      .option {
+        padding: var(--monk-space-2) var(--monk-space-3);
+        border-radius: var(--monk-radius-sm);
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-sm);
+        cursor: pointer;
+      }
+
+      .option.active {
+        background-color: var(--monk-color-bg-hover);
+      }
+
+      .option.selected {
+        font-weight: var(--monk-font-weight-medium);
+      }
+
+      .option[aria-disabled='true'] {
+        color: var(--monk-color-text-tertiary);
+        cursor: not-allowed;
+      }
+
+      mark {
+        background: transparent;
+        color: inherit;
+        font-weight: var(--monk-font-weight-semibold);
+        text-decoration: underline;
+      }
+
+      .status {
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-2);
+        padding: var(--monk-space-2) var(--monk-space-3);
+        font-size: var(--monk-font-size-sm);
+        color: var(--monk-color-text-secondary);
+      }
+    `,
+  ];
+
+  /**
+   * The picked option's value, or the typed text unless `must-select` is set
+   */
+  override get formValue(): string {
+    return this._selected?.value ?? (this.mustSelect ? '' : this.value);
+  }
+
+  /**
+   * The option currently in the input, if one was picked
+   */
+  get selectedOption(): ComboboxOption | undefined {
+    return this._selected;
+  }
+
+  /**
+   * Resolves when the current suggestion search has finished
+   */
+  get searchComplete(): Promise<void> {
+    return this._searchComplete;
+  }
+
+  get expanded(): boolean {
+    return this._open;
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (!this.mustSelect || !this.value) return declared;
+
+    return [
+      ...declared,
+      () => ({
+        valid: !!this._selected,
+        code: 'mustSelect',
+        message: 'Please choose an option from the list',
+      }),
+    ];
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.cancelSearch();
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Text equal to a suggestion counts as picking it; when set from outside,
+    // show the label of an option given by value, e.g. value="nl"
+    if (changedProperties.has('value') || changedProperties.has('options')) {
+      if (!this.value) {
+        this._selected = undefined;
+      } else if (this._selected?.label !== this.value) {
+        const match = this.findOption(this.value);
+        this._selected = match;
+        if (match && !this._focused) {
+          this.value = match.label;
+        }
+      }
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+    this.syncComboboxState();
+  }
+
+  /**
+   * Show suggestions for the current text
+   */
+  public openSuggestions(): void {
+    if (this.isDisabled || this.readonly) return;
+    this.search(this.value, 0);
+  }
+
+  /**
+   * Hide the suggestions, cancelling any pending search
+   */
+  public closeSuggestions(): void {
+    this.cancelSearch();
+    this._open = false;
+    this._activeIndex = -1;
+  }
+
+  /**
+   * Put an option's label in the input and notify listeners
+   */
+  public selectOption(option: ComboboxOption, originalEvent?: Event): void {
+    if (option.disabled) return;
+
+    this._selected = option;
+    this.value = option.label;
+    this.closeSuggestions();
+
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.dispatchEvent(
+        new CustomEvent(name, {
+          detail: { value: this.value, originalEvent },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+    this.emitEvent<SuggestionSelectDetail>('suggestion-select', {
+      option,
+      value: option.value,
+      originalEvent,
+    });
+  }
+
+  /**
+   * Option whose value or label equals the text (label case-insensitive)
+   */
+  private findOption(text: string): ComboboxOption | undefined {
+    const lower = text.trim().toLowerCase();
+    return [...this._results, ...this.options].find(
+      (option) =>
+        !option.disabled && (option.value === text || option.label.toLowerCase() === lower)
+    );
+  }
+
+  /**
+   * Load suggestions after `delay`, superseding any earlier search
+   */
+  private search(query: string, delay: number): void {
+    this.cancelSearch();
+
+    if (query.trim().length < this.minChars) {
+      this._open = false;
+      this._results = [];
+      this._activeIndex = -1;
+      return;
+    }
+
+    const provider = this.provider;
+    if (!provider) {
+      const needle = query.trim().toLowerCase();
+      this.showResults(
+        this.options.filter((option) => option.label.toLowerCase().includes(needle))
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    this._search = controller;
+    this._loading = true;
+    this._open = true;
+
+    this._searchComplete = new Promise<void>((resolve) => {
+      const timer = setTimeout(async () => {
+        let results: ComboboxOption[];
+        try {
+          results = await provider(query, signal);
+        } catch {
+          results = [];
+        }
+
+        // A newer search (or cancellation) owns the result
+        if (signal.aborted) return;
+
+        this._search = undefined;
+        this._loading = false;
+        this.showResults(results);
+        resolve();
+      }, delay);
+
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        queueMicrotask(() => resolve(this._searchComplete));
+      });
+    });
+  }
+
+  private showResults(results: ComboboxOption[]): void {
+    this._results = orderByGroup(results);
+    this._activeIndex = -1;
+    this._open = true;
+  }
+
+  private cancelSearch(): void {
+    if (!this._search) return;
+
+    this._search.abort();
+    this._search = undefined;
+    this._loading = false;
+  }
+
+  /**
+   * Move the highlight by `offset` enabled options, wrapping around
+   */
+  private moveActive(offset: number): void {
+    const count = this._results.length;
+    if (!count) return;
+
+    let index = this._activeIndex;
+    for (let tries = 0; tries < count; tries++) {
+      index = index === -1 && offset < 0 ? count - 1 : (index + offset + count) % count;
+      if (!this._results[index].disabled) {
+        this._activeIndex = index;
+        return;
+      }
+    }
+  }
+
+  protected override _handleInput(event: Event): void {
+    // Before super, which may validate while typing
+    this._selected = this.findOption((event.target as HTMLInputElement).value);
+    super._handleInput(event);
+    this.search(this.value, this.provider ? this.debounce : 0);
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        if (!this._open) {
+          this.openSuggestions();
+          if (event.altKey) break;
+        }
+        this.moveActive(event.key === 'ArrowDown' ? 1 : -1);
+        break;
+      }
+      case 'Enter': {
+        const active = this._open ? this._results[this._activeIndex] : undefined;
+        if (active) {
+          event.preventDefault();
+          this.selectOption(active, event);
+        }
+        break;
+      }
+      case 'Escape': {
+        if (this._open) {
+          event.preventDefault();
+          this.closeSuggestions();
+        } else if (this.value) {
+          event.preventDefault();
+          this.value = '';
+          this.dispatchEvent(
+            new CustomEvent('input-change', {
+              detail: { value: this.value, originalEvent: event },
+              bubbles: true,
+              composed: true,
+            })
+          );
+        }
+        break;
+      }
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  protected override _handleBlur(event: FocusEvent): void {
+    this.closeSuggestions();
+    super._handleBlur(event);
+  }
+
+  private _handleOptionClick(option: ComboboxOption, event: Event): void {
+    this.selectOption(option, event);
+  }
+
+  /**
+   * Combobox role and state on the native input
+   */
+  private syncComboboxState(): void {
+    const input = this._input;
+    if (!input) return;
+
+    const active = this._open && this._activeIndex >= 0 ? `option-${this._activeIndex}` : '';
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-autocomplete', 'list');
+    input.setAttribute('aria-controls', 'listbox');
+    input.setAttribute('aria-expanded', this._open ? 'true' : 'false');
+    if (active) {
+      input.setAttribute('aria-activedescendant', active);
+      this.renderRoot.querySelector(`#${active}`)?.scrollIntoView?.({ block: 'nearest' });
+    } else {
+      input.removeAttribute('aria-activedescendant');
+    }
+  }
+
+  private get groups(): OptionGroup[] {
+    const groups: OptionGroup[] = [];
+    this._results.forEach((option, index) => {
+      const last = groups[groups.length - 1];
+      if (last && last.label === option.group) {
+        last.options.push({ option, index });
+      } else {
+        groups.push({ label: option.group, options: [{ option, index }] });
+      }
+    });
+    return groups;
+  }
+
+  private renderOption(option: ComboboxOption, index: number) {
+    const classes = {
+      option: true,
+      active: index === this._activeIndex,
+      selected: option === this._selected,
+    };
+
+    return html`
+      <div
+        id="option-${index}"
+        class=${classMap(classes)}
+        part="option"
+        role="option"
+        aria-selected=${index === this._activeIndex ? 'true' : 'false'}
+        aria-disabled=${option.disabled ? 'true' : 'false'}
+        @click=${(event: Event) => this._handleOptionClick(option, event)}
+      >
+        ${highlightMatches(option.label, this.value)}
+      </div>
+    `;
+  }
+
+  private renderStatus() {
+    if (this._loading) {
+      return html`
+        <div class="status" part="status">
+          <slot name="loading"><span class="pending-indicator"></span> Loading…</slot>
+        </div>
+      `;
+    }
+    if (!this._results.length) {
+      return html`
+        <div class="status" part="status"><slot name="no-results">No results</slot></div>
+      `;
+    }
+    return nothing;
+  }
+
+  private get announcement(): string {
+    if (!this._open || this._loading) return '';
+    const count = this._results.length;
+    if (!count) return 'No results';
+    return `${count} ${count === 1 ? 'suggestion' : 'suggestions'} available`;
+  }
+
+  protected override renderSuffix() {
+    return html`
+      ${super.renderSuffix()}
+      <div
+        class="popup"
+        part="popup"
+        ?hidden=${!this._open}
+        @pointerdown=${(event: PointerEvent) => event.preventDefault()}
+      >
+        <div
+          id="listbox"
+          part="listbox"
+          role="listbox"
+          aria-label=${this.label || 'Suggestions'}
+        >
+          ${this.groups.map((group, groupIndex) =>
+            group.label === undefined
+              ? group.options.map(({ option, index }) => this.renderOption(option, index))
+              : html`
+                  <div role="group" aria-labelledby="group-${groupIndex}">
+                    <div id="group-${groupIndex}" class="group-label" part="group-label">
+                      ${group.label}
+                    </div>
+                    ${group.options.map(({ option, index }) => this.renderOption(option, index))}
+                  </div>
+                `
+          )}
+        </div>
+        ${this._open ? this.renderStatus() : nothing}
+      </div>
+      <div class="sr-only" role="status" aria-live="polite">${this.announcement}</div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-combobox': MonkCombobox;
+  }
+}
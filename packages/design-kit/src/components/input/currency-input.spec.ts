@@ -0,0 +1,256 @@
+import { expect, fixture, html } from '@open-wc/testing';
+import { MonkCurrencyInput } from './currency-input.js';
+import type { MonkDollarInput } from './dollar-input.js';
+import './dollar-input.js';
+
+const type = async (element: MonkCurrencyInput, text: string): Promise<HTMLInputElement> => {
+  const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  await element.updateComplete;
+  return input;
+};
+
+// Intl separates amount and symbol with a no-break space in many locales
+const normalizeSpaces = (text: string | undefined): string => (text ?? '').replace(/\s/g, ' ');
+
+describe('MonkCurrencyInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-currency-input');
+    expect(element).to.be.instanceOf(MonkCurrencyInput);
+  });
+
+  it('should render with default properties', async () => {
+    const element = await fixture<MonkCurrencyInput>(
+      html`<monk-currency-input></monk-currency-input>`
+    );
+
+    expect(element.currency).to.equal('USD');
+    expect(element.locale).to.be.undefined;
+    expect(element.allowNegative).to.be.false;
+    expect(element.value).to.equal('');
+  });
+
+  it('should keep monk-dollar-input as a USD / en-US preset', async () => {
+    const element = await fixture<MonkDollarInput>(html`<monk-dollar-input></monk-dollar-input>`);
+
+    expect(element).to.be.instanceOf(MonkCurrencyInput);
+    expect(element.currency).to.equal('USD');
+    expect(element.locale).to.equal('en-US');
+  });
+
+  describe('Locales', () => {
+    it('should format with locale separators and symbol position', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="EUR" locale="de-DE" value="1234.56"></monk-currency-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(normalizeSpaces(input?.value)).to.equal('1.234,56 €');
+    });
+
+    it('should parse locale separators when typing', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="EUR" locale="de-DE"></monk-currency-input>
+      `);
+
+      await type(element, '1.234,5 €');
+
+      expect(element.value).to.equal('1234.5');
+    });
+
+    it('should parse pasted amounts with group separators', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="USD" locale="en-US"></monk-currency-input>
+      `);
+
+      const input = await type(element, '$12,345,678.9');
+
+      expect(element.value).to.equal('12345678.9');
+      expect(input.value).to.equal('$12,345,678.9');
+    });
+
+    it('should reformat when the currency changes', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="USD" locale="en-US" value="10"></monk-currency-input>
+      `);
+
+      element.currency = 'GBP';
+      await element.updateComplete;
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('£10');
+    });
+
+    it('should warn once about an unknown currency', async () => {
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => warnings.push(args[0]);
+      try {
+        const element = await fixture<MonkCurrencyInput>(html`
+          <monk-currency-input currency="EURO" locale="en-US" value="5"></monk-currency-input>
+        `);
+        await type(element, '1234.5');
+        await fixture(html`<monk-currency-input currency="EURO"></monk-currency-input>`);
+
+        expect(element.value).to.equal('1234.5');
+      } finally {
+        console.warn = warn;
+      }
+
+      expect(warnings).to.deep.equal(['[monkbunch] Unknown currency "EURO"']);
+    });
+  });
+
+  describe('Minor Units', () => {
+    it("should report each currency's fraction digits", async () => {
+      const jpy = await fixture<MonkCurrencyInput>(
+        html`<monk-currency-input currency="JPY"></monk-currency-input>`
+      );
+      const usd = await fixture<MonkCurrencyInput>(
+        html`<monk-currency-input currency="USD"></monk-currency-input>`
+      );
+      const kwd = await fixture<MonkCurrencyInput>(
+        html`<monk-currency-input currency="KWD"></monk-currency-input>`
+      );
+
+      expect(jpy.fractionDigits).to.equal(0);
+      expect(usd.fractionDigits).to.equal(2);
+      expect(kwd.fractionDigits).to.equal(3);
+    });
+
+    it('should reject decimals for currencies without minor units', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="JPY" locale="ja-JP" value="500"></monk-currency-input>
+      `);
+
+      await type(element, '￥500.');
+
+      expect(element.value).to.equal('500');
+    });
+
+    it('should allow three decimals for KWD', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="KWD" locale="en-US"></monk-currency-input>
+      `);
+
+      await type(element, 'KWD 1.234');
+      expect(element.value).to.equal('1.234');
+
+      await type(element, 'KWD 1.2345');
+      expect(element.value).to.equal('1.234');
+    });
+
+    it('should return the value in minor units as an integer', async () => {
+      const usd = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="USD" value="12.5"></monk-currency-input>
+      `);
+      const jpy = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="JPY" value="1234"></monk-currency-input>
+      `);
+      const kwd = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="KWD" value="1.5"></monk-currency-input>
+      `);
+
+      expect(usd.getMinorUnitValue()).to.equal(1250);
+      expect(jpy.getMinorUnitValue()).to.equal(1234);
+      expect(kwd.getMinorUnitValue()).to.equal(1500);
+    });
+
+    it('should avoid floating point drift in minor units', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="USD" value="19.99"></monk-currency-input>
+      `);
+
+      // 19.99 * 100 is 1998.9999999999998 in floating point
+      expect(element.getMinorUnitValue()).to.equal(1999);
+    });
+
+    it('should set the value from minor units', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input currency="USD"></monk-currency-input>
+      `);
+
+      element.setMinorUnitValue(-5);
+      expect(element.value).to.equal('-0.05');
+
+      element.setMinorUnitValue(123456);
+      expect(element.value).to.equal('1234.56');
+    });
+  });
+
+  describe('Negative Amounts', () => {
+    it('should ignore minus signs by default', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input locale="en-US"></monk-currency-input>
+      `);
+
+      await type(element, '-$25');
+
+      expect(element.value).to.equal('25');
+    });
+
+    it('should accept negative amounts when allowed', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input locale="en-US" allow-negative></monk-currency-input>
+      `);
+
+      const input = await type(element, '-$25.5');
+
+      expect(element.value).to.equal('-25.5');
+      expect(input.value).to.equal('-$25.5');
+      expect(element.getMinorUnitValue()).to.equal(-2550);
+    });
+
+    it('should keep a lone minus sign while typing', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input locale="en-US" allow-negative></monk-currency-input>
+      `);
+
+      const input = await type(element, '-$0');
+
+      expect(element.value).to.equal('-0');
+      expect(input.value).to.equal('-$0');
+    });
+  });
+
+  describe('Bounds', () => {
+    it('should validate min-value and max-value with formatted messages', async () => {
+      const element = await fixture<MonkCurrencyInput>(html`
+        <monk-currency-input
+          locale="en-US"
+          allow-negative
+          min-value="-500"
+          max-value="500"
+          value="750"
+          validate
+        ></monk-currency-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Must be at most $500.00');
+
+      element.value = '-600';
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Must be at least -$500.00');
+
+      element.value = '-250';
+      expect(element.performValidation()).to.be.true;
+    });
+  });
+
+  describe('Form Association', () => {
+    it('should submit the plain decimal value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-currency-input name="amount" currency="EUR" locale="de-DE" value="1234.5">
+          </monk-currency-input>
+        </form>
+      `);
+      const element = form.querySelector('monk-currency-input') as MonkCurrencyInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('amount')).to.equal('1234.5');
+    });
+  });
+});
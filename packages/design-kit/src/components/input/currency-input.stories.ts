@@ -0,0 +1,108 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './currency-input.js';
+import '../typography/text.js';
+import '../layout/stack.js';
+import '../button/button.js';
+import type { MonkCurrencyInput } from './currency-input.js';
+
+const meta: Meta = {
+  title: 'Components/Input/CurrencyInput',
+  component: 'monk-currency-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The CurrencyInput component formats amounts for any currency and locale using Intl.NumberFormat.
+
+## Features
+
+- \`currency\` (ISO 4217) and \`locale\` (BCP 47) attributes
+- Respects each currency's minor units (JPY 0, USD 2, KWD 3)
+- Locale group and decimal separators when typing and pasting
+- Negative amounts with \`allow-negative\`
+- Bounds with \`min-value\` / \`max-value\`, reported as formatted amounts
+- \`value\` is a plain decimal string; \`getMinorUnitValue()\` returns an integer in minor units
+
+## Usage
+
+\`\`\`html
+<monk-currency-input label="Betrag" currency="EUR" locale="de-DE"></monk-currency-input>
+<!-- Displays: 1.234,56 € -->
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-currency-input
+      label="Amount"
+      currency="USD"
+      locale="en-US"
+      value="1234.56"
+      style="max-width: 400px;"
+    ></monk-currency-input>
+  `,
+};
+
+export const Currencies: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-currency-input label="Euro (de-DE)" currency="EUR" locale="de-DE" value="1234.56">
+      </monk-currency-input>
+      <monk-currency-input label="Pound (en-GB)" currency="GBP" locale="en-GB" value="1234.56">
+      </monk-currency-input>
+      <monk-currency-input label="Yen (ja-JP)" currency="JPY" locale="ja-JP" value="123456">
+      </monk-currency-input>
+      <monk-currency-input label="Dinar (en-KW)" currency="KWD" locale="en-KW" value="12.345">
+      </monk-currency-input>
+      <monk-currency-input label="Franc (fr-CH)" currency="CHF" locale="fr-CH" value="1234.5">
+      </monk-currency-input>
+    </monk-stack>
+  `,
+};
+
+export const NegativeWithBounds: Story = {
+  render: () => html`
+    <monk-currency-input
+      label="Balance adjustment"
+      allow-negative
+      min-value="-500"
+      max-value="500"
+      validate
+      validate-on="input"
+      helper-text="Between -$500.00 and $500.00"
+      style="max-width: 400px;"
+    ></monk-currency-input>
+  `,
+};
+
+export const MinorUnits: Story = {
+  render: () => {
+    const handleGetValue = () => {
+      const input = document.getElementById('minor-units-demo') as MonkCurrencyInput;
+      alert(`Value: ${input.value}\nMinor units: ${input.getMinorUnitValue()}`);
+    };
+
+    return html`
+      <monk-stack spacing="6" style="max-width: 400px;">
+        <monk-text>Amounts are sent to payment APIs as integers in minor units.</monk-text>
+        <monk-currency-input
+          id="minor-units-demo"
+          label="Charge"
+          currency="EUR"
+          locale="fr-FR"
+          value="49.9"
+        ></monk-currency-input>
+        <monk-button variant="outline" @click=${handleGetValue}>Get Values</monk-button>
+      </monk-stack>
+    `;
+  },
+};
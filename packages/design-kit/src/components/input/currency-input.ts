@@ -0,0 +1,371 @@
+import { customElement, property } from 'lit/decorators.js';
+import { type PropertyValues } from 'lit';
+import { BaseInput } from './base-input.js';
+
+/**
+ * Currency codes already reported as unknown
+ */
+const unknownCurrencies = new Set<string>();
+
+const isKnownCurrency = (currency: string): boolean => {
+  try {
+    new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Currency input component - Locale-aware currency amount
+ *
+ * The value is a plain decimal string using `.` (e.g. "-1234.5"), whatever the locale.
+ * Use `getMinorUnitValue()` for an integer amount in the currency's minor units.
+ *
+ * @element monk-currency-input
+ *
+ * @example
+ * ```html
+ * <!-- Euros, German formatting: 1.234,56 € -->
+ * <monk-currency-input label="Betrag" currency="EUR" locale="de-DE"></monk-currency-input>
+ *
+ * <!-- Yen has no minor units -->
+ * <monk-currency-input label="Amount" currency="JPY" locale="ja-JP"></monk-currency-input>
+ *
+ * <!-- Refunds can be negative, within bounds -->
+ * <monk-currency-input
+ *   label="Adjustment"
+ *   allow-negative
+ *   min-value="-500"
+ *   max-value="500"
+ *   validate
+ * ></monk-currency-input>
+ * ```
+ *
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ */
+@customElement('monk-currency-input')
+export class MonkCurrencyInput extends BaseInput {
+  /**
+   * ISO 4217 currency code
+   * @default 'USD'
+   */
+  @property({ type: String, reflect: true })
+  currency = 'USD';
+
+  /**
+   * BCP 47 locale used for symbols and separators (defaults to the browser locale)
+   */
+  @property({ type: String, reflect: true })
+  locale?: string;
+
+  /**
+   * Accept negative amounts (typed or pasted with a minus sign)
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'allow-negative' })
+  allowNegative = false;
+
+  /**
+   * Cursor position to restore after the value is reformatted
+   */
+  private cursorPosition: number | null = null;
+
+  protected override get inputType(): string {
+    return 'text';
+  }
+
+  /**
+   * Number of minor-unit digits for the currency (e.g. USD 2, JPY 0, KWD 3)
+   */
+  get fractionDigits(): number {
+    return this.createFormatter().resolvedOptions().maximumFractionDigits ?? 2;
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    // Set initial formatted value
+    if (this._input) {
+      this._input.value = this.formatDisplay(this.value);
+    }
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Checked here, not in createFormatter(), which runs on every keystroke
+    if (
+      changedProperties.has('currency') &&
+      !unknownCurrencies.has(this.currency) &&
+      !isKnownCurrency(this.currency)
+    ) {
+      unknownCurrencies.add(this.currency);
+      console.warn(`[monkbunch] Unknown currency "${this.currency}"`);
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    // BaseInput.updated() syncs on value changes; a new currency or locale reformats too
+    if (
+      !changedProperties.has('value') &&
+      (changedProperties.has('currency') || changedProperties.has('locale'))
+    ) {
+      this.syncInputValue();
+    }
+
+    // Restore cursor position after reformatting
+    if (this.cursorPosition !== null && this._input) {
+      this._input.setSelectionRange(this.cursorPosition, this.cursorPosition);
+      this.cursorPosition = null;
+    }
+  }
+
+  /**
+   * Show the formatted amount rather than the plain decimal value
+   */
+  protected override syncInputValue(): void {
+    const display = this.formatDisplay(this.value);
+    if (this._input && this._input.value !== display) {
+      this._input.value = display;
+    }
+  }
+
+  protected override _handleInput(event: Event): void {
+    this.processInput(event.target as HTMLInputElement, event, true);
+  }
+
+  protected override _handleChange(event: Event): void {
+    this.processInput(event.target as HTMLInputElement, event, false);
+
+    // Trigger validation if validateOn is 'change'
+    if (this.validate && this.validateOn === 'change') {
+      this.performValidation();
+    }
+
+    // Dispatch event with the plain decimal value (not the formatted display value)
+    this.dispatchEvent(
+      new CustomEvent('input-changed', {
+        detail: { value: this.value, originalEvent: event },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  protected override formatBound(bound: number): string {
+    return this.createFormatter().format(bound);
+  }
+
+  /**
+   * Parse the display text, reformat it and update the value and cursor
+   */
+  private processInput(input: HTMLInputElement, event: Event, trackCursor: boolean): void {
+    const cursorPos = input.selectionStart ?? 0;
+    const parsed = this.parseAmount(input.value);
+
+    // Reject extra decimal separators or more decimals than the currency allows
+    if (parsed === null) {
+      input.value = this.formatDisplay(this.value);
+      return;
+    }
+
+    const display = this.formatDisplay(parsed);
+
+    // Keep the cursor after the same number of digits when separators are added/removed
+    if (trackCursor) {
+      const amountCharsBeforeCursor = this.countAmountChars(input.value.slice(0, cursorPos));
+      this.cursorPosition = this.calculateCursorPosition(display, amountCharsBeforeCursor);
+    }
+
+    input.value = display;
+    if (this.cursorPosition !== null) {
+      input.setSelectionRange(this.cursorPosition, this.cursorPosition);
+    }
+    this.value = parsed;
+
+    // Trigger validation if enabled
+    if (this.validate && this.validateOn === 'input' && trackCursor) {
+      this.validateWhileTyping();
+    }
+
+    // Dispatch event with the plain decimal value
+    if (trackCursor) {
+      this.dispatchEvent(
+        new CustomEvent('input-change', {
+          detail: { value: this.value, originalEvent: event },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+  }
+
+  /**
+   * Convert typed or pasted text in the current locale to a plain decimal string
+   * e.g. "1.234,5 €" in de-DE becomes "1234.5"
+   * @returns null if the text has more than one decimal separator or too many decimals
+   * (any decimal separator for currencies without minor units)
+   */
+  private parseAmount(text: string): string | null {
+    const { decimal, currency } = this.separators;
+    const withoutSymbol = currency ? text.split(currency).join('') : text;
+
+    let amount = '';
+    for (const char of withoutSymbol) {
+      if (char >= '0' && char <= '9') {
+        amount += char;
+      } else if (char === decimal) {
+        amount += '.';
+      }
+    }
+
+    const [integer, fraction, ...rest] = amount.split('.');
+    const digits = this.fractionDigits;
+    if (rest.length || (fraction !== undefined && (!digits || fraction.length > digits))) {
+      return null;
+    }
+
+    const negative = this.allowNegative && /[-−(]/.test(withoutSymbol);
+    const trimmedInteger = integer.replace(/^0+(?=\d)/, '');
+
+    if (!trimmedInteger && fraction === undefined) {
+      return negative ? '-' : '';
+    }
+
+    const sign = negative ? '-' : '';
+    return fraction === undefined
+      ? `${sign}${trimmedInteger}`
+      : `${sign}${trimmedInteger}.${fraction}`;
+  }
+
+  /**
+   * Format a plain decimal string for display, keeping the decimals typed so far
+   * e.g. "4." shows as "$4." and "4.5" as "$4.5"
+   */
+  private formatDisplay(value: string): string {
+    const negative = value.startsWith('-');
+    const [integer, fraction] = value.replace('-', '').split('.');
+    const fractionLength = fraction?.length ?? 0;
+
+    const formatter = this.createFormatter({
+      minimumFractionDigits: fractionLength,
+      maximumFractionDigits: fractionLength,
+    });
+    const amount = Number(`${integer || '0'}.${fraction || '0'}`);
+    const parts = formatter.formatToParts(negative ? -amount : amount);
+
+    // A trailing decimal separator has no digits for Intl to format, so add it back
+    if (fraction === '') {
+      const lastNumberPart = parts.map((part) => part.type).lastIndexOf('integer');
+      parts.splice(lastNumberPart + 1, 0, { type: 'decimal', value: this.separators.decimal });
+    }
+
+    return parts.map((part) => part.value).join('');
+  }
+
+  /**
+   * Count digits and decimal separators, which survive reformatting
+   */
+  private countAmountChars(text: string): number {
+    const { decimal } = this.separators;
+    return Array.from(text).filter((char) => (char >= '0' && char <= '9') || char === decimal)
+      .length;
+  }
+
+  /**
+   * Calculate where cursor should be positioned after formatting
+   * @param formatted - The formatted display string
+   * @param amountCharsBeforeCursor - Number of digits/decimal separators before the cursor
+   * @returns The cursor position in the formatted string
+   */
+  private calculateCursorPosition(formatted: string, amountCharsBeforeCursor: number): number {
+    if (amountCharsBeforeCursor === 0) return 0;
+
+    for (let i = 0; i < formatted.length; i++) {
+      if (this.countAmountChars(formatted.slice(0, i + 1)) === amountCharsBeforeCursor) {
+        return i + 1;
+      }
+    }
+
+    return formatted.length;
+  }
+
+  /**
+   * Decimal separator and currency symbol for the current locale and currency
+   */
+  private get separators(): { decimal: string; currency: string } {
+    const parts = this.createFormatter({ minimumFractionDigits: 1 }).formatToParts(-1.1);
+    return {
+      decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+      currency: parts.find((part) => part.type === 'currency')?.value ?? '',
+    };
+  }
+
+  /**
+   * Currency formatter for the current locale, falling back to a plain number
+   * formatter when the currency code is not recognised (reported once in willUpdate)
+   */
+  private createFormatter(options: Intl.NumberFormatOptions = {}): Intl.NumberFormat {
+    try {
+      return new Intl.NumberFormat(this.locale, {
+        style: 'currency',
+        currency: this.currency,
+        ...options,
+      });
+    } catch {
+      return new Intl.NumberFormat(this.locale, options);
+    }
+  }
+
+  /**
+   * Get the numeric value
+   * Useful for display calculations; use getMinorUnitValue() for exact amounts
+   */
+  public getNumericValue(): number {
+    return parseFloat(this.value) || 0;
+  }
+
+  /**
+   * Get the value as an integer in the currency's minor units
+   * e.g. "12.5" USD → 1250, "1234" JPY → 1234, "1.5" KWD → 1500
+   */
+  public getMinorUnitValue(): number {
+    const [integer, fraction = ''] = this.value.replace('-', '').split('.');
+    const units = Number(`${integer || '0'}${fraction.padEnd(this.fractionDigits, '0')}`);
+    return this.value.startsWith('-') && units ? -units : units;
+  }
+
+  /**
+   * Set the value from an integer amount in the currency's minor units
+   */
+  public setMinorUnitValue(units: number): void {
+    const digits = this.fractionDigits;
+    const absolute = String(Math.abs(Math.trunc(units))).padStart(digits + 1, '0');
+    const integer = absolute.slice(0, absolute.length - digits);
+    const fraction = digits ? `.${absolute.slice(-digits)}` : '';
+    this.value = `${units < 0 ? '-' : ''}${integer}${fraction}`;
+  }
+
+  /**
+   * Get the formatted amount with the currency's full precision
+   */
+  public getFormattedValue(): string {
+    return this.createFormatter().format(this.getNumericValue());
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-currency-input': MonkCurrencyInput;
+  }
+}
@@ -1,5 +1,6 @@
-import { expect, fixture, html } from '@open-wc/testing';
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { MonkDateInput } from './date-input.js';
+import { validators } from './validators.js';
 
 describe('MonkDateInput', () => {
   it('should be defined', () => {
@@ -170,6 +171,32 @@ describe('MonkDateInput', () => {
       element.performValidation();
       expect(element.invalid).to.be.true;
     });
+
+    it('should pass the ISO date to custom validators and rules', async () => {
+      const seen: string[] = [];
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input
+          value="01/15/2030"
+          validate
+          rules="futureDate"
+          .validators=${[
+            validators.futureDate,
+            (val: string) => {
+              seen.push(val);
+              return true;
+            },
+          ]}
+        ></monk-date-input>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+      expect(seen).to.deep.equal(['2030-01-15']);
+
+      element.value = '01/15/2020';
+      await element.updateComplete;
+      element.performValidation();
+      expect(element.validationErrors[0].code).to.equal('futureDate');
+    });
   });
 
   describe('Programmatic Value Setting', () => {
@@ -232,4 +259,202 @@ describe('MonkDateInput', () => {
       expect(input?.disabled).to.be.true;
     });
   });
+
+  describe('Locale Format Order', () => {
+    it('should use the DD/MM/YYYY prompt for en-GB', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input locale="en-GB"></monk-date-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('DD/MM/YYYY');
+    });
+
+    it('should use the YYYY-MM-DD prompt for sv-SE', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input locale="sv-SE"></monk-date-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('YYYY-MM-DD');
+    });
+
+    it('should display ISO values in locale order', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input locale="de-DE" value="2024-01-15"></monk-date-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('15.01.2024');
+      expect(element.getApiValue()).to.equal('2024-01-15');
+    });
+
+    it('should parse separated values in locale order', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input locale="en-GB" value="5/1/2024"></monk-date-input>
+      `);
+
+      expect(element.getApiValue()).to.equal('2024-01-05');
+    });
+
+    it('should keep the date when the locale changes', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input value="2024-01-15"></monk-date-input>
+      `);
+
+      element.locale = 'en-GB';
+      await element.updateComplete;
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('15/01/2024');
+      expect(element.getApiValue()).to.equal('2024-01-15');
+    });
+  });
+
+  describe('Calendar Validity', () => {
+    it('should reject dates that do not exist', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input value="02/30/2024" validate></monk-date-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please enter a valid date');
+    });
+
+    it('should accept leap days', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input value="02/29/2024" validate></monk-date-input>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should validate min and max as ISO dates', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input
+          locale="en-GB"
+          min="2024-01-01"
+          max="2024-12-31"
+          value="2023-12-31"
+          validate
+        ></monk-date-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Date must be on or after 01/01/2024');
+
+      element.value = '2025-01-01';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Date must be on or before 31/12/2024');
+
+      element.value = '2024-06-01';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should reject disabled dates', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input
+          value="2024-12-25"
+          validate
+          .isDateDisabled=${(date: string) => date.endsWith('-12-25')}
+        ></monk-date-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('This date is not available');
+    });
+  });
+
+  describe('Calendar Popover', () => {
+    it('should not render the calendar button by default', async () => {
+      const element = await fixture<MonkDateInput>(html`<monk-date-input></monk-date-input>`);
+
+      expect(element.shadowRoot?.querySelector('.calendar-toggle')).to.be.null;
+    });
+
+    it('should open the calendar from the button', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input calendar value="2024-01-15"></monk-date-input>
+      `);
+      const toggle = element.shadowRoot?.querySelector('.calendar-toggle') as HTMLButtonElement;
+
+      expect(toggle.getAttribute('aria-haspopup')).to.equal('dialog');
+      expect(toggle.getAttribute('aria-expanded')).to.equal('false');
+
+      toggle.click();
+      await element.updateComplete;
+
+      const calendar = element.shadowRoot?.querySelector('monk-calendar');
+      expect(toggle.getAttribute('aria-expanded')).to.equal('true');
+      expect(calendar?.value).to.equal('2024-01-15');
+    });
+
+    it('should open the calendar with Alt+ArrowDown', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input calendar></monk-date-input>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', altKey: true }));
+      await element.updateComplete;
+
+      expect(element.shadowRoot?.querySelector('.calendar-popover')).to.exist;
+    });
+
+    it('should set the value when a date is selected', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input calendar locale="en-GB"></monk-date-input>
+      `);
+      await element.openCalendar();
+
+      const calendar = element.shadowRoot?.querySelector('monk-calendar');
+      setTimeout(() =>
+        calendar?.dispatchEvent(
+          new CustomEvent('date-select', { detail: { value: '2024-03-09' } })
+        )
+      );
+      await oneEvent(element, 'input-changed');
+      await element.updateComplete;
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(element.getApiValue()).to.equal('2024-03-09');
+      expect(input?.value).to.equal('09/03/2024');
+      expect(element.shadowRoot?.querySelector('.calendar-popover')).to.be.null;
+    });
+
+    it('should close on Escape and return focus to the button', async () => {
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input calendar></monk-date-input>
+      `);
+      await element.openCalendar();
+
+      const popover = element.shadowRoot?.querySelector('.calendar-popover') as HTMLElement;
+      popover.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+      await element.updateComplete;
+
+      const toggle = element.shadowRoot?.querySelector('.calendar-toggle');
+      expect(element.shadowRoot?.querySelector('.calendar-popover')).to.be.null;
+      expect(element.shadowRoot?.activeElement).to.equal(toggle);
+    });
+
+    it('should pass min, max and disabled dates to the calendar', async () => {
+      const isDateDisabled = (date: string): boolean => date === '2024-01-10';
+      const element = await fixture<MonkDateInput>(html`
+        <monk-date-input
+          calendar
+          min="2024-01-01"
+          max="2024-01-31"
+          .isDateDisabled=${isDateDisabled}
+        ></monk-date-input>
+      `);
+      await element.openCalendar();
+
+      const calendar = element.shadowRoot?.querySelector('monk-calendar');
+      expect(calendar?.min).to.equal('2024-01-01');
+      expect(calendar?.max).to.equal('2024-01-31');
+      expect(calendar?.isSelectable('2024-01-10')).to.be.false;
+    });
+  });
 });
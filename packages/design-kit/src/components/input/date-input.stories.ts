@@ -15,11 +15,15 @@ const meta: Meta = {
     docs: {
       description: {
         component: `
-The DateInput component provides a masked input for dates in MM/DD/YYYY format.
+The DateInput component provides a masked input for dates in MM/DD/YYYY format,
+or in the field order of its \`locale\` (DD/MM/YYYY, YYYY-MM-DD, ...).
 
 ## Features
 
-- Automatic formatting with MM/DD/YYYY mask
+- Automatic formatting with MM/DD/YYYY mask, or the locale's order and separator
+- Optional calendar popover (\`calendar\`), opened with the button or Alt+Arrow Down
+- \`min\`/\`max\` (ISO) and \`isDateDisabled\` constraints, checked by validation
+- Real calendar validity (no February 30th)
 - Smart cursor positioning during editing
 - ISO date conversion (YYYY-MM-DD ↔ MM/DD/YYYY)
 - Paste handling - formats pasted dates
@@ -244,3 +248,31 @@ export const APIValueDemo: Story = {
     `;
   },
 };
+
+export const WithCalendar: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-date-input label="Appointment" calendar validate></monk-date-input>
+      <monk-date-input
+        label="Weekdays in 2025"
+        helper-text="Weekends and dates outside 2025 are unavailable"
+        calendar
+        validate
+        min="2025-01-01"
+        max="2025-12-31"
+        .isDateDisabled=${(date: string) => [0, 6].includes(new Date(date).getUTCDay())}
+      ></monk-date-input>
+    </monk-stack>
+  `,
+};
+
+export const LocaleFormats: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-date-input label="en-US" locale="en-US" value="2025-01-29" calendar></monk-date-input>
+      <monk-date-input label="en-GB" locale="en-GB" value="2025-01-29" calendar></monk-date-input>
+      <monk-date-input label="de-DE" locale="de-DE" value="2025-01-29" calendar></monk-date-input>
+      <monk-date-input label="sv-SE" locale="sv-SE" value="2025-01-29" calendar></monk-date-input>
+    </monk-stack>
+  `,
+};
@@ -1,10 +1,31 @@
-import { customElement } from 'lit/decorators.js';
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
 import { Mask } from 'maska';
-import { type PropertyValues } from 'lit';
+import { BaseInput } from './base-input.js';
 import { MaskedInput } from './masked-input.js';
+import {
+  dateFormatForLocale,
+  datePrompt,
+  digitsToIso,
+  isoToDigits,
+  parseFormattedDate,
+  parseIsoDate,
+  type DateFormat,
+  type DateOrder,
+} from './date-utils.js';
+import { validators, type Validator, type ValidatorFn } from './validators.js';
+import type { CalendarSelectDetail, MonkCalendar } from '../calendar/calendar.js';
+import '../calendar/calendar.js';
 
 /**
- * Date input component - Date with MM/DD/YYYY format
+ * Format used when no locale is set
+ */
+const DEFAULT_FORMAT: DateFormat = { order: 'MDY', separator: '/' };
+
+/**
+ * Date input component - Date with a locale-ordered mask (MM/DD/YYYY by default)
+ * and an optional calendar popover
  *
  * @element monk-date-input
  *
@@ -21,8 +42,23 @@ import { MaskedInput } from './masked-input.js';
  *   .validators=${[validators.futureDate]}
  *   validation-message="Date must be in the future"
  * ></monk-date-input>
+ *
+ * <!-- Calendar popover, UK format, bounded -->
+ * <monk-date-input
+ *   label="Appointment"
+ *   calendar
+ *   locale="en-GB"
+ *   min="2024-01-01"
+ *   max="2024-12-31"
+ *   validate
+ * ></monk-date-input>
  * ```
  *
+ * @accessibility
+ * - The calendar button has `aria-haspopup="dialog"` and `aria-expanded`
+ * - Alt+Arrow Down in the input opens the calendar; Escape closes it and returns focus
+ * - The calendar grid follows the WAI-ARIA date picker pattern (see monk-calendar)
+ *
  * @fires input-change - Fired when the input value changes (on input event)
  * @fires input-changed - Fired when the input value is committed (on change event)
  * @fires input-focus - Fired when the input receives focus
@@ -30,51 +66,402 @@ import { MaskedInput } from './masked-input.js';
  * @fires input-keydown - Fired on keydown event
  * @fires input-invalid - Fired when validation fails
  * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ *
+ * @csspart calendar-toggle - The button that opens the calendar
+ * @csspart calendar-popover - The popover containing the calendar
  */
 @customElement('monk-date-input')
 export class MonkDateInput extends MaskedInput {
-  protected readonly prompt = 'MM/DD/YYYY';
-  protected readonly mask: Mask = new Mask({ eager: false, mask: '##/##/####' });
+  /**
+   * BCP 47 locale that sets the field order and separator
+   * (e.g. en-GB → DD/MM/YYYY, de-DE → DD.MM.YYYY, sv-SE → YYYY-MM-DD)
+   * Without a locale the format is MM/DD/YYYY.
+   */
+  @property({ type: String, reflect: true })
+  locale?: string;
 
-  protected override willUpdate(changedProperties: PropertyValues<this>): void {
-    // Convert different date formats to unmasked format (MMDDYYYY) BEFORE rendering
-    if (changedProperties.has('value')) {
-      // Convert ISO format (YYYY-MM-DD) to unmasked format (MMDDYYYY)
-      const apiDatePattern = /^\d{4}-\d{2}-\d{2}$/;
-      if (apiDatePattern.test(this.value)) {
-        const [year, month, day] = this.value.split('T')[0].split('-');
-        this.value = `${month}${day}${year}`;
+  /**
+   * Show a button that opens a calendar popover
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  calendar = false;
+
+  /**
+   * Return true for dates that cannot be picked or entered (given as YYYY-MM-DD)
+   */
+  @property({ attribute: false })
+  isDateDisabled?: (date: string) => boolean;
+
+  @state()
+  private _calendarOpen = false;
+
+  private _mask?: Mask;
+
+  private _formatChanged = false;
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .input-container {
+        position: relative;
+      }
+
+      .calendar-toggle {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        padding: var(--monk-space-1);
+        border: none;
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        cursor: pointer;
+        border-radius: var(--monk-radius-sm);
+        transition: background-color 150ms ease-in-out, color 150ms ease-in-out;
+        font-size: var(--monk-font-size-lg);
+        line-height: 1;
+        min-width: 32px;
+        min-height: 32px;
+      }
+
+      .calendar-toggle:hover {
+        background: var(--monk-color-bg-subtle);
+        color: var(--monk-color-text-primary);
       }
 
-      // Convert UI format with slashes (MM/DD/YYYY or M/D/YYYY) to unmasked format
-      const uiDatePattern = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
-      if (uiDatePattern.test(this.value)) {
-        const [month, day, year] = this.value.split('/');
-        this.value = `${month.padStart(2, '0')}${day.padStart(2, '0')}${year}`;
+      .calendar-toggle:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      .calendar-toggle:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .calendar-popover {
+        position: absolute;
+        top: calc(100% + var(--monk-space-1));
+        right: 0;
+        z-index: 10;
+        padding: var(--monk-space-3);
+        background-color: var(--monk-color-bg-surface);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        box-shadow: var(--monk-shadow-lg);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .calendar-toggle {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  /**
+   * Field order and separator in use
+   */
+  get dateFormat(): DateFormat {
+    return this.locale ? dateFormatForLocale(this.locale) : DEFAULT_FORMAT;
+  }
+
+  protected get prompt(): string {
+    return datePrompt(this.dateFormat);
+  }
+
+  protected get mask(): Mask {
+    const mask = this.prompt.replace(/[MDY]/g, '#');
+    if (this._mask?.opts.mask !== mask) {
+      this._mask = new Mask({ eager: false, mask });
+    }
+    return this._mask;
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    return this.value ? [...declared, ...this.dateValidators()] : declared;
+  }
+
+  /**
+   * Custom validators and rules check the ISO date, not the digits in display order
+   */
+  protected override get validatorValue(): string {
+    return this.getApiValue();
+  }
+
+  /**
+   * Real calendar date, min/max and disabled-date checks, applied to the ISO date
+   */
+  protected dateValidators(): Validator[] {
+    const { order } = this.dateFormat;
+    const onIso =
+      (validator: ValidatorFn): ValidatorFn =>
+      (value) =>
+        validator(digitsToIso(value, order));
+
+    const checks: Validator[] = [onIso(validators.date)];
+    if (this.min) {
+      const message = `Date must be on or after ${this.formatDate(this.min)}`;
+      checks.push(onIso(validators.minDate(this.min, message)));
+    }
+    if (this.max) {
+      const message = `Date must be on or before ${this.formatDate(this.max)}`;
+      checks.push(onIso(validators.maxDate(this.max, message)));
+    }
+    if (this.isDateDisabled) {
+      const isDateDisabled = this.isDateDisabled;
+      checks.push(
+        onIso((iso) => ({
+          valid: !isDateDisabled(iso),
+          code: 'disabledDate',
+          message: 'This date is not available',
+        }))
+      );
+    }
+
+    return checks;
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    // Keep the entered date when the locale (and so the field order) changes
+    this._formatChanged = this.hasUpdated && changedProperties.has('locale');
+    if (this._formatChanged) {
+      const previousLocale = changedProperties.get('locale') as string | undefined;
+      const previousFormat = previousLocale ? dateFormatForLocale(previousLocale) : DEFAULT_FORMAT;
+      this.value = this.reorderValue(this.value, previousFormat.order);
+    }
+
+    // Convert different date formats to unmasked format BEFORE rendering
+    if (changedProperties.has('value')) {
+      const digits = this.parseValue(this.value);
+      if (digits !== null) {
+        this.value = digits;
       }
     }
 
     super.willUpdate(changedProperties);
   }
 
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (this._formatChanged) {
+      this._formatChanged = false;
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    if (this.calendar && event.altKey && event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.openCalendar();
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  /**
+   * Open the calendar popover and move focus into it
+   */
+  public async openCalendar(): Promise<void> {
+    if (!this.calendar || this.isDisabled || this.readonly) return;
+
+    this._calendarOpen = true;
+    document.addEventListener('pointerdown', this._handleDocumentPointerDown);
+
+    await this.updateComplete;
+    const calendar = this.renderRoot.querySelector<MonkCalendar>('.calendar');
+    await calendar?.updateComplete;
+    calendar?.focus();
+  }
+
+  /**
+   * Close the calendar popover
+   * @param restoreFocus - Return focus to the calendar button
+   */
+  public closeCalendar(restoreFocus = false): void {
+    if (!this._calendarOpen) return;
+
+    this._calendarOpen = false;
+    document.removeEventListener('pointerdown', this._handleDocumentPointerDown);
+
+    if (restoreFocus) {
+      this.renderRoot.querySelector<HTMLButtonElement>('.calendar-toggle')?.focus();
+    }
+  }
+
+  private _handleCalendarToggle(): void {
+    if (this._calendarOpen) {
+      this.closeCalendar();
+    } else {
+      this.openCalendar();
+    }
+  }
+
+  private _handleDateSelect(event: CustomEvent<CalendarSelectDetail>): void {
+    this.commitValue(this.valueWithDate(event.detail.value), event);
+  }
+
+  /**
+   * Value after picking a date (YYYY-MM-DD) in the calendar
+   */
+  protected valueWithDate(iso: string): string {
+    return isoToDigits(iso, this.dateFormat.order);
+  }
+
+  /**
+   * Apply a value picked in the popover: close it, refocus the input, validate and notify
+   */
+  protected commitValue(value: string, originalEvent: Event): void {
+    this.value = value;
+    this.closeCalendar();
+    this._input?.focus();
+
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.dispatchEvent(
+        new CustomEvent(name, {
+          detail: { value: this.value, originalEvent },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+  }
+
+  private _handlePopoverKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.closeCalendar(true);
+    }
+  }
+
+  private _handlePopoverFocusout(event: FocusEvent): void {
+    const next = event.relatedTarget as Node | null;
+    const popover = event.currentTarget as HTMLElement;
+
+    // Tabbing out of the popover closes it; clicks are handled on pointerdown
+    if (next && !popover.contains(next)) {
+      this.closeCalendar();
+    }
+  }
+
+  private _handleDocumentPointerDown = (event: PointerEvent): void => {
+    if (!event.composedPath().includes(this)) {
+      this.closeCalendar();
+    }
+  };
+
   /**
-   * Format unmasked date string (MMDDYYYY) to ISO format (YYYY-MM-DD)
+   * Convert an ISO date (YYYY-MM-DD) or a date typed with separators (e.g. M/D/YYYY)
+   * to unmasked digits in the current field order
+   * @returns null if the value is in neither form (e.g. already unmasked)
    */
-  private formatUnmaskedToApi(unmasked: string): string {
-    if (unmasked.length !== 8) {
-      return '';
+  protected parseValue(value: string): string | null {
+    const { order } = this.dateFormat;
+
+    if (/^\d{4}-\d{2}-\d{2}(T.*)?$/.test(value)) {
+      return isoToDigits(value, order);
     }
-    const month = unmasked.slice(0, 2);
-    const day = unmasked.slice(2, 4);
-    const year = unmasked.slice(4, 8);
-    return `${year}-${month}-${day}`;
+
+    const iso = parseFormattedDate(value, this.dateFormat);
+    return iso ? isoToDigits(iso, order) : null;
+  }
+
+  /**
+   * Re-order unmasked digits that were entered in another field order
+   */
+  protected reorderValue(digits: string, from: DateOrder): string {
+    const iso = digitsToIso(digits, from);
+    return iso ? isoToDigits(iso, this.dateFormat.order) : '';
+  }
+
+  /**
+   * Format an ISO date in the input's display format, for messages
+   */
+  protected formatDate(iso: string): string {
+    return parseIsoDate(iso) ? this.mask.masked(isoToDigits(iso, this.dateFormat.order)) : iso;
   }
 
   /**
    * Get the date value in ISO format (YYYY-MM-DD) for API submission
    */
   public getApiValue(): string {
-    return this.formatUnmaskedToApi(this.value);
+    return digitsToIso(this.value, this.dateFormat.order);
+  }
+
+  /**
+   * Accessible name of the calendar button and popover
+   */
+  protected get calendarLabel(): string {
+    return 'Choose date';
+  }
+
+  /**
+   * Calendar shown in the popover
+   */
+  protected renderCalendar() {
+    const selected = this.getApiValue().slice(0, 10);
+
+    return html`
+      <monk-calendar
+        class="calendar"
+        value=${ifDefined(parseIsoDate(selected) ? selected : undefined)}
+        min=${ifDefined(this.min)}
+        max=${ifDefined(this.max)}
+        locale=${ifDefined(this.locale)}
+        .isDateDisabled=${this.isDateDisabled}
+        @date-select=${this._handleDateSelect}
+      ></monk-calendar>
+    `;
+  }
+
+  protected override renderSuffix() {
+    if (!this.calendar) return super.renderSuffix();
+
+    return html`
+      <button
+        type="button"
+        class="calendar-toggle"
+        part="calendar-toggle"
+        aria-label=${this.calendarLabel}
+        aria-haspopup="dialog"
+        aria-expanded=${this._calendarOpen ? 'true' : 'false'}
+        aria-controls="calendar-popover"
+        ?disabled=${this.isDisabled || this.readonly}
+        @click=${this._handleCalendarToggle}
+      >
+        📅
+      </button>
+      ${super.renderSuffix()}
+      ${this._calendarOpen
+        ? html`
+            <div
+              id="calendar-popover"
+              class="calendar-popover"
+              part="calendar-popover"
+              role="dialog"
+              aria-label=${this.calendarLabel}
+              @keydown=${this._handlePopoverKeydown}
+              @focusout=${this._handlePopoverFocusout}
+            >
+              ${this.renderCalendar()}
+            </div>
+          `
+        : nothing}
+    `;
   }
 }
 
@@ -0,0 +1,208 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkDateRangeInput, dateRangePresets } from './date-range-input.js';
+import { MonkDateInput } from './date-input.js';
+
+const type = async (element: MonkDateRangeInput, text: string): Promise<void> => {
+  const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  await element.updateComplete;
+};
+
+describe('MonkDateRangeInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-date-range-input');
+    expect(element).to.be.instanceOf(MonkDateRangeInput);
+    expect(element).to.be.instanceOf(MonkDateInput);
+  });
+
+  it('should show a two-date prompt', async () => {
+    const element = await fixture<MonkDateRangeInput>(
+      html`<monk-date-range-input></monk-date-range-input>`
+    );
+
+    const input = element.shadowRoot?.querySelector('input');
+    expect(input?.value).to.equal('MM/DD/YYYY – MM/DD/YYYY');
+  });
+
+  it('should follow the locale field order', async () => {
+    const element = await fixture<MonkDateRangeInput>(html`
+      <monk-date-range-input locale="de-DE" value="2025-01-01/2025-01-31"></monk-date-range-input>
+    `);
+
+    const input = element.shadowRoot?.querySelector('input');
+    expect(input?.value).to.equal('01.01.2025 – 31.01.2025');
+  });
+
+  describe('Values', () => {
+    it('should accept an ISO 8601 interval', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input value="2025-01-01/2025-01-31"></monk-date-range-input>
+      `);
+
+      expect(element.getRange()).to.deep.equal({ start: '2025-01-01', end: '2025-01-31' });
+      expect(element.getApiValue()).to.equal('2025-01-01/2025-01-31');
+    });
+
+    it('should accept two formatted dates', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input value="1/5/2025 - 2/1/2025"></monk-date-range-input>
+      `);
+
+      expect(element.getRange()).to.deep.equal({ start: '2025-01-05', end: '2025-02-01' });
+    });
+
+    it('should return empty dates until fully entered', async () => {
+      const element = await fixture<MonkDateRangeInput>(
+        html`<monk-date-range-input></monk-date-range-input>`
+      );
+
+      await type(element, '01/05/2025 – 02');
+
+      expect(element.getRange()).to.deep.equal({ start: '2025-01-05', end: '' });
+      expect(element.getApiValue()).to.equal('');
+    });
+
+    it('should emit range-change when a complete range is typed', async () => {
+      const element = await fixture<MonkDateRangeInput>(
+        html`<monk-date-range-input></monk-date-range-input>`
+      );
+
+      setTimeout(() => type(element, '01/05/2025 – 02/01/2025'));
+      const event = await oneEvent(element, 'range-change');
+
+      expect(event.detail).to.deep.equal({ start: '2025-01-05', end: '2025-02-01' });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require the start on or before the end', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input value="2025-02-01/2025-01-01" validate></monk-date-range-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('End date must be on or after the start date');
+    });
+
+    it('should reject impossible dates', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input value="02/30/2025 – 03/01/2025" validate></monk-date-range-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please enter a valid date range');
+    });
+
+    it('should enforce the maximum span', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input
+          value="2025-01-01/2025-01-08"
+          max-span="7"
+          validate
+        ></monk-date-range-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Date range cannot be longer than 7 days');
+
+      element.value = '2025-01-01/2025-01-07';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should check min against the start and max against the end', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input
+          min="2025-01-01"
+          max="2025-12-31"
+          value="2024-12-31/2025-01-05"
+          validate
+        ></monk-date-range-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Start date must be on or after 01/01/2025');
+
+      element.value = '2025-12-01/2026-01-01';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('End date must be on or before 12/31/2025');
+    });
+  });
+
+  describe('Calendar and Presets', () => {
+    it('should render a range calendar with the current range', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input value="2025-01-01/2025-01-31" max-span="60"></monk-date-range-input>
+      `);
+      await element.openCalendar();
+
+      const calendar = element.shadowRoot?.querySelector('monk-range-calendar');
+      expect(calendar?.start).to.equal('2025-01-01');
+      expect(calendar?.end).to.equal('2025-01-31');
+      expect(calendar?.maxSpan).to.equal(60);
+    });
+
+    it('should set the range when picked in the calendar', async () => {
+      const element = await fixture<MonkDateRangeInput>(
+        html`<monk-date-range-input></monk-date-range-input>`
+      );
+      await element.openCalendar();
+
+      const calendar = element.shadowRoot?.querySelector('monk-range-calendar');
+      setTimeout(() =>
+        calendar?.dispatchEvent(
+          new CustomEvent('range-select', { detail: { start: '2025-03-03', end: '2025-03-09' } })
+        )
+      );
+      const event = await oneEvent(element, 'range-change');
+
+      expect(event.detail).to.deep.equal({ start: '2025-03-03', end: '2025-03-09' });
+      expect(element.getApiValue()).to.equal('2025-03-03/2025-03-09');
+      expect(element.shadowRoot?.querySelector('.calendar-popover')).to.be.null;
+    });
+
+    it('should apply a preset', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input
+          .presets=${[
+            { label: 'Q1 2025', range: () => ({ start: '2025-01-01', end: '2025-03-31' }) },
+          ]}
+        ></monk-date-range-input>
+      `);
+      await element.openCalendar();
+
+      const preset = element.shadowRoot?.querySelector('.preset') as HTMLButtonElement;
+      expect(preset.textContent?.trim()).to.equal('Q1 2025');
+      preset.click();
+      await element.updateComplete;
+
+      expect(element.getRange()).to.deep.equal({ start: '2025-01-01', end: '2025-03-31' });
+    });
+
+    it('should disable presets longer than the maximum span', async () => {
+      const element = await fixture<MonkDateRangeInput>(html`
+        <monk-date-range-input max-span="7"></monk-date-range-input>
+      `);
+      await element.openCalendar();
+
+      const presets = Array.from(
+        element.shadowRoot?.querySelectorAll<HTMLButtonElement>('.preset') ?? []
+      );
+      const byLabel = (label: string) => presets.find((p) => p.textContent?.trim() === label);
+      expect(byLabel('Last 7 days')?.disabled).to.be.false;
+      expect(byLabel('Last 30 days')?.disabled).to.be.true;
+    });
+
+    it('should compute the default presets from today', () => {
+      const range = (label: string) =>
+        dateRangePresets.find((preset) => preset.label === label)?.range('2025-05-20');
+
+      expect(range('Last 7 days')).to.deep.equal({ start: '2025-05-14', end: '2025-05-20' });
+      expect(range('This month')).to.deep.equal({ start: '2025-05-01', end: '2025-05-31' });
+      expect(range('Last month')).to.deep.equal({ start: '2025-04-01', end: '2025-04-30' });
+      expect(range('This quarter')).to.deep.equal({ start: '2025-04-01', end: '2025-06-30' });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './date-range-input.js';
+import '../typography/heading.js';
+import '../typography/text.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/DateRangeInput',
+  component: 'monk-date-range-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The DateRangeInput component takes a start and end date in one masked field, built on
+DateInput's mask and ISO conversion, with a two-month calendar and presets.
+
+## Features
+
+- MM/DD/YYYY – MM/DD/YYYY mask, or the \`locale\`'s order and separator
+- Two-month calendar that highlights the range while hovering
+- Presets such as "Last 7 days" and "This quarter" (\`presets\` property)
+- Validation that the start is on or before the end, within \`min\`/\`max\` and \`max-span\`
+- \`range-change\` event and \`getRange()\` with \`{ start, end }\` in ISO format
+- \`getApiValue()\` returns an ISO 8601 interval (YYYY-MM-DD/YYYY-MM-DD)
+
+## Usage
+
+\`\`\`html
+<monk-date-range-input label="Reporting period" max-span="90" validate></monk-date-range-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-date-range-input
+      label="Reporting period"
+      style="max-width: 400px;"
+    ></monk-date-range-input>
+  `,
+};
+
+export const WithValue: Story = {
+  render: () => html`
+    <monk-date-range-input
+      label="Reporting period"
+      value="2025-01-01/2025-01-31"
+      style="max-width: 400px;"
+    ></monk-date-range-input>
+  `,
+};
+
+export const Constraints: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-text size="sm">
+        At most 14 days within 2025. Presets that do not fit are disabled.
+      </monk-text>
+      <monk-date-range-input
+        label="Leave"
+        min="2025-01-01"
+        max="2025-12-31"
+        max-span="14"
+        validate
+      ></monk-date-range-input>
+    </monk-stack>
+  `,
+};
+
+export const CustomPresets: Story = {
+  render: () => html`
+    <monk-date-range-input
+      label="Fiscal period"
+      style="max-width: 400px;"
+      .presets=${[
+        { label: 'FY 2025 H1', range: () => ({ start: '2025-04-01', end: '2025-09-30' }) },
+        { label: 'FY 2025 H2', range: () => ({ start: '2025-10-01', end: '2026-03-31' }) },
+      ]}
+    ></monk-date-range-input>
+  `,
+};
+
+export const Locale: Story = {
+  render: () => html`
+    <monk-date-range-input
+      label="Zeitraum"
+      locale="de-DE"
+      value="2025-01-01/2025-01-31"
+      style="max-width: 400px;"
+    ></monk-date-range-input>
+  `,
+};
+
+export const RangeChangeEvent: Story = {
+  render: () => {
+    const handleRangeChange = (event: CustomEvent) => {
+      const output = document.getElementById('range-output');
+      if (output) {
+        output.textContent = JSON.stringify(event.detail);
+      }
+    };
+
+    return html`
+      <monk-stack spacing="4" style="max-width: 400px;">
+        <monk-heading level="h4">range-change</monk-heading>
+        <monk-date-range-input
+          label="Reporting period"
+          @range-change=${handleRangeChange}
+        ></monk-date-range-input>
+        <monk-text size="sm" id="range-output">Pick or type a range</monk-text>
+      </monk-stack>
+    `;
+  },
+};
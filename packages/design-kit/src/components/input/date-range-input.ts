@@ -0,0 +1,354 @@
+import { html, css, nothing, type CSSResultArray } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { MonkDateInput } from './date-input.js';
+import {
+  addDays,
+  addMonths,
+  datePrompt,
+  digitsToIso,
+  isoToDigits,
+  parseIsoDate,
+  todayIso,
+  type DateOrder,
+} from './date-utils.js';
+import { toValidationResult, validators, type Validator, type ValidatorFn } from './validators.js';
+import type { RangeSelectDetail } from '../calendar/range-calendar.js';
+import '../calendar/range-calendar.js';
+
+/**
+ * Start and end of a date range (YYYY-MM-DD)
+ */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Detail of the `range-change` event
+ */
+export type DateRangeChangeDetail = DateRange;
+
+/**
+ * Quick pick shown next to the range calendar
+ */
+export interface DateRangePreset {
+  /** Button text */
+  label: string;
+  /** Range for the given day (YYYY-MM-DD) */
+  range: (today: string) => DateRange;
+}
+
+/**
+ * Text between the start and end date in the input
+ */
+const RANGE_SEPARATOR = ' – ';
+
+const startOfMonth = (date: string): string => `${date.slice(0, 7)}-01`;
+
+const endOfMonth = (date: string): string => addDays(addMonths(startOfMonth(date), 1), -1);
+
+const startOfQuarter = (date: string): string =>
+  addMonths(startOfMonth(date), -((Number(date.slice(5, 7)) - 1) % 3));
+
+/**
+ * Default presets of monk-date-range-input
+ */
+export const dateRangePresets: DateRangePreset[] = [
+  { label: 'Today', range: (today) => ({ start: today, end: today }) },
+  { label: 'Last 7 days', range: (today) => ({ start: addDays(today, -6), end: today }) },
+  { label: 'Last 30 days', range: (today) => ({ start: addDays(today, -29), end: today }) },
+  {
+    label: 'This month',
+    range: (today) => ({ start: startOfMonth(today), end: endOfMonth(today) }),
+  },
+  {
+    label: 'Last month',
+    range: (today) => {
+      const lastMonth = addMonths(startOfMonth(today), -1);
+      return { start: lastMonth, end: endOfMonth(lastMonth) };
+    },
+  },
+  {
+    label: 'This quarter',
+    range: (today) => {
+      const start = startOfQuarter(today);
+      return { start, end: endOfMonth(addMonths(start, 2)) };
+    },
+  },
+  {
+    label: 'This year',
+    range: (today) => ({ start: `${today.slice(0, 4)}-01-01`, end: `${today.slice(0, 4)}-12-31` }),
+  },
+];
+
+/**
+ * Date range input component - Start and end dates in one masked field
+ * (MM/DD/YYYY – MM/DD/YYYY by default) with a two-month calendar and presets
+ *
+ * @element monk-date-range-input
+ *
+ * @example
+ * ```html
+ * <!-- Reporting period of at most 90 days, ending today at the latest -->
+ * <monk-date-range-input
+ *   label="Reporting period"
+ *   max="2025-06-30"
+ *   max-span="90"
+ *   validate
+ *   @range-change=${(e) => load(e.detail.start, e.detail.end)}
+ * ></monk-date-range-input>
+ *
+ * <!-- ISO 8601 interval as value -->
+ * <monk-date-range-input value="2025-01-01/2025-01-31"></monk-date-range-input>
+ * ```
+ *
+ * @accessibility
+ * - The calendar button opens a dialog with preset buttons and a two-month grid
+ * - Presets that fall outside min/max or the maximum span are disabled
+ * - See monk-date-input and monk-range-calendar for keyboard support
+ *
+ * @fires range-change - Fired when a complete range is typed or picked, detail: `{ start, end }`
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ *
+ * @csspart calendar-toggle - The button that opens the calendar
+ * @csspart calendar-popover - The popover containing presets and calendar
+ * @csspart presets - The preset button list
+ * @csspart preset - Each preset button
+ */
+@customElement('monk-date-range-input')
+export class MonkDateRangeInput extends MonkDateInput {
+  override calendar = true;
+
+  /**
+   * Longest allowed range in days, counting both ends
+   */
+  @property({ type: Number, attribute: 'max-span' })
+  maxSpan?: number;
+
+  /**
+   * Quick picks shown next to the calendar; pass an empty array to hide them
+   */
+  @property({ attribute: false })
+  presets: DateRangePreset[] = dateRangePresets;
+
+  static override styles: CSSResultArray = [
+    ...(MonkDateInput.styles as CSSResultArray),
+    css`
+      .range-picker {
+        display: flex;
+        gap: var(--monk-space-4);
+      }
+
+      .presets {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-1);
+        padding-right: var(--monk-space-4);
+        border-right: 1px solid var(--monk-color-border-default);
+      }
+
+      .preset {
+        padding: var(--monk-space-2) var(--monk-space-3);
+        border: none;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font-family: inherit;
+        font-size: var(--monk-font-size-sm);
+        text-align: left;
+        white-space: nowrap;
+        cursor: pointer;
+      }
+
+      .preset:hover:not(:disabled) {
+        background-color: var(--monk-color-bg-hover);
+      }
+
+      .preset:focus-visible {
+        outline: var(--monk-focus-ring-width) solid var(--monk-focus-ring-color);
+        outline-offset: 1px;
+      }
+
+      .preset:disabled {
+        color: var(--monk-color-text-tertiary);
+        cursor: not-allowed;
+      }
+    `,
+  ];
+
+  protected override get prompt(): string {
+    const single = datePrompt(this.dateFormat);
+    return `${single}${RANGE_SEPARATOR}${single}`;
+  }
+
+  protected override get calendarLabel(): string {
+    return 'Choose date range';
+  }
+
+  /**
+   * Start and end dates in ISO format; each is empty until fully entered
+   */
+  public getRange(): DateRange {
+    return this.toRange(this.value);
+  }
+
+  /**
+   * Get the range as an ISO 8601 interval (YYYY-MM-DD/YYYY-MM-DD) for API submission
+   */
+  public override getApiValue(): string {
+    const { start, end } = this.getRange();
+    return start && end ? `${start}/${end}` : '';
+  }
+
+  /**
+   * Range order, min/max, disabled-date and span checks
+   */
+  protected override dateValidators(): Validator[] {
+    const startOf = (value: string): string => this.toRange(value).start;
+    const endOf = (value: string): string => this.toRange(value).end;
+
+    const checks: ValidatorFn[] = [
+      (value) => {
+        const { start, end } = this.toRange(value);
+        return validators.dateRange(this.maxSpan)(`${start}/${end}`);
+      },
+    ];
+    if (this.min) {
+      const min = validators.minDate(
+        this.min,
+        `Start date must be on or after ${this.formatDate(this.min)}`
+      );
+      checks.push((value) => min(startOf(value)));
+    }
+    if (this.max) {
+      const max = validators.maxDate(
+        this.max,
+        `End date must be on or before ${this.formatDate(this.max)}`
+      );
+      checks.push((value) => max(endOf(value)));
+    }
+    if (this.isDateDisabled) {
+      const isDateDisabled = this.isDateDisabled;
+      checks.push((value) => ({
+        valid: !isDateDisabled(startOf(value)) && !isDateDisabled(endOf(value)),
+        code: 'disabledDate',
+        message: 'This date is not available',
+      }));
+    }
+
+    return checks;
+  }
+
+  /**
+   * Convert an ISO 8601 interval (YYYY-MM-DD/YYYY-MM-DD) or two dates joined by a dash
+   * (e.g. 01/01/2025 – 01/31/2025) to unmasked digits
+   */
+  protected override parseValue(value: string): string | null {
+    const interval = /^(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})$/.exec(value);
+    const parts = interval ? interval.slice(1) : value.split(/\s+[–—-]\s+/);
+    if (parts.length !== 2) return null;
+
+    const [start, end] = parts.map((part) => super.parseValue(part));
+    return start !== null && end !== null ? `${start}${end}` : null;
+  }
+
+  protected override reorderValue(digits: string, from: DateOrder): string {
+    const start = super.reorderValue(digits.slice(0, 8), from);
+    return start ? `${start}${super.reorderValue(digits.slice(8), from)}` : '';
+  }
+
+  protected override _handleInput(event: Event): void {
+    super._handleInput(event);
+
+    const { start, end } = this.getRange();
+    if (start && end) {
+      this.emitEvent<DateRangeChangeDetail>('range-change', { start, end });
+    }
+  }
+
+  /**
+   * Whether a range passes min/max, disabled dates and the maximum span
+   */
+  private isRangeAllowed({ start, end }: DateRange): boolean {
+    return (
+      toValidationResult(validators.dateRange(this.maxSpan)(`${start}/${end}`)).valid &&
+      (!this.min || start >= this.min) &&
+      (!this.max || end <= this.max) &&
+      !this.isDateDisabled?.(start) &&
+      !this.isDateDisabled?.(end)
+    );
+  }
+
+  private applyRange({ start, end }: DateRange, originalEvent: Event): void {
+    const { order } = this.dateFormat;
+    this.commitValue(`${isoToDigits(start, order)}${isoToDigits(end, order)}`, originalEvent);
+    this.emitEvent<DateRangeChangeDetail>('range-change', { start, end });
+  }
+
+  private _handleRangeSelect(event: CustomEvent<RangeSelectDetail>): void {
+    this.applyRange(event.detail, event);
+  }
+
+  private toRange(digits: string): DateRange {
+    const { order } = this.dateFormat;
+    return {
+      start: digitsToIso(digits.slice(0, 8), order),
+      end: digitsToIso(digits.slice(8, 16), order),
+    };
+  }
+
+  protected override renderCalendar() {
+    const { start, end } = this.getRange();
+    const today = todayIso();
+
+    return html`
+      <div class="range-picker">
+        ${this.presets.length
+          ? html`
+              <div class="presets" part="presets" role="group" aria-label="Presets">
+                ${this.presets.map((preset) => {
+                  const range = preset.range(today);
+                  return html`
+                    <button
+                      type="button"
+                      class="preset"
+                      part="preset"
+                      ?disabled=${!this.isRangeAllowed(range)}
+                      @click=${(event: Event) => this.applyRange(range, event)}
+                    >
+                      ${preset.label}
+                    </button>
+                  `;
+                })}
+              </div>
+            `
+          : nothing}
+        <monk-range-calendar
+          class="calendar"
+          start=${ifDefined(parseIsoDate(start) ? start : undefined)}
+          end=${ifDefined(parseIsoDate(end) ? end : undefined)}
+          min=${ifDefined(this.min)}
+          max=${ifDefined(this.max)}
+          max-span=${ifDefined(this.maxSpan)}
+          locale=${ifDefined(this.locale)}
+          .isDateDisabled=${this.isDateDisabled}
+          @range-select=${this._handleRangeSelect}
+        ></monk-range-calendar>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-date-range-input': MonkDateRangeInput;
+  }
+}
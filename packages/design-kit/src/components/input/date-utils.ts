@@ -0,0 +1,209 @@
+/**
+ * Calendar date helpers shared by the date inputs and calendar
+ * Dates are exchanged as ISO 8601 strings (YYYY-MM-DD) in local time
+ */
+
+/**
+ * Order of the day, month and year fields in a locale's numeric date format
+ */
+export type DateOrder = 'MDY' | 'DMY' | 'YMD';
+
+/**
+ * Numeric date format of a locale, e.g. `{ order: 'DMY', separator: '.' }` for de-DE
+ */
+export interface DateFormat {
+  order: DateOrder;
+  separator: string;
+}
+
+/**
+ * Calendar date fields, with month 1-12
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Number of days in a month (1-12)
+ */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+/**
+ * Whether the year, month (1-12) and day form a real calendar date
+ * e.g. 2024-02-29 is valid, 2023-02-29 and 2024-04-31 are not
+ */
+export function isValidDate(year: number, month: number, day: number): boolean {
+  return (
+    Number.isInteger(year) &&
+    Number.isInteger(month) &&
+    Number.isInteger(day) &&
+    year >= 1 &&
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= daysInMonth(year, month)
+  );
+}
+
+/**
+ * Build an ISO date string, without checking that the date exists
+ */
+export function toIsoDate(year: number, month: number, day: number): string {
+  const pad = (n: number, width: number): string => String(n).padStart(width, '0');
+  return `${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}`;
+}
+
+/**
+ * Parse an ISO date string (a time part is ignored)
+ * @returns null if the string is not a real calendar date
+ */
+export function parseIsoDate(value: string): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T.*)?$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  return isValidDate(year, month, day) ? { year, month, day } : null;
+}
+
+/**
+ * ISO date of a Date object in local time
+ */
+export function isoFromDate(date: Date): string {
+  return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+/**
+ * Local-midnight Date for a valid ISO date
+ */
+export function dateFromIso(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Today's ISO date in local time
+ */
+export function todayIso(): string {
+  return isoFromDate(new Date());
+}
+
+/**
+ * Move an ISO date by a number of days
+ */
+export function addDays(value: string, days: number): string {
+  const date = dateFromIso(value);
+  date.setDate(date.getDate() + days);
+  return isoFromDate(date);
+}
+
+/**
+ * Move an ISO date by a number of months, clamping the day to the target month
+ * e.g. 2024-01-31 plus one month is 2024-02-29
+ */
+export function addMonths(value: string, months: number): string {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const targetYear = target.getFullYear();
+  const targetMonth = target.getMonth() + 1;
+  return toIsoDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+}
+
+/**
+ * Keep an ISO date within optional ISO bounds
+ */
+export function clampDate(value: string, min?: string, max?: string): string {
+  if (min && value < min) return min;
+  if (max && value > max) return max;
+  return value;
+}
+
+/**
+ * Numeric date field order and separator for a locale
+ * e.g. en-US → MDY "/", en-GB → DMY "/", de-DE → DMY ".", sv-SE → YMD "-"
+ */
+export function dateFormatForLocale(locale?: string): DateFormat {
+  const parts = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(2024, 0, 15));
+
+  const order = parts
+    .filter((part) => part.type === 'year' || part.type === 'month' || part.type === 'day')
+    .map((part) => part.type[0].toUpperCase())
+    .join('');
+
+  // Some locales use multi-character literals such as ". " (ko-KR); keep the first character
+  const separator = parts.find((part) => part.type === 'literal')?.value.trim()[0] ?? '/';
+
+  return {
+    order: order === 'DMY' || order === 'YMD' ? order : 'MDY',
+    separator,
+  };
+}
+
+/**
+ * Whole days from one ISO date to another (negative if `end` is earlier)
+ */
+export function daysBetween(start: string, end: string): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  // Round to absorb daylight saving shifts between the two local midnights
+  return Math.round((dateFromIso(end).getTime() - dateFromIso(start).getTime()) / msPerDay);
+}
+
+/**
+ * Prompt text for a date format, e.g. "DD.MM.YYYY" for de-DE
+ */
+export function datePrompt({ order, separator }: DateFormat): string {
+  const prompts: Record<string, string> = { M: 'MM', D: 'DD', Y: 'YYYY' };
+  return Array.from(order, (field) => prompts[field]).join(separator);
+}
+
+/**
+ * Convert an ISO date (YYYY-MM-DD) to unmasked digits in the given field order
+ * e.g. 2024-01-15 → "15012024" for DMY
+ */
+export function isoToDigits(iso: string, order: DateOrder): string {
+  const [year, month, day] = iso.slice(0, 10).split('-');
+  const fields: Record<string, string> = { Y: year, M: month, D: day };
+  return Array.from(order, (field) => fields[field]).join('');
+}
+
+/**
+ * Convert unmasked digits in the given field order to an ISO date (YYYY-MM-DD)
+ * @returns an empty string for incomplete dates
+ */
+export function digitsToIso(digits: string, order: DateOrder): string {
+  if (digits.length !== 8) {
+    return '';
+  }
+
+  const fields: Record<string, string> = {};
+  let offset = 0;
+  for (const field of order) {
+    const length = field === 'Y' ? 4 : 2;
+    fields[field] = digits.slice(offset, offset + length);
+    offset += length;
+  }
+  return `${fields.Y}-${fields.M}-${fields.D}`;
+}
+
+/**
+ * Parse a date typed with separators in a format's field order
+ * e.g. "1/5/2024" (MDY) or "5.1.2024" (DMY), without checking that the date exists
+ * @returns an ISO date, or null if the value is not in that form
+ */
+export function parseFormattedDate(value: string, { order, separator }: DateFormat): string | null {
+  const fields = value.trim().split(separator);
+  if (fields.length !== 3 || !fields.every((field) => /^\d+$/.test(field))) return null;
+
+  const parts: Record<string, string> = {};
+  Array.from(order).forEach((field, index) => (parts[field] = fields[index]));
+  if (parts.Y.length !== 4 || parts.M.length > 2 || parts.D.length > 2) return null;
+
+  return `${parts.Y}-${parts.M.padStart(2, '0')}-${parts.D.padStart(2, '0')}`;
+}
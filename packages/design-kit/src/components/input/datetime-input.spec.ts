@@ -0,0 +1,219 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkDateTimeInput } from './datetime-input.js';
+import { formatOffset, timeZoneOffset, zonedDateTimeIso } from './time-utils.js';
+
+const inputOf = (element: MonkDateTimeInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const timeZoneSelectOf = (element: MonkDateTimeInput): HTMLSelectElement =>
+  element.shadowRoot?.querySelector('[part="timezone-select"]') as HTMLSelectElement;
+
+describe('MonkDateTimeInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-datetime-input');
+    expect(element).to.be.instanceOf(MonkDateTimeInput);
+  });
+
+  it('should show the date and time prompt', async () => {
+    const element = await fixture<MonkDateTimeInput>(html`
+      <monk-datetime-input></monk-datetime-input>
+    `);
+
+    expect(inputOf(element).value).to.equal('MM/DD/YYYY HH:MM');
+  });
+
+  describe('Value', () => {
+    it('should show an ISO date-time on a 12-hour clock', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input value="2024-07-01T21:30" time-zone="UTC"></monk-datetime-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('07/01/2024 09:30');
+      expect(element.period).to.equal('PM');
+      expect(element.getDate()).to.equal('2024-07-01');
+      expect(element.getTime()).to.deep.equal({ hour: 21, minute: 30 });
+    });
+
+    it('should follow the locale for date order and clock', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input
+          locale="de-DE"
+          value="01.07.2024 21:30"
+          time-zone="UTC"
+        ></monk-datetime-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('01.07.2024 21:30');
+      expect(element.shadowRoot?.querySelector('[part="period"]')).to.be.null;
+    });
+
+    it('should fill only the date from a date', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input value="2024-07-01"></monk-datetime-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('07/01/2024 HH:MM');
+      expect(element.getApiValue()).to.equal('');
+    });
+  });
+
+  describe('Time zone', () => {
+    it('should return ISO 8601 with the offset of the time zone', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input
+          value="2024-07-01T09:30"
+          time-zone="Europe/Paris"
+        ></monk-datetime-input>
+      `);
+
+      expect(element.getApiValue()).to.equal('2024-07-01T09:30:00+02:00');
+
+      element.value = '2024-01-15T09:30';
+      await element.updateComplete;
+      expect(element.getApiValue()).to.equal('2024-01-15T09:30:00+01:00');
+    });
+
+    it('should change the time zone from the selector', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input
+          value="2024-01-15T09:30"
+          time-zone="UTC"
+          .timeZones=${['UTC', 'Asia/Kolkata']}
+        ></monk-datetime-input>
+      `);
+      const select = timeZoneSelectOf(element);
+
+      expect(select.getAttribute('aria-label')).to.equal('Time zone');
+      expect(select.options).to.have.length(2);
+
+      select.value = 'Asia/Kolkata';
+      setTimeout(() => select.dispatchEvent(new Event('change')));
+      const event = await oneEvent(element, 'timezone-change');
+
+      expect(event.detail.timeZone).to.equal('Asia/Kolkata');
+      expect(element.getApiValue()).to.equal('2024-01-15T09:30:00+05:30');
+    });
+
+    it('should list the time zone in use', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input time-zone="America/Denver" .timeZones=${['UTC']}></monk-datetime-input>
+      `);
+
+      expect(timeZoneSelectOf(element).value).to.equal('America/Denver');
+    });
+  });
+
+  describe('Calendar', () => {
+    it('should keep the time when a date is picked', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input
+          value="2024-07-01T09:30"
+          time-zone="UTC"
+          calendar
+        ></monk-datetime-input>
+      `);
+      await element.openCalendar();
+      const calendar = element.shadowRoot?.querySelector('monk-calendar') as HTMLElement;
+
+      expect(calendar.getAttribute('value')).to.equal('2024-07-01');
+
+      calendar.dispatchEvent(
+        new CustomEvent('date-select', { detail: { value: '2024-07-04' }, bubbles: true })
+      );
+      await element.updateComplete;
+
+      expect(element.getApiValue()).to.equal('2024-07-04T09:30:00+00:00');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require a time', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input value="2024-07-01" validate></monk-datetime-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please enter a valid time');
+    });
+
+    it('should check the date bounds and minute step', async () => {
+      const element = await fixture<MonkDateTimeInput>(html`
+        <monk-datetime-input
+          min="2024-07-01"
+          minute-step="30"
+          value="2024-06-30T09:30"
+          validate
+        ></monk-datetime-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Date must be on or after 07/01/2024');
+
+      element.value = '2024-07-01T09:15';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please choose a time in 30-minute steps');
+    });
+  });
+
+  describe('Form association', () => {
+    it('should submit ISO 8601 with offset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-datetime-input
+            name="startsAt"
+            value="2024-07-01 9:30 AM"
+            time-zone="America/New_York"
+          ></monk-datetime-input>
+        </form>
+      `);
+      const element = form.querySelector('monk-datetime-input') as MonkDateTimeInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('startsAt')).to.equal('2024-07-01T09:30:00-04:00');
+    });
+  });
+
+  describe('Time zone helpers', () => {
+    it('should find offsets across daylight saving', () => {
+      const winter = new Date(Date.UTC(2024, 0, 15, 12));
+      const summer = new Date(Date.UTC(2024, 6, 15, 12));
+
+      expect(timeZoneOffset('America/New_York', winter)).to.equal(-300);
+      expect(timeZoneOffset('America/New_York', summer)).to.equal(-240);
+    });
+
+    it('should format offsets', () => {
+      expect(formatOffset(330)).to.equal('+05:30');
+      expect(formatOffset(-240)).to.equal('-04:00');
+      expect(formatOffset(0)).to.equal('+00:00');
+    });
+
+    it('should build date-times in a time zone', () => {
+      expect(zonedDateTimeIso('2024-03-31', '02:30', 'Europe/Paris')).to.equal(
+        '2024-03-31T02:30:00+01:00'
+      );
+      expect(zonedDateTimeIso('2024-01-15', '09:30', 'Asia/Kolkata')).to.equal(
+        '2024-01-15T09:30:00+05:30'
+      );
+    });
+
+    it('should give skipped times the offset from before the change', () => {
+      expect(zonedDateTimeIso('2024-03-10', '02:30', 'America/New_York')).to.equal(
+        '2024-03-10T02:30:00-05:00'
+      );
+      expect(zonedDateTimeIso('2024-03-31', '02:30', 'Europe/Paris')).to.equal(
+        '2024-03-31T02:30:00+01:00'
+      );
+    });
+
+    it('should give repeated times the offset of their first occurrence', () => {
+      expect(zonedDateTimeIso('2024-10-27', '02:30', 'Europe/Paris')).to.equal(
+        '2024-10-27T02:30:00+02:00'
+      );
+      expect(zonedDateTimeIso('2024-11-03', '01:30', 'America/New_York')).to.equal(
+        '2024-11-03T01:30:00-04:00'
+      );
+    });
+  });
+});
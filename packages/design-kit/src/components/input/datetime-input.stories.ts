@@ -0,0 +1,99 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './datetime-input.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/DateTimeInput',
+  component: 'monk-datetime-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The DateTimeInput component combines the date input with a time and a time zone.
+
+## Features
+
+- One masked field in the locale's date order and clock (MM/DD/YYYY HH:MM by default)
+- AM/PM segment on 12-hour clocks, optional calendar popover (\`calendar\`)
+- IANA time zone selector (\`time-zone\`, limited with \`timeZones\`), defaulting to the browser's
+- \`min\`/\`max\` dates, disabled dates and \`minute-step\` checked by validation
+- \`getApiValue()\` and the submitted form value are ISO 8601 with the zone's offset
+
+## Usage
+
+\`\`\`html
+<monk-datetime-input label="Appointment" time-zone="Europe/Paris" calendar></monk-datetime-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-datetime-input label="Appointment" calendar style="max-width: 480px;">
+    </monk-datetime-input>
+  `,
+};
+
+export const Booking: Story = {
+  render: () => html`
+    <monk-datetime-input
+      label="Consultation"
+      helper-text="Half-hour slots, times in the clinic's time zone"
+      time-zone="America/New_York"
+      .timeZones=${['America/New_York', 'America/Chicago', 'America/Los_Angeles']}
+      minute-step="30"
+      min="2025-01-01"
+      calendar
+      validate
+      style="max-width: 480px;"
+      @input-changed=${(event: Event) =>
+        console.log((event.target as HTMLElement & { getApiValue(): string }).getApiValue())}
+    ></monk-datetime-input>
+  `,
+};
+
+export const Locales: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 480px;">
+      <monk-datetime-input
+        label="en-US"
+        locale="en-US"
+        value="2025-01-29T14:30"
+        time-zone="America/New_York"
+      ></monk-datetime-input>
+      <monk-datetime-input
+        label="de-DE"
+        locale="de-DE"
+        value="2025-01-29T14:30"
+        time-zone="Europe/Berlin"
+      ></monk-datetime-input>
+    </monk-stack>
+  `,
+};
+
+export const States: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 480px;">
+      <monk-datetime-input
+        label="Readonly"
+        value="2025-01-29T09:30"
+        time-zone="UTC"
+        readonly
+      ></monk-datetime-input>
+      <monk-datetime-input
+        label="Disabled"
+        value="2025-01-29T09:30"
+        time-zone="UTC"
+        disabled
+      ></monk-datetime-input>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,429 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { Mask } from 'maska';
+import { MonkDateInput } from './date-input.js';
+import {
+  datePrompt,
+  digitsToIso,
+  isoToDigits,
+  parseIsoDate,
+  type DateOrder,
+} from './date-utils.js';
+import { periodStyles, resolveHourCycle, timeMaskTokens } from './time-input.js';
+import {
+  TIME_PROMPT,
+  digitsToTime,
+  isValidTimeZone,
+  localTimeZone,
+  parseTime,
+  supportedTimeZones,
+  timeToDigits,
+  toIsoTime,
+  zonedDateTimeIso,
+  type DayPeriod,
+  type HourCycle,
+  type TimeOfDay,
+} from './time-utils.js';
+import { validators, type Validator, type ValidatorFn } from './validators.js';
+
+/**
+ * Detail of the `timezone-change` event
+ */
+export interface TimeZoneChangeDetail {
+  timeZone: string;
+}
+
+/**
+ * Date, time and optional seconds and offset, e.g. "2024-07-01T09:30", "07/01/2024 9:30 AM"
+ */
+const DATE_TIME_PATTERN =
+  /^(.+?)(?:T|\s+)(\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:\s*[ap]\.?m\.?)?)(?:Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Datetime input component - Date and time in one masked field
+ * (MM/DD/YYYY HH:MM by default) with a calendar, AM/PM segment and time zone selector
+ *
+ * Combines monk-date-input with the clock of monk-time-input: the date order and
+ * 12- or 24-hour clock follow `locale`. `getApiValue()` and the submitted form value
+ * are ISO 8601 with the offset of `time-zone` on that date, e.g.
+ * "2024-07-01T09:30:00+02:00". `min` and `max` bound the date.
+ *
+ * @element monk-datetime-input
+ *
+ * @example
+ * ```html
+ * <!-- Appointment in the clinic's time zone, on the half hour -->
+ * <monk-datetime-input
+ *   label="Appointment"
+ *   name="startsAt"
+ *   time-zone="America/New_York"
+ *   minute-step="30"
+ *   calendar
+ *   validate
+ * ></monk-datetime-input>
+ *
+ * <!-- A fixed set of zones, 24-hour clock -->
+ * <monk-datetime-input
+ *   label="Kick-off"
+ *   locale="en-GB"
+ *   .timeZones=${['Europe/London', 'Europe/Paris', 'Asia/Tokyo']}
+ * ></monk-datetime-input>
+ * ```
+ *
+ * @accessibility
+ * - The time zone selector is a native select labelled "Time zone"
+ * - The AM/PM segment is a button labelled with the current period; typing A or P in
+ *   the field also sets it
+ * - See monk-date-input for the calendar popover
+ *
+ * @fires timezone-change - Fired when the user picks a time zone, detail: `{ timeZone }`
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ *
+ * @csspart period - The AM/PM segment (12-hour clock)
+ * @csspart timezone-select - The time zone selector
+ * @csspart calendar-toggle - The button that opens the calendar
+ * @csspart calendar-popover - The popover containing the calendar
+ */
+@customElement('monk-datetime-input')
+export class MonkDateTimeInput extends MonkDateInput {
+  /**
+   * Clock to show, overriding the locale: "12" (with AM/PM) or "24"
+   */
+  @property({ type: String, reflect: true, attribute: 'hour-cycle' })
+  hourCycle?: HourCycle;
+
+  /**
+   * Minutes between allowed times
+   * @default 1
+   */
+  @property({ type: Number, attribute: 'minute-step' })
+  minuteStep = 1;
+
+  /**
+   * Half of the day on a 12-hour clock
+   * @default 'AM'
+   */
+  @property({ type: String, reflect: true })
+  period: DayPeriod = 'AM';
+
+  /**
+   * IANA time zone of the entered date and time
+   * @default the browser's time zone
+   */
+  @property({ type: String, attribute: 'time-zone' })
+  timeZone = localTimeZone();
+
+  /**
+   * Time zones offered in the selector; defaults to every zone the browser supports
+   */
+  @property({ attribute: false })
+  timeZones?: string[];
+
+  private _dateTimeMask?: Mask;
+
+  private _maskCycle?: HourCycle;
+
+  private _cycleChanged = false;
+
+  static override styles: CSSResultArray = [
+    ...(MonkDateInput.styles as CSSResultArray),
+    periodStyles,
+    css`
+      .timezone-select {
+        flex-shrink: 1;
+        min-width: 0;
+        max-width: 10rem;
+        align-self: stretch;
+        padding: 0 0 0 var(--monk-space-2);
+        border: none;
+        border-left: 1px solid var(--monk-color-border-default);
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font-family: inherit;
+        font-size: var(--monk-font-size-sm);
+        text-overflow: ellipsis;
+        cursor: pointer;
+      }
+
+      .timezone-select:focus-visible {
+        outline: 2px solid var(--monk-color-border-accent);
+        outline-offset: 2px;
+      }
+
+      .timezone-select:disabled {
+        cursor: not-allowed;
+      }
+    `,
+  ];
+
+  /**
+   * Clock in use
+   */
+  get resolvedHourCycle(): HourCycle {
+    return resolveHourCycle(this.hourCycle, this.locale);
+  }
+
+  /**
+   * Time zone in use; unknown zones fall back to the browser's
+   */
+  get resolvedTimeZone(): string {
+    return isValidTimeZone(this.timeZone) ? this.timeZone : localTimeZone();
+  }
+
+  protected override get prompt(): string {
+    return `${datePrompt(this.dateFormat)} ${TIME_PROMPT}`;
+  }
+
+  protected override get mask(): Mask {
+    const mask = `${datePrompt(this.dateFormat).replace(/[MDY]/g, '#')} Hh:Mm`;
+    const cycle = this.resolvedHourCycle;
+    if (this._dateTimeMask?.opts.mask !== mask || this._maskCycle !== cycle) {
+      this._dateTimeMask = new Mask({ eager: false, mask, tokens: timeMaskTokens(cycle) });
+      this._maskCycle = cycle;
+    }
+    return this._dateTimeMask;
+  }
+
+  /**
+   * Submit the date and time with its offset, so the server gets the exact instant
+   */
+  override get formValue(): string {
+    return this.getApiValue();
+  }
+
+  /**
+   * The entered date (YYYY-MM-DD), or an empty string until a real date is entered
+   */
+  public getDate(): string {
+    const iso = digitsToIso(this.value.slice(0, 8), this.dateFormat.order);
+    return parseIsoDate(iso) ? iso : '';
+  }
+
+  /**
+   * The entered time, or null until a complete, real time is entered
+   */
+  public getTime(): TimeOfDay | null {
+    return digitsToTime(this.value.slice(8), this.resolvedHourCycle, this.period);
+  }
+
+  /**
+   * Get the date and time as ISO 8601 with the time zone's offset
+   * (e.g. 2024-07-01T09:30:00+02:00) for API submission
+   */
+  public override getApiValue(): string {
+    const date = this.getDate();
+    const time = this.getTime();
+    return date && time ? zonedDateTimeIso(date, toIsoTime(time), this.resolvedTimeZone) : '';
+  }
+
+  /**
+   * Real date and time, min/max, disabled-date and minute step checks
+   */
+  protected override dateValidators(): Validator[] {
+    const { order } = this.dateFormat;
+    const onDate =
+      (validator: ValidatorFn): ValidatorFn =>
+      (value) =>
+        validator(digitsToIso(value.slice(0, 8), order));
+    const onTime =
+      (validator: ValidatorFn): ValidatorFn =>
+      (value) => {
+        const time = digitsToTime(value.slice(8), this.resolvedHourCycle, this.period);
+        return validator(time ? toIsoTime(time) : '');
+      };
+
+    const checks: Validator[] = [onDate(validators.date), onTime(validators.time)];
+    if (this.min) {
+      const message = `Date must be on or after ${this.formatDate(this.min)}`;
+      checks.push(onDate(validators.minDate(this.min, message)));
+    }
+    if (this.max) {
+      const message = `Date must be on or before ${this.formatDate(this.max)}`;
+      checks.push(onDate(validators.maxDate(this.max, message)));
+    }
+    if (this.isDateDisabled) {
+      const isDateDisabled = this.isDateDisabled;
+      checks.push(
+        onDate((iso) => ({
+          valid: !isDateDisabled(iso),
+          code: 'disabledDate',
+          message: 'This date is not available',
+        }))
+      );
+    }
+    if (this.minuteStep > 1) {
+      checks.push(onTime(validators.timeStep(this.minuteStep)));
+    }
+
+    return checks;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    // Keep the entered time when the clock changes
+    this._cycleChanged =
+      this.hasUpdated && (changedProperties.has('locale') || changedProperties.has('hourCycle'));
+    if (this._cycleChanged) {
+      const previous = resolveHourCycle(
+        changedProperties.has('hourCycle')
+          ? (changedProperties.get('hourCycle') as HourCycle | undefined)
+          : this.hourCycle,
+        changedProperties.has('locale')
+          ? (changedProperties.get('locale') as string | undefined)
+          : this.locale
+      );
+      const time = digitsToTime(this.value.slice(8), previous, this.period);
+      if (time) {
+        this.value = `${this.value.slice(0, 8)}${this.timeDigits(time)}`;
+      }
+    }
+
+    super.willUpdate(changedProperties);
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (this._cycleChanged) {
+      this._cycleChanged = false;
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+  }
+
+  /**
+   * Convert an ISO 8601 date-time (an offset is ignored: the wall-clock time is kept in
+   * `time-zone`) or a date and time typed with separators to unmasked digits
+   * A date alone fills the date part.
+   */
+  protected override parseValue(value: string): string | null {
+    const match = DATE_TIME_PATTERN.exec(value.trim());
+    if (!match) return super.parseValue(value);
+
+    const date = super.parseValue(match[1]);
+    const time = parseTime(match[2]);
+    return date !== null && time ? `${date}${this.timeDigits(time)}` : null;
+  }
+
+  protected override reorderValue(digits: string, from: DateOrder): string {
+    const date = super.reorderValue(digits.slice(0, 8), from);
+    return date ? `${date}${digits.slice(8)}` : '';
+  }
+
+  protected override valueWithDate(iso: string): string {
+    return `${isoToDigits(iso, this.dateFormat.order)}${this.value.slice(8)}`;
+  }
+
+  /**
+   * Time part of the digits on the current clock; sets the period to match
+   */
+  private timeDigits(time: TimeOfDay): string {
+    const { digits, period } = timeToDigits(time, this.resolvedHourCycle);
+    this.period = period;
+    return digits;
+  }
+
+  private togglePeriod(originalEvent: Event): void {
+    this.period = this.period === 'AM' ? 'PM' : 'AM';
+
+    if (this.validate) {
+      this.performValidation();
+    }
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    const key = event.key.toLowerCase();
+    const modified = event.ctrlKey || event.metaKey || event.altKey;
+
+    if (
+      this.resolvedHourCycle === '12' &&
+      (key === 'a' || key === 'p') &&
+      !modified &&
+      !this.readonly
+    ) {
+      event.preventDefault();
+      if ((key === 'a' ? 'AM' : 'PM') !== this.period) {
+        this.togglePeriod(event);
+      }
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  private _handlePeriodKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.togglePeriod(event);
+    }
+  }
+
+  private _handleTimeZoneChange(event: Event): void {
+    this.timeZone = (event.target as HTMLSelectElement).value;
+    this.emitEvent<TimeZoneChangeDetail>('timezone-change', { timeZone: this.timeZone });
+  }
+
+  /**
+   * AM/PM segment of the 12-hour clock
+   */
+  protected renderPeriod() {
+    if (this.resolvedHourCycle !== '12') return nothing;
+
+    return html`
+      <button
+        type="button"
+        class="period"
+        part="period"
+        aria-label=${`AM/PM: ${this.period}`}
+        ?disabled=${this.isDisabled || this.readonly}
+        @click=${this.togglePeriod}
+        @keydown=${this._handlePeriodKeyDown}
+      >
+        ${this.period}
+      </button>
+    `;
+  }
+
+  /**
+   * Time zone selector, always listing the zone in use
+   */
+  protected renderTimeZone() {
+    const selected = this.resolvedTimeZone;
+    const zones = this.timeZones ?? supportedTimeZones();
+    const options = zones.includes(selected) ? zones : [selected, ...zones];
+
+    return html`
+      <select
+        class="timezone-select"
+        part="timezone-select"
+        aria-label="Time zone"
+        ?disabled=${this.isDisabled || this.readonly}
+        @change=${this._handleTimeZoneChange}
+      >
+        ${options.map(
+          (zone) => html`
+            <option value=${zone} ?selected=${zone === selected}>${zone.replace(/_/g, ' ')}</option>
+          `
+        )}
+      </select>
+    `;
+  }
+
+  protected override renderSuffix() {
+    return html`${this.renderPeriod()} ${this.renderTimeZone()} ${super.renderSuffix()}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-datetime-input': MonkDateTimeInput;
+  }
+}
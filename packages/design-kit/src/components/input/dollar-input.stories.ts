@@ -16,6 +16,7 @@ const meta: Meta = {
       description: {
         component: `
 The DollarInput component provides automatic currency formatting for dollar amounts.
+It is a preset of \`monk-currency-input\` with \`currency="USD"\` and \`locale="en-US"\`.
 
 ## Features
 
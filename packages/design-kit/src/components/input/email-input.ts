@@ -30,6 +30,7 @@ import { BaseInput } from './base-input.js';
  * @fires input-focus - Fired when the input receives focus
  * @fires input-blur - Fired when the input loses focus
  * @fires input-keydown - Fired on keydown event
+ * @fires input-clear - Fired when the clear button empties the input
  *
  * @cssprop --monk-color-border-* - Border color tokens
  * @cssprop --monk-color-bg-* - Background color tokens
@@ -40,6 +41,7 @@ import { BaseInput } from './base-input.js';
  * @csspart wrapper - The wrapper container
  * @csspart input-container - The input container
  * @csspart input - The native input element
+ * @csspart clear-button - The clear button (with `clearable`)
  *
  * @slot prefix - Content to display before the input (e.g., icons, text)
  * @slot suffix - Content to display after the input (e.g., icons, buttons)
@@ -0,0 +1,313 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkFileInput, type FileUploadContext } from './file-input.js';
+import { formatFileSize, matchesAccept } from './file-utils.js';
+
+const makeFile = (name: string, type: string, size = 4): File =>
+  new File(['x'.repeat(size)], name, { type });
+
+const dropzoneOf = (element: MonkFileInput): HTMLElement =>
+  element.shadowRoot?.querySelector('.dropzone') as HTMLElement;
+
+const drop = (element: MonkFileInput, files: File[]): void => {
+  const dataTransfer = new DataTransfer();
+  files.forEach((file) => dataTransfer.items.add(file));
+  dropzoneOf(element).dispatchEvent(
+    new DragEvent('drop', { dataTransfer, bubbles: true, cancelable: true })
+  );
+};
+
+const listedNames = (element: MonkFileInput): string[] =>
+  Array.from(element.shadowRoot?.querySelectorAll('.file-name') ?? []).map(
+    (name) => name.textContent ?? ''
+  );
+
+describe('MonkFileInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-file-input');
+    expect(element).to.be.instanceOf(MonkFileInput);
+  });
+
+  it('should render a labelled native file input inside the drop zone', async () => {
+    const element = await fixture<MonkFileInput>(html`
+      <monk-file-input label="Attachments" accept="image/*" multiple></monk-file-input>
+    `);
+    const picker = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+    expect(picker.type).to.equal('file');
+    expect(picker.accept).to.equal('image/*');
+    expect(picker.multiple).to.be.true;
+    expect(element.shadowRoot?.querySelector('label')?.getAttribute('for')).to.equal(picker.id);
+  });
+
+  describe('Selection', () => {
+    it('should list dropped files and emit files-change', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input multiple></monk-file-input>
+      `);
+
+      setTimeout(() => drop(element, [makeFile('a.txt', 'text/plain')]));
+      const event = await oneEvent(element, 'files-change');
+      await element.updateComplete;
+
+      expect(event.detail.files.map((file: File) => file.name)).to.deep.equal(['a.txt']);
+      expect(listedNames(element)).to.deep.equal(['a.txt']);
+      expect(element.value).to.equal('a.txt');
+    });
+
+    it('should append files in multiple mode, skipping duplicates', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input multiple></monk-file-input>
+      `);
+      const first = makeFile('a.txt', 'text/plain');
+
+      element.addFiles([first]);
+      element.addFiles([first, makeFile('b.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(listedNames(element)).to.deep.equal(['a.txt', 'b.txt']);
+    });
+
+    it('should replace the file without multiple', async () => {
+      const element = await fixture<MonkFileInput>(html`<monk-file-input></monk-file-input>`);
+
+      element.addFiles([makeFile('a.txt', 'text/plain')]);
+      element.addFiles([makeFile('b.txt', 'text/plain'), makeFile('c.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(listedNames(element)).to.deep.equal(['b.txt']);
+    });
+
+    it('should remove a file with its remove button', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input multiple></monk-file-input>
+      `);
+      element.addFiles([makeFile('a.txt', 'text/plain'), makeFile('b.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      const button = element.shadowRoot?.querySelector(
+        '[part="remove-button"]'
+      ) as HTMLButtonElement;
+      expect(button.getAttribute('aria-label')).to.equal('Remove a.txt');
+
+      button.click();
+      await element.updateComplete;
+
+      expect(listedNames(element)).to.deep.equal(['b.txt']);
+    });
+
+    it('should show a thumbnail for images only', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input multiple></monk-file-input>
+      `);
+      element.addFiles([
+        makeFile('photo.png', 'image/png'),
+        makeFile('doc.pdf', 'application/pdf'),
+      ]);
+      await element.updateComplete;
+
+      const thumbnails = element.shadowRoot?.querySelectorAll('.thumbnail') ?? [];
+      expect(thumbnails[0].tagName).to.equal('IMG');
+      expect((thumbnails[0] as HTMLImageElement).src).to.match(/^blob:/);
+      expect(thumbnails[1].tagName).to.equal('SPAN');
+    });
+
+    it('should ignore drops while disabled', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input disabled></monk-file-input>
+      `);
+
+      drop(element, [makeFile('a.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(element.files).to.have.length(0);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject files that do not match accept', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input accept="image/*,.pdf" multiple validate></monk-file-input>
+      `);
+
+      element.addFiles([makeFile('photo.png', 'image/png'), makeFile('notes.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(element.invalid).to.be.true;
+      expect(element.validationErrors[0].code).to.equal('accept');
+      expect(element.errorMessage).to.equal('notes.txt is not an accepted file type');
+      expect(element.shadowRoot?.querySelectorAll('.file.invalid')).to.have.length(1);
+    });
+
+    it('should reject files larger than max-size', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input max-size="1024" validate></monk-file-input>
+      `);
+
+      element.addFiles([makeFile('big.bin', 'application/octet-stream', 2048)]);
+      await element.updateComplete;
+
+      expect(element.validationErrors[0].code).to.equal('maxSize');
+      expect(element.errorMessage).to.equal('big.bin is larger than 1 KB');
+    });
+
+    it('should reject more files than max-files', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input max-files="1" multiple validate></monk-file-input>
+      `);
+
+      element.addFiles([makeFile('a.txt', 'text/plain'), makeFile('b.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(element.validationErrors[0].code).to.equal('maxFiles');
+      expect(element.errorMessage).to.equal('Select at most 1 file');
+    });
+
+    it('should block form submission with a rejected file even without validate', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-file-input name="doc" accept=".pdf"></monk-file-input></form>
+      `);
+      const element = form.querySelector('monk-file-input') as MonkFileInput;
+
+      element.addFiles([makeFile('notes.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(form.checkValidity()).to.be.false;
+    });
+
+    it('should be missing a value when required and empty', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-file-input name="doc" required></monk-file-input></form>
+      `);
+      const element = form.querySelector('monk-file-input') as MonkFileInput;
+      await element.updateComplete;
+
+      expect(element.validity.valueMissing).to.be.true;
+
+      element.addFiles([makeFile('a.pdf', 'application/pdf')]);
+      await element.updateComplete;
+
+      expect(form.checkValidity()).to.be.true;
+    });
+  });
+
+  describe('Form association', () => {
+    it('should submit each file under the name', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-file-input name="docs" multiple></monk-file-input></form>
+      `);
+      const element = form.querySelector('monk-file-input') as MonkFileInput;
+
+      element.addFiles([makeFile('a.txt', 'text/plain'), makeFile('b.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      const submitted = new FormData(form).getAll('docs') as File[];
+      expect(submitted.map((file) => file.name)).to.deep.equal(['a.txt', 'b.txt']);
+      expect(submitted[0]).to.be.instanceOf(File);
+    });
+
+    it('should clear the files on form reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-file-input name="docs"></monk-file-input></form>
+      `);
+      const element = form.querySelector('monk-file-input') as MonkFileInput;
+      element.addFiles([makeFile('a.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.files).to.have.length(0);
+      expect(new FormData(form).getAll('docs')).to.have.length(0);
+    });
+  });
+
+  describe('Upload', () => {
+    it('should upload added files and report progress', async () => {
+      const element = await fixture<MonkFileInput>(html`<monk-file-input></monk-file-input>`);
+      let context: FileUploadContext | undefined;
+      let finish: (response: unknown) => void = () => undefined;
+      element.uploader = (_file, uploadContext) => {
+        context = uploadContext;
+        return new Promise((resolve) => (finish = resolve));
+      };
+
+      const file = makeFile('a.txt', 'text/plain');
+      element.addFiles([file]);
+      expect(element.uploading).to.be.true;
+
+      setTimeout(() => context?.onProgress(0.5));
+      const progress = await oneEvent(element, 'upload-progress');
+      await element.updateComplete;
+
+      expect(progress.detail.progress).to.equal(0.5);
+      const bar = element.shadowRoot?.querySelector('[role="progressbar"]');
+      expect(bar?.getAttribute('aria-valuenow')).to.equal('50');
+
+      setTimeout(() => finish({ id: 1 }));
+      const complete = await oneEvent(element, 'upload-complete');
+
+      expect(complete.detail.response).to.deep.equal({ id: 1 });
+      expect(element.getUploadState(file)?.status).to.equal('done');
+      expect(element.uploading).to.be.false;
+    });
+
+    it('should report failed uploads', async () => {
+      const element = await fixture<MonkFileInput>(html`<monk-file-input></monk-file-input>`);
+      element.uploader = () => Promise.reject(new Error('Network down'));
+
+      setTimeout(() => element.addFiles([makeFile('a.txt', 'text/plain')]));
+      const event = await oneEvent(element, 'upload-error');
+      await element.updateComplete;
+
+      expect(event.detail.error.message).to.equal('Network down');
+      expect(element.shadowRoot?.querySelector('[part="retry-button"]')).to.exist;
+    });
+
+    it('should abort the upload of a removed file', async () => {
+      const element = await fixture<MonkFileInput>(html`<monk-file-input></monk-file-input>`);
+      let signal: AbortSignal | undefined;
+      element.uploader = (_file, context) => {
+        signal = context.signal;
+        return new Promise(() => undefined);
+      };
+
+      const file = makeFile('a.txt', 'text/plain');
+      element.addFiles([file]);
+      element.removeFile(file);
+      await element.updateComplete;
+
+      expect(signal?.aborted).to.be.true;
+      expect(element.uploading).to.be.false;
+    });
+
+    it('should not upload rejected files', async () => {
+      const element = await fixture<MonkFileInput>(html`
+        <monk-file-input accept=".pdf"></monk-file-input>
+      `);
+      let calls = 0;
+      element.uploader = async () => calls++;
+
+      element.addFiles([makeFile('notes.txt', 'text/plain')]);
+      await element.updateComplete;
+
+      expect(calls).to.equal(0);
+    });
+  });
+
+  describe('File helpers', () => {
+    it('should match accept entries', () => {
+      const png = makeFile('Photo.PNG', 'image/png');
+
+      expect(matchesAccept(png, 'image/*')).to.be.true;
+      expect(matchesAccept(png, '.png')).to.be.true;
+      expect(matchesAccept(png, 'image/jpeg, .pdf')).to.be.false;
+      expect(matchesAccept(png, '')).to.be.true;
+    });
+
+    it('should format sizes', () => {
+      expect(formatFileSize(512)).to.equal('512 B');
+      expect(formatFileSize(1536)).to.equal('1.5 KB');
+      expect(formatFileSize(5 * 1024 * 1024)).to.equal('5 MB');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './file-input.js';
+import '../layout/stack.js';
+import type { FileUploader } from './file-input.js';
+
+const meta: Meta = {
+  title: 'Components/Input/FileInput',
+  component: 'monk-file-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The FileInput component picks files by browsing or by dropping them on a drop zone.
+
+## Features
+
+- Drag and drop, or click (Enter / Space) to open the file picker
+- Selected files are listed with their size, an image thumbnail and a remove button
+- \`accept\`, \`max-size\` (bytes) and \`max-files\` validation, shown in the error message area
+- Pluggable \`uploader\` with per-file progress, retry and abort on removal
+- Form-associated: each \`File\` is submitted under the input's name
+
+## Usage
+
+\`\`\`html
+<monk-file-input label="Attachments" name="attachments" accept="image/*,.pdf" multiple>
+</monk-file-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+/**
+ * Pretend upload that reports progress every 200ms and fails for names containing "fail"
+ */
+const fakeUploader: FileUploader = (file, { signal, onProgress }) =>
+  new Promise((resolve, reject) => {
+    let progress = 0;
+    const timer = setInterval(() => {
+      progress += 0.2;
+      onProgress(progress);
+      if (file.name.includes('fail') && progress >= 0.6) {
+        clearInterval(timer);
+        reject(new Error('Upload failed'));
+      } else if (progress >= 1) {
+        clearInterval(timer);
+        resolve({ name: file.name });
+      }
+    }, 200);
+    signal.addEventListener('abort', () => clearInterval(timer));
+  });
+
+export const Default: Story = {
+  render: () => html`
+    <monk-file-input label="Attachment" helper-text="Any file type"></monk-file-input>
+  `,
+};
+
+export const Multiple: Story = {
+  render: () => html`
+    <monk-file-input
+      label="Photos"
+      accept="image/*"
+      max-size="5242880"
+      max-files="4"
+      multiple
+      validate
+      helper-text="Up to 4 images, 5 MB each"
+    ></monk-file-input>
+  `,
+};
+
+export const WithUpload: Story = {
+  render: () => html`
+    <monk-file-input
+      label="Documents"
+      multiple
+      helper-text="Files with “fail” in their name fail to upload"
+      .uploader=${fakeUploader}
+    ></monk-file-input>
+  `,
+};
+
+export const CustomText: Story = {
+  render: () => html`
+    <monk-file-input label="Résumé" accept=".pdf,.doc,.docx">
+      Drop your résumé here, or <strong>browse</strong>
+    </monk-file-input>
+  `,
+};
+
+export const States: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-file-input label="Required" required validate></monk-file-input>
+      <monk-file-input label="Disabled" disabled></monk-file-input>
+      <monk-file-input label="With error" error-message="Upload a signed copy" invalid>
+      </monk-file-input>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,843 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { srOnlyStyles } from '../../core/styles.js';
+import { BaseInput } from './base-input.js';
+import { formatFileSize, isImageFile, isSameFile, matchesAccept } from './file-utils.js';
+import { toValidationResult, type Validator, type ValidatorFn } from './validators.js';
+
+/**
+ * Where a file is in its upload
+ */
+export type FileUploadStatus = 'uploading' | 'done' | 'error';
+
+/**
+ * Upload state of one file
+ */
+export interface FileUploadState {
+  status: FileUploadStatus;
+  /** Fraction uploaded, from 0 to 1 */
+  progress: number;
+  /** What the upload handler resolved with */
+  response?: unknown;
+  /** What the upload handler rejected with */
+  error?: unknown;
+}
+
+/**
+ * Second argument of an upload handler
+ */
+export interface FileUploadContext {
+  /** Aborted when the file is removed or the upload is restarted */
+  signal: AbortSignal;
+  /** Report the fraction uploaded so far, from 0 to 1 */
+  onProgress: (progress: number) => void;
+}
+
+/**
+ * Uploads one file, e.g. with `fetch()` or XMLHttpRequest
+ * Resolves with the server's response, or rejects to mark the upload failed
+ */
+export type FileUploader = (file: File, context: FileUploadContext) => Promise<unknown>;
+
+/**
+ * Detail of the `files-change` event
+ */
+export interface FilesChangeDetail {
+  files: File[];
+  originalEvent?: Event;
+}
+
+/**
+ * Detail of the `upload-progress`, `upload-complete` and `upload-error` events
+ */
+export interface FileUploadDetail extends FileUploadState {
+  file: File;
+}
+
+/**
+ * File input component - Picks files by browsing or drag and drop
+ *
+ * Selected files are listed below the drop zone with their size, a thumbnail
+ * for images and a remove button. `accept`, `max-size` and `max-files` are
+ * checked like the other validation attributes, and offending files are
+ * marked in the list. Each file is submitted under the input's name; set
+ * `uploader` to also upload files as they are added, with per-file progress.
+ *
+ * @element monk-file-input
+ *
+ * @example
+ * ```html
+ * <monk-file-input
+ *   label="Attachments"
+ *   name="attachments"
+ *   accept="image/*,.pdf"
+ *   max-size="5242880"
+ *   max-files="3"
+ *   multiple
+ *   validate
+ * ></monk-file-input>
+ *
+ * <script>
+ *   input.uploader = (file, { signal, onProgress }) => upload(file, { signal, onProgress });
+ * </script>
+ * ```
+ *
+ * @accessibility
+ * - The native file input is kept (visually hidden) as the focusable control, so
+ *   Enter and Space open the file picker and the label is announced
+ * - Each remove button is labelled with the file name
+ * - Upload progress is exposed as a progressbar per file
+ *
+ * @fires files-change - Fired when files are added or removed, detail: `{ files, originalEvent }`
+ * @fires upload-progress - Fired as a file uploads, detail: `{ file, status, progress }`
+ * @fires upload-complete - Fired when a file has uploaded, detail: `{ file, status, response }`
+ * @fires upload-error - Fired when a file fails to upload, detail: `{ file, status, error }`
+ * @fires input-change - Fired when files are added or removed, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when files are added or removed, with the same detail
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart dropzone - The drop zone
+ * @csspart input - The visually hidden native file input
+ * @csspart file-list - The list of selected files
+ * @csspart file - Each file in the list
+ * @csspart thumbnail - Image thumbnail or file icon
+ * @csspart progress - Upload progress bar
+ * @csspart retry-button - Retry button of a failed upload
+ * @csspart remove-button - Each file's remove button
+ *
+ * @slot - Drop zone text; defaults to the placeholder
+ */
+@customElement('monk-file-input')
+export class MonkFileInput extends BaseInput {
+  /**
+   * Selected files
+   */
+  @property({ attribute: false })
+  files: File[] = [];
+
+  /**
+   * Accepted types: extensions, MIME types or wildcards, e.g. "image/*,.pdf"
+   */
+  @property({ type: String })
+  accept?: string;
+
+  /**
+   * Allow picking more than one file
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  multiple = false;
+
+  /**
+   * Largest file size allowed, in bytes
+   */
+  @property({ type: Number, attribute: 'max-size' })
+  maxSize?: number;
+
+  /**
+   * Most files allowed
+   */
+  @property({ type: Number, attribute: 'max-files' })
+  maxFiles?: number;
+
+  /**
+   * Uploads each valid file as it is added
+   */
+  @property({ attribute: false })
+  uploader?: FileUploader;
+
+  override placeholder = 'Drag files here or click to browse';
+
+  /**
+   * Whether files are being dragged over the drop zone
+   */
+  @state()
+  private _dragging = false;
+
+  @state()
+  private _uploads = new Map<File, FileUploadState>();
+
+  @query('#picker')
+  private _picker?: HTMLInputElement;
+
+  private _uploadControllers = new Map<File, AbortController>();
+
+  private _previews = new Map<File, string>();
+
+  /**
+   * Custom error set through `setCustomValidity()` or a failing validator
+   */
+  private _customValidity = '';
+
+  protected override get inputType(): string {
+    return 'file';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
+    css`
+      .dropzone {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        gap: var(--monk-space-2);
+        padding: var(--monk-space-6) var(--monk-space-4);
+        border: 2px dashed var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        background: var(--monk-color-bg-canvas);
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        text-align: center;
+        cursor: pointer;
+        transition: border-color 150ms ease-in-out, background-color 150ms ease-in-out;
+      }
+
+      .dropzone:hover,
+      .dropzone.dragging {
+        border-color: var(--monk-color-border-accent);
+      }
+
+      .dropzone.dragging {
+        background: var(--monk-color-bg-subtle);
+      }
+
+      .dropzone.focused {
+        border-color: var(--monk-color-border-accent);
+        box-shadow: 0 0 0 3px var(--monk-focus-ring-color);
+      }
+
+      :host([variant='filled']) .dropzone {
+        background: var(--monk-color-bg-subtle);
+      }
+
+      :host([invalid]) .dropzone {
+        border-color: var(--monk-color-border-error);
+      }
+
+      .dropzone.disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+        pointer-events: none;
+      }
+
+      :host([readonly]) .dropzone {
+        cursor: default;
+      }
+
+      .dropzone-icon {
+        font-size: var(--monk-font-size-xl);
+        line-height: 1;
+      }
+
+      .file-list {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-2);
+        margin: 0;
+        padding: 0;
+        list-style: none;
+      }
+
+      .file {
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-3);
+        padding: var(--monk-space-2);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+      }
+
+      .file.invalid {
+        border-color: var(--monk-color-border-error);
+      }
+
+      .thumbnail {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        flex-shrink: 0;
+        width: 40px;
+        height: 40px;
+        border-radius: var(--monk-radius-sm);
+        background: var(--monk-color-bg-subtle);
+        object-fit: cover;
+      }
+
+      .file-details {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-1);
+        flex: 1;
+        min-width: 0;
+      }
+
+      .file-name {
+        overflow: hidden;
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-sm);
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .file-meta {
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-xs);
+      }
+
+      .file.invalid .file-meta,
+      .file.error .file-meta {
+        color: var(--monk-color-text-error);
+      }
+
+      .progress {
+        height: 4px;
+        overflow: hidden;
+        border-radius: var(--monk-radius-full, 9999px);
+        background: var(--monk-color-bg-subtle);
+      }
+
+      .progress-bar {
+        height: 100%;
+        background: var(--monk-color-bg-primary);
+        transition: width 150ms ease-in-out;
+      }
+
+      .file-button {
+        flex-shrink: 0;
+        padding: var(--monk-space-1) var(--monk-space-2);
+        border: none;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        font: inherit;
+        font-size: var(--monk-font-size-sm);
+        cursor: pointer;
+      }
+
+      .file-button:hover {
+        background: var(--monk-color-bg-subtle);
+        color: var(--monk-color-text-primary);
+      }
+
+      .file-button:focus-visible {
+        outline: 2px solid var(--monk-focus-ring-color);
+        outline-offset: 2px;
+      }
+
+      .file-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .dropzone,
+        .progress-bar {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  /**
+   * Names of the selected files, comma-separated
+   * A read-only summary; set `files` to change the selection
+   */
+  override get formValue(): string {
+    return this.value;
+  }
+
+  /**
+   * The selected files, as collected by monk-form
+   */
+  override get fieldValue(): File[] {
+    return [...this.files];
+  }
+
+  /**
+   * Whether any file is still uploading
+   */
+  get uploading(): boolean {
+    return [...this._uploads.values()].some((upload) => upload.status === 'uploading');
+  }
+
+  /**
+   * Upload state of a selected file, if it has been uploaded
+   */
+  getUploadState(file: File): FileUploadState | undefined {
+    return this._uploads.get(file);
+  }
+
+  /**
+   * Add files, as if they were picked or dropped
+   * Without `multiple`, the first file replaces the selection.
+   */
+  addFiles(files: FileList | File[], originalEvent?: Event): void {
+    const incoming = Array.from(files).filter(
+      (file) => !this.files.some((existing) => isSameFile(existing, file))
+    );
+    if (incoming.length === 0) return;
+
+    const added = this.multiple ? incoming : incoming.slice(0, 1);
+    this.setFiles(this.multiple ? [...this.files, ...added] : added, originalEvent);
+
+    for (const file of added) {
+      if (!this.fileProblem(file)) {
+        void this.upload(file);
+      }
+    }
+  }
+
+  /**
+   * Remove a file, aborting its upload
+   */
+  removeFile(file: File, originalEvent?: Event): void {
+    if (!this.files.includes(file)) return;
+    this.setFiles(
+      this.files.filter((candidate) => candidate !== file),
+      originalEvent
+    );
+  }
+
+  /**
+   * Upload a selected file with `uploader`, restarting any upload in progress
+   * Resolves once the upload has finished, failed or been aborted
+   */
+  async upload(file: File): Promise<void> {
+    const uploader = this.uploader;
+    if (!uploader || !this.files.includes(file)) return;
+
+    this._uploadControllers.get(file)?.abort();
+    const controller = new AbortController();
+    const { signal } = controller;
+    this._uploadControllers.set(file, controller);
+
+    const update = (upload: FileUploadState, eventName?: string) => {
+      if (signal.aborted) return;
+      this._uploads = new Map(this._uploads).set(file, upload);
+      if (eventName) {
+        this.emitEvent<FileUploadDetail>(eventName, { file, ...upload });
+      }
+    };
+
+    update({ status: 'uploading', progress: 0 });
+
+    const onProgress = (progress: number) => {
+      update(
+        { status: 'uploading', progress: Math.min(1, Math.max(0, progress)) },
+        'upload-progress'
+      );
+    };
+
+    try {
+      const response = await uploader(file, { signal, onProgress });
+      update({ status: 'done', progress: 1, response }, 'upload-complete');
+    } catch (error) {
+      const progress = this._uploads.get(file)?.progress ?? 0;
+      update({ status: 'error', progress, error }, 'upload-error');
+    } finally {
+      if (this._uploadControllers.get(file) === controller) {
+        this._uploadControllers.delete(file);
+      }
+    }
+  }
+
+  /**
+   * Replace the selection and report the change
+   */
+  private setFiles(files: File[], originalEvent?: Event): void {
+    this.files = files;
+    this.value = this.namesOf(files);
+
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+    this.emitEvent<FilesChangeDetail>('files-change', { files: this.files, originalEvent });
+  }
+
+  private namesOf(files: File[]): string {
+    return files.map((file) => file.name).join(', ');
+  }
+
+  /**
+   * Why a single file is not allowed, if it isn't
+   */
+  private fileProblem(file: File): string | undefined {
+    if (!matchesAccept(file, this.accept)) {
+      return `${file.name} is not an accepted file type`;
+    }
+    if (this.maxSize !== undefined && file.size > this.maxSize) {
+      return `${file.name} is larger than ${formatFileSize(this.maxSize)}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks from `accept`, `max-size` and `max-files`, run against the selected files
+   */
+  private get fileValidators(): ValidatorFn[] {
+    const checks: ValidatorFn[] = [];
+
+    if (this.accept) {
+      checks.push(() => {
+        const rejected = this.files.find((file) => !matchesAccept(file, this.accept));
+        return {
+          valid: !rejected,
+          code: 'accept',
+          message: rejected && `${rejected.name} is not an accepted file type`,
+        };
+      });
+    }
+    if (this.maxSize !== undefined) {
+      const max = this.maxSize;
+      checks.push(() => {
+        const rejected = this.files.find((file) => file.size > max);
+        return {
+          valid: !rejected,
+          code: 'maxSize',
+          message: rejected && `${rejected.name} is larger than ${formatFileSize(max)}`,
+        };
+      });
+    }
+    if (this.maxFiles !== undefined) {
+      const max = this.maxFiles;
+      checks.push(() => ({
+        valid: this.files.length <= max,
+        code: 'maxFiles',
+        message: `Select at most ${max} ${max === 1 ? 'file' : 'files'}`,
+      }));
+    }
+
+    return checks;
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    return [...super.declarativeValidators, ...this.fileValidators];
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('files')) {
+      this.value = this.namesOf(this.files);
+      this.pruneFileState();
+    }
+  }
+
+  /**
+   * Drop previews and uploads of files that are no longer selected
+   */
+  private pruneFileState(): void {
+    for (const [file, url] of this._previews) {
+      if (!this.files.includes(file)) {
+        URL.revokeObjectURL(url);
+        this._previews.delete(file);
+      }
+    }
+
+    for (const [file, controller] of this._uploadControllers) {
+      if (!this.files.includes(file)) {
+        controller.abort();
+        this._uploadControllers.delete(file);
+      }
+    }
+
+    if ([...this._uploads.keys()].some((file) => !this.files.includes(file))) {
+      this._uploads = new Map(
+        [...this._uploads].filter(([file]) => this.files.includes(file))
+      );
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._previews.forEach((url) => URL.revokeObjectURL(url));
+    this._previews.clear();
+    this._uploadControllers.forEach((controller) => controller.abort());
+    this._uploadControllers.clear();
+  }
+
+  /**
+   * Submit each file under the input's name
+   */
+  protected override updateFormState(): void {
+    const data = new FormData();
+    if (this.name) {
+      this.files.forEach((file) => data.append(this.name as string, file));
+    }
+    this.internals.setFormValue(data, data);
+    this.updateFormValidity();
+  }
+
+  /**
+   * Report required, file and custom errors, anchored to the native file input
+   * File errors block form submission even without `validate`
+   */
+  protected override updateFormValidity(): void {
+    const anchor = this._picker;
+    const fileError = this.fileValidators
+      .map((check) => toValidationResult(check(this.value)))
+      .find((result) => !result.valid);
+
+    if (this._customValidity) {
+      this.internals.setValidity({ customError: true }, this._customValidity, anchor);
+    } else if (fileError) {
+      this.internals.setValidity({ customError: true }, this.messageFor(fileError), anchor);
+    } else if (this.required && this.files.length === 0) {
+      this.internals.setValidity(
+        { valueMissing: true },
+        this.validationMessage || 'Please select a file.',
+        anchor
+      );
+    } else {
+      this.internals.setValidity({});
+    }
+  }
+
+  protected override setNativeCustomValidity(message: string): void {
+    this._customValidity = message;
+  }
+
+  override formResetCallback(): void {
+    super.formResetCallback();
+    this.files = [];
+  }
+
+  override formStateRestoreCallback(state: string | File | FormData | null): void {
+    if (state instanceof FormData && this.name) {
+      this.files = state.getAll(this.name).filter((entry): entry is File => entry instanceof File);
+    }
+  }
+
+  override focus(options?: FocusOptions): void {
+    this._picker?.focus(options);
+  }
+
+  override blur(): void {
+    this._picker?.blur();
+  }
+
+  private get locked(): boolean {
+    return this.isDisabled || this.readonly;
+  }
+
+  /**
+   * File inputs have no readonly state, so keep the picker closed here
+   */
+  private _handlePickerClick(event: MouseEvent): void {
+    if (this.readonly) {
+      event.preventDefault();
+    }
+  }
+
+  private _handlePickerChange(event: Event): void {
+    const picker = event.target as HTMLInputElement;
+    if (picker.files) {
+      this.addFiles(picker.files, event);
+    }
+    // Clear the native selection so picking the same file again still fires change
+    picker.value = '';
+  }
+
+  private _handleDropzoneClick(event: MouseEvent): void {
+    if (this.locked || event.target === this._picker) return;
+    this._picker?.click();
+  }
+
+  private _handleDragOver(event: DragEvent): void {
+    if (this.locked) return;
+
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy';
+    }
+    this._dragging = true;
+  }
+
+  private _handleDragLeave(event: DragEvent): void {
+    const zone = event.currentTarget as HTMLElement;
+    if (event.relatedTarget instanceof Node && zone.contains(event.relatedTarget)) return;
+    this._dragging = false;
+  }
+
+  private _handleDrop(event: DragEvent): void {
+    this._dragging = false;
+    if (this.locked) return;
+
+    event.preventDefault();
+    if (event.dataTransfer?.files.length) {
+      this.addFiles(event.dataTransfer.files, event);
+    }
+  }
+
+  private _handleRemove(file: File, event: Event): void {
+    this.removeFile(file, event);
+    // Keep focus in the field once the button is gone
+    this.focus();
+  }
+
+  private previewOf(file: File): string | undefined {
+    if (!isImageFile(file)) return undefined;
+
+    let url = this._previews.get(file);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      this._previews.set(file, url);
+    }
+    return url;
+  }
+
+  private renderProgress(file: File, upload: FileUploadState) {
+    const percent = Math.round(upload.progress * 100);
+
+    return html`
+      <div
+        class="progress"
+        part="progress"
+        role="progressbar"
+        aria-label=${`Uploading ${file.name}`}
+        aria-valuemin="0"
+        aria-valuemax="100"
+        aria-valuenow=${percent}
+      >
+        <div class="progress-bar" style=${`width: ${percent}%`}></div>
+      </div>
+    `;
+  }
+
+  private renderFile(file: File) {
+    const problem = this.fileProblem(file);
+    const upload = this._uploads.get(file);
+    const preview = this.previewOf(file);
+    const classes = {
+      file: true,
+      invalid: !!problem,
+      error: upload?.status === 'error',
+    };
+
+    let status = formatFileSize(file.size);
+    if (problem) {
+      status = problem;
+    } else if (upload?.status === 'uploading') {
+      status += ` • ${Math.round(upload.progress * 100)}%`;
+    } else if (upload?.status === 'done') {
+      status += ' • Uploaded';
+    } else if (upload?.status === 'error') {
+      status += ' • Upload failed';
+    }
+
+    return html`
+      <li class=${classMap(classes)} part="file">
+        ${preview
+          ? html`<img class="thumbnail" part="thumbnail" src=${preview} alt="" />`
+          : html`<span class="thumbnail" part="thumbnail" aria-hidden="true">📄</span>`}
+        <div class="file-details">
+          <span class="file-name">${file.name}</span>
+          <span class="file-meta">${status}</span>
+          ${upload?.status === 'uploading' ? this.renderProgress(file, upload) : nothing}
+        </div>
+        ${upload?.status === 'error'
+          ? html`
+              <button
+                type="button"
+                class="file-button"
+                part="retry-button"
+                ?disabled=${this.isDisabled}
+                aria-label=${`Retry uploading ${file.name}`}
+                @click=${() => this.upload(file)}
+              >
+                Retry
+              </button>
+            `
+          : nothing}
+        <button
+          type="button"
+          class="file-button"
+          part="remove-button"
+          ?disabled=${this.locked}
+          aria-label=${`Remove ${file.name}`}
+          @click=${(event: Event) => this._handleRemove(file, event)}
+        >
+          ✕
+        </button>
+      </li>
+    `;
+  }
+
+  protected override renderLabel() {
+    if (!this.label) return null;
+
+    return html`
+      <label class="label" for="picker">
+        ${this.label}
+        ${this.required ? html`<span class="required-indicator">*</span>` : ''}
+      </label>
+    `;
+  }
+
+  protected override renderInput() {
+    const zoneClasses = {
+      dropzone: true,
+      dragging: this._dragging,
+      focused: this._focused,
+      disabled: this.isDisabled,
+    };
+
+    return html`
+      <div
+        class=${classMap(zoneClasses)}
+        part="dropzone"
+        @click=${this._handleDropzoneClick}
+        @dragenter=${this._handleDragOver}
+        @dragover=${this._handleDragOver}
+        @dragleave=${this._handleDragLeave}
+        @drop=${this._handleDrop}
+      >
+        <input
+          id="picker"
+          class="sr-only"
+          part="input"
+          type="file"
+          accept=${ifDefined(this.accept)}
+          ?multiple=${this.multiple}
+          ?disabled=${this.isDisabled}
+          aria-invalid=${this.invalid ? 'true' : 'false'}
+          aria-describedby=${ifDefined(
+            this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+          )}
+          @click=${this._handlePickerClick}
+          @change=${this._handlePickerChange}
+          @focus=${this._handleFocus}
+          @blur=${this._handleBlur}
+          @keydown=${this._handleKeyDown}
+        />
+        <span class="dropzone-icon" aria-hidden="true">📁</span>
+        <span><slot>${this.placeholder}</slot></span>
+      </div>
+      ${this.files.length > 0
+        ? html`
+            <ul class="file-list" part="file-list" aria-label="Selected files">
+              ${this.files.map((file) => this.renderFile(file))}
+            </ul>
+          `
+        : nothing}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-file-input': MonkFileInput;
+  }
+}
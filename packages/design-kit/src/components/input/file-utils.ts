@@ -0,0 +1,55 @@
+/**
+ * File helpers for file inputs: `accept` matching and human-readable sizes
+ *
+ * @packageDocumentation
+ */
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Whether a file matches an `accept` list, as used by `<input type="file">`
+ * Entries are extensions (`.pdf`), MIME types (`application/pdf`) or
+ * wildcards (`image/*`), separated by commas. An empty list accepts anything.
+ */
+export const matchesAccept = (file: File, accept: string | undefined): boolean => {
+  const entries = (accept ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (entries.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return entries.some((entry) => {
+    if (entry.startsWith('.')) return name.endsWith(entry);
+    if (entry.endsWith('/*')) return type.startsWith(entry.slice(0, -1));
+    return type === entry;
+  });
+};
+
+/**
+ * File size for display, e.g. `512 B`, `1.5 MB`
+ */
+export const formatFileSize = (bytes: number): string => {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < SIZE_UNITS.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  const rounded = unit === 0 || size >= 10 ? Math.round(size) : Math.round(size * 10) / 10;
+  return `${rounded} ${SIZE_UNITS[unit]}`;
+};
+
+/**
+ * Whether the file is an image the browser can show as a thumbnail
+ */
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+/**
+ * Whether two files are the same pick, e.g. a file dropped twice
+ */
+export const isSameFile = (a: File, b: File): boolean =>
+  a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
@@ -0,0 +1,193 @@
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { property } from 'lit/decorators.js';
+import { BaseInput } from './base-input.js';
+import type { ButtonColorScheme } from '../button/button.js';
+
+/**
+ * Layout direction of the controls in a group
+ */
+export type GroupOrientation = 'vertical' | 'horizontal';
+
+/**
+ * A control inside a group: a checkbox, radio or segment
+ */
+export interface GroupItem extends HTMLElement {
+  value: string;
+  checked: boolean;
+  disabled: boolean;
+}
+
+/**
+ * Base class for fields made of several child controls (checkbox groups, radio groups)
+ *
+ * The group is the form field: it owns the value, validation and form
+ * participation, while the slotted controls only display and pick. There is no
+ * native input, so required and custom errors are reported on the group and
+ * anchored to its first enabled control.
+ */
+export abstract class GroupInput<T extends GroupItem = GroupItem> extends BaseInput {
+  /**
+   * Color scheme applied to every control
+   * @default 'primary'
+   */
+  @property({ type: String, reflect: true, attribute: 'color-scheme' })
+  colorScheme: ButtonColorScheme = 'primary';
+
+  /**
+   * Layout direction
+   * @default 'vertical'
+   */
+  @property({ type: String, reflect: true })
+  orientation: GroupOrientation = 'vertical';
+
+  /**
+   * Custom error set through `setCustomValidity()` or a failing validator
+   */
+  private _customValidity = '';
+
+  protected override get inputType(): string {
+    return 'group';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .group {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-2);
+      }
+
+      :host([orientation='horizontal']) .group {
+        flex-direction: row;
+        flex-wrap: wrap;
+        gap: var(--monk-space-4);
+      }
+    `,
+  ];
+
+  /**
+   * The controls in the group
+   */
+  abstract get items(): T[];
+
+  /**
+   * Show the group's value on its controls
+   */
+  protected abstract syncItems(): void;
+
+  /**
+   * Message reported when the group is required and nothing is picked
+   */
+  protected get valueMissingMessage(): string {
+    return 'Please select an option.';
+  }
+
+  /**
+   * The control that receives focus when the group is focused
+   */
+  protected get focusTarget(): T | undefined {
+    const enabled = this.items.filter((item) => !item.disabled);
+    return enabled.find((item) => item.checked) ?? enabled[0];
+  }
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.addEventListener('focusin', this._handleFocusIn);
+    this.addEventListener('focusout', this._handleFocusOut);
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.removeEventListener('focusin', this._handleFocusIn);
+    this.removeEventListener('focusout', this._handleFocusOut);
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (['value', 'size', 'colorScheme'].some((key) => changedProperties.has(key))) {
+      this.syncItems();
+    }
+
+    // Only push `disabled` down once it has been set, so individually disabled controls stay so
+    if (
+      changedProperties.has('disabled') &&
+      (this.disabled || changedProperties.get('disabled') !== undefined)
+    ) {
+      this.items.forEach((item) => (item.disabled = this.disabled));
+    }
+  }
+
+  /**
+   * Report required and custom errors on the group, anchored to its first control
+   */
+  protected override updateFormValidity(): void {
+    const anchor = this.items.find((item) => !item.disabled);
+
+    if (this._customValidity) {
+      this.internals.setValidity({ customError: true }, this._customValidity, anchor);
+    } else if (this.required && !this.value) {
+      this.internals.setValidity(
+        { valueMissing: true },
+        this.validationMessage || this.valueMissingMessage,
+        anchor
+      );
+    } else {
+      this.internals.setValidity({});
+    }
+  }
+
+  protected override setNativeCustomValidity(message: string): void {
+    this._customValidity = message;
+  }
+
+  override formDisabledCallback(disabled: boolean): void {
+    super.formDisabledCallback(disabled);
+    // Radios are not form-associated, so the group passes a fieldset's state on to its controls
+    this.items.forEach((item) => (item.disabled = this.isDisabled));
+  }
+
+  override focus(options?: FocusOptions): void {
+    this.focusTarget?.focus(options);
+  }
+
+  override blur(): void {
+    this.items.forEach((item) => item.blur());
+  }
+
+  protected _handleSlotChange(): void {
+    this.syncItems();
+    if (this.isDisabled) {
+      this.items.forEach((item) => (item.disabled = true));
+    }
+  }
+
+  /**
+   * The group reports focus, blur and changes for its controls
+   */
+  protected _stopItemEvent(event: Event): void {
+    event.stopPropagation();
+  }
+
+  private _handleFocusIn = (event: FocusEvent): void => {
+    if (this._focused) return;
+    this._handleFocus(event);
+  };
+
+  private _handleFocusOut = (event: FocusEvent): void => {
+    if (event.relatedTarget instanceof Node && this.contains(event.relatedTarget)) return;
+    this._handleBlur(event);
+  };
+
+  protected override renderLabel() {
+    if (!this.label) return null;
+
+    return html`
+      <div class="label" id="label">
+        ${this.label}
+        ${this.required ? html`<span class="required-indicator">*</span>` : ''}
+      </div>
+    `;
+  }
+}
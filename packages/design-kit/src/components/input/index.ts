@@ -1,13 +1,136 @@
 export { BaseInput } from './base-input.js';
 export { MaskedInput } from './masked-input.js';
+export { GroupInput } from './group-input.js';
 export { MonkTextInput } from './text-input.js';
 export { MonkEmailInput } from './email-input.js';
 export { MonkPasswordInput } from './password-input.js';
 export { MonkPhoneInput } from './phone-input.js';
 export { MonkDateInput } from './date-input.js';
+export { MonkDateRangeInput, dateRangePresets } from './date-range-input.js';
+export { MonkCurrencyInput } from './currency-input.js';
 export { MonkDollarInput } from './dollar-input.js';
 export { MonkNumberInput } from './number-input.js';
 export { MonkURLInput } from './url-input.js';
 export { MonkSearchInput } from './search-input.js';
-export type { InputSize, InputVariant, ValidateOn } from './base-input.js';
-export { validators, type ValidatorFn } from './validators.js';
+export { MonkCombobox } from './combobox.js';
+export { MonkTextarea } from './textarea.js';
+export { MonkOtpInput } from './otp-input.js';
+export { MonkMaskedInput } from './masked-input-element.js';
+export { MonkFileInput } from './file-input.js';
+export { MonkTagInput } from './tag-input.js';
+export { MonkColorInput, colorTokenSwatches } from './color-input.js';
+export { MonkTimeInput } from './time-input.js';
+export { MonkDateTimeInput } from './datetime-input.js';
+export type {
+  InputSize,
+  InputVariant,
+  ValidateOn,
+  ErrorDisplay,
+  FieldValue,
+} from './base-input.js';
+export type { PhoneCountryChangeDetail } from './phone-input.js';
+export type { ComboboxOption, ComboboxProvider, SuggestionSelectDetail } from './combobox.js';
+export type { TextareaResize } from './textarea.js';
+export type { OtpMode, OtpCompleteDetail } from './otp-input.js';
+export type { CardBrandChangeDetail } from './masked-input-element.js';
+export type {
+  FileUploader,
+  FileUploadContext,
+  FileUploadState,
+  FileUploadStatus,
+  FileUploadDetail,
+  FilesChangeDetail,
+} from './file-input.js';
+export type { TagChangeDetail, TagRejectDetail, TagRejectReason } from './tag-input.js';
+export type { TimeZoneChangeDetail } from './datetime-input.js';
+export type { GroupOrientation, GroupItem } from './group-input.js';
+export type {
+  DateRange,
+  DateRangePreset,
+  DateRangeChangeDetail,
+} from './date-range-input.js';
+export {
+  entropyScorer,
+  passwordRules,
+  defaultPasswordRules,
+  passwordStrengthLabels,
+  type PasswordContext,
+  type PasswordRule,
+  type PasswordScorer,
+  type PasswordStrength,
+} from './password-strength.js';
+export {
+  phoneCountries,
+  findPhoneCountry,
+  parseInternationalNumber,
+  type PhoneCountry,
+} from './phone-countries.js';
+export {
+  dateFormatForLocale,
+  parseIsoDate,
+  isValidDate,
+  type DateFormat,
+  type DateOrder,
+  type CalendarDate,
+} from './date-utils.js';
+export {
+  hourCycleForLocale,
+  parseTime,
+  toIsoTime,
+  localTimeZone,
+  supportedTimeZones,
+  timeZoneOffset,
+  zonedDateTimeIso,
+  type HourCycle,
+  type DayPeriod,
+  type TimeOfDay,
+} from './time-utils.js';
+export {
+  maskPresets,
+  type MaskPattern,
+  type MaskPreset,
+  type MaskPresetName,
+} from './mask-presets.js';
+export {
+  cardBrands,
+  genericCardMask,
+  detectCardBrand,
+  passesLuhn,
+  type CardBrand,
+} from './card-brands.js';
+export { matchesAccept, formatFileSize, isImageFile, isSameFile } from './file-utils.js';
+export {
+  parseColor,
+  formatColor,
+  toHex,
+  hslToRgb,
+  rgbToHsl,
+  rgbToHsv,
+  hsvToRgb,
+  blendOver,
+  relativeLuminance,
+  contrastRatio,
+  contrastLevels,
+  type RgbaColor,
+  type HsvaColor,
+  type ColorFormat,
+  type ContrastLevels,
+} from './color-utils.js';
+export { graphemes, graphemeLength, truncateGraphemes } from './text-utils.js';
+export {
+  validators,
+  asyncValidator,
+  isAsyncValidator,
+  toValidationResult,
+  withMessage,
+  whenFilled,
+  compilePattern,
+  registerValidator,
+  unregisterValidator,
+  parseRules,
+  type RuleFn,
+  type ValidationResult,
+  type ValidatorFn,
+  type AsyncValidatorFn,
+  type Validator,
+} from './validators.js';
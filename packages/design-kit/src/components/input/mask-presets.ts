@@ -0,0 +1,96 @@
+import type { MaskTokens } from 'maska';
+import { detectCardBrand, genericCardMask } from './card-brands.js';
+import { validators, type ValidatorFn } from './validators.js';
+
+/**
+ * A mask pattern, or several from shortest to longest; maska picks one by input length
+ */
+export type MaskPattern = string | string[];
+
+/**
+ * Ready-made mask settings for `monk-masked-input`
+ */
+export interface MaskPreset {
+  /** Mask pattern, or a function picking the pattern for the digits entered so far */
+  mask: MaskPattern | ((digits: string) => string);
+  /** Prompt for the digits entered so far, shown in the input while it is incomplete */
+  prompt: (digits: string) => string;
+  /** Custom tokens used by the mask */
+  tokens?: MaskTokens;
+  /** Checks the unmasked value once something has been entered */
+  validator: ValidatorFn;
+  /** Mobile keyboard hint */
+  inputmode: string;
+  /** Autofill hint */
+  autocomplete?: string;
+  /** Submit the formatted value instead of the raw characters */
+  submitMasked?: boolean;
+}
+
+/**
+ * Names of the bundled presets
+ */
+export type MaskPresetName = 'ssn' | 'zip' | 'credit-card' | 'time';
+
+const cardMask = (digits: string): string => detectCardBrand(digits)?.mask ?? genericCardMask;
+
+/**
+ * Digits allowed at each position of HH:MM
+ */
+const timeDigits = [/[0-2]/, /[0-9]/, /[0-5]/, /[0-9]/];
+
+/**
+ * HH:MM cut short at the first digit that does not fit, so maska drops the digits after it
+ * instead of skipping it and moving them into the minutes ("2960" → "29", not "29:0")
+ */
+const timeMask = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  let fitting = 0;
+  while (fitting < timeDigits.length && timeDigits[fitting].test(digits.charAt(fitting))) {
+    fitting++;
+  }
+  return 'Hh:Mm'.slice(0, Math.max(fitting, 1) + (fitting > 2 ? 1 : 0));
+};
+
+/**
+ * Bundled presets
+ * - ssn: US Social Security number, XXX-XX-XXXX, checked with `validators.ssn`
+ * - zip: US ZIP code, 5 digits or ZIP+4
+ * - credit-card: card number grouped for its brand, with a Luhn check
+ * - time: 24-hour HH:MM, submitted with the colon
+ */
+export const maskPresets: Record<MaskPresetName, MaskPreset> = {
+  ssn: {
+    mask: '###-##-####',
+    prompt: () => '###-##-####',
+    validator: validators.ssn,
+    inputmode: 'numeric',
+  },
+  zip: {
+    mask: ['#####', '#####-####'],
+    prompt: () => '#####',
+    validator: validators.zip,
+    inputmode: 'numeric',
+    autocomplete: 'postal-code',
+  },
+  'credit-card': {
+    mask: cardMask,
+    prompt: (digits) => detectCardBrand(digits)?.mask ?? '#### #### #### ####',
+    validator: validators.creditCard,
+    inputmode: 'numeric',
+    autocomplete: 'cc-number',
+  },
+  time: {
+    mask: timeMask,
+    prompt: () => 'HH:MM',
+    tokens: {
+      H: { pattern: /[0-2]/ },
+      h: { pattern: /[0-9]/ },
+      M: { pattern: /[0-5]/ },
+      m: { pattern: /[0-9]/ },
+    },
+    validator: validators.time,
+    inputmode: 'numeric',
+    submitMasked: true,
+  },
+};
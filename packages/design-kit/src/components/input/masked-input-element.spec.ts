@@ -0,0 +1,237 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkMaskedInput } from './masked-input-element.js';
+import { detectCardBrand, passesLuhn } from './card-brands.js';
+
+const inputOf = (element: MonkMaskedInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const type = (element: MonkMaskedInput, text: string): void => {
+  const input = inputOf(element);
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+describe('MonkMaskedInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-masked-input');
+    expect(element).to.be.instanceOf(MonkMaskedInput);
+  });
+
+  describe('Custom Masks', () => {
+    it('should format the value with the mask attribute and show the prompt', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input mask="##/##" prompt="MM/YY" value="12"></monk-masked-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('12/YY');
+      expect(element.getMaskedValue()).to.equal('12');
+    });
+
+    it('should store and submit the raw characters', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-masked-input name="code" mask="###-###" value="123456"></monk-masked-input>
+        </form>
+      `);
+      const element = form.querySelector('monk-masked-input') as MonkMaskedInput;
+      await element.updateComplete;
+
+      expect(inputOf(element).value).to.equal('123-456');
+      expect(new FormData(form).get('code')).to.equal('123456');
+    });
+
+    it('should submit the formatted value with submit-masked', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-masked-input name="code" mask="###-###" value="123456" submit-masked>
+          </monk-masked-input>
+        </form>
+      `);
+      await form.querySelector('monk-masked-input')?.updateComplete;
+
+      expect(new FormData(form).get('code')).to.equal('123-456');
+    });
+
+    it('should use custom tokens', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input mask="AA-##" tokens="A:[A-Z]"></monk-masked-input>
+      `);
+
+      type(element, 'AB12');
+      await element.updateComplete;
+
+      expect(inputOf(element).value).to.equal('AB-12');
+    });
+
+    it('should pick among several masks by length', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input mask='["##-##", "###-###"]'></monk-masked-input>
+      `);
+
+      type(element, '1234');
+      await element.updateComplete;
+      expect(inputOf(element).value).to.equal('12-34');
+
+      type(element, '123456');
+      await element.updateComplete;
+      expect(inputOf(element).value).to.equal('123-456');
+    });
+
+    it('should rebind when the mask changes', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input mask="###-###" value="123456"></monk-masked-input>
+      `);
+
+      element.maskPattern = '## ## ##';
+      await element.updateComplete;
+
+      expect(inputOf(element).value).to.equal('12 34 56');
+    });
+
+    it('should warn once about malformed mask and tokens attributes and ignore them', async () => {
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => warnings.push(args[0]);
+      try {
+        const element = await fixture<MonkMaskedInput>(html`
+          <monk-masked-input mask='["##-##",' tokens="A:[A-Z|B:[0-9]"></monk-masked-input>
+        `);
+        element.setAttribute('mask', '["##-##",');
+
+        expect(element.maskPattern).to.be.undefined;
+        expect(Object.keys(element.maskTokens ?? {})).to.deep.equal(['B']);
+      } finally {
+        console.warn = warn;
+      }
+
+      expect(warnings).to.have.length(2);
+    });
+  });
+
+  describe('Presets', () => {
+    it('should format and validate a Social Security number', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input preset="ssn" value="000123456" validate></monk-masked-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('000-12-3456');
+      expect(element.performValidation()).to.be.false;
+      expect(element.validationErrors[0].code).to.equal('ssn');
+
+      element.value = '123456789';
+      await element.updateComplete;
+
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should accept 5-digit and ZIP+4 codes', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input preset="zip" value="123456789" validate></monk-masked-input>
+      `);
+
+      expect(inputOf(element).value).to.equal('12345-6789');
+      expect(inputOf(element).getAttribute('autocomplete')).to.equal('postal-code');
+      expect(element.performValidation()).to.be.true;
+
+      element.value = '1234567';
+      await element.updateComplete;
+
+      expect(element.performValidation()).to.be.false;
+    });
+
+    it('should group card numbers by brand and emit card-brand-change', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input preset="credit-card"></monk-masked-input>
+      `);
+
+      setTimeout(() => type(element, '378282246310005'));
+      const event = await oneEvent(element, 'card-brand-change');
+
+      expect(event.detail.brand.id).to.equal('amex');
+      expect(inputOf(element).value).to.equal('3782 822463 10005');
+      expect(element.shadowRoot?.querySelector('.card-brand')?.textContent).to.equal(
+        'American Express'
+      );
+    });
+
+    it('should reject card numbers failing the Luhn check', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input preset="credit-card" value="4111111111111112" validate>
+        </monk-masked-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.validationErrors[0].code).to.equal('creditCard');
+
+      element.value = '4111111111111111';
+      await element.updateComplete;
+
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should format times as HH:MM and submit them with the colon', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-masked-input name="at" preset="time" value="0930"></monk-masked-input></form>
+      `);
+      const element = form.querySelector('monk-masked-input') as MonkMaskedInput;
+      await element.updateComplete;
+
+      expect(inputOf(element).value).to.equal('09:30');
+      expect(new FormData(form).get('at')).to.equal('09:30');
+    });
+
+    it('should reject impossible times', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input preset="time" value="2960" validate></monk-masked-input>
+      `);
+
+      expect(element.value).to.equal('29');
+      expect(element.performValidation()).to.be.false;
+
+      element.value = '0975';
+      await element.updateComplete;
+      expect(inputOf(element).value, 'no minute digit slips past a rejected one').to.equal('09:MM');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should validate again on submit once the constraints change', async () => {
+      const element = await fixture<MonkMaskedInput>(html`
+        <monk-masked-input mask="###-###" validate></monk-masked-input>
+      `);
+
+      element.performValidation();
+      expect(await element.validateForSubmit()).to.be.true;
+
+      element.required = true;
+      await element.updateComplete;
+      expect(await element.validateForSubmit(), 'required').to.be.false;
+
+      element.required = false;
+      element.value = '123456';
+      await element.updateComplete;
+      element.performValidation();
+      expect(await element.validateForSubmit()).to.be.true;
+
+      element.validators = [() => false];
+      await element.updateComplete;
+      expect(await element.validateForSubmit(), 'validators').to.be.false;
+    });
+  });
+
+  describe('Card helpers', () => {
+    it('should detect brands from leading digits', () => {
+      expect(detectCardBrand('4111 1111')?.id).to.equal('visa');
+      expect(detectCardBrand('5500 0000')?.id).to.equal('mastercard');
+      expect(detectCardBrand('2221 0000')?.id).to.equal('mastercard');
+      expect(detectCardBrand('6011 0000')?.id).to.equal('discover');
+      expect(detectCardBrand('9999')).to.be.undefined;
+    });
+
+    it('should check the Luhn checksum', () => {
+      expect(passesLuhn('4111 1111 1111 1111')).to.be.true;
+      expect(passesLuhn('4111 1111 1111 1112')).to.be.false;
+      expect(passesLuhn('')).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './masked-input-element.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/MaskedInput',
+  component: 'monk-masked-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The MaskedInput component formats free text with any pattern as it is typed.
+
+## Features
+
+- \`mask\` pattern: \`#\` digit, \`@\` letter, \`*\` letter or digit
+- Custom \`tokens\`, e.g. \`tokens="A:[A-Z]"\`
+- Several patterns at once, picked by length: \`mask='["#####", "#####-####"]'\`
+- \`prompt\` shown while the input is incomplete, e.g. \`MM/YY\`
+- Presets with their own validation: \`ssn\`, \`zip\`, \`credit-card\` (Luhn check and
+  brand detection) and \`time\` (HH:MM)
+- The raw characters are submitted, unless \`submit-masked\` is set
+
+## Usage
+
+\`\`\`html
+<monk-masked-input label="SSN" preset="ssn" validate></monk-masked-input>
+<monk-masked-input label="Expiry" mask="##/##" prompt="MM/YY"></monk-masked-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-masked-input
+      label="Expiry date"
+      mask="##/##"
+      prompt="MM/YY"
+      inputmode="numeric"
+    ></monk-masked-input>
+  `,
+};
+
+export const Presets: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-masked-input label="Social Security number" preset="ssn" validate>
+      </monk-masked-input>
+      <monk-masked-input label="ZIP code" preset="zip" validate></monk-masked-input>
+      <monk-masked-input label="Card number" preset="credit-card" validate></monk-masked-input>
+      <monk-masked-input label="Pickup time" preset="time" validate></monk-masked-input>
+    </monk-stack>
+  `,
+};
+
+export const CustomTokens: Story = {
+  render: () => html`
+    <monk-masked-input
+      label="Licence plate"
+      mask="AAA-####"
+      tokens="A:[A-Za-z]"
+      helper-text="Three letters and four digits"
+    ></monk-masked-input>
+  `,
+};
+
+export const MultipleMasks: Story = {
+  render: () => html`
+    <monk-masked-input
+      label="Tax ID"
+      mask='["##-#######", "###-##-####"]'
+      helper-text="EIN or SSN"
+    ></monk-masked-input>
+  `,
+};
+
+export const CardBrand: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-masked-input
+        label="Card number"
+        preset="credit-card"
+        validate
+        @card-brand-change=${(e: CustomEvent) => {
+          const output = (e.target as HTMLElement).nextElementSibling as HTMLElement;
+          output.textContent = e.detail.brand ? `Brand: ${e.detail.brand.name}` : '';
+        }}
+      ></monk-masked-input>
+      <output></output>
+    </monk-stack>
+  `,
+};
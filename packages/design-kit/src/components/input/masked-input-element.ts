@@ -0,0 +1,295 @@
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { Mask, type MaskTokens } from 'maska';
+import { BaseInput } from './base-input.js';
+import { MaskedInput } from './masked-input.js';
+import { detectCardBrand, type CardBrand } from './card-brands.js';
+import {
+  maskPresets,
+  type MaskPattern,
+  type MaskPreset,
+  type MaskPresetName,
+} from './mask-presets.js';
+import { compilePattern, type Validator } from './validators.js';
+
+/**
+ * Detail of the `card-brand-change` event
+ */
+export interface CardBrandChangeDetail {
+  /** The detected brand, or undefined when the number matches none */
+  brand?: CardBrand;
+}
+
+/**
+ * `mask` attributes already reported as malformed
+ */
+const invalidMasks = new Set<string>();
+
+/**
+ * Read the `mask` attribute: a pattern, or a JSON array of patterns
+ * A malformed array is reported once and ignored.
+ */
+const toMaskPattern = (value: string | null): MaskPattern | undefined => {
+  if (value === null) return undefined;
+  if (!value.trim().startsWith('[')) return value;
+
+  try {
+    const patterns: unknown = JSON.parse(value);
+    if (Array.isArray(patterns) && patterns.every((pattern) => typeof pattern === 'string')) {
+      return patterns as string[];
+    }
+  } catch {
+    // Reported below
+  }
+  if (!invalidMasks.has(value)) {
+    invalidMasks.add(value);
+    console.warn(`[monkbunch] Invalid mask "${value}"; expected a JSON array of patterns`);
+  }
+  return undefined;
+};
+
+/**
+ * Read the `tokens` attribute, in maska's `name:pattern[:flag]` form separated by `|`
+ * e.g. `A:[A-Z]|Z:[0-9]:optional`
+ * A token with an invalid pattern is reported once and skipped.
+ */
+const toMaskTokens = (value: string | null): MaskTokens | undefined => {
+  if (!value) return undefined;
+
+  const tokens: MaskTokens = {};
+  for (const definition of value.split('|')) {
+    const [name, pattern, flag] = definition.trim().split(':');
+    const regex = name && pattern ? compilePattern(pattern) : undefined;
+    if (!regex) continue;
+
+    tokens[name] = {
+      pattern: regex,
+      optional: flag === 'optional',
+      multiple: flag === 'multiple',
+      repeated: flag === 'repeated',
+    };
+  }
+  return tokens;
+};
+
+/**
+ * Masked input component - Text input formatted by any maska pattern
+ *
+ * Takes a pattern (`#` digit, `@` letter, `*` letter or digit, plus custom
+ * `tokens`), an optional prompt shown while the input is incomplete, and
+ * several patterns at once for variable-length values. `preset` selects a
+ * bundled format with its own validation: `ssn`, `zip`, `credit-card` or
+ * `time`. The raw characters are stored in `value` and submitted, unless
+ * `submit-masked` is set.
+ *
+ * @element monk-masked-input
+ *
+ * @example
+ * ```html
+ * <monk-masked-input label="SSN" preset="ssn" validate></monk-masked-input>
+ *
+ * <monk-masked-input label="Card number" preset="credit-card" validate></monk-masked-input>
+ *
+ * <!-- IBAN: two letters, then digits and letters in groups of four -->
+ * <monk-masked-input
+ *   label="IBAN"
+ *   mask="@@## **** **** **** **** **** **"
+ *   tokens="@:[A-Za-z]"
+ * ></monk-masked-input>
+ *
+ * <!-- Several patterns, picked by length -->
+ * <monk-masked-input label="Tax ID" mask='["##-#######", "###-##-####"]'></monk-masked-input>
+ * ```
+ *
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ * @fires card-brand-change - Fired when the detected card brand changes (credit-card preset),
+ *   detail: `{ brand }`
+ *
+ * @csspart card-brand - The detected card brand name (credit-card preset)
+ */
+@customElement('monk-masked-input')
+export class MonkMaskedInput extends MaskedInput {
+  /**
+   * Mask pattern, or several from shortest to longest (attribute: JSON array)
+   * Takes precedence over the preset's pattern
+   */
+  @property({ attribute: 'mask', converter: toMaskPattern })
+  maskPattern?: MaskPattern;
+
+  /**
+   * Prompt shown in the input while it is incomplete, e.g. "MM/YY"
+   * Defaults to the preset's prompt, or none
+   */
+  @property({ type: String, attribute: 'prompt' })
+  maskPrompt?: string;
+
+  /**
+   * Custom mask tokens (attribute: `name:pattern[:flag]` entries separated by `|`)
+   */
+  @property({ attribute: 'tokens', converter: toMaskTokens })
+  maskTokens?: MaskTokens;
+
+  /**
+   * Insert the pattern's literal characters as soon as they are reached
+   * @default false
+   */
+  @property({ type: Boolean })
+  eager = false;
+
+  /**
+   * Fill the pattern from the right, e.g. for amounts
+   * @default false
+   */
+  @property({ type: Boolean })
+  reversed = false;
+
+  /**
+   * Bundled format with its own pattern, prompt and validation
+   */
+  @property({ type: String, reflect: true })
+  preset?: MaskPresetName;
+
+  /**
+   * Submit the formatted value instead of the raw characters
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'submit-masked' })
+  submitMasked = false;
+
+  private _mask?: Mask;
+
+  /**
+   * Whether the mask changed after the native input was bound to the old one
+   */
+  private _maskChanged = false;
+
+  private _cardBrand?: CardBrand;
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .card-brand {
+        flex-shrink: 0;
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        font-weight: var(--monk-font-weight-semibold);
+        white-space: nowrap;
+      }
+    `,
+  ];
+
+  /**
+   * Settings of the current preset, if any
+   */
+  get presetData(): MaskPreset | undefined {
+    return this.preset ? maskPresets[this.preset] : undefined;
+  }
+
+  /**
+   * Brand of the card number entered so far (credit-card preset)
+   */
+  get cardBrand(): CardBrand | undefined {
+    return this.preset === 'credit-card' ? detectCardBrand(this.value) : undefined;
+  }
+
+  protected get prompt(): string {
+    return this.maskPrompt ?? this.presetData?.prompt(this.value) ?? '';
+  }
+
+  protected get mask(): Mask {
+    if (!this._mask) {
+      const preset = this.presetData;
+      const tokens = { ...preset?.tokens, ...this.maskTokens };
+
+      this._mask = new Mask({
+        mask: this.maskPattern ?? preset?.mask ?? null,
+        tokens: Object.keys(tokens).length ? tokens : undefined,
+        eager: this.eager,
+        reversed: this.reversed,
+      });
+    }
+    return this._mask;
+  }
+
+  override get formValue(): string {
+    return this.submitMasked || this.presetData?.submitMasked
+      ? this.getMaskedValue()
+      : super.formValue;
+  }
+
+  /**
+   * Check the value with the preset's validator once something has been entered
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    const preset = this.presetData;
+    if (preset && this.value) {
+      declared.push(preset.validator);
+    }
+    return declared;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    const maskKeys = ['maskPattern', 'maskTokens', 'eager', 'reversed', 'preset'];
+    if (maskKeys.some((key) => changedProperties.has(key as keyof MonkMaskedInput))) {
+      this._mask = undefined;
+      this._maskChanged = this.hasUpdated;
+    }
+
+    // Keyboard and autofill hints from the preset, unless set explicitly
+    const preset = this.presetData;
+    if (changedProperties.has('preset') && preset) {
+      if (!this.inputmode) {
+        this.inputmode = preset.inputmode;
+      }
+      if (!this.autocomplete) {
+        this.autocomplete = preset.autocomplete;
+      }
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (this._maskChanged) {
+      this._maskChanged = false;
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+
+    if (changedProperties.has('value') || changedProperties.has('preset')) {
+      this.updateCardBrand();
+    }
+  }
+
+  private updateCardBrand(): void {
+    const brand = this.cardBrand;
+    if (brand?.id === this._cardBrand?.id) return;
+
+    this._cardBrand = brand;
+    this.emitEvent<CardBrandChangeDetail>('card-brand-change', { brand });
+  }
+
+  protected override renderSuffix() {
+    const brand = this.cardBrand;
+
+    return html`
+      ${brand ? html`<span class="card-brand" part="card-brand">${brand.name}</span>` : ''}
+      ${super.renderSuffix()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-masked-input': MonkMaskedInput;
+  }
+}
@@ -25,6 +25,11 @@ export abstract class MaskedInput extends BaseInput {
    */
   private cursorPositionOverride: number | null = null;
 
+  /**
+   * Active maska instance bound to the native input
+   */
+  private maskInput?: MaskInput;
+
   /**
    * Get the input type (defaults to 'text' for masked inputs)
    */
@@ -32,6 +37,13 @@ export abstract class MaskedInput extends BaseInput {
     return 'text';
   }
 
+  /**
+   * Submit the unmasked value with the owning form
+   */
+  override get formValue(): string {
+    return this.getUnmaskedValue();
+  }
+
   protected override update(changedProperties: PropertyValues<this>): void {
     super.update(changedProperties);
 
@@ -44,13 +56,24 @@ export abstract class MaskedInput extends BaseInput {
 
   protected override updated(changedProperties: PropertyValues<this>): void {
     // Override BaseInput's updated to sync unmasked value to masked display
-    if (changedProperties.has('value') && this._input) {
-      const maskedValue = this.mask.masked(this.value);
-      const displayValue = `${maskedValue}${this.prompt.slice(maskedValue.length)}`;
+    if (changedProperties.has('value')) {
+      this.syncDisplayValue();
+    }
 
-      if (this._input.value !== displayValue) {
-        this._input.value = displayValue;
-      }
+    this.updateFormState();
+  }
+
+  /**
+   * Write the masked value, padded with the rest of the prompt, to the native input
+   */
+  protected syncDisplayValue(): void {
+    if (!this._input) return;
+
+    const maskedValue = this.mask.masked(this.value);
+    const displayValue = `${maskedValue}${this.prompt.slice(maskedValue.length)}`;
+
+    if (this._input.value !== displayValue) {
+      this._input.value = displayValue;
     }
   }
 
@@ -65,8 +88,24 @@ export abstract class MaskedInput extends BaseInput {
       inputElement.value = this.prompt;
     }
 
+    this.initializeMask();
+
+    // Prevent forcing cursor to always be at the end of the input after initial render
+    this.cursorPositionOverride = null;
+  }
+
+  /**
+   * Bind maska to the native input, replacing any previous binding
+   * Subclasses whose mask changes at runtime call this after swapping `mask`
+   */
+  protected initializeMask(): void {
+    const inputElement = this._input;
+    if (!inputElement) return;
+
+    this.maskInput?.destroy();
+
     // Initialize MaskInput with smart cursor positioning
-    new MaskInput(inputElement, {
+    this.maskInput = new MaskInput(inputElement, {
       ...this.mask.opts,
       postProcess: (v) => {
         // Called after text field is updated, but before mask is applied
@@ -96,9 +135,6 @@ export abstract class MaskedInput extends BaseInput {
         inputElement.value = `${v.masked}${this.prompt.slice(v.masked.length)}`;
       },
     });
-
-    // Prevent forcing cursor to always be at the end of the input after initial render
-    this.cursorPositionOverride = null;
   }
 
   protected override _handleInput(event: Event): void {
@@ -110,7 +146,7 @@ export abstract class MaskedInput extends BaseInput {
 
     // Trigger validation if validateOn is 'input'
     if (this.validate && this.validateOn === 'input') {
-      this.performValidation();
+      this.validateWhileTyping();
     }
 
     // Dispatch event with unmasked value
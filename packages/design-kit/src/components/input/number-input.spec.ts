@@ -217,4 +217,165 @@ describe('MonkNumberInput', () => {
       expect(element.disabled).to.be.true;
     });
   });
+
+  describe('Stepper Mode', () => {
+    const press = async (element: MonkNumberInput, key: string): Promise<void> => {
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+      input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+      await element.updateComplete;
+    };
+
+    it('should replace the browser spinner with stepper buttons', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper></monk-number-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.type).to.equal('text');
+      expect(input?.getAttribute('role')).to.equal('spinbutton');
+      expect(input?.getAttribute('inputmode')).to.equal('decimal');
+      expect(element.shadowRoot?.querySelector('[part="increment-button"]')).to.exist;
+      expect(element.shadowRoot?.querySelector('[part="decrement-button"]')).to.exist;
+    });
+
+    it('should step with the arrow and page keys', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper value="5" step="2"></monk-number-input>
+      `);
+
+      await press(element, 'ArrowUp');
+      expect(element.value).to.equal('7');
+
+      await press(element, 'ArrowDown');
+      await press(element, 'ArrowDown');
+      expect(element.value).to.equal('3');
+
+      await press(element, 'PageUp');
+      expect(element.value).to.equal('23');
+    });
+
+    it('should jump to min and max with Home and End', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper value="5" min="1" max="10"></monk-number-input>
+      `);
+
+      await press(element, 'End');
+      expect(element.value).to.equal('10');
+
+      await press(element, 'Home');
+      expect(element.value).to.equal('1');
+    });
+
+    it('should clamp stepped values to min and max', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper value="9" min="0" max="10" step="3"></monk-number-input>
+      `);
+
+      await press(element, 'ArrowUp');
+      expect(element.value).to.equal('10');
+
+      const increment = element.shadowRoot?.querySelector(
+        '[part="increment-button"]'
+      ) as HTMLButtonElement;
+      expect(increment.disabled).to.be.true;
+    });
+
+    it('should step decimals without floating point drift', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper value="0.1" step="0.1"></monk-number-input>
+      `);
+
+      await press(element, 'ArrowUp');
+      await press(element, 'ArrowUp');
+
+      // 0.1 + 0.1 + 0.1 is 0.30000000000000004 in floating point
+      expect(element.value).to.equal('0.3');
+    });
+
+    it('should step from zero when empty', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper min="5"></monk-number-input>
+      `);
+
+      element.stepUp();
+      expect(element.value).to.equal('5');
+    });
+
+    it('should format with the locale when not focused', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper locale="de-DE" value="1234.5"></monk-number-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+      expect(input.value).to.equal('1.234,5');
+      expect(element.value).to.equal('1234.5');
+
+      input.dispatchEvent(new FocusEvent('focus'));
+      expect(input.value).to.equal('1234,5');
+    });
+
+    it('should keep the step precision when formatting', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper locale="en-US" step="0.01" value="5"></monk-number-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('5.00');
+    });
+
+    it('should parse typed locale numbers to a plain numeric value', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper locale="de-DE"></monk-number-input>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      input.value = '-1.234,75';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(element.value).to.equal('-1234.75');
+    });
+
+    it('should clamp typed values when committed', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper max="100"></monk-number-input>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      setTimeout(() => {
+        input.value = '250';
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+      });
+      const event = await oneEvent(element, 'input-changed');
+
+      expect(event.detail.value).to.equal('100');
+    });
+
+    it('should show the unit and include it in aria-valuetext', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper unit="kg" value="12" min="0" max="50"></monk-number-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(element.shadowRoot?.querySelector('[part="unit"]')?.textContent?.trim()).to.equal(
+        'kg'
+      );
+      expect(input?.getAttribute('aria-valuenow')).to.equal('12');
+      expect(input?.getAttribute('aria-valuemin')).to.equal('0');
+      expect(input?.getAttribute('aria-valuemax')).to.equal('50');
+      expect(input?.getAttribute('aria-valuetext')).to.equal('12 kg');
+    });
+
+    it('should step once per click from assistive technology', async () => {
+      const element = await fixture<MonkNumberInput>(html`
+        <monk-number-input stepper value="1"></monk-number-input>
+      `);
+
+      const decrement = element.shadowRoot?.querySelector(
+        '[part="decrement-button"]'
+      ) as HTMLButtonElement;
+      decrement.click();
+
+      expect(element.value).to.equal('0');
+    });
+  });
 });
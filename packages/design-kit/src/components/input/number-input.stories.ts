@@ -239,3 +239,58 @@ export const DifferentRanges: Story = {
     </monk-stack>
   `,
 };
+
+export const Stepper: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-heading level="h4">Stepper Mode</monk-heading>
+      <monk-text size="sm">
+        Hold a button to speed up. Arrow Up/Down, Page Up/Down, Home and End also work.
+      </monk-text>
+
+      <monk-number-input label="Guests" stepper value="2" min="1" max="12"></monk-number-input>
+
+      <monk-number-input
+        label="Weight"
+        stepper
+        value="2.5"
+        min="0"
+        max="50"
+        step="0.5"
+        unit="kg"
+      ></monk-number-input>
+
+      <monk-number-input
+        label="Interest rate"
+        stepper
+        value="3.25"
+        step="0.05"
+        unit="%"
+      ></monk-number-input>
+    </monk-stack>
+  `,
+};
+
+export const StepperLocale: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-text size="sm">
+        The value stays a plain number; only the display is localized.
+      </monk-text>
+      <monk-number-input
+        label="en-US"
+        stepper
+        locale="en-US"
+        value="1234567.5"
+        step="0.1"
+      ></monk-number-input>
+      <monk-number-input
+        label="de-DE"
+        stepper
+        locale="de-DE"
+        value="1234567.5"
+        step="0.1"
+      ></monk-number-input>
+    </monk-stack>
+  `,
+};
@@ -1,9 +1,43 @@
-import { customElement } from 'lit/decorators.js';
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
 import { BaseInput } from './base-input.js';
 
+/**
+ * Delay before a held stepper button starts repeating, in milliseconds
+ */
+const HOLD_DELAY = 400;
+
+/**
+ * Shortest repeat interval of a held stepper button, in milliseconds
+ */
+const HOLD_MIN_INTERVAL = 40;
+
+/**
+ * Each repeat of a held stepper button comes this much sooner than the last
+ */
+const HOLD_ACCELERATION = 0.8;
+
+/**
+ * Page Up / Page Down move this many steps
+ */
+const PAGE_STEPS = 10;
+
+/**
+ * Number of digits after the decimal point of a plain numeric string
+ */
+const decimalsOf = (value: string): number => {
+  const [mantissa, exponent] = value.toLowerCase().split('e');
+  const fraction = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent ?? 0));
+};
+
 /**
  * Number input component - Numeric input with spinner controls
  *
+ * In stepper mode the browser spinner is replaced by themed increment/decrement buttons
+ * and the value is shown in the locale's number format while the input is not focused.
+ * `value` is always a plain numeric string (e.g. "1234.5").
+ *
  * @element monk-number-input
  *
  * @example
@@ -20,20 +54,513 @@ import { BaseInput } from './base-input.js';
  *   .validators=${[validators.min(1), validators.max(100)]}
  *   validation-message="Quantity must be between 1 and 100"
  * ></monk-number-input>
+ *
+ * <!-- Stepper with unit, clamped to 0-50 in steps of 0.5 -->
+ * <monk-number-input
+ *   label="Weight"
+ *   stepper
+ *   min="0"
+ *   max="50"
+ *   step="0.5"
+ *   unit="kg"
+ *   locale="de-DE"
+ * ></monk-number-input>
  * ```
  *
- * @fires input-change - Fired when the input value changes (on input event)
- * @fires input-changed - Fired when the input value is committed (on change event)
+ * @accessibility
+ * - In stepper mode the input has `role="spinbutton"` with `aria-valuenow`, `aria-valuemin`,
+ *   `aria-valuemax` and an `aria-valuetext` that includes the unit
+ * - Arrow Up/Down step, Page Up/Down step ten times, Home/End go to min/max
+ * - The buttons are left out of the tab order; the input handles the keyboard
+ *
+ * @fires input-change - Fired when the input value changes (on input event or step)
+ * @fires input-changed - Fired when the input value is committed (on change event or step)
  * @fires input-focus - Fired when the input receives focus
  * @fires input-blur - Fired when the input loses focus
  * @fires input-keydown - Fired on keydown event
  * @fires input-invalid - Fired when validation fails
  * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ *
+ * @csspart unit - The unit suffix
+ * @csspart stepper - The increment/decrement button group
+ * @csspart increment-button - The increment button
+ * @csspart decrement-button - The decrement button
  */
 @customElement('monk-number-input')
 export class MonkNumberInput extends BaseInput {
+  /**
+   * Replace the browser spinner with themed buttons, keyboard stepping and locale formatting
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  stepper = false;
+
+  /**
+   * BCP 47 locale for stepper-mode formatting (defaults to the browser locale)
+   */
+  @property({ type: String, reflect: true })
+  locale?: string;
+
+  /**
+   * Unit shown after the value (e.g. "kg", "%")
+   */
+  @property({ type: String })
+  unit?: string;
+
+  private _holdTimer?: ReturnType<typeof setTimeout>;
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .unit {
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        white-space: nowrap;
+        padding-right: var(--monk-space-2);
+      }
+
+      .stepper {
+        display: flex;
+        flex-direction: column;
+        align-self: stretch;
+        border-left: 1px solid var(--monk-color-border-default);
+      }
+
+      .step-button {
+        display: flex;
+        flex: 1;
+        align-items: center;
+        justify-content: center;
+        min-width: 28px;
+        padding: 0 var(--monk-space-1);
+        border: none;
+        background: transparent;
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        line-height: 1;
+        cursor: pointer;
+        transition: background-color 150ms ease-in-out, color 150ms ease-in-out;
+        user-select: none;
+        touch-action: manipulation;
+      }
+
+      .step-button + .step-button {
+        border-top: 1px solid var(--monk-color-border-default);
+      }
+
+      .step-button:hover:not(:disabled) {
+        background-color: var(--monk-color-bg-hover);
+        color: var(--monk-color-text-primary);
+      }
+
+      .step-button:active:not(:disabled) {
+        background-color: var(--monk-color-bg-subtle);
+      }
+
+      .step-button:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .step-button {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
   protected override get inputType(): string {
-    return 'number';
+    return this.stepper ? 'text' : 'number';
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.stopHold();
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Bring up the numeric keyboard, which type="text" no longer implies
+    if (changedProperties.has('stepper') && this.stepper && !this.inputmode) {
+      this.inputmode = 'decimal';
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    if (!this.stepper) {
+      super.updated(changedProperties);
+      this.syncSpinbuttonState();
+      return;
+    }
+
+    // BaseInput.updated() would overwrite the formatted value, so sync the display here
+    const displayChanged = ['value', 'locale', 'step', 'stepper'].some((key) =>
+      changedProperties.has(key as keyof MonkNumberInput)
+    );
+    if (displayChanged && this._input) {
+      const display = this._focused ? this.editDisplay(this.value) : this.formatNumber(this.value);
+      if (this._input.value !== display) {
+        this._input.value = display;
+      }
+    }
+
+    this.syncSpinbuttonState();
+    this.updateFormState();
+  }
+
+  /**
+   * Increase the value by `step` (or `step` × `count`), clamped to max
+   */
+  public stepUp(count = 1): void {
+    this.stepBy(count);
+  }
+
+  /**
+   * Decrease the value by `step` (or `step` × `count`), clamped to min
+   */
+  public stepDown(count = 1): void {
+    this.stepBy(-count);
+  }
+
+  /**
+   * Get the value as a number (NaN when empty or incomplete)
+   */
+  public getNumericValue(): number {
+    return this.value === '' ? NaN : Number(this.value);
+  }
+
+  protected override formatBound(bound: number): string {
+    return this.stepper ? this.formatNumber(String(bound)) : super.formatBound(bound);
+  }
+
+  protected override _handleInput(event: Event): void {
+    if (!this.stepper) {
+      super._handleInput(event);
+      return;
+    }
+
+    this.value = this.parseNumber((event.target as HTMLInputElement).value);
+
+    // Trigger validation if validateOn is 'input'
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+
+    this.emitValueEvent('input-change', event);
+  }
+
+  protected override _handleChange(event: Event): void {
+    if (!this.stepper) {
+      super._handleChange(event);
+      return;
+    }
+
+    // Clamp the committed value and drop incomplete input such as "-" or "."
+    this.value = this.normalizeNumber(this.parseNumber((event.target as HTMLInputElement).value));
+
+    // Trigger validation if validateOn is 'change'
+    if (this.validate && this.validateOn === 'change') {
+      this.performValidation();
+    }
+
+    this.emitValueEvent('input-changed', event);
+  }
+
+  protected override _handleFocus(event: FocusEvent): void {
+    super._handleFocus(event);
+
+    // Show the plain number for editing
+    if (this.stepper && this._input) {
+      this._input.value = this.editDisplay(this.value);
+    }
+  }
+
+  protected override _handleBlur(event: FocusEvent): void {
+    super._handleBlur(event);
+    this.stopHold();
+
+    if (this.stepper && this._input) {
+      this._input.value = this.formatNumber(this.value);
+    }
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    if (this.stepper && !this.isDisabled && !this.readonly) {
+      const { min, max } = this.bounds;
+      const actions: Record<string, () => void> = {
+        ArrowUp: () => this.stepBy(1, event),
+        ArrowDown: () => this.stepBy(-1, event),
+        PageUp: () => this.stepBy(PAGE_STEPS, event),
+        PageDown: () => this.stepBy(-PAGE_STEPS, event),
+        ...(min !== undefined && { Home: () => this.commitStep(String(min), event) }),
+        ...(max !== undefined && { End: () => this.commitStep(String(max), event) }),
+      };
+
+      if (event.key in actions) {
+        event.preventDefault();
+        actions[event.key]();
+      }
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  /**
+   * Numeric min/max, ignoring values that are not numbers
+   */
+  private get bounds(): { min?: number; max?: number } {
+    const toBound = (bound?: string): number | undefined =>
+      bound === undefined || bound === '' || Number.isNaN(Number(bound))
+        ? undefined
+        : Number(bound);
+    return { min: toBound(this.min), max: toBound(this.max) };
+  }
+
+  /**
+   * Step size as a string, so its precision is known ("any" and invalid steps count as 1)
+   */
+  private get stepValue(): string {
+    const step = Number(this.step);
+    return this.step && this.step !== 'any' && step > 0 ? this.step : '1';
+  }
+
+  private clamp(value: number): number {
+    const { min, max } = this.bounds;
+    if (min !== undefined && value < min) return min;
+    if (max !== undefined && value > max) return max;
+    return value;
+  }
+
+  /**
+   * Move the value by a number of steps
+   * Works in integers scaled to the finest precision involved, so 0.1 + 0.2 gives 0.3
+   * @returns whether the value changed
+   */
+  private stepBy(steps: number, originalEvent?: Event): boolean {
+    const step = this.stepValue;
+    const current = this.value === '' || Number.isNaN(Number(this.value)) ? '0' : this.value;
+    const precision = Math.max(decimalsOf(step), decimalsOf(current));
+    const scale = 10 ** precision;
+
+    const scaled = Math.round(Number(current) * scale) + steps * Math.round(Number(step) * scale);
+    const next = this.clamp(scaled / scale);
+
+    return this.commitStep(next.toFixed(precision), originalEvent);
+  }
+
+  /**
+   * Apply a stepped value: update the display, validate and notify
+   * @returns whether the value changed
+   */
+  private commitStep(value: string, originalEvent?: Event): boolean {
+    if (value === this.value) return false;
+
+    this.value = value;
+    if (this.validate && this.validateOn !== 'blur') {
+      this.performValidation();
+    }
+
+    this.emitValueEvent('input-change', originalEvent);
+    this.emitValueEvent('input-changed', originalEvent);
+    return true;
+  }
+
+  private emitValueEvent(name: string, originalEvent?: Event): void {
+    this.dispatchEvent(
+      new CustomEvent(name, {
+        detail: { value: this.value, originalEvent },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private startHold(steps: number, event: PointerEvent): void {
+    if (event.button !== 0) return;
+
+    // Keep focus in the input so the keyboard keeps working
+    event.preventDefault();
+    this._input?.focus();
+    this.stopHold();
+
+    if (!this.stepBy(steps, event)) return;
+
+    const repeat = (delay: number): void => {
+      this._holdTimer = setTimeout(() => {
+        if (this.stepBy(steps, event)) {
+          repeat(Math.max(HOLD_MIN_INTERVAL, delay * HOLD_ACCELERATION));
+        }
+      }, delay);
+    };
+    repeat(HOLD_DELAY);
+  }
+
+  private stopHold = (): void => {
+    clearTimeout(this._holdTimer);
+    this._holdTimer = undefined;
+  };
+
+  private _handleStepClick(steps: number, event: MouseEvent): void {
+    // Pointer presses are handled on pointerdown; this catches clicks from assistive tech
+    if (event.detail === 0) {
+      this.stepBy(steps, event);
+    }
+  }
+
+  /**
+   * Locale decimal separator and digit grouping character
+   */
+  private get separators(): { decimal: string; group: string } {
+    const parts = new Intl.NumberFormat(this.locale).formatToParts(12345.6);
+    return {
+      decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+      group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    };
+  }
+
+  /**
+   * Convert typed text in the current locale to a plain numeric string
+   * e.g. "1.234,5" in de-DE becomes "1234.5"; may be incomplete ("-", "12.")
+   */
+  private parseNumber(text: string): string {
+    const { decimal } = this.separators;
+
+    let number = '';
+    for (const char of text.trim()) {
+      if (char >= '0' && char <= '9') {
+        number += char;
+      } else if (char === decimal && !number.includes('.')) {
+        number += '.';
+      } else if ((char === '-' || char === '−') && number === '') {
+        number = '-';
+      }
+    }
+    return number;
+  }
+
+  /**
+   * Complete and clamp a plain numeric string
+   */
+  private normalizeNumber(value: string): string {
+    if (value === '' || Number.isNaN(Number(value)) || !/\d/.test(value)) return '';
+
+    const clamped = this.clamp(Number(value));
+    if (clamped !== Number(value)) return String(clamped);
+    return value.replace(/\.$/, '').replace(/^(-?)\./, '$10.');
+  }
+
+  /**
+   * Plain number with the locale decimal separator, for editing
+   */
+  private editDisplay(value: string): string {
+    return value.replace('.', this.separators.decimal);
+  }
+
+  /**
+   * Locale-formatted number, keeping at least the step's decimals
+   */
+  private formatNumber(value: string): string {
+    if (value === '' || Number.isNaN(Number(value))) return value;
+
+    const minimumFractionDigits = Math.min(decimalsOf(this.stepValue), 20);
+    return new Intl.NumberFormat(this.locale, {
+      minimumFractionDigits,
+      maximumFractionDigits: Math.min(Math.max(minimumFractionDigits, decimalsOf(value)), 20),
+    }).format(Number(value));
+  }
+
+  /**
+   * Spinbutton role and state on the native input in stepper mode
+   */
+  private syncSpinbuttonState(): void {
+    const input = this._input;
+    if (!input) return;
+
+    const attributes = [
+      'role',
+      'aria-valuenow',
+      'aria-valuemin',
+      'aria-valuemax',
+      'aria-valuetext',
+    ];
+    if (!this.stepper) {
+      attributes.forEach((name) => input.removeAttribute(name));
+      return;
+    }
+
+    const { min, max } = this.bounds;
+    const number = this.getNumericValue();
+    const state: Record<string, string | undefined> = {
+      role: 'spinbutton',
+      'aria-valuenow': Number.isNaN(number) ? undefined : String(number),
+      'aria-valuemin': min === undefined ? undefined : String(min),
+      'aria-valuemax': max === undefined ? undefined : String(max),
+      'aria-valuetext':
+        this.value && this.unit ? `${this.formatNumber(this.value)} ${this.unit}` : undefined,
+    };
+
+    for (const [name, value] of Object.entries(state)) {
+      if (value === undefined) {
+        input.removeAttribute(name);
+      } else {
+        input.setAttribute(name, value);
+      }
+    }
+  }
+
+  protected override renderSuffix() {
+    const number = this.getNumericValue();
+    const { min, max } = this.bounds;
+    const locked = this.isDisabled || this.readonly;
+
+    const unit = this.unit
+      ? html`<span class="unit" part="unit" aria-hidden=${this.stepper ? 'true' : nothing}>
+          ${this.unit}
+        </span>`
+      : nothing;
+
+    if (!this.stepper) {
+      return html`${unit} ${super.renderSuffix()}`;
+    }
+
+    return html`
+      ${unit} ${super.renderSuffix()}
+      <div class="stepper" part="stepper">
+        <button
+          type="button"
+          class="step-button"
+          part="increment-button"
+          aria-label="Increase"
+          tabindex="-1"
+          ?disabled=${locked || (max !== undefined && number >= max)}
+          @pointerdown=${(event: PointerEvent) => this.startHold(1, event)}
+          @pointerup=${this.stopHold}
+          @pointerleave=${this.stopHold}
+          @pointercancel=${this.stopHold}
+          @click=${(event: MouseEvent) => this._handleStepClick(1, event)}
+        >
+          ▲
+        </button>
+        <button
+          type="button"
+          class="step-button"
+          part="decrement-button"
+          aria-label="Decrease"
+          tabindex="-1"
+          ?disabled=${locked || (min !== undefined && number <= min)}
+          @pointerdown=${(event: PointerEvent) => this.startHold(-1, event)}
+          @pointerup=${this.stopHold}
+          @pointerleave=${this.stopHold}
+          @pointercancel=${this.stopHold}
+          @click=${(event: MouseEvent) => this._handleStepClick(-1, event)}
+        >
+          ▼
+        </button>
+      </div>
+    `;
   }
 }
 
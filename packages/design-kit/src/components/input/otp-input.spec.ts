@@ -0,0 +1,155 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkOtpInput } from './otp-input.js';
+
+const inputOf = (element: MonkOtpInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const cellText = (element: MonkOtpInput): string[] =>
+  Array.from(element.shadowRoot?.querySelectorAll('.cell') ?? []).map(
+    (cell) => cell.textContent?.trim() ?? ''
+  );
+
+const type = (element: MonkOtpInput, text: string): void => {
+  const input = inputOf(element);
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const paste = (element: MonkOtpInput, text: string): void => {
+  const clipboardData = new DataTransfer();
+  clipboardData.setData('text', text);
+  inputOf(element).dispatchEvent(
+    new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true })
+  );
+};
+
+describe('MonkOtpInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-otp-input');
+    expect(element).to.be.instanceOf(MonkOtpInput);
+  });
+
+  it('should render six cells over a one-time-code input by default', async () => {
+    const element = await fixture<MonkOtpInput>(html`<monk-otp-input></monk-otp-input>`);
+    const input = inputOf(element);
+
+    expect(cellText(element)).to.have.length(6);
+    expect(input.getAttribute('autocomplete')).to.equal('one-time-code');
+    expect(input.getAttribute('inputmode')).to.equal('numeric');
+  });
+
+  it('should render one cell per character of length', async () => {
+    const element = await fixture<MonkOtpInput>(html`<monk-otp-input length="4"></monk-otp-input>`);
+
+    expect(cellText(element)).to.have.length(4);
+  });
+
+  describe('Entry', () => {
+    it('should show each typed digit in its own cell', async () => {
+      const element = await fixture<MonkOtpInput>(html`<monk-otp-input></monk-otp-input>`);
+
+      type(element, '123');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('123');
+      expect(cellText(element)).to.deep.equal(['1', '2', '3', '', '', '']);
+    });
+
+    it('should drop letters in numeric mode', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input value="1a2b3"></monk-otp-input>
+      `);
+
+      expect(element.value).to.equal('123');
+    });
+
+    it('should accept letters in upper case in alphanumeric mode', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input mode="alphanumeric"></monk-otp-input>
+      `);
+
+      type(element, 'ab12');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('AB12');
+    });
+
+    it('should cut values longer than the code', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input length="4" value="123456"></monk-otp-input>
+      `);
+
+      expect(element.value).to.equal('1234');
+    });
+
+    it('should hide entered characters when masked', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input length="4" value="12" masked></monk-otp-input>
+      `);
+
+      expect(cellText(element)).to.deep.equal(['•', '•', '', '']);
+    });
+
+    it('should show the placeholder in empty cells', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input length="4" value="1" placeholder="-"></monk-otp-input>
+      `);
+
+      expect(cellText(element)).to.deep.equal(['1', '-', '-', '-']);
+    });
+  });
+
+  describe('Paste', () => {
+    it('should fill every cell from a pasted code, ignoring separators', async () => {
+      const element = await fixture<MonkOtpInput>(html`<monk-otp-input></monk-otp-input>`);
+
+      setTimeout(() => paste(element, '123 456'));
+      const event = await oneEvent(element, 'otp-complete');
+
+      expect(event.detail.value).to.equal('123456');
+      expect(element.value).to.equal('123456');
+    });
+  });
+
+  describe('Completion', () => {
+    it('should emit otp-complete when the last cell is filled', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input length="4"></monk-otp-input>
+      `);
+
+      setTimeout(() => type(element, '4321'));
+      const event = await oneEvent(element, 'otp-complete');
+
+      expect(event.detail.value).to.equal('4321');
+      expect(element.complete).to.be.true;
+    });
+
+    it('should report a partly entered code as invalid', async () => {
+      const element = await fixture<MonkOtpInput>(html`
+        <monk-otp-input length="4" value="12" validate></monk-otp-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.invalid).to.be.true;
+      expect(element.validationErrors[0].code).to.equal('otpLength');
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit the code', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-otp-input name="code" value="987654"></monk-otp-input></form>
+      `);
+      await form.querySelector('monk-otp-input')?.updateComplete;
+
+      expect(new FormData(form).get('code')).to.equal('987654');
+    });
+
+    it('should be invalid while required and empty', async () => {
+      const element = await fixture<MonkOtpInput>(html`<monk-otp-input required></monk-otp-input>`);
+
+      expect(element.checkValidity()).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './otp-input.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/OtpInput',
+  component: 'monk-otp-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The OtpInput component collects a one-time verification code in a row of single-character cells.
+
+## Features
+
+- \`length\` cells (6 by default), drawn over a single native input
+- Typing advances to the next cell and Backspace returns to the previous one
+- Pasting a full code fills every cell; spaces and dashes are ignored
+- \`autocomplete="one-time-code"\` so browsers can fill codes received by SMS
+- \`mode="alphanumeric"\` accepts letters (shown in upper case); digits only by default
+- \`masked\` shows entered characters as dots
+- Emits \`otp-complete\` with the code when the last cell is filled
+
+## Usage
+
+\`\`\`html
+<monk-otp-input label="Verification code" name="code" required></monk-otp-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-otp-input
+      label="Verification code"
+      helper-text="Enter the 6-digit code we sent to your phone"
+    ></monk-otp-input>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-otp-input label="Small" size="sm" length="4"></monk-otp-input>
+      <monk-otp-input label="Medium" size="md" length="4"></monk-otp-input>
+      <monk-otp-input label="Large" size="lg" length="4"></monk-otp-input>
+    </monk-stack>
+  `,
+};
+
+export const Variants: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-otp-input label="Outline" value="123"></monk-otp-input>
+      <monk-otp-input label="Filled" variant="filled" value="123"></monk-otp-input>
+      <monk-otp-input label="Flushed" variant="flushed" value="123"></monk-otp-input>
+    </monk-stack>
+  `,
+};
+
+export const Alphanumeric: Story = {
+  render: () => html`
+    <monk-otp-input
+      label="Recovery code"
+      length="8"
+      mode="alphanumeric"
+      placeholder="-"
+    ></monk-otp-input>
+  `,
+};
+
+export const Masked: Story = {
+  render: () => html`<monk-otp-input label="PIN" length="4" masked></monk-otp-input>`,
+};
+
+export const CompleteEvent: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-otp-input
+        label="Verification code"
+        validate
+        @otp-complete=${(e: CustomEvent) => {
+          const output = (e.target as HTMLElement).nextElementSibling as HTMLElement;
+          output.textContent = `Verifying ${e.detail.value}…`;
+        }}
+      ></monk-otp-input>
+      <output></output>
+    </monk-stack>
+  `,
+};
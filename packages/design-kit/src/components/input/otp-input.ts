@@ -0,0 +1,410 @@
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { Mask } from 'maska';
+import { BaseInput } from './base-input.js';
+import { MaskedInput } from './masked-input.js';
+import type { Validator } from './validators.js';
+
+/**
+ * Characters a code may contain
+ * - numeric: digits only
+ * - alphanumeric: digits and letters, upper-cased as they are typed
+ */
+export type OtpMode = 'numeric' | 'alphanumeric';
+
+/**
+ * Detail of the `otp-complete` event
+ */
+export interface OtpCompleteDetail {
+  value: string;
+}
+
+/**
+ * Character shown in a filled cell of a masked code
+ */
+const MASK_CHARACTER = '•';
+
+/**
+ * Mask tokens: `#` is a digit, `A` a letter or digit shown in upper case
+ */
+const OTP_TOKENS = {
+  A: { pattern: /[0-9a-zA-Z]/, transform: (char: string) => char.toUpperCase() },
+};
+
+/**
+ * OTP input component - One-time code entry shown as a row of single-character cells
+ *
+ * The cells are drawn over a single native input, so typing advances to the
+ * next cell, Backspace returns to the previous one, and browsers can fill a
+ * code received by SMS (`autocomplete="one-time-code"`). Pasting a full code
+ * fills every cell; spaces and dashes in pasted text are ignored.
+ *
+ * @element monk-otp-input
+ *
+ * @example
+ * ```html
+ * <monk-otp-input label="Verification code" name="code" required></monk-otp-input>
+ *
+ * <!-- 8-character recovery code, hidden as it is typed -->
+ * <monk-otp-input length="8" mode="alphanumeric" masked></monk-otp-input>
+ * ```
+ *
+ * @accessibility
+ * - A single native input labelled by the field label; the cells are presentational
+ * - `inputmode="numeric"` brings up the number pad in numeric mode
+ * - Clicking a cell moves the caret there, and typing over a filled cell replaces it
+ *
+ * @fires otp-complete - Fired when the last cell is filled, detail: `{ value }`
+ * @fires input-change - Fired when the code changes
+ * @fires input-changed - Fired when the code is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart cells - The row of cells
+ * @csspart cell - Each cell
+ * @csspart input - The native input behind the cells
+ */
+@customElement('monk-otp-input')
+export class MonkOtpInput extends MaskedInput {
+  /**
+   * Number of characters in the code
+   * @default 6
+   */
+  @property({ type: Number, reflect: true })
+  length = 6;
+
+  /**
+   * Characters the code may contain
+   * @default 'numeric'
+   */
+  @property({ type: String, reflect: true })
+  mode: OtpMode = 'numeric';
+
+  /**
+   * Show entered characters as dots
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  masked = false;
+
+  override autocomplete = 'one-time-code';
+
+  /**
+   * Cell holding the caret while focused
+   */
+  @state()
+  private _caret = 0;
+
+  private _mask?: Mask;
+
+  protected readonly prompt = '';
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .cells {
+        position: relative;
+        display: inline-flex;
+        gap: var(--monk-space-2);
+        cursor: text;
+      }
+
+      .cells.disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+        pointer-events: none;
+      }
+
+      /* The native input stays on top for autofill, but its text is invisible */
+      .cells input {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        padding: 0;
+        color: transparent;
+        caret-color: transparent;
+        pointer-events: none;
+      }
+
+      .cells input::selection {
+        background: transparent;
+      }
+
+      .cell {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        width: 2.5em;
+        height: 3em;
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        background: var(--monk-color-bg-canvas);
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-lg);
+        font-weight: var(--monk-font-weight-semibold);
+        font-variant-numeric: tabular-nums;
+        transition: border-color 150ms ease-in-out, box-shadow 150ms ease-in-out;
+      }
+
+      :host([size='sm']) .cell {
+        font-size: var(--monk-font-size-base);
+      }
+
+      :host([size='lg']) .cell {
+        font-size: var(--monk-font-size-xl);
+      }
+
+      .cell.placeholder {
+        color: var(--monk-color-text-tertiary);
+      }
+
+      .cells:hover .cell {
+        border-color: var(--monk-color-border-accent);
+      }
+
+      .cell.active {
+        border-color: var(--monk-color-border-accent);
+        box-shadow: 0 0 0 3px var(--monk-focus-ring-color);
+      }
+
+      :host([variant='filled']) .cell {
+        border-color: transparent;
+        background: var(--monk-color-bg-subtle);
+      }
+
+      :host([variant='filled']) .cell.active {
+        border-color: var(--monk-color-border-accent);
+        background: var(--monk-color-bg-canvas);
+      }
+
+      :host([variant='flushed']) .cell {
+        border: none;
+        border-bottom: 2px solid var(--monk-color-border-default);
+        border-radius: 0;
+        background: transparent;
+      }
+
+      :host([variant='flushed']) .cell.active {
+        border-bottom-color: var(--monk-color-border-accent);
+        box-shadow: none;
+      }
+
+      :host([invalid]) .cell,
+      :host([invalid][variant='flushed']) .cell {
+        border-color: var(--monk-color-border-error);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .cell {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  protected get mask(): Mask {
+    const mask = (this.mode === 'alphanumeric' ? 'A' : '#').repeat(Math.max(1, this.length));
+    if (this._mask?.opts.mask !== mask) {
+      this._mask = new Mask({ eager: false, mask, tokens: OTP_TOKENS });
+    }
+    return this._mask;
+  }
+
+  /**
+   * Whether every cell is filled
+   */
+  get complete(): boolean {
+    return this.value.length === this.length;
+  }
+
+  /**
+   * Require the whole code once anything has been entered
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (this.value) {
+      declared.push(() => ({
+        valid: this.complete,
+        code: 'otpLength',
+        message: `Enter all ${this.length} characters`,
+      }));
+    }
+    return declared;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Drop characters that don't fit the current length and mode
+    const fitChanged = ['value', 'length', 'mode'].some((key) =>
+      changedProperties.has(key as keyof MonkOtpInput)
+    );
+    if (fitChanged) {
+      this.value = this.mask.unmasked(this.mask.masked(this.value));
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    const maskChanged = ['length', 'mode'].some(
+      (key) => changedProperties.get(key as keyof MonkOtpInput) !== undefined
+    );
+    if (maskChanged) {
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this._input?.addEventListener('paste', this._handlePaste);
+  }
+
+  protected override _handleInput(event: Event): void {
+    const wasComplete = this.complete;
+    super._handleInput(event);
+    this.updateComplete.then(() => this.syncCaret());
+
+    if (this.complete && !wasComplete) {
+      this.emitComplete();
+    }
+  }
+
+  protected override _handleFocus(event: FocusEvent): void {
+    super._handleFocus(event);
+    this.syncCaret();
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    const input = this._input;
+    const typing = event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+    const start = input?.selectionStart ?? 0;
+
+    // Typing over a filled cell replaces it, like a row of separate boxes
+    if (input && typing && start === input.selectionEnd && start < this.value.length) {
+      input.setSelectionRange(start, start + 1);
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  /**
+   * Accept a whole pasted code, ignoring separators such as spaces and dashes
+   */
+  private _handlePaste = (event: ClipboardEvent): void => {
+    if (this.readonly) return;
+
+    const text = (event.clipboardData?.getData('text') ?? '').replace(/[\s-]/g, '');
+    if (!text) return;
+
+    event.preventDefault();
+    const wasComplete = this.complete;
+    this.value = this.mask.unmasked(this.mask.masked(text));
+    this.updateComplete.then(() => {
+      this._input?.setSelectionRange(this.value.length, this.value.length);
+      this.syncCaret();
+    });
+
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+    this.emitEvent('input-change', { value: this.value, originalEvent: event });
+
+    if (this.complete && !wasComplete) {
+      this.emitComplete();
+    }
+  };
+
+  /**
+   * Put the caret in the clicked cell, or after the last filled one
+   */
+  private _handleCellsPointerDown(event: PointerEvent): void {
+    const input = this._input;
+    if (!input || this.isDisabled) return;
+
+    event.preventDefault();
+    const cells = Array.from(this.renderRoot.querySelectorAll('.cell'));
+    const clicked = cells.findIndex((cell) => event.composedPath().includes(cell));
+    const position = Math.min(clicked < 0 ? this.value.length : clicked, this.value.length);
+
+    input.focus();
+    input.setSelectionRange(position, position);
+    this.syncCaret();
+  }
+
+  private syncCaret(): void {
+    const position = this._input?.selectionStart ?? this.value.length;
+    this._caret = Math.min(position, this.length - 1);
+  }
+
+  private emitComplete(): void {
+    this.emitEvent<OtpCompleteDetail>('otp-complete', { value: this.value });
+  }
+
+  private renderCell(index: number) {
+    const char = this.value[index];
+    const hint = this.placeholder ? this.placeholder[index] ?? this.placeholder.slice(-1) : '';
+    const classes = {
+      cell: true,
+      filled: !!char,
+      placeholder: !char && !!hint,
+      active: this._focused && index === this._caret,
+    };
+
+    return html`
+      <span class=${classMap(classes)} part="cell" aria-hidden="true">
+        ${char ? (this.masked ? MASK_CHARACTER : char) : hint}
+      </span>
+    `;
+  }
+
+  protected override renderInput() {
+    const cells = Array.from({ length: Math.max(1, this.length) }, (_, index) => index);
+
+    return html`
+      <div
+        class=${classMap({ cells: true, disabled: this.isDisabled })}
+        part="cells"
+        @pointerdown=${this._handleCellsPointerDown}
+      >
+        <input
+          id="input"
+          part="input"
+          type="text"
+          name=${ifDefined(this.name)}
+          ?disabled=${this.isDisabled}
+          ?readonly=${this.readonly}
+          ?required=${this.required}
+          autocomplete=${ifDefined(this.autocomplete)}
+          inputmode=${this.inputmode ?? (this.mode === 'numeric' ? 'numeric' : 'text')}
+          autocapitalize=${this.mode === 'alphanumeric' ? 'characters' : 'off'}
+          spellcheck="false"
+          aria-invalid=${this.invalid ? 'true' : 'false'}
+          aria-describedby=${ifDefined(
+            this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+          )}
+          @input=${this._handleInput}
+          @change=${this._handleChange}
+          @focus=${this._handleFocus}
+          @blur=${this._handleBlur}
+          @keydown=${this._handleKeyDown}
+          @keyup=${this.syncCaret}
+        />
+        ${cells.map((index) => this.renderCell(index))}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-otp-input': MonkOtpInput;
+  }
+}
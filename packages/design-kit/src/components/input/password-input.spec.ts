@@ -1,5 +1,11 @@
 import { expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { MonkPasswordInput } from './password-input.js';
+import {
+  defaultPasswordRules,
+  entropyScorer,
+  passwordRules,
+  type PasswordScorer,
+} from './password-strength.js';
 
 describe('MonkPasswordInput', () => {
   it('should be defined', () => {
@@ -146,6 +152,19 @@ describe('MonkPasswordInput', () => {
       const toggleButton = element.shadowRoot?.querySelector('.toggle-button') as HTMLButtonElement;
       expect(toggleButton.disabled).to.be.true;
     });
+
+    it('should place the toggle alongside the base adornments', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input show-toggle clearable value="secret">
+          <span slot="suffix">!</span>
+        </monk-password-input>
+      `);
+      const container = element.shadowRoot?.querySelector('[part="input-container"]');
+      const parts = [...(container?.children ?? [])].map((child) => child.getAttribute('part'));
+
+      expect(parts).to.deep.equal([null, 'input', 'clear-button', 'toggle-button', null]);
+      expect(container?.querySelector('slot[name="suffix"]')).to.exist;
+    });
   });
 
   it('should render with placeholder', async () => {
@@ -250,4 +269,167 @@ describe('MonkPasswordInput', () => {
     const input = element.shadowRoot?.querySelector('input');
     expect(input?.getAttribute('autocomplete')).to.equal('current-password');
   });
+
+  describe('Strength Meter', () => {
+    it('should not render the meter by default', async () => {
+      const element = await fixture<MonkPasswordInput>(
+        html`<monk-password-input></monk-password-input>`
+      );
+
+      expect(element.shadowRoot?.querySelector('[role="meter"]')).to.be.null;
+    });
+
+    it('should score weak and strong passwords', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input show-strength value="aaaaaaaa"></monk-password-input>
+      `);
+      expect(element.strength.score).to.equal(0);
+
+      element.value = 'correct horse battery staple';
+      await element.updateComplete;
+      expect(element.strength.score).to.equal(3);
+
+      const meter = element.shadowRoot?.querySelector('[role="meter"]');
+      expect(meter?.getAttribute('aria-valuenow')).to.equal('3');
+      expect(meter?.getAttribute('aria-valuetext')).to.equal('Strong');
+    });
+
+    it('should score sequences and the username lower', () => {
+      const sequence = entropyScorer('abcdefgh12345678', {});
+      const mixed = entropyScorer('hqzkwmbt15937268', {});
+      expect(sequence.entropy).to.be.lessThan(mixed.entropy as number);
+
+      const withUsername = entropyScorer('adalovelace1815', { username: 'adalovelace' });
+      const withoutUsername = entropyScorer('adalovelace1815', {});
+      expect(withUsername.entropy).to.be.lessThan(withoutUsername.entropy as number);
+    });
+
+    it('should score a password without the username the same with or without one', () => {
+      const password = 'Tr0ub4dor&3Horse';
+
+      expect(entropyScorer(password, { username: 'ada' })).to.deep.equal(
+        entropyScorer(password, {})
+      );
+      expect(entropyScorer('xAdaLovelace!9', { username: 'adalovelace' }).entropy).to.equal(
+        entropyScorer('xA!9', {}).entropy
+      );
+    });
+
+    it('should use a custom scorer', async () => {
+      const scorer: PasswordScorer = (password) => ({
+        score: password.length > 3 ? 4 : 1,
+        label: password.length > 3 ? 'Great' : 'Meh',
+      });
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input show-strength value="abcd" .scorer=${scorer}></monk-password-input>
+      `);
+
+      const label = element.shadowRoot?.querySelector('.strength-label');
+      expect(label?.textContent).to.equal('Great');
+    });
+  });
+
+  describe('Requirements Checklist', () => {
+    it('should list each requirement with its status', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input value="abc" .requirements=${defaultPasswordRules}>
+        </monk-password-input>
+      `);
+
+      const items = element.shadowRoot?.querySelectorAll('.requirement');
+      expect(items?.length).to.equal(defaultPasswordRules.length);
+      expect(items?.[0].classList.contains('met')).to.be.false;
+      expect(items?.[2].classList.contains('met')).to.be.true;
+      expect(items?.[2].textContent).to.include('(met)');
+    });
+
+    it('should check the username rule', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input
+          username="Ada"
+          value="xADAx"
+          .requirements=${[passwordRules.notContainingUsername()]}
+        ></monk-password-input>
+      `);
+
+      const item = element.shadowRoot?.querySelector('.requirement');
+      expect(item?.classList.contains('met')).to.be.false;
+    });
+
+    it('should announce requirements that change politely', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input
+          value="abc"
+          .requirements=${[passwordRules.minLength(4), passwordRules.digit()]}
+        ></monk-password-input>
+      `);
+      const status = element.shadowRoot?.querySelector('[role="status"]');
+      expect(status?.getAttribute('aria-live')).to.equal('polite');
+      expect(status?.textContent?.trim()).to.equal('');
+
+      element.value = 'abcd';
+      await element.updateComplete;
+
+      expect(status?.textContent?.trim()).to.equal('At least 4 characters: met');
+    });
+
+    it('should fail validation until all requirements are met', async () => {
+      const element = await fixture<MonkPasswordInput>(html`
+        <monk-password-input
+          value="password"
+          validate
+          .requirements=${[passwordRules.minLength(8), passwordRules.digit()]}
+        ></monk-password-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Password requirement not met: A number');
+
+      element.value = 'password1';
+      expect(element.performValidation()).to.be.true;
+    });
+  });
+
+  describe('Confirm Password', () => {
+    it('should validate that the confirmation matches', async () => {
+      const container = await fixture<HTMLDivElement>(html`
+        <div>
+          <monk-password-input id="new-password" value="s3cret!"></monk-password-input>
+          <monk-password-input confirm-for="new-password" value="s3cret" validate>
+          </monk-password-input>
+        </div>
+      `);
+      const confirm = container.querySelector('[confirm-for]') as MonkPasswordInput;
+
+      expect(confirm.performValidation()).to.be.false;
+      expect(confirm.errorMessage).to.equal('Passwords do not match');
+
+      confirm.value = 's3cret!';
+      expect(confirm.performValidation()).to.be.true;
+    });
+
+    it('should re-validate when the original password changes', async () => {
+      const container = await fixture<HTMLDivElement>(html`
+        <div>
+          <monk-password-input id="new-password" value="abc"></monk-password-input>
+          <monk-password-input confirm-for="new-password" value="abcd" validate>
+          </monk-password-input>
+        </div>
+      `);
+      const original = container.querySelector('#new-password') as MonkPasswordInput;
+      const confirm = container.querySelector('[confirm-for]') as MonkPasswordInput;
+      await confirm.updateComplete;
+
+      const input = original.shadowRoot?.querySelector('input') as HTMLInputElement;
+      input.value = 'abcd';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(confirm.invalid).to.be.false;
+
+      input.value = 'abcde';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(confirm.invalid).to.be.true;
+    });
+  });
 });
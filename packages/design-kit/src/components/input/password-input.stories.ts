@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/web-components';
 import { html } from 'lit';
 import './password-input.js';
+import { defaultPasswordRules, passwordRules } from './password-strength.js';
 import './email-input.js';
 import '../typography/heading.js';
 import '../typography/text.js';
@@ -24,11 +25,23 @@ The PasswordInput component provides a password input field with optional show/h
 - All BaseInput features (variants, sizes, states, helper text, etc.)
 - Character count for password strength
 - Autocomplete support for password managers
+- Strength meter with a pluggable scorer (\`show-strength\`, \`.scorer\`)
+- Live requirements checklist, checked by validation (\`.requirements\`)
+- Confirmation field that must match another password input (\`confirm-for\`)
 
 ## Usage
 
 \`\`\`html
 <monk-password-input label="Password" show-toggle></monk-password-input>
+
+<monk-password-input
+  id="new-password"
+  label="New Password"
+  show-strength
+  .requirements=\${defaultPasswordRules}
+  validate
+></monk-password-input>
+<monk-password-input label="Confirm" confirm-for="new-password" validate></monk-password-input>
 \`\`\`
         `,
       },
@@ -142,6 +155,60 @@ export const States: Story = {
   `,
 };
 
+export const StrengthMeter: Story = {
+  render: () => html`
+    <monk-password-input
+      label="Password"
+      show-toggle
+      show-strength
+      helper-text="Longer passphrases are stronger than short complex passwords"
+      style="max-width: 400px;"
+    ></monk-password-input>
+  `,
+};
+
+export const Requirements: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-password-input
+        label="New Password"
+        username="ada"
+        show-toggle
+        show-strength
+        validate
+        .requirements=${defaultPasswordRules}
+      ></monk-password-input>
+
+      <monk-password-input
+        label="Passphrase"
+        validate
+        .requirements=${[passwordRules.minLength(12), passwordRules.digit('At least one digit')]}
+      ></monk-password-input>
+    </monk-stack>
+  `,
+};
+
+export const ConfirmPassword: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-password-input
+        id="story-new-password"
+        label="New Password"
+        show-strength
+        validate
+        autocomplete="new-password"
+      ></monk-password-input>
+
+      <monk-password-input
+        label="Confirm Password"
+        confirm-for="story-new-password"
+        validate
+        autocomplete="new-password"
+      ></monk-password-input>
+    </monk-stack>
+  `,
+};
+
 export const FormExamples: Story = {
   render: () => html`
     <monk-stack spacing="10">
@@ -1,9 +1,20 @@
-import { html, css, type CSSResultArray } from 'lit';
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { srOnlyStyles } from '../../core/styles.js';
 import { BaseInput } from './base-input.js';
+import {
+  entropyScorer,
+  type PasswordContext,
+  type PasswordRule,
+  type PasswordScorer,
+  type PasswordStrength,
+} from './password-strength.js';
+import { validators, type Validator } from './validators.js';
 
 /**
- * Password input component - Password field with show/hide toggle
+ * Password input component - Password field with show/hide toggle, strength meter,
+ * requirements checklist and confirmation matching
  *
  * @element monk-password-input
  *
@@ -33,13 +44,36 @@ import { BaseInput } from './base-input.js';
  *   show-count
  *   show-toggle
  * ></monk-password-input>
+ *
+ * <!-- New password with strength meter and checklist, plus confirmation -->
+ * <monk-password-input
+ *   id="new-password"
+ *   label="New Password"
+ *   username="ada@example.com"
+ *   show-strength
+ *   .requirements=${defaultPasswordRules}
+ *   validate
+ * ></monk-password-input>
+ * <monk-password-input
+ *   label="Confirm Password"
+ *   confirm-for="new-password"
+ *   validate
+ * ></monk-password-input>
  * ```
  *
+ * @accessibility
+ * - The strength meter has `role="meter"` with the strength label as `aria-valuetext`
+ * - Requirements that become met or unmet, and strength changes, are announced politely
+ * - Each checklist item states whether it is met for screen readers
+ *
  * @fires input-change - Fired when the input value changes (on input event)
  * @fires input-changed - Fired when the input value is committed (on change event)
  * @fires input-focus - Fired when the input receives focus
  * @fires input-blur - Fired when the input loses focus
  * @fires input-keydown - Fired on keydown event
+ * @fires input-clear - Fired when the clear button empties the input
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
  *
  * @cssprop --monk-color-border-* - Border color tokens
  * @cssprop --monk-color-bg-* - Background color tokens
@@ -50,7 +84,12 @@ import { BaseInput } from './base-input.js';
  * @csspart wrapper - The wrapper container
  * @csspart input-container - The input container
  * @csspart input - The native input element
+ * @csspart clear-button - The clear button (with `clearable`)
  * @csspart toggle-button - The show/hide toggle button
+ * @csspart strength - The strength meter and its label
+ * @csspart strength-meter - The strength meter bar
+ * @csspart requirements - The requirements checklist
+ * @csspart requirement - Each checklist item
  *
  * @slot prefix - Content to display before the input (e.g., icons, text)
  * @slot suffix - Content to display after the input (e.g., icons, buttons)
@@ -64,12 +103,62 @@ export class MonkPasswordInput extends BaseInput {
   @property({ type: Boolean, reflect: true, attribute: 'show-toggle' })
   showToggle = false;
 
+  /**
+   * Show a strength meter under the field
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'show-strength' })
+  showStrength = false;
+
+  /**
+   * Requirements listed under the field and checked by validation
+   * See `passwordRules` and `defaultPasswordRules`.
+   */
+  @property({ attribute: false })
+  requirements: PasswordRule[] = [];
+
+  /**
+   * Scores the password for the strength meter
+   * @default entropyScorer
+   */
+  @property({ attribute: false })
+  scorer: PasswordScorer = entropyScorer;
+
+  /**
+   * Username or email the password should not contain
+   */
+  @property({ type: String })
+  username?: string;
+
+  /**
+   * ID of the password input this field confirms; validation fails if the values differ
+   */
+  @property({ type: String, attribute: 'confirm-for' })
+  confirmFor?: string;
+
   /**
    * Internal state for password visibility
    */
   @state()
   private _showPassword = false;
 
+  /**
+   * Polite screen reader announcement of checklist and strength changes
+   */
+  @state()
+  private _announcement = '';
+
+  /**
+   * Requirement results and strength label from the previous value, to announce changes
+   */
+  private _previousStatus = new Map<string, boolean>();
+  private _previousStrength = '';
+
+  /**
+   * Password input currently observed for `confirm-for`
+   */
+  private _confirmSource?: HTMLElement;
+
   /**
    * Get the input type (password or text based on visibility)
    */
@@ -79,6 +168,7 @@ export class MonkPasswordInput extends BaseInput {
 
   static override styles: CSSResultArray = [
     ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
     css`
       .toggle-button {
         display: flex;
@@ -112,76 +202,278 @@ export class MonkPasswordInput extends BaseInput {
         cursor: not-allowed;
       }
 
+      .strength {
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-2);
+        margin-top: var(--monk-space-2);
+      }
+
+      .strength-meter {
+        display: flex;
+        flex: 1;
+        gap: var(--monk-space-1);
+      }
+
+      .strength-segment {
+        flex: 1;
+        height: 4px;
+        border-radius: var(--monk-radius-sm);
+        background-color: var(--monk-color-bg-muted);
+        transition: background-color 150ms ease-in-out;
+      }
+
+      .strength[data-score='0'] .strength-segment.filled,
+      .strength[data-score='1'] .strength-segment.filled {
+        background-color: var(--monk-color-bg-error);
+      }
+
+      .strength[data-score='2'] .strength-segment.filled {
+        background-color: var(--monk-color-bg-warning);
+      }
+
+      .strength[data-score='3'] .strength-segment.filled,
+      .strength[data-score='4'] .strength-segment.filled {
+        background-color: var(--monk-color-bg-success);
+      }
+
+      .strength-label {
+        min-width: 6em;
+        font-size: var(--monk-font-size-sm);
+        color: var(--monk-color-text-secondary);
+        text-align: right;
+      }
+
+      .requirements {
+        display: flex;
+        flex-direction: column;
+        gap: var(--monk-space-1);
+        margin: var(--monk-space-2) 0 0;
+        padding: 0;
+        list-style: none;
+        font-size: var(--monk-font-size-sm);
+      }
+
+      .requirement {
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-2);
+        color: var(--monk-color-text-secondary);
+      }
+
+      .requirement.met {
+        color: var(--monk-color-text-success);
+      }
+
+      .requirement-icon {
+        width: 1em;
+        text-align: center;
+      }
+
       @media (prefers-reduced-motion: reduce) {
-        .toggle-button {
+        .toggle-button,
+        .strength-segment {
           transition: none;
         }
       }
     `,
   ];
 
-  private _handleToggle(): void {
-    this._showPassword = !this._showPassword;
+  /**
+   * Current strength of the password, from `scorer`
+   */
+  get strength(): PasswordStrength {
+    return this.scorer(this.value, this.passwordContext);
+  }
+
+  private get passwordContext(): PasswordContext {
+    return { username: this.username };
+  }
+
+  /**
+   * Requirement and confirmation checks, added while the field has a value
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (!this.value) return declared;
+
+    if (this.confirmFor) {
+      declared.push(
+        validators.match(() => this.confirmSource?.value, 'Passwords do not match')
+      );
+    }
+    for (const rule of this.requirements) {
+      declared.push((value: string) => ({
+        valid: rule.test(value, this.passwordContext),
+        code: `password:${rule.id}`,
+        message: `Password requirement not met: ${rule.label}`,
+      }));
+    }
+
+    return declared;
+  }
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    if (this.hasUpdated) {
+      this.observeConfirmSource();
+    }
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._confirmSource?.removeEventListener('input-change', this._handleConfirmSourceChange);
+    this._confirmSource = undefined;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    const tracked = ['value', 'requirements', 'username', 'showStrength', 'scorer'];
+    if (tracked.some((key) => changedProperties.has(key as keyof MonkPasswordInput))) {
+      this.updateAnnouncement();
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+    this.observeConfirmSource();
+  }
+
+  /**
+   * The password input named by `confirm-for`, looked up in the same document or shadow root
+   */
+  private get confirmSource(): (HTMLElement & { value?: string }) | null {
+    if (!this.confirmFor) return null;
+    const root = this.getRootNode() as Document | ShadowRoot;
+    return root.getElementById?.(this.confirmFor) as (HTMLElement & { value?: string }) | null;
+  }
+
+  /**
+   * Re-check the confirmation whenever the original password changes
+   */
+  private observeConfirmSource(): void {
+    const source = this.confirmSource ?? undefined;
+    if (source === this._confirmSource) return;
+
+    this._confirmSource?.removeEventListener('input-change', this._handleConfirmSourceChange);
+    source?.addEventListener('input-change', this._handleConfirmSourceChange);
+    this._confirmSource = source;
   }
 
-  protected override renderInput() {
-    // Get the base input container from parent
-    const baseInput = super.renderInput();
+  private _handleConfirmSourceChange = (): void => {
+    if (this.validate && this.value) {
+      this.performValidation();
+    }
+  };
+
+  /**
+   * Describe requirements that became met or unmet, and strength changes, since the last value
+   */
+  private updateAnnouncement(): void {
+    const changes: string[] = [];
+    const status = new Map<string, boolean>();
+
+    for (const rule of this.requirements) {
+      const met = rule.test(this.value, this.passwordContext);
+      status.set(rule.label, met);
+      const previous = this._previousStatus.get(rule.label);
+      if (previous !== undefined && previous !== met) {
+        changes.push(`${rule.label}: ${met ? 'met' : 'not met'}`);
+      }
+    }
+
+    const strength = this.showStrength && this.value ? this.strength.label : '';
+    if (strength && strength !== this._previousStrength && this.hasUpdated) {
+      changes.push(`Password strength: ${strength}`);
+    }
 
-    // If no toggle, just return base input
-    if (!this.showToggle) {
-      return baseInput;
+    this._previousStatus = status;
+    this._previousStrength = strength;
+    if (changes.length) {
+      this._announcement = changes.join('. ');
     }
+  }
+
+  private _handleToggle(): void {
+    this._showPassword = !this._showPassword;
+  }
 
-    // Otherwise, we need to add the toggle button
-    // We'll use a custom template that includes the toggle
-    const containerClasses = {
-      'input-container': true,
-      focused: this._focused,
-      disabled: this.disabled,
-    };
+  protected renderStrength() {
+    if (!this.showStrength) return nothing;
+
+    const { score, label } = this.value ? this.strength : { score: 0, label: '' };
+    const filled = this.value ? score + 1 : 0;
 
     return html`
-      <div class=${containerClasses} part="input-container">
-        <slot name="prefix"></slot>
-        <input
-          id="input"
-          part="input"
-          type=${this.inputType}
-          name=${this.name || undefined}
-          .value=${this.value}
-          placeholder=${this.placeholder || undefined}
-          ?disabled=${this.disabled}
-          ?readonly=${this.readonly}
-          ?required=${this.required}
-          autocomplete=${this.autocomplete || undefined}
-          maxlength=${this.maxlength || undefined}
-          aria-invalid=${this.invalid ? 'true' : 'false'}
-          aria-describedby=${this.errorMessage
-            ? 'error-message'
-            : this.helperText
-              ? 'helper-text'
-              : undefined}
-          @input=${this._handleInput}
-          @change=${this._handleChange}
-          @focus=${this._handleFocus}
-          @blur=${this._handleBlur}
-          @keydown=${this._handleKeyDown}
-        />
-        <button
-          type="button"
-          class="toggle-button"
-          part="toggle-button"
-          ?disabled=${this.disabled}
-          aria-label=${this._showPassword ? 'Hide password' : 'Show password'}
-          @click=${this._handleToggle}
+      <div class="strength" part="strength" data-score=${score}>
+        <div
+          class="strength-meter"
+          part="strength-meter"
+          role="meter"
+          aria-label="Password strength"
+          aria-valuemin="0"
+          aria-valuemax="4"
+          aria-valuenow=${score}
+          aria-valuetext=${label || 'None'}
         >
-          ${this._showPassword ? '🙈' : '👁️'}
-        </button>
-        <slot name="suffix"></slot>
+          ${[0, 1, 2, 3, 4].map((index) => {
+            const classes = { 'strength-segment': true, filled: index < filled };
+            return html`<span class=${classMap(classes)}></span>`;
+          })}
+        </div>
+        <span class="strength-label" aria-hidden="true">${label}</span>
       </div>
     `;
   }
+
+  protected renderRequirements() {
+    if (!this.requirements.length) return nothing;
+
+    return html`
+      <ul class="requirements" part="requirements" aria-label="Password requirements">
+        ${this.requirements.map((rule) => {
+          const met = rule.test(this.value, this.passwordContext);
+          return html`
+            <li class=${classMap({ requirement: true, met })} part="requirement">
+              <span class="requirement-icon" aria-hidden="true">${met ? '✓' : '○'}</span>
+              ${rule.label}
+              <span class="sr-only">${met ? '(met)' : '(not met)'}</span>
+            </li>
+          `;
+        })}
+      </ul>
+    `;
+  }
+
+  protected override renderHelperText() {
+    const announces = this.showStrength || this.requirements.length > 0;
+
+    return html`
+      ${this.renderStrength()} ${this.renderRequirements()} ${super.renderHelperText()}
+      ${announces
+        ? html`<div class="sr-only" role="status" aria-live="polite">${this._announcement}</div>`
+        : nothing}
+    `;
+  }
+
+  protected override renderSuffix() {
+    if (!this.showToggle) return super.renderSuffix();
+
+    return html`
+      <button
+        type="button"
+        class="toggle-button"
+        part="toggle-button"
+        ?disabled=${this.isDisabled}
+        aria-label=${this._showPassword ? 'Hide password' : 'Show password'}
+        @click=${this._handleToggle}
+      >
+        ${this._showPassword ? '🙈' : '👁️'}
+      </button>
+      ${super.renderSuffix()}
+    `;
+  }
 }
 
 declare global {
@@ -0,0 +1,177 @@
+/**
+ * Password strength scoring and rule checklist for monk-password-input
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Information about the user that a password should not contain
+ */
+export interface PasswordContext {
+  /** Username or email of the account */
+  username?: string;
+}
+
+/**
+ * Result of a password scorer
+ */
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (very strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+  /** Human-readable strength, e.g. "Strong" */
+  label: string;
+  /** Estimated entropy in bits, if the scorer computes it */
+  entropy?: number;
+}
+
+/**
+ * Scores a password; replace the default with e.g. a zxcvbn wrapper
+ */
+export type PasswordScorer = (password: string, context: PasswordContext) => PasswordStrength;
+
+/**
+ * A requirement shown in the password checklist
+ */
+export interface PasswordRule {
+  /** Stable identifier, e.g. 'minLength' */
+  id: string;
+  /** Checklist text, e.g. "At least 8 characters" */
+  label: string;
+  /** Whether the password meets the requirement */
+  test: (password: string, context: PasswordContext) => boolean;
+}
+
+/**
+ * Labels for each score, from 0 to 4
+ */
+export const passwordStrengthLabels = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+
+/**
+ * Entropy in bits at which each score from 1 to 4 starts
+ */
+const SCORE_THRESHOLDS = [28, 36, 60, 128];
+
+const SYMBOL_PATTERN = /[!-/:-@[-`{-~]/;
+
+const characters = (text: string): string[] => Array.from(text);
+
+/**
+ * Default scorer - estimates entropy from the character pool and length
+ * Repeated characters, runs such as "abc" or "321" and the username count once.
+ */
+export const entropyScorer: PasswordScorer = (password, context) => {
+  let remaining = password;
+  const username = context.username?.trim();
+  if (username && username.length >= 3) {
+    // Keep the password's own casing so its uppercase letters still count toward the pool
+    const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    remaining = remaining.replace(new RegExp(escaped, 'gi'), (match) => match[0]);
+  }
+
+  const chars = characters(remaining);
+  let pool = 0;
+  if (/[a-z]/.test(remaining)) pool += 26;
+  if (/[A-Z]/.test(remaining)) pool += 26;
+  if (/\d/.test(remaining)) pool += 10;
+  if (SYMBOL_PATTERN.test(remaining)) pool += 33;
+  if (chars.some((char) => char.charCodeAt(0) > 127)) pool += 100;
+
+  // Characters that repeat or continue a run add little to guessing effort
+  let effectiveLength = 0;
+  chars.forEach((char, index) => {
+    const previous = chars[index - 1];
+    const delta = previous === undefined ? NaN : char.charCodeAt(0) - previous.charCodeAt(0);
+    effectiveLength += Math.abs(delta) <= 1 ? 0.25 : 1;
+  });
+
+  const entropy = pool ? Math.round(effectiveLength * Math.log2(pool)) : 0;
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold).length;
+
+  return {
+    score: score as PasswordStrength['score'],
+    label: passwordStrengthLabels[score],
+    entropy,
+  };
+};
+
+/**
+ * Factories for common checklist rules
+ *
+ * @example
+ * ```ts
+ * password.requirements = [
+ *   passwordRules.minLength(12),
+ *   passwordRules.digit(),
+ *   passwordRules.notContainingUsername(),
+ * ];
+ * ```
+ */
+export const passwordRules = {
+  /**
+   * At least `length` characters (counted as code points)
+   */
+  minLength: (length: number, label = `At least ${length} characters`): PasswordRule => ({
+    id: 'minLength',
+    label,
+    test: (password) => characters(password).length >= length,
+  }),
+
+  /**
+   * At least one uppercase letter
+   */
+  uppercase: (label = 'An uppercase letter'): PasswordRule => ({
+    id: 'uppercase',
+    label,
+    test: (password) => /\p{Lu}/u.test(password),
+  }),
+
+  /**
+   * At least one lowercase letter
+   */
+  lowercase: (label = 'A lowercase letter'): PasswordRule => ({
+    id: 'lowercase',
+    label,
+    test: (password) => /\p{Ll}/u.test(password),
+  }),
+
+  /**
+   * At least one digit
+   */
+  digit: (label = 'A number'): PasswordRule => ({
+    id: 'digit',
+    label,
+    test: (password) => /\d/.test(password),
+  }),
+
+  /**
+   * At least one character that is not a letter, digit or space
+   */
+  symbol: (label = 'A symbol'): PasswordRule => ({
+    id: 'symbol',
+    label,
+    test: (password) => /[^\p{L}\p{N}\s]/u.test(password),
+  }),
+
+  /**
+   * Does not contain the username (case-insensitive); met while no username is set
+   */
+  notContainingUsername: (label = 'Does not contain your username'): PasswordRule => ({
+    id: 'notContainingUsername',
+    label,
+    test: (password, { username }) =>
+      !username?.trim() || !password.toLowerCase().includes(username.trim().toLowerCase()),
+  }),
+};
+
+/**
+ * A typical set of requirements: 8+ characters, mixed case, a digit, a symbol
+ * and not containing the username
+ */
+export const defaultPasswordRules: PasswordRule[] = [
+  passwordRules.minLength(8),
+  passwordRules.uppercase(),
+  passwordRules.lowercase(),
+  passwordRules.digit(),
+  passwordRules.symbol(),
+  passwordRules.notContainingUsername(),
+];
@@ -0,0 +1,207 @@
+/**
+ * Phone numbering metadata for the international phone input
+ * Masks describe the national significant number (without trunk prefix)
+ */
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  /** English display name */
+  name: string;
+  /** International dialing code, without the leading + */
+  dialCode: string;
+  /** National number mask, # is a digit */
+  mask: string;
+  /** Allowed national number lengths in digits */
+  lengths: number[];
+  /** National trunk prefix dropped in international form, e.g. the UK's leading 0 */
+  trunkPrefix?: string;
+}
+
+/**
+ * Bundled country table, in dropdown order
+ */
+export const phoneCountries: readonly PhoneCountry[] = [
+  { code: 'US', name: 'United States', dialCode: '1', mask: '(###) ###-####', lengths: [10] },
+  { code: 'CA', name: 'Canada', dialCode: '1', mask: '(###) ###-####', lengths: [10] },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    dialCode: '44',
+    mask: '#### ######',
+    lengths: [10],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'IE',
+    name: 'Ireland',
+    dialCode: '353',
+    mask: '## ### ####',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'AU',
+    name: 'Australia',
+    dialCode: '61',
+    mask: '### ### ###',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'NZ',
+    name: 'New Zealand',
+    dialCode: '64',
+    mask: '## ### ####',
+    lengths: [8, 9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'DE',
+    name: 'Germany',
+    dialCode: '49',
+    mask: '### ########',
+    lengths: [10, 11],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    dialCode: '33',
+    mask: '# ## ## ## ##',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  { code: 'ES', name: 'Spain', dialCode: '34', mask: '### ### ###', lengths: [9] },
+  { code: 'IT', name: 'Italy', dialCode: '39', mask: '### ### ####', lengths: [9, 10] },
+  {
+    code: 'NL',
+    name: 'Netherlands',
+    dialCode: '31',
+    mask: '# ########',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'CH',
+    name: 'Switzerland',
+    dialCode: '41',
+    mask: '## ### ## ##',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'SE',
+    name: 'Sweden',
+    dialCode: '46',
+    mask: '##-### ## ##',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'IN',
+    name: 'India',
+    dialCode: '91',
+    mask: '#####-#####',
+    lengths: [10],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'JP',
+    name: 'Japan',
+    dialCode: '81',
+    mask: '##-####-####',
+    lengths: [10],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'CN',
+    name: 'China',
+    dialCode: '86',
+    mask: '### #### ####',
+    lengths: [11],
+    trunkPrefix: '0',
+  },
+  { code: 'SG', name: 'Singapore', dialCode: '65', mask: '#### ####', lengths: [8] },
+  {
+    code: 'ZA',
+    name: 'South Africa',
+    dialCode: '27',
+    mask: '## ### ####',
+    lengths: [9],
+    trunkPrefix: '0',
+  },
+  {
+    code: 'BR',
+    name: 'Brazil',
+    dialCode: '55',
+    mask: '(##) #####-####',
+    lengths: [10, 11],
+    trunkPrefix: '0',
+  },
+  { code: 'MX', name: 'Mexico', dialCode: '52', mask: '## #### ####', lengths: [10] },
+];
+
+/**
+ * Look up a country by ISO code (case-insensitive)
+ */
+export function findPhoneCountry(code: string): PhoneCountry | undefined {
+  const upper = code.toUpperCase();
+  return phoneCountries.find((country) => country.code === upper);
+}
+
+/**
+ * Flag emoji for a country, built from regional indicator symbols
+ */
+export function phoneCountryFlag(country: PhoneCountry): string {
+  return String.fromCodePoint(
+    ...Array.from(country.code, (char) => 0x1f1e6 + char.charCodeAt(0) - 65),
+  );
+}
+
+/**
+ * Remove a national trunk prefix that was written in front of a number
+ * e.g. `07911 123456` in the UK becomes `7911123456`
+ */
+export function stripTrunkPrefix(country: PhoneCountry, digits: string): string {
+  const { trunkPrefix, lengths } = country;
+  if (!trunkPrefix || !digits.startsWith(trunkPrefix)) return digits;
+
+  const stripped = digits.slice(trunkPrefix.length);
+  return lengths.includes(stripped.length) || digits.length > Math.max(...lengths)
+    ? stripped
+    : digits;
+}
+
+/**
+ * Split an international number like `+44 (0)20 7946 0958` or `0044 20...`
+ * into its country and national digits
+ *
+ * Countries sharing a dial code (e.g. US and CA) resolve to `preferred`
+ * when it matches, otherwise to the first entry in the table.
+ *
+ * @returns undefined if the input is not in international form or the
+ * dial code is unknown
+ */
+export function parseInternationalNumber(
+  input: string,
+  preferred?: string,
+): { country: PhoneCountry; nationalNumber: string } | undefined {
+  const trimmed = input.trim();
+  if (!/^(\+|00)/.test(trimmed)) return undefined;
+
+  // Drop an optional trunk prefix written as "(0)" before stripping formatting
+  const digits = trimmed.replace(/\(0\)/, '').replace(/\D/g, '').replace(/^00/, '');
+
+  for (let length = 3; length >= 1; length--) {
+    const dialCode = digits.slice(0, length);
+    const matches = phoneCountries.filter((country) => country.dialCode === dialCode);
+    if (!matches.length) continue;
+
+    const country =
+      matches.find((match) => preferred && match.code === preferred.toUpperCase()) ?? matches[0];
+
+    return { country, nationalNumber: stripTrunkPrefix(country, digits.slice(length)) };
+  }
+
+  return undefined;
+}
@@ -320,4 +320,156 @@ describe('MonkPhoneInput', () => {
       expect(element.invalid).to.be.false;
     });
   });
+
+  describe('Form Association', () => {
+    it('should submit the unmasked value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-phone-input name="phone" value="5551234567"></monk-phone-input></form>
+      `);
+      const element = form.querySelector('monk-phone-input') as MonkPhoneInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('phone')).to.equal('5551234567');
+    });
+
+    it('should report a required, empty phone as missing despite the prompt', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-phone-input name="phone" required></monk-phone-input></form>
+      `);
+      const element = form.querySelector('monk-phone-input') as MonkPhoneInput;
+      await element.updateComplete;
+
+      expect(element.validity.valueMissing).to.be.true;
+      expect(form.checkValidity()).to.be.false;
+    });
+  });
+
+  describe('International Numbers', () => {
+    const paste = (input: HTMLInputElement, text: string): void => {
+      const clipboardData = new DataTransfer();
+      clipboardData.setData('text', text);
+      input.dispatchEvent(
+        new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true })
+      );
+    };
+
+    it('should render a country dropdown when international', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input international country="GB"></monk-phone-input>
+      `);
+
+      const select = element.shadowRoot?.querySelector('select') as HTMLSelectElement;
+      expect(select).to.exist;
+      expect(select.value).to.equal('GB');
+      expect(select.getAttribute('aria-label')).to.equal('Country');
+    });
+
+    it('should not render a country dropdown by default', async () => {
+      const element = await fixture<MonkPhoneInput>(html`<monk-phone-input></monk-phone-input>`);
+
+      expect(element.shadowRoot?.querySelector('select')).to.be.null;
+    });
+
+    it('should use the mask of the selected country', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input country="GB" value="2079460958"></monk-phone-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('2079 460958');
+    });
+
+    it('should re-mask and emit country-change when a country is picked', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input international value="2079460958"></monk-phone-input>
+      `);
+      const select = element.shadowRoot?.querySelector('select') as HTMLSelectElement;
+
+      select.value = 'GB';
+      setTimeout(() => select.dispatchEvent(new Event('change')));
+
+      const event = await oneEvent(element, 'country-change');
+      expect(event.detail).to.deep.equal({ country: 'GB', dialCode: '44' });
+
+      await element.updateComplete;
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('2079 460958');
+    });
+
+    it('should normalize pasted +44 numbers', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input international></monk-phone-input>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      paste(input, '+44 (0)20 7946 0958');
+      await element.updateComplete;
+
+      expect(element.country).to.equal('GB');
+      expect(element.value).to.equal('2079460958');
+      expect(input.value).to.equal('2079 460958');
+    });
+
+    it('should strip a national trunk prefix from pasted numbers', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input country="GB"></monk-phone-input>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      paste(input, '07911 123456');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('7911123456');
+    });
+
+    it('should accept an E.164 value', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input international value="+61412345678"></monk-phone-input>
+      `);
+
+      expect(element.country).to.equal('AU');
+      expect(element.getUnmaskedValue()).to.equal('412345678');
+    });
+
+    it('should return the E.164 value', async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input country="GB" value="2079460958"></monk-phone-input>
+      `);
+
+      expect(element.getE164Value()).to.equal('+442079460958');
+      expect(element.getUnmaskedValue()).to.equal('2079460958');
+    });
+
+    it('should return an empty E.164 value when empty', async () => {
+      const element = await fixture<MonkPhoneInput>(html`<monk-phone-input></monk-phone-input>`);
+
+      expect(element.getE164Value()).to.equal('');
+    });
+
+    it('should submit the E.164 value when international', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-phone-input name="phone" international value="+442079460958"></monk-phone-input>
+        </form>
+      `);
+      const element = form.querySelector('monk-phone-input') as MonkPhoneInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('phone')).to.equal('+442079460958');
+    });
+
+    it("should validate the length against the country's rules", async () => {
+      const element = await fixture<MonkPhoneInput>(html`
+        <monk-phone-input country="NZ" value="2123456" validate></monk-phone-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.validationErrors[0].code).to.equal('phoneNumber');
+
+      element.value = '21234567';
+      await element.updateComplete;
+
+      expect(element.performValidation()).to.be.true;
+    });
+  });
 });
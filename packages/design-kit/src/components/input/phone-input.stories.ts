@@ -14,7 +14,7 @@ const meta: Meta = {
     docs: {
       description: {
         component: `
-The PhoneInput component provides a masked input for US phone numbers in (XXX) XXX-XXXX format.
+The PhoneInput component provides a masked input for phone numbers. It defaults to US numbers in (XXX) XXX-XXXX format; set \`country\` or \`international\` for other countries.
 
 ## Features
 
@@ -23,11 +23,15 @@ The PhoneInput component provides a masked input for US phone numbers in (XXX) X
 - Paste handling - formats pasted phone numbers
 - All BaseInput features (variants, sizes, states, validation)
 - Returns unmasked value for API submission
+- International mode: country dropdown with flag and dial code, per-country masks and length rules
+- Pasting \`+44 20 7946 0958\` style numbers selects the country and strips the dial code
+- \`getE164Value()\` returns the number in E.164 form (e.g. +442079460958)
 
 ## Usage
 
 \`\`\`html
 <monk-phone-input label="Phone Number"></monk-phone-input>
+<monk-phone-input label="Phone Number" international country="GB"></monk-phone-input>
 \`\`\`
         `,
       },
@@ -215,3 +219,32 @@ export const GetUnmaskedValue: Story = {
     `;
   },
 };
+
+/**
+ * International mode shows a country dropdown and submits E.164 numbers.
+ * Try pasting `+44 (0)20 7946 0958` or `+61 412 345 678`.
+ */
+export const International: Story = {
+  render: () => {
+    const handleGetValue = () => {
+      const input = document.getElementById('international-demo') as any;
+      alert('National: ' + input?.getUnmaskedValue() + '\nE.164: ' + input?.getE164Value());
+    };
+
+    return html`
+      <monk-stack spacing="6" style="max-width: 400px;">
+        <monk-phone-input
+          id="international-demo"
+          label="Phone Number"
+          international
+          country="GB"
+          validate
+          helper-text="Pick a country or paste an international number"
+          @country-change=${(e: CustomEvent) => console.log('Country:', e.detail)}
+        ></monk-phone-input>
+
+        <monk-button variant="outline" @click=${handleGetValue}>Get Values</monk-button>
+      </monk-stack>
+    `;
+  },
+};
@@ -1,10 +1,29 @@
-import { customElement } from 'lit/decorators.js';
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
 import { Mask } from 'maska';
-import { type PropertyValues } from 'lit';
+import { BaseInput } from './base-input.js';
 import { MaskedInput } from './masked-input.js';
+import {
+  findPhoneCountry,
+  parseInternationalNumber,
+  phoneCountries,
+  phoneCountryFlag,
+  stripTrunkPrefix,
+  type PhoneCountry,
+} from './phone-countries.js';
+import { validators, type Validator } from './validators.js';
 
 /**
- * Phone input component - US phone number with (XXX) XXX-XXXX format
+ * Detail of the `country-change` event
+ */
+export interface PhoneCountryChangeDetail {
+  country: string;
+  dialCode: string;
+}
+
+/**
+ * Phone input component - National phone number with per-country formatting
+ * Defaults to US numbers in (XXX) XXX-XXXX format
  *
  * @element monk-phone-input
  *
@@ -20,6 +39,9 @@ import { MaskedInput } from './masked-input.js';
  *   validate
  *   helper-text="Enter your 10-digit phone number"
  * ></monk-phone-input>
+ *
+ * <!-- International, with a country dropdown -->
+ * <monk-phone-input label="Phone" international country="GB"></monk-phone-input>
  * ```
  *
  * @fires input-change - Fired when the input value changes (on input event)
@@ -29,25 +51,190 @@ import { MaskedInput } from './masked-input.js';
  * @fires input-keydown - Fired on keydown event
  * @fires input-invalid - Fired when validation fails
  * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ * @fires country-change - Fired when the user changes the country, detail: `{ country, dialCode }`
+ *
+ * @csspart country-select - The country dropdown (international mode)
  */
 @customElement('monk-phone-input')
 export class MonkPhoneInput extends MaskedInput {
-  protected readonly prompt = '(###) ###-####';
-  protected readonly mask: Mask = new Mask({ eager: false, mask: '(###) ###-####' });
+  /**
+   * Country whose numbering rules are used (ISO 3166-1 alpha-2 code)
+   * Unknown codes fall back to US
+   * @default 'US'
+   */
+  @property({ type: String, reflect: true })
+  country = 'US';
+
+  /**
+   * Show a country dropdown with flag and dial code, and submit the number in E.164 form
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  international = false;
+
+  private _mask?: Mask;
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .country-select {
+        flex-shrink: 0;
+        align-self: stretch;
+        padding: 0 var(--monk-space-2) 0 0;
+        border: none;
+        border-right: 1px solid var(--monk-color-border-default);
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font-family: inherit;
+        font-size: inherit;
+        cursor: pointer;
+      }
+
+      .country-select:focus-visible {
+        outline: 2px solid var(--monk-color-border-accent);
+        outline-offset: 2px;
+      }
+
+      .country-select:disabled {
+        cursor: not-allowed;
+      }
+    `,
+  ];
+
+  /**
+   * Numbering metadata for the current country
+   */
+  get countryData(): PhoneCountry {
+    return findPhoneCountry(this.country) ?? phoneCountries[0];
+  }
+
+  protected get prompt(): string {
+    return this.countryData.mask;
+  }
+
+  protected get mask(): Mask {
+    const { mask } = this.countryData;
+    if (this._mask?.opts.mask !== mask) {
+      this._mask = new Mask({ eager: false, mask });
+    }
+    return this._mask;
+  }
 
   protected override get inputType(): string {
     return 'tel';
   }
 
+  /**
+   * Submit the E.164 number in international mode, national digits otherwise
+   */
+  override get formValue(): string {
+    return this.international ? this.getE164Value() : this.getUnmaskedValue();
+  }
+
+  /**
+   * Check the national number length for the current country
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (this.value) {
+      declared.push(validators.phoneNumber(this.countryData.code));
+    }
+    return declared;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    // Accept E.164 values, e.g. value="+442079460958"
+    if (changedProperties.has('value') && this.value.startsWith('+')) {
+      const parsed = parseInternationalNumber(this.value, this.country);
+      if (parsed) {
+        this.country = parsed.country.code;
+        this.value = parsed.nationalNumber;
+      }
+    }
+
+    // Drop digits that don't fit the new country's mask
+    if (changedProperties.has('country') && changedProperties.get('country') !== undefined) {
+      this.value = this.mask.unmasked(this.mask.masked(this.value));
+    }
+  }
+
   protected override update(changedProperties: PropertyValues<this>): void {
     super.update(changedProperties);
 
     // Format phone number if pasted without mask
-    if (!this._input?.value.includes('-')) {
+    if (this.countryData.dialCode === '1' && !this._input?.value.includes('-')) {
       this._input.value = this.formatPhoneNumber(this._input.value);
     }
   }
 
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('country') && changedProperties.get('country') !== undefined) {
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this._input?.addEventListener('paste', this._handlePaste);
+  }
+
+  /**
+   * Get the number in E.164 form (e.g. +442079460958)
+   * Returns an empty string when no digits have been entered
+   */
+  public getE164Value(): string {
+    const digits = this.getUnmaskedValue();
+    return digits ? `+${this.countryData.dialCode}${digits}` : '';
+  }
+
+  /**
+   * Normalize pasted international numbers (e.g. `+44 (0)20 7946 0958`) and
+   * national numbers with a trunk prefix before maska sees them
+   */
+  private _handlePaste = (event: ClipboardEvent): void => {
+    const text = event.clipboardData?.getData('text') ?? '';
+    const parsed = parseInternationalNumber(text, this.country);
+    const digits = text.replace(/\D/g, '');
+    const nationalNumber = parsed?.nationalNumber ?? stripTrunkPrefix(this.countryData, digits);
+
+    // Plain national numbers are left to the mask
+    if (!parsed && nationalNumber === digits) return;
+
+    event.preventDefault();
+
+    if (parsed && parsed.country.code !== this.countryData.code) {
+      this.country = parsed.country.code;
+      this.emitCountryChange();
+    }
+    this.value = this.mask.unmasked(this.mask.masked(nationalNumber));
+
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+
+    this.emitEvent('input-change', { value: this.value, originalEvent: event });
+  };
+
+  private _handleCountryChange(event: Event): void {
+    this.country = (event.target as HTMLSelectElement).value;
+    this.emitCountryChange();
+
+    if (this.validate && this.value) {
+      this.performValidation();
+    }
+  }
+
+  private emitCountryChange(): void {
+    const { code, dialCode } = this.countryData;
+    this.emitEvent<PhoneCountryChangeDetail>('country-change', { country: code, dialCode });
+  }
+
   /**
    * Format a raw phone number string to (XXX) XXX-XXXX
    */
@@ -63,6 +250,35 @@ export class MonkPhoneInput extends MaskedInput {
 
     return input;
   }
+
+  protected override renderPrefix() {
+    if (!this.international) return super.renderPrefix();
+
+    const selected = this.countryData.code;
+
+    return html`
+      <select
+        class="country-select"
+        part="country-select"
+        aria-label="Country"
+        ?disabled=${this.isDisabled || this.readonly}
+        @change=${this._handleCountryChange}
+      >
+        ${phoneCountries.map(
+          (country) => html`
+            <option
+              value=${country.code}
+              aria-label="${country.name} +${country.dialCode}"
+              ?selected=${country.code === selected}
+            >
+              ${phoneCountryFlag(country)} +${country.dialCode}
+            </option>
+          `
+        )}
+      </select>
+      ${super.renderPrefix()}
+    `;
+  }
 }
 
 declare global {
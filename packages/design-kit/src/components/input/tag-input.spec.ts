@@ -0,0 +1,236 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkTagInput } from './tag-input.js';
+import { validators } from './validators.js';
+
+const inputOf = (element: MonkTagInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const tagsOf = (element: MonkTagInput): HTMLElement[] =>
+  Array.from(element.shadowRoot?.querySelectorAll<HTMLElement>('.tag') ?? []);
+
+const type = (element: MonkTagInput, text: string): void => {
+  const input = inputOf(element);
+  input.value = text;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const press = (target: HTMLElement, key: string): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', {
+    key,
+    bubbles: true,
+    composed: true,
+    cancelable: true,
+  });
+  target.dispatchEvent(event);
+  return event;
+};
+
+const paste = (element: MonkTagInput, text: string): void => {
+  const clipboardData = new DataTransfer();
+  clipboardData.setData('text', text);
+  inputOf(element).dispatchEvent(
+    new ClipboardEvent('paste', { clipboardData, bubbles: true, cancelable: true })
+  );
+};
+
+describe('MonkTagInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-tag-input');
+    expect(element).to.be.instanceOf(MonkTagInput);
+  });
+
+  it('should render a badge for each tag in the value', async () => {
+    const element = await fixture<MonkTagInput>(html`
+      <monk-tag-input value="lit,web components"></monk-tag-input>
+    `);
+
+    expect(element.tags).to.deep.equal(['lit', 'web components']);
+    expect(tagsOf(element).map((tag) => tag.tagName)).to.deep.equal(['MONK-BADGE', 'MONK-BADGE']);
+    expect(inputOf(element).value).to.equal('');
+  });
+
+  describe('Entry', () => {
+    it('should add a tag on Enter without submitting', async () => {
+      const element = await fixture<MonkTagInput>(html`<monk-tag-input></monk-tag-input>`);
+
+      type(element, 'design');
+      const event = press(inputOf(element), 'Enter');
+      await element.updateComplete;
+
+      expect(event.defaultPrevented).to.be.true;
+      expect(element.tags).to.deep.equal(['design']);
+      expect(inputOf(element).value).to.equal('');
+    });
+
+    it('should add a tag when a delimiter is typed', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input delimiters=",;"></monk-tag-input>
+      `);
+
+      setTimeout(() => type(element, 'one;tw'));
+      const event = await oneEvent(element, 'tag-add');
+      await element.updateComplete;
+
+      expect(event.detail.tag).to.equal('one');
+      expect(element.tags).to.deep.equal(['one']);
+      expect(inputOf(element).value).to.equal('tw');
+    });
+
+    it('should split pasted text on delimiters and line breaks', async () => {
+      const element = await fixture<MonkTagInput>(html`<monk-tag-input></monk-tag-input>`);
+
+      paste(element, 'a@example.com, b@example.com\nc@example.com');
+      await element.updateComplete;
+
+      expect(element.tags).to.deep.equal(['a@example.com', 'b@example.com', 'c@example.com']);
+    });
+
+    it('should add the draft on blur', async () => {
+      const element = await fixture<MonkTagInput>(html`<monk-tag-input></monk-tag-input>`);
+
+      type(element, 'pending');
+      inputOf(element).dispatchEvent(new FocusEvent('blur'));
+      await element.updateComplete;
+
+      expect(element.tags).to.deep.equal(['pending']);
+    });
+
+    it('should reject duplicates case-insensitively', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input value="Design"></monk-tag-input>
+      `);
+
+      setTimeout(() => element.addTags(['design']));
+      const event = await oneEvent(element, 'tag-reject');
+
+      expect(event.detail).to.deep.equal({ tag: 'design', reason: 'duplicate' });
+      expect(element.tags).to.deep.equal(['Design']);
+    });
+
+    it('should stop at max-tags', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input max-tags="2"></monk-tag-input>
+      `);
+
+      const added = element.addTags(['a', 'b', 'c']);
+      await element.updateComplete;
+
+      expect(added).to.deep.equal(['a', 'b']);
+      expect(element.full).to.be.true;
+      expect(inputOf(element).readOnly).to.be.true;
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('should move to the last tag on Backspace in an empty input, then remove it', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input value="a,b"></monk-tag-input>
+      `);
+      inputOf(element).focus();
+
+      press(inputOf(element), 'Backspace');
+      expect(element.shadowRoot?.activeElement).to.equal(tagsOf(element)[1]);
+
+      setTimeout(() => press(tagsOf(element)[1], 'Backspace'));
+      const event = await oneEvent(element, 'tag-remove');
+      await element.updateComplete;
+
+      expect(event.detail.tag).to.equal('b');
+      expect(element.tags).to.deep.equal(['a']);
+    });
+
+    it('should move between tags with the arrow keys', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input value="a,b,c"></monk-tag-input>
+      `);
+      tagsOf(element)[1].focus();
+
+      press(tagsOf(element)[1], 'ArrowLeft');
+      expect(element.shadowRoot?.activeElement).to.equal(tagsOf(element)[0]);
+
+      press(tagsOf(element)[0], 'ArrowRight');
+      press(tagsOf(element)[1], 'ArrowRight');
+      press(tagsOf(element)[2], 'ArrowRight');
+      expect(element.shadowRoot?.activeElement).to.equal(inputOf(element));
+    });
+
+    it('should remove a tag with its remove button', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input value="a,b"></monk-tag-input>
+      `);
+      const button = element.shadowRoot?.querySelector('[aria-label="Remove a"]') as HTMLElement;
+
+      button.click();
+      await element.updateComplete;
+
+      expect(element.tags).to.deep.equal(['b']);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should check every tag against tag-rules', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input tag-rules="email" validate></monk-tag-input>
+      `);
+
+      element.addTags(['ok@example.com', 'nope']);
+      await element.updateComplete;
+
+      expect(element.invalid).to.be.true;
+      expect(element.validationErrors[0].code).to.equal('email');
+      expect(element.errorMessage).to.equal('"nope": Please enter a valid email address');
+      expect(tagsOf(element)[1].getAttribute('color-scheme')).to.equal('error');
+    });
+
+    it('should accept validator functions for tags', async () => {
+      const element = await fixture<MonkTagInput>(html`<monk-tag-input validate></monk-tag-input>`);
+      element.tagValidators = [validators.email];
+
+      element.addTags(['ok@example.com']);
+      await element.updateComplete;
+
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should block form submission with an invalid tag even without validate', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-tag-input name="emails" tag-rules="email" value="nope"></monk-tag-input></form>
+      `);
+      await form.querySelector('monk-tag-input')?.updateComplete;
+
+      expect(form.checkValidity()).to.be.false;
+    });
+
+    it('should be missing a value when required and empty', async () => {
+      const element = await fixture<MonkTagInput>(html`
+        <monk-tag-input required></monk-tag-input>
+      `);
+
+      expect(element.validity.valueMissing).to.be.true;
+    });
+  });
+
+  describe('Form association', () => {
+    it('should submit each tag under the name', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-tag-input name="keywords" value="lit,css"></monk-tag-input></form>
+      `);
+      await form.querySelector('monk-tag-input')?.updateComplete;
+
+      expect(new FormData(form).getAll('keywords')).to.deep.equal(['lit', 'css']);
+    });
+
+    it('should restore the initial tags on form reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-tag-input name="keywords" value="lit"></monk-tag-input></form>
+      `);
+      const element = form.querySelector('monk-tag-input') as MonkTagInput;
+      element.addTags(['css']);
+
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.tags).to.deep.equal(['lit']);
+    });
+  });
+});
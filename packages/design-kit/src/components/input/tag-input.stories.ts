@@ -0,0 +1,93 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './tag-input.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/TagInput',
+  component: 'monk-tag-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The TagInput component collects a list of free-form values, such as emails or keywords, as chips.
+
+## Features
+
+- Enter or a \`delimiters\` character (comma by default) turns the text into a tag
+- Pasted text is split on delimiters and line breaks
+- \`tag-rules\` / \`tagValidators\` check every tag; failing tags are shown in red
+- \`max-tags\` limit and case-insensitive duplicate prevention (\`tag-reject\` event)
+- Keyboard: Backspace in an empty input moves to the last tag, Backspace / Delete removes the
+  focused tag, arrow keys move between tags
+- Each tag is submitted under the input's name
+
+## Usage
+
+\`\`\`html
+<monk-tag-input label="Invite" name="emails" tag-rules="email" validate></monk-tag-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-tag-input
+      label="Keywords"
+      value="lit,web components"
+      placeholder="Add a keyword"
+      helper-text="Press Enter or comma to add"
+    ></monk-tag-input>
+  `,
+};
+
+export const Emails: Story = {
+  render: () => html`
+    <monk-tag-input
+      label="Invite"
+      name="emails"
+      tag-rules="email"
+      placeholder="Add email addresses"
+      helper-text="Paste a list separated by commas or new lines"
+      validate
+    ></monk-tag-input>
+  `,
+};
+
+export const MaxTags: Story = {
+  render: () => html`
+    <monk-tag-input
+      label="Labels"
+      value="bug,frontend"
+      max-tags="3"
+      delimiters=", "
+      helper-text="Up to 3 labels; space or comma adds one"
+    ></monk-tag-input>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-tag-input label="Small" size="sm" value="one,two"></monk-tag-input>
+      <monk-tag-input label="Medium" size="md" value="one,two"></monk-tag-input>
+      <monk-tag-input label="Large" size="lg" value="one,two"></monk-tag-input>
+    </monk-stack>
+  `,
+};
+
+export const States: Story = {
+  render: () => html`
+    <monk-stack spacing="4">
+      <monk-tag-input label="Readonly" value="fixed,tags" readonly></monk-tag-input>
+      <monk-tag-input label="Disabled" value="fixed,tags" disabled></monk-tag-input>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,594 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { BaseInput, type InputSize } from './base-input.js';
+import '../badge/badge.js';
+import type { BadgeSize } from '../badge/badge.js';
+import {
+  parseRules,
+  toValidationResult,
+  type ValidationResult,
+  type Validator,
+  type ValidatorFn,
+} from './validators.js';
+
+/**
+ * Why a tag was not added
+ * - duplicate: the tag is already in the list (compared case-insensitively)
+ * - max: the list already holds `max-tags` tags
+ */
+export type TagRejectReason = 'duplicate' | 'max';
+
+/**
+ * Detail of the `tag-add` and `tag-remove` events
+ */
+export interface TagChangeDetail {
+  tag: string;
+  tags: string[];
+  originalEvent?: Event;
+}
+
+/**
+ * Detail of the `tag-reject` event
+ */
+export interface TagRejectDetail {
+  tag: string;
+  reason: TagRejectReason;
+}
+
+const BADGE_SIZES: Record<InputSize, BadgeSize> = { sm: 'sm', md: 'sm', lg: 'md' };
+
+/**
+ * Tag input component - Free-form entry of several values shown as chips
+ *
+ * Text typed in the input becomes a tag on Enter or a delimiter key; pasted
+ * text is split on delimiters and line breaks. Tags are kept in `value`
+ * comma-separated, so a comma always separates tags, and each one is
+ * submitted under the input's name. `tag-rules` (or `tagValidators`) checks
+ * every tag: failing tags are shown in the error color and reported through
+ * the field's error message.
+ *
+ * @element monk-tag-input
+ *
+ * @example
+ * ```html
+ * <monk-tag-input
+ *   label="Invite"
+ *   name="emails"
+ *   tag-rules="email"
+ *   max-tags="10"
+ *   placeholder="Add email addresses"
+ *   validate
+ * ></monk-tag-input>
+ *
+ * <monk-tag-input label="Keywords" value="lit,web components" delimiters=",; "></monk-tag-input>
+ * ```
+ *
+ * @accessibility
+ * - Tags form a list before the text input; each tag is focusable with the arrow keys
+ * - Backspace in an empty input moves to the last tag; Backspace or Delete removes the
+ *   focused tag
+ * - Each remove button is labelled with its tag
+ *
+ * @fires tag-add - Fired when a tag is added, detail: `{ tag, tags, originalEvent }`
+ * @fires tag-remove - Fired when a tag is removed, detail: `{ tag, tags, originalEvent }`
+ * @fires tag-reject - Fired when a tag is a duplicate or over `max-tags`, detail: `{ tag, reason }`
+ * @fires input-change - Fired when the tags change, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when the tags change, with the same detail
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart input-container - The box around the tags and the text input
+ * @csspart tag - Each tag badge
+ * @csspart remove-button - Each tag's remove button
+ * @csspart input - The text input
+ *
+ * @slot prefix - Content before the tags
+ * @slot suffix - Content after the text input
+ */
+@customElement('monk-tag-input')
+export class MonkTagInput extends BaseInput {
+  /**
+   * Characters that end a tag as they are typed or pasted, besides Enter
+   * @default ','
+   */
+  @property({ type: String })
+  delimiters = ',';
+
+  /**
+   * Most tags allowed
+   */
+  @property({ type: Number, attribute: 'max-tags' })
+  maxTags?: number;
+
+  /**
+   * Pipe-separated named rules every tag must pass, e.g. "email" or "minLength:2"
+   */
+  @property({ type: String, attribute: 'tag-rules' })
+  tagRules?: string;
+
+  /**
+   * Validators every tag must pass, e.g. `[validators.email]`
+   */
+  @property({ type: Array, attribute: false })
+  tagValidators?: ValidatorFn[];
+
+  /**
+   * Text typed but not yet turned into a tag
+   */
+  @state()
+  private _draft = '';
+
+  protected override get inputType(): string {
+    return 'text';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .input-container {
+        flex-wrap: wrap;
+        gap: var(--monk-space-2);
+        cursor: text;
+      }
+
+      .tags {
+        display: contents;
+      }
+
+      .tag {
+        outline: none;
+      }
+
+      .tag::part(badge) {
+        gap: var(--monk-space-1);
+        text-transform: none;
+        letter-spacing: normal;
+      }
+
+      .tag:focus-visible::part(badge) {
+        box-shadow: 0 0 0 var(--monk-focus-ring-width, 2px) var(--monk-focus-ring-color);
+      }
+
+      .remove-button {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        padding: 0;
+        border: none;
+        background: transparent;
+        color: inherit;
+        font: inherit;
+        line-height: 1;
+        opacity: 0.7;
+        cursor: pointer;
+      }
+
+      .remove-button:hover {
+        opacity: 1;
+      }
+
+      input {
+        min-width: 8ch;
+      }
+    `,
+  ];
+
+  /**
+   * The tags, in the order they were added
+   */
+  get tags(): string[] {
+    return this.value ? this.value.split(',') : [];
+  }
+
+  set tags(tags: string[]) {
+    this.value = tags.join(',');
+  }
+
+  override get fieldValue(): string[] {
+    return this.tags;
+  }
+
+  /**
+   * Whether `max-tags` has been reached
+   */
+  get full(): boolean {
+    return this.maxTags !== undefined && this.tags.length >= this.maxTags;
+  }
+
+  /**
+   * Add tags, as if they were typed
+   * Blank, duplicate and surplus tags are skipped.
+   * @returns the tags that were added
+   */
+  addTags(tags: string[], originalEvent?: Event): string[] {
+    const added: string[] = [];
+    const current = this.tags;
+
+    for (const raw of tags.flatMap((tag) => tag.split(','))) {
+      const tag = raw.trim();
+      if (!tag) continue;
+
+      const key = tag.toLowerCase();
+      if (current.some((existing) => existing.toLowerCase() === key)) {
+        this.emitEvent<TagRejectDetail>('tag-reject', { tag, reason: 'duplicate' });
+        continue;
+      }
+      if (this.maxTags !== undefined && current.length >= this.maxTags) {
+        this.emitEvent<TagRejectDetail>('tag-reject', { tag, reason: 'max' });
+        continue;
+      }
+
+      current.push(tag);
+      added.push(tag);
+    }
+
+    if (added.length > 0) {
+      this.tags = current;
+      added.forEach((tag) =>
+        this.emitEvent<TagChangeDetail>('tag-add', { tag, tags: current, originalEvent })
+      );
+      this.commitChange(originalEvent);
+    }
+    return added;
+  }
+
+  /**
+   * Remove the tag at `index`
+   */
+  removeTag(index: number, originalEvent?: Event): void {
+    const tags = this.tags;
+    const [tag] = tags.splice(index, 1);
+    if (tag === undefined) return;
+
+    this.tags = tags;
+    this.emitEvent<TagChangeDetail>('tag-remove', { tag, tags, originalEvent });
+    this.commitChange(originalEvent);
+  }
+
+  /**
+   * Validate and report a change to the tags
+   */
+  private commitChange(originalEvent?: Event): void {
+    if (this.validate && this.validateOn !== 'submit') {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+  }
+
+  /**
+   * Checks from `tag-rules` and `tagValidators`, run against one tag
+   */
+  private get tagChecks(): ValidatorFn[] {
+    return [...(this.tagRules ? parseRules(this.tagRules) : []), ...(this.tagValidators ?? [])];
+  }
+
+  /**
+   * The first failed check of a tag, if any
+   */
+  private tagFailure(tag: string, checks = this.tagChecks): ValidationResult | undefined {
+    for (const check of checks) {
+      const result = toValidationResult(check(tag));
+      if (!result.valid) return result;
+    }
+    return undefined;
+  }
+
+  /**
+   * The first tag failing its checks, with the failure
+   */
+  private firstInvalidTag(): { tag: string; failure: ValidationResult } | undefined {
+    const checks = this.tagChecks;
+    if (checks.length === 0) return undefined;
+
+    for (const tag of this.tags) {
+      const failure = this.tagFailure(tag, checks);
+      if (failure) return { tag, failure };
+    }
+    return undefined;
+  }
+
+  /**
+   * Failure of the first invalid tag, with the tag named in its message
+   */
+  private get invalidTagResult(): ValidationResult {
+    const invalid = this.firstInvalidTag();
+    if (!invalid) return { valid: true };
+
+    const { tag, failure } = invalid;
+    return {
+      ...failure,
+      code: failure.code ?? 'tag',
+      message: `"${tag}": ${failure.message ?? 'Invalid value'}`,
+    };
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (this.tagChecks.length > 0) {
+      declared.push(() => this.invalidTagResult);
+    }
+    return declared;
+  }
+
+  /**
+   * Submit each tag under the input's name
+   */
+  protected override updateFormState(): void {
+    const data = new FormData();
+    if (this.name) {
+      this.tags.forEach((tag) => data.append(this.name as string, tag));
+    }
+    this.internals.setFormValue(data, this.value);
+    this.updateFormValidity();
+  }
+
+  /**
+   * Invalid tags block form submission even without `validate`
+   */
+  protected override updateFormValidity(): void {
+    const result = this.invalidTagResult;
+    if (!result.valid && this._input?.validity.valid) {
+      this.internals.setValidity({ customError: true }, this.messageFor(result), this._input);
+      return;
+    }
+    super.updateFormValidity();
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this._input?.addEventListener('paste', this._handlePaste);
+    this.syncDraft();
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+    // The text input shows the draft, not the value BaseInput syncs into it
+    this.syncDraft();
+  }
+
+  private syncDraft(): void {
+    if (this._input && this._input.value !== this._draft) {
+      this._input.value = this._draft;
+    }
+  }
+
+  override formResetCallback(): void {
+    super.formResetCallback();
+    this._draft = '';
+  }
+
+  /**
+   * Turn the draft into tags
+   */
+  private commitDraft(originalEvent?: Event): void {
+    if (!this._draft.trim()) return;
+
+    this.addTags(this.splitText(this._draft), originalEvent);
+    this._draft = '';
+  }
+
+  /**
+   * Split text on the delimiters and line breaks
+   */
+  private splitText(text: string): string[] {
+    const separators = new Set([...this.delimiters, '\n', '\r', ',']);
+    const tags: string[] = [];
+    let current = '';
+    for (const char of text) {
+      if (separators.has(char)) {
+        tags.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    tags.push(current);
+    return tags;
+  }
+
+  protected override _handleInput(event: Event): void {
+    const text = (event.target as HTMLInputElement).value;
+    const pieces = this.splitText(text);
+
+    // A delimiter was typed (or entered by a mobile keyboard): everything before it is done
+    if (pieces.length > 1) {
+      this._draft = pieces.pop() ?? '';
+      this.addTags(pieces, event);
+    } else {
+      this._draft = text;
+    }
+  }
+
+  protected override _handleChange(): void {
+    // Changes are reported when tags are added or removed, not for the draft
+  }
+
+  protected override _handleBlur(event: FocusEvent): void {
+    this.commitDraft(event);
+    super._handleBlur(event);
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && this._draft.trim()) {
+      // Keep Enter from submitting the form while a tag is being entered
+      event.preventDefault();
+      this.commitDraft(event);
+    } else if (
+      (event.key === 'Backspace' || event.key === 'ArrowLeft') &&
+      !this._draft &&
+      this.tags.length > 0
+    ) {
+      event.preventDefault();
+      this.focusTag(this.tags.length - 1);
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  private _handlePaste = (event: ClipboardEvent): void => {
+    if (this.readonly) return;
+
+    const text = event.clipboardData?.getData('text') ?? '';
+    const pieces = this.splitText(text);
+    if (pieces.length < 2) return;
+
+    // Keep whatever precedes the caret as part of the first pasted tag
+    event.preventDefault();
+    pieces[0] = this._draft + pieces[0];
+    this._draft = '';
+    this.addTags(pieces, event);
+  };
+
+  private tagElements(): HTMLElement[] {
+    return Array.from(this.renderRoot.querySelectorAll<HTMLElement>('.tag'));
+  }
+
+  private focusTag(index: number): void {
+    this.tagElements()[index]?.focus();
+  }
+
+  private _handleTagKeyDown(event: KeyboardEvent, index: number): void {
+    const rtl = getComputedStyle(this).direction === 'rtl';
+    const back = rtl ? 'ArrowRight' : 'ArrowLeft';
+    const forward = rtl ? 'ArrowLeft' : 'ArrowRight';
+
+    if (event.key === 'Backspace' || event.key === 'Delete') {
+      event.preventDefault();
+      if (this.isDisabled || this.readonly) return;
+
+      const remaining = this.tags.length - 1;
+      this.removeTag(index, event);
+      this.updateComplete.then(() => {
+        // Backspace moves back like in text; Delete keeps the position
+        const next = event.key === 'Backspace' ? index - 1 : index;
+        if (next >= 0 && next < remaining) {
+          this.focusTag(next);
+        } else {
+          this._input?.focus();
+        }
+      });
+    } else if (event.key === back) {
+      event.preventDefault();
+      this.focusTag(Math.max(0, index - 1));
+    } else if (event.key === forward) {
+      event.preventDefault();
+      if (index < this.tags.length - 1) {
+        this.focusTag(index + 1);
+      } else {
+        this._input?.focus();
+      }
+    }
+  }
+
+  private _handleRemoveClick(event: MouseEvent, index: number): void {
+    event.stopPropagation();
+    this.removeTag(index, event);
+    this._input?.focus();
+  }
+
+  /**
+   * Clicking the empty part of the box focuses the text input
+   */
+  private _handleContainerClick(event: MouseEvent): void {
+    if (event.target === event.currentTarget) {
+      this._input?.focus();
+    }
+  }
+
+  private renderTag(tag: string, index: number) {
+    const invalid = !!this.tagFailure(tag);
+    const locked = this.isDisabled || this.readonly;
+
+    return html`
+      <monk-badge
+        class="tag"
+        part="tag"
+        role="listitem"
+        tabindex="-1"
+        variant="subtle"
+        color-scheme=${invalid ? 'error' : 'primary'}
+        size=${BADGE_SIZES[this.size]}
+        aria-invalid=${invalid ? 'true' : 'false'}
+        @keydown=${(event: KeyboardEvent) => this._handleTagKeyDown(event, index)}
+      >
+        ${tag}
+        ${locked
+          ? nothing
+          : html`
+              <button
+                type="button"
+                class="remove-button"
+                part="remove-button"
+                tabindex="-1"
+                aria-label=${`Remove ${tag}`}
+                @click=${(event: MouseEvent) => this._handleRemoveClick(event, index)}
+              >
+                ✕
+              </button>
+            `}
+      </monk-badge>
+    `;
+  }
+
+  protected override renderInput() {
+    const tags = this.tags;
+    const containerClasses = {
+      'input-container': true,
+      focused: this._focused,
+      disabled: this.isDisabled,
+    };
+
+    return html`
+      <div
+        class=${classMap(containerClasses)}
+        part="input-container"
+        @click=${this._handleContainerClick}
+      >
+        ${this.renderStartAdornments()}
+        ${tags.length > 0
+          ? html`
+              <div class="tags" role="list" aria-label=${`${this.label ?? ''} tags`.trim()}>
+                ${tags.map((tag, index) => this.renderTag(tag, index))}
+              </div>
+            `
+          : nothing}
+        <input
+          id="input"
+          part="input"
+          type="text"
+          placeholder=${ifDefined(tags.length === 0 ? this.placeholder : undefined)}
+          ?disabled=${this.isDisabled}
+          ?readonly=${this.readonly || this.full}
+          autocomplete=${ifDefined(this.autocomplete)}
+          maxlength=${ifDefined(this.maxlength)}
+          inputmode=${ifDefined(this.inputmode)}
+          aria-invalid=${this.invalid ? 'true' : 'false'}
+          aria-busy=${this.pending || this.loading ? 'true' : 'false'}
+          aria-describedby=${ifDefined(
+            this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+          )}
+          @input=${this._handleInput}
+          @change=${this._handleChange}
+          @focus=${this._handleFocus}
+          @blur=${this._handleBlur}
+          @keydown=${this._handleKeyDown}
+        />
+        ${this.renderEndAdornments()}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-tag-input': MonkTagInput;
+  }
+}
@@ -1,5 +1,11 @@
 import { expect, fixture, html, oneEvent } from '@open-wc/testing';
 import { MonkTextInput } from './text-input.js';
+import {
+  asyncValidator,
+  registerValidator,
+  unregisterValidator,
+  validators,
+} from './validators.js';
 
 describe('MonkTextInput', () => {
   it('should be defined', () => {
@@ -423,6 +429,612 @@ describe('MonkTextInput', () => {
     });
   });
 
+  describe('Validator Messages', () => {
+    it('should show the failing rule\'s default message', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="abc"
+          validate
+          .validators=${[validators.required, validators.minLength(8)]}
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+      await element.updateComplete;
+
+      expect(element.errorMessage).to.equal('Must be at least 8 characters');
+      expect(element.validationErrors.map((error) => error.code)).to.deep.equal(['minLength']);
+    });
+
+    it('should stop at the first failure by default', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="abc"
+          validate
+          .validators=${[validators.minLength(8), validators.pattern(/\d/, 'Must contain a number')]}
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+      await element.updateComplete;
+
+      expect(element.validationErrors).to.have.length(1);
+      expect(element.shadowRoot?.querySelector('.error-message')?.textContent?.trim()).to.equal(
+        'Must be at least 8 characters'
+      );
+    });
+
+    it('should list every failure when error-display is "all"', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="abc"
+          validate
+          error-display="all"
+          .validators=${[validators.minLength(8), validators.pattern(/\d/, 'Must contain a number')]}
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+      await element.updateComplete;
+
+      const items = element.shadowRoot?.querySelectorAll('.error-list li');
+      expect(items?.length).to.equal(2);
+      expect(items?.[1].textContent).to.equal('Must contain a number');
+      expect(element.validationErrors.map((error) => error.code)).to.deep.equal([
+        'minLength',
+        'pattern',
+      ]);
+    });
+
+    it('should prefer validation-message over rule messages', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value=""
+          validate
+          .validators=${[validators.required]}
+          validation-message="Tell us your name"
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.errorMessage).to.equal('Tell us your name');
+    });
+
+    it('should still accept boolean validators', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="abc"
+          validate
+          .validators=${[(val: string) => val.length >= 5]}
+        ></monk-text-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Validation failed');
+    });
+
+    it('should include failures in the input-invalid event', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="" validate .validators=${[validators.required]}></monk-text-input>
+      `);
+
+      setTimeout(() => element.performValidation());
+
+      const event = await oneEvent(element, 'input-invalid');
+      expect(event.detail.message).to.equal('This field is required');
+      expect(event.detail.errors[0].code).to.equal('required');
+    });
+  });
+
+  describe('Declarative Validation', () => {
+    afterEach(() => unregisterValidator('even'));
+
+    it('should validate the rules attribute', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="monk" validate rules="required|email|minLength:5"></monk-text-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.invalid).to.be.true;
+      expect(element.validationErrors[0].code).to.equal('email');
+    });
+
+    it('should pass rule parameters', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="a@b.co" validate rules="email|minLength:10"></monk-text-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.errorMessage).to.equal('Must be at least 10 characters');
+    });
+
+    it('should match the whole value against pattern', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="12a" validate pattern="[0-9]+"></monk-text-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+
+      element.value = '123';
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should validate minlength, min-value and max-value', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="5" validate min-value="10" max-value="20"></monk-text-input>
+      `);
+
+      element.performValidation();
+      expect(element.validationErrors[0].code).to.equal('min');
+
+      element.value = '15';
+      expect(element.performValidation()).to.be.true;
+
+      element.minlength = 3;
+      element.performValidation();
+      expect(element.validationErrors[0].code).to.equal('minLength');
+    });
+
+    it('should compare against the input referenced by match', async () => {
+      const container = await fixture<HTMLDivElement>(html`
+        <div>
+          <monk-text-input id="password" value="secret"></monk-text-input>
+          <monk-text-input id="confirm" value="secrets" validate match="#password"></monk-text-input>
+        </div>
+      `);
+      const confirm = container.querySelector('#confirm') as MonkTextInput;
+
+      confirm.performValidation();
+      expect(confirm.errorMessage).to.equal('Values do not match');
+
+      confirm.value = 'secret';
+      expect(confirm.performValidation()).to.be.true;
+    });
+
+    it('should use rules registered with registerValidator()', async () => {
+      registerValidator('even', (value) => ({
+        valid: Number(value) % 2 === 0,
+        message: 'Must be even',
+      }));
+
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="3" validate rules="even"></monk-text-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.errorMessage).to.equal('Must be even');
+      expect(element.validationErrors[0].code).to.equal('even');
+    });
+
+    it('should pass an empty optional field', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          validate
+          minlength="3"
+          min-value="10"
+          pattern="[0-9]+"
+          rules="email|minLength:5"
+        ></monk-text-input>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+      expect(element.errorMessage).to.equal('');
+
+      element.rules = 'required';
+      expect(element.performValidation()).to.be.false;
+    });
+
+    it('should warn once about an unknown rule and skip it', async () => {
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => warnings.push(args[0]);
+      try {
+        const element = await fixture<MonkTextInput>(html`
+          <monk-text-input value="ada" validate rules="required|nonesuch"></monk-text-input>
+        `);
+
+        expect(element.performValidation()).to.be.true;
+        expect(element.performValidation()).to.be.true;
+      } finally {
+        console.warn = warn;
+      }
+
+      expect(warnings).to.deep.equal(['[monkbunch] Unknown validation rule "nonesuch"']);
+    });
+
+    it('should read an alternation pattern rule to the end', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="dog"
+          validate
+          rules="required|pattern:^(cat|dog)$"
+        ></monk-text-input>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+
+      element.value = 'cow';
+      expect(element.performValidation()).to.be.false;
+      expect(element.validationErrors[0].code).to.equal('pattern');
+    });
+
+    it('should skip an invalid pattern and warn once', async () => {
+      const warnings: unknown[] = [];
+      const warn = console.warn;
+      console.warn = (...args: unknown[]) => warnings.push(args);
+
+      try {
+        const element = await fixture<MonkTextInput>(html`
+          <monk-text-input value="abc" validate pattern="[a-z"></monk-text-input>
+        `);
+
+        expect(element.performValidation()).to.be.true;
+        element.value = 'abcd';
+        expect(element.performValidation()).to.be.true;
+        expect(warnings).to.have.length(1);
+      } finally {
+        console.warn = warn;
+      }
+    });
+
+    it('should combine declarative rules with the validators property', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="abcdef"
+          validate
+          rules="minLength:3"
+          .validators=${[validators.maxLength(4)]}
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+
+      expect(element.validationErrors[0].code).to.equal('maxLength');
+    });
+  });
+
+  describe('Async Validation', () => {
+    it('should set pending and show a spinner while async validators run', async () => {
+      let resolveCheck!: (valid: boolean) => void;
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="monk"
+          validate
+          .validators=${[asyncValidator(() => new Promise<boolean>((resolve) => (resolveCheck = resolve)))]}
+        ></monk-text-input>
+      `);
+
+      setTimeout(() => element.performValidation());
+      await oneEvent(element, 'input-validating');
+      await element.updateComplete;
+
+      expect(element.pending).to.be.true;
+      expect(element.hasAttribute('pending')).to.be.true;
+      expect(element.shadowRoot?.querySelector('.pending-indicator')).to.exist;
+
+      resolveCheck(true);
+      expect(await element.validationComplete).to.be.true;
+      await element.updateComplete;
+
+      expect(element.pending).to.be.false;
+      expect(element.shadowRoot?.querySelector('.pending-indicator')).to.be.null;
+    });
+
+    it('should mark invalid when an async validator fails', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="taken"
+          validate
+          .validators=${[asyncValidator(async (value) => value !== 'taken')]}
+          validation-message="Username is taken"
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+      expect(await element.validationComplete).to.be.false;
+
+      expect(element.invalid).to.be.true;
+      expect(element.errorMessage).to.equal('Username is taken');
+    });
+
+    it('should skip async validators when sync validators fail', async () => {
+      let called = false;
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="ab"
+          validate
+          .validators=${[
+            (val: string) => val.length >= 3,
+            asyncValidator(async () => {
+              called = true;
+              return true;
+            }),
+          ]}
+        ></monk-text-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(await element.validationComplete).to.be.false;
+      expect(called).to.be.false;
+    });
+
+    it('should abort a stale run when validation is triggered again', async () => {
+      const signals: AbortSignal[] = [];
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          value="first"
+          validate
+          validation-debounce="0"
+          .validators=${[
+            asyncValidator((_value, signal) => {
+              signals.push(signal);
+              return new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 20));
+            }),
+          ]}
+        ></monk-text-input>
+      `);
+
+      element.performValidation();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      element.value = 'second';
+      element.performValidation();
+
+      expect(await element.validationComplete).to.be.true;
+      expect(signals[0].aborted).to.be.true;
+      expect(signals[1].aborted).to.be.false;
+    });
+
+    it('should debounce async validators while typing', async () => {
+      let calls = 0;
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input
+          validate
+          validate-on="input"
+          validation-debounce="50"
+          .validators=${[
+            asyncValidator(async () => {
+              calls++;
+              return true;
+            }),
+          ]}
+        ></monk-text-input>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+      for (const value of ['m', 'mo', 'mon', 'monk']) {
+        input.value = value;
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+
+      await element.validationComplete;
+      expect(calls).to.equal(1);
+    });
+  });
+
+  describe('Form Association', () => {
+    it('should be form-associated', () => {
+      expect(MonkTextInput.formAssociated).to.be.true;
+    });
+
+    it('should expose the owning form', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-text-input name="username"></monk-text-input></form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+
+      expect(element.form).to.equal(form);
+    });
+
+    it('should contribute its value to FormData', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-text-input name="username" value="monk"></monk-text-input></form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('username')).to.equal('monk');
+
+      element.value = 'bunch';
+      await element.updateComplete;
+
+      expect(new FormData(form).get('username')).to.equal('bunch');
+    });
+
+    it('should restore the initial value on form.reset()', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-text-input name="username" value="monk"></monk-text-input></form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+
+      element.value = 'changed';
+      element.setError('Taken');
+      await element.updateComplete;
+
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.value).to.equal('monk');
+      expect(element.invalid).to.be.false;
+    });
+
+    it('should make the form invalid when required and empty', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-text-input name="username" required></monk-text-input></form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+      await element.updateComplete;
+
+      expect(form.checkValidity()).to.be.false;
+      expect(element.validity.valueMissing).to.be.true;
+
+      element.value = 'monk';
+      await element.updateComplete;
+
+      expect(form.checkValidity()).to.be.true;
+    });
+
+    it('should feed custom validator failures into form validity', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-text-input
+            name="username"
+            value="abc"
+            validate
+            .validators=${[(val: string) => val.length >= 5]}
+            validation-message="Too short"
+          ></monk-text-input>
+        </form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+
+      element.performValidation();
+      await element.updateComplete;
+
+      expect(form.checkValidity()).to.be.false;
+      expect(element.validity.customError).to.be.true;
+
+      element.value = 'abcdef';
+      await element.updateComplete;
+      element.performValidation();
+
+      expect(form.checkValidity()).to.be.true;
+    });
+
+    it('should be disabled by a disabled fieldset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <fieldset disabled><monk-text-input name="username"></monk-text-input></fieldset>
+        </form>
+      `);
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+      await element.updateComplete;
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      expect(input.disabled).to.be.true;
+      expect(element.hasAttribute('disabled')).to.be.false;
+    });
+
+    it('should be usable again once the fieldset is re-enabled', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <fieldset disabled><monk-text-input name="username"></monk-text-input></fieldset>
+        </form>
+      `);
+      const fieldset = form.querySelector('fieldset') as HTMLFieldSetElement;
+      const element = form.querySelector('monk-text-input') as MonkTextInput;
+      await element.updateComplete;
+
+      fieldset.disabled = false;
+      await element.updateComplete;
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      expect(input.disabled).to.be.false;
+      expect(element.disabled).to.be.false;
+
+      element.value = 'ada';
+      await element.updateComplete;
+      expect(new FormData(form).get('username')).to.equal('ada');
+    });
+
+    it('should accept a custom error on readonly and fieldset-disabled fields', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-text-input name="username" readonly></monk-text-input>
+          <fieldset disabled><monk-text-input name="email"></monk-text-input></fieldset>
+        </form>
+      `);
+      const [readonly, disabled] = Array.from(form.querySelectorAll('monk-text-input'));
+      await readonly.updateComplete;
+      await disabled.updateComplete;
+
+      readonly.setError('Username is taken');
+      disabled.setCustomValidity('Email is taken');
+
+      expect(readonly.validity.customError).to.be.true;
+      expect(readonly.errorMessage).to.equal('Username is taken');
+      expect(disabled.validity.customError).to.be.true;
+
+      readonly.clearError();
+      expect(readonly.validity.valid).to.be.true;
+    });
+  });
+
+  describe('Adornments', () => {
+    it('should not show a clear button until the input has a value', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input clearable></monk-text-input>
+      `);
+
+      expect(element.shadowRoot?.querySelector('[part="clear-button"]')).to.be.null;
+
+      element.value = 'Paris';
+      await element.updateComplete;
+
+      expect(element.shadowRoot?.querySelector('[part="clear-button"]')).to.exist;
+    });
+
+    it('should clear the value and emit input-clear', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input label="City" value="Paris" clearable></monk-text-input>
+      `);
+      const button = element.shadowRoot?.querySelector(
+        '[part="clear-button"]'
+      ) as HTMLButtonElement;
+
+      expect(button.getAttribute('aria-label')).to.equal('Clear City');
+
+      setTimeout(() => button.click());
+      const event = await oneEvent(element, 'input-clear');
+      await element.updateComplete;
+      const input = element.shadowRoot?.querySelector('input');
+
+      expect(event.detail.previousValue).to.equal('Paris');
+      expect(element.value).to.equal('');
+      expect(input?.value).to.equal('');
+      expect(element.shadowRoot?.activeElement).to.equal(input);
+      expect(element.shadowRoot?.querySelector('[part="clear-button"]')).to.be.null;
+    });
+
+    it('should not offer clearing while disabled or readonly', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input value="Paris" clearable readonly></monk-text-input>
+      `);
+
+      expect(element.shadowRoot?.querySelector('[part="clear-button"]')).to.be.null;
+    });
+
+    it('should show a spinner while loading', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input loading></monk-text-input>
+      `);
+      const spinner = element.shadowRoot?.querySelector('[part="loading-indicator"]');
+      const input = element.shadowRoot?.querySelector('input');
+
+      expect(spinner?.getAttribute('role')).to.equal('status');
+      expect(spinner?.getAttribute('aria-label')).to.equal('Loading');
+      expect(input?.getAttribute('aria-busy')).to.equal('true');
+    });
+
+    it('should render decorative leading and trailing icons around the slots', async () => {
+      const element = await fixture<MonkTextInput>(html`
+        <monk-text-input leading-icon="🔍" trailing-icon="⌘K"></monk-text-input>
+      `);
+      const container = element.shadowRoot?.querySelector('[part="input-container"]');
+      const leading = container?.querySelector('[part="leading-icon"]');
+      const trailing = container?.querySelector('[part="trailing-icon"]');
+
+      expect(leading?.textContent).to.equal('🔍');
+      expect(leading?.getAttribute('aria-hidden')).to.equal('true');
+      expect(trailing?.textContent).to.equal('⌘K');
+      expect(container?.firstElementChild).to.equal(leading);
+      expect(container?.lastElementChild).to.equal(trailing);
+    });
+  });
+
   describe('Slots', () => {
     it('should render prefix slot', async () => {
       const element = await fixture<MonkTextInput>(html`
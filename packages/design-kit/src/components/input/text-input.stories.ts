@@ -6,6 +6,7 @@ import '../typography/text.js';
 import '../layout/stack.js';
 import '../layout/flex.js';
 import '../button/button.js';
+import { asyncValidator, validators } from './validators.js';
 
 const meta: Meta = {
   title: 'Components/Input/TextInput',
@@ -26,6 +27,7 @@ The TextInput component provides a single-line text input field with support for
 - **Helper Text**: Contextual hints below the input
 - **Error Messages**: Validation feedback that replaces helper text
 - **Prefix/Suffix**: Slots for icons, text, or buttons
+- **Adornments**: Built-in clear button, loading spinner and leading/trailing icons
 - **Character Count**: Optional character counter with maxlength
 - **Accessibility**: ARIA labels, keyboard navigation, screen reader support
 
@@ -133,6 +135,28 @@ The TextInput component provides a single-line text input field with support for
         defaultValue: { summary: 'false' },
       },
     },
+    clearable: {
+      control: 'boolean',
+      description: 'Show a clear button while the input has a value',
+      table: {
+        defaultValue: { summary: 'false' },
+      },
+    },
+    loading: {
+      control: 'boolean',
+      description: 'Show a loading spinner',
+      table: {
+        defaultValue: { summary: 'false' },
+      },
+    },
+    leadingIcon: {
+      control: 'text',
+      description: 'Icon before the input',
+    },
+    trailingIcon: {
+      control: 'text',
+      description: 'Icon after the input',
+    },
   },
 };
 
@@ -341,6 +365,41 @@ export const PrefixSuffix: Story = {
   `,
 };
 
+/**
+ * Built-in clear button, loading spinner and icons, without hand-rolled slot content
+ */
+export const Adornments: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-stack spacing="3">
+        <monk-heading level="h4">Clearable</monk-heading>
+        <monk-text-input
+          label="City"
+          value="Paris"
+          clearable
+          @input-clear=${(e: CustomEvent) => console.log('Cleared:', e.detail.previousValue)}
+        ></monk-text-input>
+      </monk-stack>
+
+      <monk-stack spacing="3">
+        <monk-heading level="h4">Loading</monk-heading>
+        <monk-text-input label="Search" value="design" leading-icon="🔍" loading></monk-text-input>
+      </monk-stack>
+
+      <monk-stack spacing="3">
+        <monk-heading level="h4">Leading and Trailing Icons</monk-heading>
+        <monk-text-input
+          label="Command"
+          placeholder="Type a command"
+          leading-icon="›"
+          trailing-icon="⌘K"
+          clearable
+        ></monk-text-input>
+      </monk-stack>
+    </monk-stack>
+  `,
+};
+
 /**
  * Character count with maxlength
  */
@@ -479,6 +538,118 @@ export const FormExamples: Story = {
   `,
 };
 
+/**
+ * Built-in validators return their own messages; error-display="all" lists every failing rule
+ */
+export const RuleMessages: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-text-input
+        label="Password (first failure)"
+        validate
+        validate-on="input"
+        .validators=${[
+          validators.required,
+          validators.minLength(8),
+          validators.pattern(/\d/, 'Must contain a number'),
+        ]}
+      ></monk-text-input>
+
+      <monk-text-input
+        label="Password (all failures)"
+        validate
+        validate-on="input"
+        error-display="all"
+        .validators=${[
+          validators.required,
+          validators.minLength(8),
+          validators.pattern(/\d/, 'Must contain a number'),
+        ]}
+      ></monk-text-input>
+    </monk-stack>
+  `,
+};
+
+/**
+ * Validation declared with attributes, usable from plain HTML
+ */
+export const DeclarativeRules: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-text-input
+        label="Email"
+        validate
+        rules="required|email|minLength:5"
+      ></monk-text-input>
+
+      <monk-text-input
+        label="Team code"
+        helper-text="Three letters followed by three digits"
+        validate
+        pattern="[A-Z]{3}[0-9]{3}"
+      ></monk-text-input>
+
+      <monk-text-input id="story-password" label="Password" minlength="8" validate></monk-text-input>
+
+      <monk-text-input
+        label="Confirm password"
+        validate
+        match="#story-password"
+      ></monk-text-input>
+    </monk-stack>
+  `,
+};
+
+/**
+ * Async validators run after typing pauses and show a spinner while pending
+ */
+export const AsyncValidation: Story = {
+  render: () => html`
+    <monk-text-input
+      label="Username"
+      helper-text="Try 'admin' or 'monk'"
+      validate
+      validate-on="input"
+      validation-message="That username is already taken"
+      .validators=${[
+        asyncValidator(
+          (value, signal) =>
+            new Promise<boolean>((resolve) => {
+              const timer = setTimeout(() => resolve(!['admin', 'monk'].includes(value)), 800);
+              signal.addEventListener('abort', () => clearTimeout(timer));
+            })
+        ),
+      ]}
+      style="max-width: 400px;"
+    ></monk-text-input>
+  `,
+};
+
+/**
+ * Inputs are form-associated, so a plain <form> collects their values and
+ * blocks submission while a required field is empty
+ */
+export const NativeForm: Story = {
+  render: () => html`
+    <form
+      style="max-width: 400px;"
+      @submit=${(e: SubmitEvent) => {
+        e.preventDefault();
+        console.log('Form data:', Object.fromEntries(new FormData(e.target as HTMLFormElement)));
+      }}
+    >
+      <monk-stack spacing="4">
+        <monk-text-input name="firstName" label="First Name" required></monk-text-input>
+        <monk-text-input name="lastName" label="Last Name" required></monk-text-input>
+        <monk-flex gap="3">
+          <button type="reset">Reset</button>
+          <button type="submit">Submit</button>
+        </monk-flex>
+      </monk-stack>
+    </form>
+  `,
+};
+
 /**
  * Playground for interactive testing
  */
@@ -494,6 +665,8 @@ export const Playground: Story = {
     required: false,
     invalid: false,
     showCount: false,
+    clearable: false,
+    loading: false,
   },
   render: (args) => html`
     <monk-text-input
@@ -508,6 +681,10 @@ export const Playground: Story = {
       ?required=${args.required}
       ?invalid=${args.invalid}
       ?show-count=${args.showCount}
+      ?clearable=${args.clearable}
+      ?loading=${args.loading}
+      leading-icon=${args.leadingIcon || ''}
+      trailing-icon=${args.trailingIcon || ''}
       maxlength=${args.showCount ? 100 : undefined}
       style="max-width: 400px;"
       @input-change=${(e: CustomEvent) => console.log('Input change:', e.detail.value)}
@@ -36,6 +36,14 @@ import { BaseInput } from './base-input.js';
  *   maxlength="100"
  *   show-count
  * ></monk-text-input>
+ *
+ * <!-- Clearable search with an icon and loading spinner -->
+ * <monk-text-input
+ *   label="City"
+ *   leading-icon="🔍"
+ *   clearable
+ *   loading
+ * ></monk-text-input>
  * ```
  *
  * @fires input-change - Fired when the input value changes (on input event)
@@ -43,6 +51,7 @@ import { BaseInput } from './base-input.js';
  * @fires input-focus - Fired when the input receives focus
  * @fires input-blur - Fired when the input loses focus
  * @fires input-keydown - Fired on keydown event
+ * @fires input-clear - Fired when the clear button empties the input
  *
  * @cssprop --monk-color-border-* - Border color tokens
  * @cssprop --monk-color-bg-* - Background color tokens
@@ -53,6 +62,10 @@ import { BaseInput } from './base-input.js';
  * @csspart wrapper - The wrapper container
  * @csspart input-container - The input container
  * @csspart input - The native input element
+ * @csspart clear-button - The clear button (with `clearable`)
+ * @csspart loading-indicator - The spinner shown while `loading`
+ * @csspart leading-icon - The icon before the input
+ * @csspart trailing-icon - The icon after the input
  *
  * @slot prefix - Content to display before the input (e.g., icons, text)
  * @slot suffix - Content to display after the input (e.g., icons, buttons)
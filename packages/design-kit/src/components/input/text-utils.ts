@@ -0,0 +1,43 @@
+/**
+ * Text helpers for counting user-perceived characters
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Minimal shape of Intl.Segmenter, which is not in the ES2020 type library
+ */
+interface GraphemeSegmenter {
+  segment(text: string): Iterable<{ segment: string }>;
+}
+
+type SegmenterConstructor = new (
+  locale?: string,
+  options?: { granularity: 'grapheme' }
+) => GraphemeSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+
+let segmenter: GraphemeSegmenter | undefined;
+
+/**
+ * Split text into grapheme clusters, so "👍🏽" or "👨‍👩‍👧" count as one character
+ * Falls back to code points where Intl.Segmenter is not available.
+ */
+export const graphemes = (text: string): string[] => {
+  if (!Segmenter) return Array.from(text);
+
+  segmenter ??= new Segmenter(undefined, { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+};
+
+/**
+ * Number of grapheme clusters in the text
+ */
+export const graphemeLength = (text: string): number => graphemes(text).length;
+
+/**
+ * The first `max` grapheme clusters of the text
+ */
+export const truncateGraphemes = (text: string, max: number): string =>
+  graphemes(text).slice(0, max).join('');
@@ -0,0 +1,215 @@
+import { expect, fixture, html } from '@open-wc/testing';
+import { MonkTextarea } from './textarea.js';
+import { graphemeLength, truncateGraphemes } from './text-utils.js';
+import '../form/form.js';
+import type { MonkForm } from '../form/form.js';
+
+const typeText = (element: MonkTextarea, text: string): void => {
+  const textarea = element.shadowRoot?.querySelector('textarea') as HTMLTextAreaElement;
+  textarea.value = text;
+  textarea.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const textareaOf = (element: MonkTextarea): HTMLTextAreaElement =>
+  element.shadowRoot?.querySelector('textarea') as HTMLTextAreaElement;
+
+describe('MonkTextarea', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-textarea');
+    expect(element).to.be.instanceOf(MonkTextarea);
+  });
+
+  it('should render a labelled native textarea', async () => {
+    const element = await fixture<MonkTextarea>(html`
+      <monk-textarea label="Notes" value="First line"></monk-textarea>
+    `);
+
+    const textarea = textareaOf(element);
+    expect(textarea).to.exist;
+    expect(textarea.id).to.equal('input');
+    expect(textarea.rows).to.equal(3);
+    expect(textarea.value).to.equal('First line');
+    expect(element.shadowRoot?.querySelector('label')?.getAttribute('for')).to.equal('input');
+  });
+
+  it('should keep newlines in the value', async () => {
+    const element = await fixture<MonkTextarea>(html`<monk-textarea></monk-textarea>`);
+
+    typeText(element, 'one\ntwo');
+    await element.updateComplete;
+
+    expect(element.value).to.equal('one\ntwo');
+  });
+
+  describe('Rows and Auto-grow', () => {
+    it('should use the rows attribute when not auto-growing', async () => {
+      const element = await fixture<MonkTextarea>(html`<monk-textarea rows="5"></monk-textarea>`);
+
+      expect(element.autoGrows).to.be.false;
+      expect(textareaOf(element).rows).to.equal(5);
+      expect(textareaOf(element).style.height).to.equal('');
+    });
+
+    it('should start at min-rows and grow with the content', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea min-rows="2" max-rows="10"></monk-textarea>
+      `);
+      const textarea = textareaOf(element);
+      const initialHeight = textarea.getBoundingClientRect().height;
+
+      typeText(element, 'a\nb\nc\nd\ne');
+      await element.updateComplete;
+
+      expect(element.autoGrows).to.be.true;
+      expect(textarea.rows).to.equal(2);
+      expect(textarea.getBoundingClientRect().height).to.be.greaterThan(initialHeight);
+      expect(textarea.style.overflowY).to.equal('hidden');
+    });
+
+    it('should stop growing at max-rows and scroll instead', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea min-rows="1" max-rows="3"></monk-textarea>
+      `);
+      const textarea = textareaOf(element);
+
+      typeText(element, 'a\nb\nc');
+      await element.updateComplete;
+      const maxHeight = textarea.getBoundingClientRect().height;
+
+      typeText(element, Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n'));
+      await element.updateComplete;
+
+      expect(textarea.getBoundingClientRect().height).to.be.closeTo(maxHeight, 1);
+      expect(textarea.style.overflowY).to.equal('auto');
+    });
+
+    it('should shrink again when content is removed', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea min-rows="1" max-rows="6"></monk-textarea>
+      `);
+      const textarea = textareaOf(element);
+      const initialHeight = textarea.getBoundingClientRect().height;
+
+      typeText(element, 'a\nb\nc\nd');
+      await element.updateComplete;
+      typeText(element, '');
+      await element.updateComplete;
+
+      expect(textarea.getBoundingClientRect().height).to.be.closeTo(initialHeight, 1);
+    });
+  });
+
+  describe('Resize', () => {
+    it('should allow vertical resizing by default', async () => {
+      const element = await fixture<MonkTextarea>(html`<monk-textarea></monk-textarea>`);
+
+      expect(element.getAttribute('resize')).to.equal('vertical');
+      expect(getComputedStyle(textareaOf(element)).resize).to.equal('vertical');
+    });
+
+    it('should apply the resize setting to the textarea', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea resize="none"></monk-textarea>
+      `);
+
+      expect(getComputedStyle(textareaOf(element)).resize).to.equal('none');
+
+      element.resize = 'both';
+      await element.updateComplete;
+
+      expect(getComputedStyle(textareaOf(element)).resize).to.equal('both');
+    });
+  });
+
+  describe('Character Count', () => {
+    it('should count emoji as single characters', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea maxlength="10" show-count value="Hi 👨‍👩‍👧👍🏽"></monk-textarea>
+      `);
+
+      expect(element.shadowRoot?.querySelector('.char-count')?.textContent?.trim()).to.equal(
+        '5 / 10'
+      );
+    });
+
+    it('should not set the native maxlength, which counts UTF-16 units', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea maxlength="10"></monk-textarea>
+      `);
+
+      expect(textareaOf(element).hasAttribute('maxlength')).to.be.false;
+    });
+
+    it('should cut input that goes past maxlength', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea maxlength="3"></monk-textarea>
+      `);
+
+      typeText(element, '👍🏽👍🏽👍🏽👍🏽');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('👍🏽👍🏽👍🏽');
+    });
+
+    it('should report values set past maxlength as invalid', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea maxlength="3" value="abcd" validate></monk-textarea>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Must be at most 3 characters');
+    });
+
+    it('should accept a value at maxlength made of emoji', async () => {
+      const element = await fixture<MonkTextarea>(html`
+        <monk-textarea maxlength="2" value="👨‍👩‍👧👍🏽" validate></monk-textarea>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+    });
+  });
+
+  describe('Text Utils', () => {
+    it('should count grapheme clusters', () => {
+      expect(graphemeLength('👨‍👩‍👧')).to.equal(1);
+      expect(graphemeLength('e\u0301')).to.equal(1);
+      expect(graphemeLength('abc')).to.equal(3);
+    });
+
+    it('should truncate on grapheme boundaries', () => {
+      expect(truncateGraphemes('👍🏽ab', 2)).to.equal('👍🏽a');
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit its value with a form', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-textarea name="notes" value="line one\nline two"></monk-textarea>
+        </form>
+      `);
+      await form.querySelector('monk-textarea')?.updateComplete;
+
+      expect(new FormData(form).get('notes')).to.equal('line one\nline two');
+    });
+
+    it('should not submit a monk-form when Enter is pressed', async () => {
+      const form = await fixture<MonkForm>(html`
+        <monk-form>
+          <monk-textarea name="notes" value="Hello"></monk-textarea>
+        </monk-form>
+      `);
+      const element = form.querySelector('monk-textarea') as MonkTextarea;
+      await element.updateComplete;
+
+      let submitted = false;
+      form.addEventListener('form-submit', () => (submitted = true));
+      const enter = new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true });
+      textareaOf(element).dispatchEvent(enter);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(submitted).to.be.false;
+      expect(enter.defaultPrevented).to.be.false;
+    });
+  });
+});
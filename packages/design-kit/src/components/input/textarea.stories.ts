@@ -0,0 +1,126 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './textarea.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/Textarea',
+  component: 'monk-textarea',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Textarea component is a multi-line text field. It shares label, helper text,
+error message, validation, sizes, variants and form participation with the input
+components.
+
+## Features
+
+- Fixed \`rows\`, or auto-grow between \`min-rows\` and \`max-rows\`
+- \`resize\` handle control: none, vertical, horizontal or both
+- \`maxlength\` and \`show-count\` count emoji and accented letters as one character
+- Enter inserts a new line instead of submitting a \`monk-form\`
+
+## Usage
+
+\`\`\`html
+<monk-textarea
+  label="Message"
+  min-rows="2"
+  max-rows="8"
+  maxlength="500"
+  show-count
+></monk-textarea>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-textarea
+      label="Notes"
+      placeholder="Anything we should know?"
+      helper-text="Visible to your team only"
+      style="max-width: 400px;"
+    ></monk-textarea>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-textarea size="sm" label="Small" rows="2"></monk-textarea>
+      <monk-textarea size="md" label="Medium" rows="2"></monk-textarea>
+      <monk-textarea size="lg" label="Large" rows="2"></monk-textarea>
+    </monk-stack>
+  `,
+};
+
+export const Variants: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-textarea variant="outline" label="Outline" value="Outline"></monk-textarea>
+      <monk-textarea variant="filled" label="Filled" value="Filled"></monk-textarea>
+      <monk-textarea variant="flushed" label="Flushed" value="Flushed"></monk-textarea>
+    </monk-stack>
+  `,
+};
+
+export const AutoGrow: Story = {
+  render: () => html`
+    <monk-textarea
+      label="Message"
+      min-rows="2"
+      max-rows="6"
+      resize="none"
+      helper-text="Grows from 2 to 6 lines, then scrolls"
+      style="max-width: 400px;"
+    ></monk-textarea>
+  `,
+};
+
+export const Resize: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-textarea label="Vertical (default)" resize="vertical"></monk-textarea>
+      <monk-textarea label="Horizontal" resize="horizontal"></monk-textarea>
+      <monk-textarea label="Both" resize="both"></monk-textarea>
+      <monk-textarea label="None" resize="none"></monk-textarea>
+    </monk-stack>
+  `,
+};
+
+export const CharacterCount: Story = {
+  render: () => html`
+    <monk-textarea
+      label="Bio"
+      maxlength="60"
+      show-count
+      value="Coffee ☕️, climbing 🧗🏽‍♀️ and family 👨‍👩‍👧"
+      helper-text="Each emoji counts as one character"
+      style="max-width: 400px;"
+    ></monk-textarea>
+  `,
+};
+
+export const Validation: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-textarea label="Required" required validate></monk-textarea>
+      <monk-textarea
+        label="Minimum length"
+        minlength="20"
+        validate
+        helper-text="At least 20 characters"
+      ></monk-textarea>
+      <monk-textarea label="Disabled" disabled value="Read only content"></monk-textarea>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,295 @@
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { BaseInput } from './base-input.js';
+import { graphemeLength, truncateGraphemes } from './text-utils.js';
+import type { Validator } from './validators.js';
+
+/**
+ * Which way the user can drag to resize the textarea
+ */
+export type TextareaResize = 'none' | 'vertical' | 'horizontal' | 'both';
+
+/**
+ * Textarea component - Multi-line text field
+ *
+ * Setting `min-rows` or `max-rows` makes the field grow with its content between those
+ * bounds. `maxlength` and the `show-count` counter count user-perceived characters, so an
+ * emoji such as 👍🏽 counts as one.
+ *
+ * @element monk-textarea
+ *
+ * @example
+ * ```html
+ * <!-- Fixed height -->
+ * <monk-textarea label="Notes" rows="4"></monk-textarea>
+ *
+ * <!-- Grows from 2 to 8 rows, then scrolls -->
+ * <monk-textarea label="Message" min-rows="2" max-rows="8" resize="none"></monk-textarea>
+ *
+ * <!-- Character count -->
+ * <monk-textarea label="Bio" maxlength="280" show-count></monk-textarea>
+ * ```
+ *
+ * @fires input-change - Fired when the value changes (on input event)
+ * @fires input-changed - Fired when the value is committed (on change event)
+ * @fires input-focus - Fired when the textarea receives focus
+ * @fires input-blur - Fired when the textarea loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-clear - Fired when the clear button empties the input
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart input-container - The textarea container
+ * @csspart input - The native textarea element
+ * @csspart clear-button - The clear button (with `clearable`)
+ *
+ * @slot prefix - Content before the textarea
+ * @slot suffix - Content after the textarea
+ */
+@customElement('monk-textarea')
+export class MonkTextarea extends BaseInput<HTMLTextAreaElement> {
+  /**
+   * Visible text lines when not auto-growing
+   * @default 3
+   */
+  @property({ type: Number })
+  rows = 3;
+
+  /**
+   * Fewest lines while auto-growing; defaults to `rows`
+   */
+  @property({ type: Number, attribute: 'min-rows' })
+  minRows?: number;
+
+  /**
+   * Most lines while auto-growing, after which the textarea scrolls
+   */
+  @property({ type: Number, attribute: 'max-rows' })
+  maxRows?: number;
+
+  /**
+   * Resize handle direction
+   * @default 'vertical'
+   */
+  @property({ type: String, reflect: true })
+  resize: TextareaResize = 'vertical';
+
+  protected override get inputType(): string {
+    return 'textarea';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      .input-container {
+        align-items: stretch;
+      }
+
+      textarea {
+        flex: 1;
+        box-sizing: border-box;
+        width: 100%;
+        min-width: 0;
+        margin: 0;
+        padding: 0;
+        border: none;
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font-family: inherit;
+        /* An explicit line height, never normal, so auto-grow can count rows in pixels */
+        line-height: var(--monk-font-lineHeight-normal, 1.5);
+        outline: none;
+        resize: vertical;
+      }
+
+      textarea::placeholder {
+        color: var(--monk-color-text-secondary);
+        opacity: 0.6;
+      }
+
+      textarea:disabled {
+        cursor: not-allowed;
+        opacity: 0.5;
+      }
+
+      :host([size='sm']) textarea {
+        font-size: var(--monk-font-size-sm);
+      }
+
+      :host([size='md']) textarea {
+        font-size: var(--monk-font-size-base);
+      }
+
+      :host([size='lg']) textarea {
+        font-size: var(--monk-font-size-lg);
+      }
+
+      :host([resize='none']) textarea {
+        resize: none;
+      }
+
+      :host([resize='horizontal']) textarea {
+        resize: horizontal;
+      }
+
+      :host([resize='both']) textarea {
+        resize: both;
+      }
+    `,
+  ];
+
+  /**
+   * Whether the height follows the content
+   */
+  get autoGrows(): boolean {
+    return this.minRows !== undefined || this.maxRows !== undefined;
+  }
+
+  protected override get characterCount(): number {
+    return graphemeLength(this.value);
+  }
+
+  /**
+   * Length limit counted in grapheme clusters, for values set from script
+   */
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    if (this.maxlength === undefined) return declared;
+
+    const max = this.maxlength;
+    return [
+      ...declared,
+      (value: string) => ({
+        valid: graphemeLength(value) <= max,
+        code: 'maxLength',
+        message: `Must be at most ${max} characters`,
+      }),
+    ];
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this.resizeToContent();
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    const sizing = ['value', 'rows', 'minRows', 'maxRows', 'size'];
+    if (sizing.some((key) => changedProperties.has(key))) {
+      this.resizeToContent();
+    }
+  }
+
+  /**
+   * Fit the height to the content, between `min-rows` and `max-rows` lines
+   */
+  private resizeToContent(): void {
+    const textarea = this._input;
+    if (!textarea) return;
+
+    if (!this.autoGrows) {
+      textarea.style.removeProperty('height');
+      textarea.style.removeProperty('overflow-y');
+      return;
+    }
+
+    // Computes to pixels, as the styles never leave it at normal
+    const style = getComputedStyle(textarea);
+    const lineHeight = parseFloat(style.lineHeight);
+    if (!lineHeight) return;
+
+    const padding = parseFloat(style.paddingTop) + parseFloat(style.paddingBottom);
+    const minHeight = (this.minRows ?? this.rows) * lineHeight + padding;
+    const maxHeight = this.maxRows ? this.maxRows * lineHeight + padding : Infinity;
+
+    textarea.style.height = 'auto';
+    const contentHeight = textarea.scrollHeight;
+    textarea.style.height = `${Math.min(Math.max(contentHeight, minHeight), maxHeight)}px`;
+    textarea.style.overflowY = contentHeight > maxHeight ? 'auto' : 'hidden';
+  }
+
+  /**
+   * Keep typed and pasted text within `maxlength` grapheme clusters, inserting
+   * as much of the text as fits like the native limit does
+   */
+  private _handleBeforeInput(event: InputEvent): void {
+    if (this.maxlength === undefined || !event.inputType.startsWith('insert')) return;
+
+    const textarea = this._input;
+    const inserted =
+      event.data ??
+      event.dataTransfer?.getData('text/plain') ??
+      (event.inputType === 'insertLineBreak' ? '\n' : '');
+    const { selectionStart, selectionEnd, value } = textarea;
+    const kept = value.slice(0, selectionStart) + value.slice(selectionEnd);
+    const room = Math.max(this.maxlength - graphemeLength(kept), 0);
+    if (graphemeLength(inserted) <= room) return;
+
+    event.preventDefault();
+    const allowed = truncateGraphemes(inserted, room);
+    if (allowed) {
+      textarea.setRangeText(allowed, selectionStart, selectionEnd, 'end');
+      textarea.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+  }
+
+  protected override _handleInput(event: Event): void {
+    // Text that got past beforeinput, e.g. from an IME, is cut at the limit
+    const textarea = event.target as HTMLTextAreaElement;
+    if (this.maxlength !== undefined && graphemeLength(textarea.value) > this.maxlength) {
+      textarea.value = truncateGraphemes(textarea.value, this.maxlength);
+    }
+
+    super._handleInput(event);
+    this.resizeToContent();
+  }
+
+  protected override renderInput() {
+    const containerClasses = {
+      'input-container': true,
+      focused: this._focused,
+      disabled: this.isDisabled,
+    };
+
+    return html`
+      <div class=${classMap(containerClasses)} part="input-container">
+        ${this.renderStartAdornments()}
+        <textarea
+          id="input"
+          part="input"
+          name=${ifDefined(this.name)}
+          .value=${this.value}
+          rows=${this.autoGrows ? (this.minRows ?? this.rows) : this.rows}
+          placeholder=${ifDefined(this.placeholder)}
+          ?disabled=${this.isDisabled}
+          ?readonly=${this.readonly}
+          ?required=${this.required}
+          autocomplete=${ifDefined(this.autocomplete)}
+          inputmode=${ifDefined(this.inputmode)}
+          aria-invalid=${this.invalid ? 'true' : 'false'}
+          aria-busy=${this.pending || this.loading ? 'true' : 'false'}
+          aria-describedby=${ifDefined(
+            this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+          )}
+          @beforeinput=${this._handleBeforeInput}
+          @input=${this._handleInput}
+          @change=${this._handleChange}
+          @focus=${this._handleFocus}
+          @blur=${this._handleBlur}
+          @keydown=${this._handleKeyDown}
+        ></textarea>
+        ${this.renderEndAdornments()}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-textarea': MonkTextarea;
+  }
+}
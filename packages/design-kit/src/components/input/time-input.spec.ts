@@ -0,0 +1,207 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkTimeInput } from './time-input.js';
+import { hourCycleForLocale, parseTime, stepTime, timeToDigits } from './time-utils.js';
+
+const inputOf = (element: MonkTimeInput): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+const periodOf = (element: MonkTimeInput): HTMLButtonElement | null =>
+  element.shadowRoot?.querySelector('[part="period"]') ?? null;
+
+const press = (target: HTMLElement, key: string): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('MonkTimeInput', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-time-input');
+    expect(element).to.be.instanceOf(MonkTimeInput);
+  });
+
+  it('should show the prompt on initial render', async () => {
+    const element = await fixture<MonkTimeInput>(html`<monk-time-input></monk-time-input>`);
+
+    expect(inputOf(element).value).to.equal('HH:MM');
+  });
+
+  describe('Hour cycle', () => {
+    it('should show a 12-hour clock with an AM/PM segment by default', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input value="14:30"></monk-time-input>
+      `);
+
+      expect(element.value).to.equal('0230');
+      expect(element.period).to.equal('PM');
+      expect(inputOf(element).value).to.equal('02:30');
+      expect(periodOf(element)?.textContent?.trim()).to.equal('PM');
+      expect(element.getApiValue()).to.equal('14:30');
+    });
+
+    it('should follow the locale', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input locale="en-GB" value="2:30 PM"></monk-time-input>
+      `);
+
+      expect(element.resolvedHourCycle).to.equal('24');
+      expect(inputOf(element).value).to.equal('14:30');
+      expect(periodOf(element)).to.be.null;
+    });
+
+    it('should keep the time when the clock changes', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input value="12:15 AM"></monk-time-input>
+      `);
+
+      element.hourCycle = '24';
+      await element.updateComplete;
+
+      expect(element.value).to.equal('0015');
+      expect(inputOf(element).value).to.equal('00:15');
+      expect(element.getApiValue()).to.equal('00:15');
+    });
+  });
+
+  describe('Period', () => {
+    it('should switch the period from the segment', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input value="09:00"></monk-time-input>
+      `);
+      const period = periodOf(element) as HTMLButtonElement;
+
+      expect(period.getAttribute('aria-label')).to.equal('AM/PM: AM');
+
+      setTimeout(() => period.click());
+      await oneEvent(element, 'input-changed');
+      await element.updateComplete;
+
+      expect(element.getApiValue()).to.equal('21:00');
+      expect(period.getAttribute('aria-label')).to.equal('AM/PM: PM');
+    });
+
+    it('should set the period when A or P is typed', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input value="07:45"></monk-time-input>
+      `);
+
+      const event = press(inputOf(element), 'p');
+      await element.updateComplete;
+
+      expect(event.defaultPrevented).to.be.true;
+      expect(element.period).to.equal('PM');
+
+      press(inputOf(element), 'A');
+      expect(element.period).to.equal('AM');
+    });
+  });
+
+  describe('Minute step', () => {
+    it('should move to the next step with the arrow keys', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input locale="en-GB" minute-step="15" value="09:07"></monk-time-input>
+      `);
+
+      press(inputOf(element), 'ArrowUp');
+      await element.updateComplete;
+      expect(element.getApiValue()).to.equal('09:15');
+
+      press(inputOf(element), 'ArrowDown');
+      press(inputOf(element), 'ArrowDown');
+      await element.updateComplete;
+      expect(element.getApiValue()).to.equal('08:45');
+    });
+
+    it('should reject times off the step', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input locale="en-GB" minute-step="15" value="09:10" validate></monk-time-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please choose a time in 15-minute steps');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject hours outside the clock', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input value="1330" validate></monk-time-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Please enter a valid time');
+    });
+
+    it('should validate min and max as 24-hour times', async () => {
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input min="09:00" max="17:30" value="08:00" validate></monk-time-input>
+      `);
+
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Time must be at or after 09:00 AM');
+
+      element.value = '18:00';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.false;
+      expect(element.errorMessage).to.equal('Time must be at or before 05:30 PM');
+
+      element.value = '12:00';
+      await element.updateComplete;
+      expect(element.performValidation()).to.be.true;
+    });
+
+    it('should pass the 24-hour time to custom validators', async () => {
+      const seen: string[] = [];
+      const element = await fixture<MonkTimeInput>(html`
+        <monk-time-input
+          value="7:05 PM"
+          validate
+          .validators=${[(value: string) => seen.push(value) > 0]}
+        ></monk-time-input>
+      `);
+
+      expect(element.performValidation()).to.be.true;
+      expect(seen).to.not.be.empty;
+      expect(seen.every((value) => value === '19:05')).to.be.true;
+    });
+  });
+
+  describe('Form association', () => {
+    it('should submit the 24-hour time', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-time-input name="start" value="7:05 PM"></monk-time-input></form>
+      `);
+      const element = form.querySelector('monk-time-input') as MonkTimeInput;
+      await element.updateComplete;
+
+      expect(new FormData(form).get('start')).to.equal('19:05');
+    });
+  });
+
+  describe('Time helpers', () => {
+    it('should parse 24-hour and 12-hour times', () => {
+      expect(parseTime('14:30:00')).to.deep.equal({ hour: 14, minute: 30 });
+      expect(parseTime('12:05 a.m.')).to.deep.equal({ hour: 0, minute: 5 });
+      expect(parseTime('13:00 PM')).to.be.null;
+      expect(parseTime('1430')).to.be.null;
+    });
+
+    it('should write times on either clock', () => {
+      expect(timeToDigits({ hour: 0, minute: 5 }, '12')).to.deep.equal({
+        digits: '1205',
+        period: 'AM',
+      });
+      expect(timeToDigits({ hour: 0, minute: 5 }, '24').digits).to.equal('0005');
+    });
+
+    it('should step times around midnight', () => {
+      expect(stepTime({ hour: 23, minute: 50 }, 15, 1)).to.deep.equal({ hour: 0, minute: 0 });
+      expect(stepTime({ hour: 0, minute: 0 }, 30, -1)).to.deep.equal({ hour: 23, minute: 30 });
+    });
+
+    it('should read the clock of a locale', () => {
+      expect(hourCycleForLocale('en-US')).to.equal('12');
+      expect(hourCycleForLocale('de-DE')).to.equal('24');
+    });
+  });
+});
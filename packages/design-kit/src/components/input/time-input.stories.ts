@@ -0,0 +1,76 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './time-input.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Input/TimeInput',
+  component: 'monk-time-input',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The TimeInput component provides a masked HH:MM field for a time of day.
+
+## Features
+
+- 12-hour clock with an AM/PM segment, or 24-hour clock, following \`locale\` or \`hour-cycle\`
+- Typing A or P sets the period; Arrow Up / Down move by \`minute-step\`
+- \`min\`/\`max\` (24-hour) and minute step checked by validation
+- Accepts "14:30" or "2:30 PM" as value
+- \`getApiValue()\` and the submitted form value are the 24-hour time (HH:MM)
+
+## Usage
+
+\`\`\`html
+<monk-time-input label="Start time" minute-step="15"></monk-time-input>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-time-input label="Start time" style="max-width: 400px;"></monk-time-input>
+  `,
+};
+
+export const HourCycles: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-time-input label="en-US" locale="en-US" value="14:30"></monk-time-input>
+      <monk-time-input label="en-GB" locale="en-GB" value="14:30"></monk-time-input>
+      <monk-time-input label="24-hour override" hour-cycle="24" value="14:30"></monk-time-input>
+    </monk-stack>
+  `,
+};
+
+export const BookingSlots: Story = {
+  render: () => html`
+    <monk-time-input
+      label="Slot"
+      helper-text="Quarter hours between 9:00 AM and 5:00 PM"
+      minute-step="15"
+      min="09:00"
+      max="17:00"
+      value="09:15"
+      validate
+      style="max-width: 400px;"
+    ></monk-time-input>
+  `,
+};
+
+export const States: Story = {
+  render: () => html`
+    <monk-stack spacing="4" style="max-width: 400px;">
+      <monk-time-input label="Readonly" value="09:30" readonly></monk-time-input>
+      <monk-time-input label="Disabled" value="09:30" disabled></monk-time-input>
+    </monk-stack>
+  `,
+};
@@ -0,0 +1,376 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { Mask, type MaskTokens } from 'maska';
+import { BaseInput } from './base-input.js';
+import { MaskedInput } from './masked-input.js';
+import {
+  TIME_PROMPT,
+  digitsToTime,
+  hourCycleForLocale,
+  parseTime,
+  stepTime,
+  timeToDigits,
+  toIsoTime,
+  type DayPeriod,
+  type HourCycle,
+  type TimeOfDay,
+} from './time-utils.js';
+import { validators, type Validator, type ValidatorFn } from './validators.js';
+
+/**
+ * Clock used when neither `hour-cycle` nor a locale is set
+ */
+const DEFAULT_HOUR_CYCLE: HourCycle = '12';
+
+/**
+ * Clock from an explicit hour cycle, else from the locale
+ */
+export const resolveHourCycle = (hourCycle?: HourCycle, locale?: string): HourCycle =>
+  hourCycle ?? (locale ? hourCycleForLocale(locale) : DEFAULT_HOUR_CYCLE);
+
+/**
+ * Mask tokens for the HH:MM field (`Hh:Mm`): the first hour digit is limited by the clock
+ */
+export const timeMaskTokens = (cycle: HourCycle): MaskTokens => ({
+  H: { pattern: cycle === '12' ? /[01]/ : /[0-2]/ },
+  h: { pattern: /[0-9]/ },
+  M: { pattern: /[0-5]/ },
+  m: { pattern: /[0-9]/ },
+});
+
+/**
+ * Styles of the AM/PM segment, shared with monk-datetime-input
+ */
+export const periodStyles = css`
+  .period {
+    flex-shrink: 0;
+    padding: var(--monk-space-1) var(--monk-space-2);
+    border: none;
+    border-radius: var(--monk-radius-sm);
+    background: var(--monk-color-bg-subtle);
+    color: var(--monk-color-text-primary);
+    font-family: inherit;
+    font-size: var(--monk-font-size-sm);
+    font-weight: var(--monk-font-weight-semibold);
+    font-variant-numeric: tabular-nums;
+    cursor: pointer;
+  }
+
+  .period:hover:not(:disabled) {
+    background: var(--monk-color-bg-hover);
+  }
+
+  .period:focus-visible {
+    outline: 2px solid var(--monk-focus-ring-color);
+    outline-offset: 2px;
+  }
+
+  .period:disabled {
+    cursor: not-allowed;
+  }
+`;
+
+/**
+ * Time input component - Time of day with a masked HH:MM field, on a 12-hour clock
+ * with an AM/PM segment or a 24-hour clock
+ *
+ * The clock follows `locale` (en-US → 12-hour, en-GB → 24-hour) unless `hour-cycle`
+ * is set. `value` holds the digits as shown; `getApiValue()` and the submitted form
+ * value are the 24-hour ISO time (HH:MM). `min`, `max` and `minute-step` take
+ * 24-hour times and minutes.
+ *
+ * @element monk-time-input
+ *
+ * @example
+ * ```html
+ * <!-- 12-hour clock with AM/PM -->
+ * <monk-time-input label="Start time" value="14:30"></monk-time-input>
+ *
+ * <!-- Bookable slots: 24-hour clock, quarter hours, office hours only -->
+ * <monk-time-input
+ *   label="Slot"
+ *   locale="en-GB"
+ *   minute-step="15"
+ *   min="09:00"
+ *   max="17:00"
+ *   validate
+ * ></monk-time-input>
+ * ```
+ *
+ * @accessibility
+ * - The AM/PM segment is a button labelled with the current period; Space, Enter and
+ *   the arrow keys switch it
+ * - Typing A or P in the time field sets the period
+ * - Arrow Up / Arrow Down in a complete time move it by `minute-step` minutes
+ *
+ * @fires input-change - Fired when the input value changes (on input event)
+ * @fires input-changed - Fired when the input value is committed (on change event)
+ * @fires input-focus - Fired when the input receives focus
+ * @fires input-blur - Fired when the input loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
+ *
+ * @csspart period - The AM/PM segment (12-hour clock)
+ */
+@customElement('monk-time-input')
+export class MonkTimeInput extends MaskedInput {
+  /**
+   * BCP 47 locale that picks the 12- or 24-hour clock
+   */
+  @property({ type: String, reflect: true })
+  locale?: string;
+
+  /**
+   * Clock to show, overriding the locale: "12" (with AM/PM) or "24"
+   */
+  @property({ type: String, reflect: true, attribute: 'hour-cycle' })
+  hourCycle?: HourCycle;
+
+  /**
+   * Minutes between allowed times; arrow keys move by this step
+   * @default 1
+   */
+  @property({ type: Number, attribute: 'minute-step' })
+  minuteStep = 1;
+
+  /**
+   * Half of the day on a 12-hour clock
+   * @default 'AM'
+   */
+  @property({ type: String, reflect: true })
+  period: DayPeriod = 'AM';
+
+  private _mask?: Mask;
+
+  private _maskCycle?: HourCycle;
+
+  private _cycleChanged = false;
+
+  static override styles: CSSResultArray = [...(BaseInput.styles as CSSResultArray), periodStyles];
+
+  /**
+   * Clock in use
+   */
+  get resolvedHourCycle(): HourCycle {
+    return resolveHourCycle(this.hourCycle, this.locale);
+  }
+
+  protected get prompt(): string {
+    return TIME_PROMPT;
+  }
+
+  protected get mask(): Mask {
+    const cycle = this.resolvedHourCycle;
+    if (!this._mask || this._maskCycle !== cycle) {
+      this._mask = new Mask({ eager: false, mask: 'Hh:Mm', tokens: timeMaskTokens(cycle) });
+      this._maskCycle = cycle;
+    }
+    return this._mask;
+  }
+
+  /**
+   * Submit the 24-hour time, which does not depend on the clock shown
+   */
+  override get formValue(): string {
+    return this.getApiValue();
+  }
+
+  /**
+   * Custom validators and rules check the 24-hour time, not the digits as shown
+   */
+  protected override get validatorValue(): string {
+    return this.getApiValue();
+  }
+
+  protected override get declarativeValidators(): Validator[] {
+    const declared = super.declarativeValidators;
+    return this.value ? [...declared, ...this.timeValidators()] : declared;
+  }
+
+  /**
+   * Real time, min/max and minute step checks, applied to the 24-hour time
+   */
+  protected timeValidators(): Validator[] {
+    const onIso =
+      (validator: ValidatorFn): ValidatorFn =>
+      (value) =>
+        validator(this.toApiTime(value));
+
+    const checks: Validator[] = [onIso(validators.time)];
+    if (this.min) {
+      const message = `Time must be at or after ${this.formatTime(this.min)}`;
+      checks.push(onIso(validators.minTime(this.min, message)));
+    }
+    if (this.max) {
+      const message = `Time must be at or before ${this.formatTime(this.max)}`;
+      checks.push(onIso(validators.maxTime(this.max, message)));
+    }
+    if (this.minuteStep > 1) {
+      checks.push(onIso(validators.timeStep(this.minuteStep, this.min)));
+    }
+
+    return checks;
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    // Keep the entered time when the clock changes
+    this._cycleChanged =
+      this.hasUpdated && (changedProperties.has('locale') || changedProperties.has('hourCycle'));
+    if (this._cycleChanged) {
+      const previous = resolveHourCycle(
+        changedProperties.has('hourCycle')
+          ? (changedProperties.get('hourCycle') as HourCycle | undefined)
+          : this.hourCycle,
+        changedProperties.has('locale')
+          ? (changedProperties.get('locale') as string | undefined)
+          : this.locale
+      );
+      const time = digitsToTime(this.value, previous, this.period);
+      if (time) {
+        this.showTime(time);
+      }
+    }
+
+    // Convert times written with a colon (14:30, 2:30 PM) to digits and period
+    if (changedProperties.has('value')) {
+      const time = parseTime(this.value);
+      if (time) {
+        this.showTime(time);
+      }
+    }
+
+    super.willUpdate(changedProperties);
+  }
+
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (this._cycleChanged) {
+      this._cycleChanged = false;
+      this.initializeMask();
+      this.syncDisplayValue();
+    }
+  }
+
+  /**
+   * The entered time, or null until a complete, real time is entered
+   */
+  public getTime(): TimeOfDay | null {
+    return digitsToTime(this.value, this.resolvedHourCycle, this.period);
+  }
+
+  /**
+   * Get the time in 24-hour ISO format (HH:MM) for API submission
+   */
+  public getApiValue(): string {
+    return this.toApiTime(this.value);
+  }
+
+  /**
+   * 24-hour time of field digits, or an empty string if they are not a time
+   */
+  protected toApiTime(digits: string): string {
+    const time = digitsToTime(digits, this.resolvedHourCycle, this.period);
+    return time ? toIsoTime(time) : '';
+  }
+
+  /**
+   * Format a 24-hour time on the input's clock, for messages
+   */
+  protected formatTime(iso: string): string {
+    const time = parseTime(iso);
+    if (!time) return iso;
+
+    const { digits, period } = timeToDigits(time, this.resolvedHourCycle);
+    const shown = this.mask.masked(digits);
+    return this.resolvedHourCycle === '12' ? `${shown} ${period}` : shown;
+  }
+
+  /**
+   * Show a time in the field, on the current clock
+   */
+  private showTime(time: TimeOfDay): void {
+    const { digits, period } = timeToDigits(time, this.resolvedHourCycle);
+    this.value = digits;
+    this.period = period;
+  }
+
+  /**
+   * Apply a time or period set from the keyboard or AM/PM segment: validate and notify
+   */
+  private commitTime(originalEvent: Event): void {
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+  }
+
+  private togglePeriod(originalEvent: Event): void {
+    this.period = this.period === 'AM' ? 'PM' : 'AM';
+    this.commitTime(originalEvent);
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    const key = event.key.toLowerCase();
+    const time = this.getTime();
+
+    if (this.readonly || event.ctrlKey || event.metaKey || event.altKey) {
+      // Leave shortcuts and read-only fields to the browser
+    } else if (this.resolvedHourCycle === '12' && (key === 'a' || key === 'p')) {
+      event.preventDefault();
+      const period: DayPeriod = key === 'a' ? 'AM' : 'PM';
+      if (period !== this.period) {
+        this.togglePeriod(event);
+      }
+    } else if ((key === 'arrowup' || key === 'arrowdown') && time) {
+      event.preventDefault();
+      this.showTime(stepTime(time, this.minuteStep, key === 'arrowup' ? 1 : -1));
+      this.commitTime(event);
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  private _handlePeriodKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.togglePeriod(event);
+    }
+  }
+
+  /**
+   * AM/PM segment of the 12-hour clock
+   */
+  protected renderPeriod() {
+    if (this.resolvedHourCycle !== '12') return nothing;
+
+    return html`
+      <button
+        type="button"
+        class="period"
+        part="period"
+        aria-label=${`AM/PM: ${this.period}`}
+        ?disabled=${this.isDisabled || this.readonly}
+        @click=${this.togglePeriod}
+        @keydown=${this._handlePeriodKeyDown}
+      >
+        ${this.period}
+      </button>
+    `;
+  }
+
+  protected override renderSuffix() {
+    return html`${this.renderPeriod()} ${super.renderSuffix()}`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-time-input': MonkTimeInput;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Time of day and time zone helpers shared by the time and datetime inputs
+ * Times are exchanged as 24-hour ISO 8601 strings (HH:MM)
+ */
+
+/**
+ * Clock shown by a time input: 12-hour with AM/PM, or 24-hour
+ */
+export type HourCycle = '12' | '24';
+
+/**
+ * Half of the day on a 12-hour clock
+ */
+export type DayPeriod = 'AM' | 'PM';
+
+/**
+ * Time of day on a 24-hour clock
+ */
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Prompt text of the time field
+ */
+export const TIME_PROMPT = 'HH:MM';
+
+/**
+ * Clock a locale writes times with
+ * e.g. en-US → 12, en-GB → 24, de-DE → 24
+ */
+export function hourCycleForLocale(locale?: string): HourCycle {
+  const parts = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).formatToParts(
+    new Date(2024, 0, 15, 13)
+  );
+  return parts.some((part) => part.type === 'dayPeriod') ? '12' : '24';
+}
+
+/**
+ * Build a 24-hour ISO time (HH:MM)
+ */
+export function toIsoTime({ hour, minute }: TimeOfDay): string {
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * Parse a time written with a colon: 24-hour ("14:30", "14:30:00") or with a
+ * day period ("2:30 PM", "2:30pm", "2:30 p.m.")
+ * @returns null if the value is not in either form or not a real time
+ */
+export function parseTime(value: string): TimeOfDay | null {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(?:([ap])\.?m\.?)?$/i.exec(value.trim());
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (minute > 59) return null;
+
+  const period = match[3]?.toUpperCase();
+  if (!period) {
+    return hour < 24 ? { hour, minute } : null;
+  }
+  if (hour < 1 || hour > 12) return null;
+  return { hour: (hour % 12) + (period === 'P' ? 12 : 0), minute };
+}
+
+/**
+ * Write a time as unmasked field digits (HHMM) on the given clock, with its day period
+ * e.g. 14:30 → "0230" PM on a 12-hour clock, "1430" on a 24-hour clock
+ */
+export function timeToDigits(
+  { hour, minute }: TimeOfDay,
+  cycle: HourCycle
+): { digits: string; period: DayPeriod } {
+  const period: DayPeriod = hour < 12 ? 'AM' : 'PM';
+  const shown = cycle === '12' ? hour % 12 || 12 : hour;
+  return { digits: `${pad(shown)}${pad(minute)}`, period };
+}
+
+/**
+ * Read unmasked field digits (HHMM) on the given clock
+ * @returns null for incomplete digits or hours outside the clock (e.g. 13 on a 12-hour clock)
+ */
+export function digitsToTime(
+  digits: string,
+  cycle: HourCycle,
+  period: DayPeriod
+): TimeOfDay | null {
+  if (!/^\d{4}$/.test(digits)) return null;
+
+  const hour = Number(digits.slice(0, 2));
+  const minute = Number(digits.slice(2));
+  if (minute > 59) return null;
+
+  if (cycle === '24') {
+    return hour < 24 ? { hour, minute } : null;
+  }
+  if (hour < 1 || hour > 12) return null;
+  return { hour: (hour % 12) + (period === 'PM' ? 12 : 0), minute };
+}
+
+/**
+ * Move a time by a number of minutes, wrapping around midnight
+ */
+export function addMinutes({ hour, minute }: TimeOfDay, minutes: number): TimeOfDay {
+  const total = (((hour * 60 + minute + minutes) % 1440) + 1440) % 1440;
+  return { hour: Math.floor(total / 60), minute: total % 60 };
+}
+
+/**
+ * Move a time to the next (direction 1) or previous (direction -1) minute step
+ * A time between steps moves to the nearest step in that direction.
+ */
+export function stepTime(time: TimeOfDay, step: number, direction: 1 | -1): TimeOfDay {
+  const total = time.hour * 60 + time.minute;
+  const offset = total % step;
+  const minutes = offset === 0 ? direction * step : direction === 1 ? step - offset : -offset;
+  return addMinutes(time, minutes);
+}
+
+/**
+ * The browser's IANA time zone, e.g. "Europe/Paris"
+ */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+}
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA time zones the browser supports, always including UTC
+ */
+export function supportedTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [localTimeZone()];
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (east positive)
+ * e.g. 60 for Europe/Paris in winter, -240 for America/New_York in summer
+ */
+export function timeZoneOffset(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const field = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    field('year'),
+    field('month') - 1,
+    field('day'),
+    field('hour'),
+    field('minute'),
+    field('second')
+  );
+  const seconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - seconds) / 60000);
+}
+
+/**
+ * ISO 8601 UTC offset, e.g. "+05:30", "-04:00", "+00:00"
+ */
+export function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * ISO 8601 date-time with the offset a time zone has on that date and time
+ * e.g. ("2024-07-01", "09:30", "Europe/Paris") → "2024-07-01T09:30:00+02:00"
+ * Around a daylight saving change, skipped times take the offset from before the change
+ * and repeated times their first occurrence.
+ */
+export function zonedDateTimeIso(date: string, time: string, timeZone: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offsets a day either side are those before and after any change on this date.
+  // An offset fits if the instant it gives has that offset: none fit a skipped time,
+  // both fit a repeated one, and the larger offset gives the earlier instant.
+  const oneDay = 24 * 60 * 60000;
+  const before = timeZoneOffset(timeZone, new Date(wallClock - oneDay));
+  const after = timeZoneOffset(timeZone, new Date(wallClock + oneDay));
+  const fits = [before, after].filter(
+    (offset) => timeZoneOffset(timeZone, new Date(wallClock - offset * 60000)) === offset
+  );
+  const offset = fits.length ? Math.max(...fits) : before;
+
+  return `${date}T${time}:00${formatOffset(offset)}`;
+}
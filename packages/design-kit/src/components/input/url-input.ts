@@ -29,6 +29,7 @@ import { BaseInput } from './base-input.js';
  * @fires input-keydown - Fired on keydown event
  * @fires input-invalid - Fired when validation fails
  * @fires input-valid - Fired when validation succeeds
+ * @fires input-validating - Fired when async validators start running
  */
 @customElement('monk-url-input')
 export class MonkURLInput extends BaseInput {
@@ -4,142 +4,599 @@
  * @packageDocumentation
  */
 
+import { detectCardBrand, passesLuhn } from './card-brands.js';
+import { parseColor } from './color-utils.js';
+import { daysBetween, isValidDate, parseIsoDate, toIsoDate, todayIso } from './date-utils.js';
+import { findPhoneCountry, parseInternationalNumber, stripTrunkPrefix } from './phone-countries.js';
+
+/**
+ * Result of a validator that explains why a value failed
+ */
+export interface ValidationResult {
+  /** Whether the value passed */
+  valid: boolean;
+  /** Human-readable reason shown when the value fails */
+  message?: string;
+  /** Stable identifier for the rule (e.g. 'required', 'minLength') */
+  code?: string;
+}
+
+/**
+ * Validator function type - returns a ValidationResult, or a plain boolean
+ * (true if valid, false if invalid) for simple checks
+ */
+export type ValidatorFn = (value: string) => boolean | ValidationResult;
+
+/**
+ * Async validator function type - resolves to a ValidationResult or boolean
+ * Created with `asyncValidator()`. The signal is aborted when a newer run supersedes this one.
+ */
+export interface AsyncValidatorFn {
+  (value: string, signal: AbortSignal): Promise<boolean | ValidationResult>;
+  readonly async: true;
+}
+
+/**
+ * Any validator accepted by `BaseInput.validators`
+ */
+export type Validator = ValidatorFn | AsyncValidatorFn;
+
+/**
+ * Wrap a promise-returning check so BaseInput runs it asynchronously
+ * (debounced while typing, cancelled when superseded)
+ *
+ * @example
+ * ```ts
+ * const usernameAvailable = asyncValidator(async (value, signal) => {
+ *   const res = await fetch(`/api/users/${value}`, { signal });
+ *   return { valid: res.status === 404, message: 'Username is taken', code: 'taken' };
+ * });
+ * ```
+ */
+export const asyncValidator = (
+  fn: (value: string, signal: AbortSignal) => Promise<boolean | ValidationResult>
+): AsyncValidatorFn => {
+  const validator = (value: string, signal: AbortSignal): Promise<boolean | ValidationResult> =>
+    fn(value, signal);
+  return Object.assign(validator, { async: true as const });
+};
+
+/**
+ * Check whether a validator was created with `asyncValidator()`
+ */
+export const isAsyncValidator = (validator: Validator): validator is AsyncValidatorFn => {
+  return 'async' in validator && validator.async === true;
+};
+
+/**
+ * Normalize a boolean or ValidationResult into a ValidationResult
+ */
+export const toValidationResult = (result: boolean | ValidationResult): ValidationResult => {
+  return typeof result === 'boolean' ? { valid: result } : result;
+};
+
+/**
+ * Run a validator only once there is a value, like native constraints; `required` covers empty
+ */
+export const whenFilled =
+  (validator: ValidatorFn): ValidatorFn =>
+  (value: string) =>
+    value === '' || validator(value);
+
+/**
+ * Pattern sources already reported as invalid
+ */
+const invalidPatterns = new Set<string>();
+
+/**
+ * Compile a pattern from an attribute, rule or schema, or undefined if it is not a valid regex
+ * Each invalid source is reported once with a console warning.
+ */
+export const compilePattern = (source: string, flags?: string): RegExp | undefined => {
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    if (!invalidPatterns.has(source)) {
+      invalidPatterns.add(source);
+      console.warn(`[monkbunch] Invalid pattern "${source}"; the rule is skipped`);
+    }
+    return undefined;
+  }
+};
+
+/**
+ * Replace the message of a validator's failures
+ *
+ * @example
+ * ```ts
+ * withMessage(validators.required, 'Please tell us your name')
+ * ```
+ */
+export const withMessage = (validator: ValidatorFn, message: string): ValidatorFn => {
+  return (value: string): ValidationResult => {
+    const result = toValidationResult(validator(value));
+    return result.valid ? result : { ...result, message };
+  };
+};
+
+/**
+ * Normalize a YYYY-MM-DD or MM/DD/YYYY date to ISO
+ * @returns null if the value is not a real calendar date
+ */
+const parseDateValue = (value: string): string | null => {
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (us) {
+    const [month, day, year] = us.slice(1).map(Number);
+    return isValidDate(year, month, day) ? toIsoDate(year, month, day) : null;
+  }
+
+  return parseIsoDate(value) ? value.slice(0, 10) : null;
+};
+
 /**
- * Validator function type - returns true if valid, false if invalid
+ * Minutes since midnight of a 24-hour HH:MM (or HHMM) time
+ * @returns null if the value is not a valid time
  */
-export type ValidatorFn = (value: string) => boolean;
+const parseTimeValue = (value: string): number | null => {
+  const match = /^(\d{2}):?(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [hour, minute] = match.slice(1).map(Number);
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+};
+
+/**
+ * Build a ValidationResult for a built-in rule
+ */
+const check = (valid: boolean, code: string, message: string): ValidationResult => ({
+  valid,
+  code,
+  message,
+});
 
 /**
  * Common validation functions
+ * Each returns a ValidationResult with a default message and a `code` naming the rule.
+ * Factory validators accept an optional message to override the default.
  */
 export const validators = {
   /**
    * Validates that a value is not empty (after trimming whitespace)
    */
-  required: (value: string): boolean => {
-    return value.trim().length > 0;
+  required: (value: string): ValidationResult => {
+    return check(value.trim().length > 0, 'required', 'This field is required');
   },
 
   /**
    * Validates email format using a comprehensive regex pattern
    * Pattern matches: username@domain.tld
    */
-  email: (value: string): boolean => {
+  email: (value: string): ValidationResult => {
     const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-    return emailRegex.test(value);
+    return check(emailRegex.test(value), 'email', 'Please enter a valid email address');
   },
 
   /**
    * Creates a validator that checks minimum length
    * @param min - Minimum number of characters
+   * @param message - Optional message overriding the default
    */
-  minLength: (min: number): ValidatorFn => {
-    return (value: string): boolean => value.length >= min;
+  minLength: (min: number, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult =>
+      check(value.length >= min, 'minLength', message ?? `Must be at least ${min} characters`);
   },
 
   /**
    * Creates a validator that checks maximum length
    * @param max - Maximum number of characters
+   * @param message - Optional message overriding the default
    */
-  maxLength: (max: number): ValidatorFn => {
-    return (value: string): boolean => value.length <= max;
+  maxLength: (max: number, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult =>
+      check(value.length <= max, 'maxLength', message ?? `Must be at most ${max} characters`);
   },
 
   /**
    * Creates a validator that checks against a custom regex pattern
    * @param regex - Regular expression to test against
+   * @param message - Optional message overriding the default
    */
-  pattern: (regex: RegExp): ValidatorFn => {
-    return (value: string): boolean => regex.test(value);
+  pattern: (regex: RegExp, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult =>
+      check(regex.test(value), 'pattern', message ?? 'Please match the requested format');
   },
 
   /**
-   * Validates US phone number format: (XXX) XXX-XXXX
+   * Validates US phone number format (XXX) XXX-XXXX, or an E.164 number like +442079460958
    */
-  phone: (value: string): boolean => {
+  phone: (value: string): ValidationResult => {
     const phoneRegex = /^\(\d{3}\) \d{3}-\d{4}$/;
-    return phoneRegex.test(value);
+    const e164Regex = /^\+[1-9]\d{6,14}$/;
+    return check(
+      phoneRegex.test(value) || e164Regex.test(value),
+      'phone',
+      'Please enter a valid phone number'
+    );
+  },
+
+  /**
+   * Creates a validator that checks a phone number's length against a country's numbering rules
+   * Accepts national digits (formatting is ignored) or an international number for that country
+   * @param country - ISO 3166-1 alpha-2 code from the bundled phone metadata
+   * @param message - Optional message overriding the default
+   */
+  phoneNumber: (country: string, message?: string): ValidatorFn => {
+    const metadata = findPhoneCountry(country);
+
+    return (value: string): ValidationResult => {
+      const parsed = parseInternationalNumber(value, country);
+      const digits = parsed ? parsed.nationalNumber : value.replace(/\D/g, '');
+      const valid =
+        !!metadata &&
+        (!parsed || parsed.country.dialCode === metadata.dialCode) &&
+        metadata.lengths.includes(stripTrunkPrefix(metadata, digits).length);
+
+      return check(valid, 'phoneNumber', message ?? 'Please enter a valid phone number');
+    };
   },
 
   /**
    * Validates URL format
    */
-  url: (value: string): boolean => {
+  url: (value: string): ValidationResult => {
+    let valid = true;
     try {
       new URL(value);
-      return true;
     } catch {
-      return false;
+      valid = false;
     }
+    return check(valid, 'url', 'Please enter a valid URL');
   },
 
   /**
    * Validates that value is a number
    */
-  number: (value: string): boolean => {
-    return !isNaN(Number(value)) && value.trim() !== '';
+  number: (value: string): ValidationResult => {
+    return check(!isNaN(Number(value)) && value.trim() !== '', 'number', 'Please enter a number');
   },
 
   /**
    * Creates a validator that checks minimum numeric value
    * @param min - Minimum numeric value
+   * @param message - Optional message overriding the default
    */
-  min: (min: number): ValidatorFn => {
-    return (value: string): boolean => {
+  min: (min: number, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
       const num = Number(value);
-      return !isNaN(num) && num >= min;
+      return check(!isNaN(num) && num >= min, 'min', message ?? `Must be at least ${min}`);
     };
   },
 
   /**
    * Creates a validator that checks maximum numeric value
    * @param max - Maximum numeric value
+   * @param message - Optional message overriding the default
    */
-  max: (max: number): ValidatorFn => {
-    return (value: string): boolean => {
+  max: (max: number, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
       const num = Number(value);
-      return !isNaN(num) && num <= max;
+      return check(!isNaN(num) && num <= max, 'max', message ?? `Must be at most ${max}`);
     };
   },
 
   /**
    * Validates US Social Security Number format: XXX-XX-XXXX
    */
-  ssn: (value: string): boolean => {
-    if (typeof value !== 'string') return false;
+  ssn: (value: string): ValidationResult => {
+    const fail = check(false, 'ssn', 'Please enter a valid Social Security number');
+
+    if (typeof value !== 'string') return fail;
 
     const cleanSSN = value.replace(/[^0-9]/g, '');
 
-    if (cleanSSN.length !== 9) return false;
+    if (cleanSSN.length !== 9) return fail;
 
     const areaNumber = parseInt(cleanSSN.substring(0, 3), 10);
-    if (areaNumber === 0) return false;
+    if (areaNumber === 0) return fail;
 
     const groupNumber = parseInt(cleanSSN.substring(3, 5), 10);
-    if (groupNumber === 0) return false;
+    if (groupNumber === 0) return fail;
 
     const serialNumber = parseInt(cleanSSN.substring(5, 9), 10);
-    if (serialNumber === 0) return false;
+    if (serialNumber === 0) return fail;
+
+    return { ...fail, valid: true };
+  },
+
+  /**
+   * Validates a US ZIP code: 5 digits, or ZIP+4 (formatting is ignored)
+   */
+  zip: (value: string): ValidationResult => {
+    const digits = value.replace(/[\s-]/g, '');
+    return check(/^\d{5}(\d{4})?$/.test(digits), 'zip', 'Please enter a valid ZIP code');
+  },
+
+  /**
+   * Validates a payment card number: Luhn checksum and, for known brands, the length
+   * Spaces and dashes are ignored
+   */
+  creditCard: (value: string): ValidationResult => {
+    const digits = value.replace(/[\s-]/g, '');
+    const brand = detectCardBrand(digits);
+    const validLength = brand
+      ? brand.lengths.includes(digits.length)
+      : digits.length >= 12 && digits.length <= 19;
+
+    return check(
+      /^\d+$/.test(digits) && validLength && passesLuhn(digits),
+      'creditCard',
+      'Please enter a valid card number'
+    );
+  },
 
-    return true;
+  /**
+   * Validates a 24-hour time: HH:MM (or HHMM), 00:00 to 23:59
+   */
+  time: (value: string): ValidationResult => {
+    return check(parseTimeValue(value) !== null, 'time', 'Please enter a valid time');
   },
 
   /**
-   * Validates date is in the future (format: MM/DD/YYYY)
+   * Creates a validator that checks a 24-hour time is at or after a minimum
+   * @param min - Earliest allowed time (HH:MM)
+   * @param message - Optional message overriding the default
    */
-  futureDate: (value: string): boolean => {
-    const dateFormat = /^(0[1-9]|1[0-2])\/(0[1-9]|1\d|2\d|3[01])\/(19|20)\d{2}$/;
+  minTime: (min: string, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const time = parseTimeValue(value);
+      const bound = parseTimeValue(min);
+      return check(
+        time !== null && (bound === null || time >= bound),
+        'minTime',
+        message ?? `Time must be at or after ${min}`
+      );
+    };
+  },
 
-    if (!dateFormat.test(value)) return false;
+  /**
+   * Creates a validator that checks a 24-hour time is at or before a maximum
+   * @param max - Latest allowed time (HH:MM)
+   * @param message - Optional message overriding the default
+   */
+  maxTime: (max: string, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const time = parseTimeValue(value);
+      const bound = parseTimeValue(max);
+      return check(
+        time !== null && (bound === null || time <= bound),
+        'maxTime',
+        message ?? `Time must be at or before ${max}`
+      );
+    };
+  },
 
-    const [month, day, year] = value.split('/').map(Number);
-    const date = new Date(year, month - 1, day);
+  /**
+   * Creates a validator that checks a 24-hour time falls on a minute step
+   * @param step - Minutes between allowed times
+   * @param base - Time the steps count from (HH:MM), midnight by default
+   * @param message - Optional message overriding the default
+   */
+  timeStep: (step: number, base = '00:00', message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const time = parseTimeValue(value);
+      const start = parseTimeValue(base) ?? 0;
+      return check(
+        time !== null && (step <= 1 || (time - start) % step === 0),
+        'timeStep',
+        message ?? `Please choose a time in ${step}-minute steps`
+      );
+    };
+  },
 
-    if (isNaN(date.getTime())) return false;
+  /**
+   * Validates a color written as hex, rgb() or hsl()
+   */
+  color: (value: string): ValidationResult => {
+    return check(parseColor(value) !== null, 'color', 'Please enter a valid color');
+  },
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+  /**
+   * Creates a validator that checks the value equals another value, e.g. a password confirmation
+   * @param getOther - Returns the value to compare against at validation time
+   * @param message - Optional message overriding the default
+   */
+  match: (getOther: () => string | undefined, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult =>
+      check(value === getOther(), 'match', message ?? 'Values do not match');
+  },
+
+  /**
+   * Validates a real calendar date (format: YYYY-MM-DD or MM/DD/YYYY)
+   * Rejects impossible dates such as 02/30/2024
+   */
+  date: (value: string): ValidationResult => {
+    return check(parseDateValue(value) !== null, 'date', 'Please enter a valid date');
+  },
+
+  /**
+   * Validates date is today or later (format: YYYY-MM-DD or MM/DD/YYYY)
+   */
+  futureDate: (value: string): ValidationResult => {
+    const date = parseDateValue(value);
+    return check(date !== null && date >= todayIso(), 'futureDate', 'Date must be in the future');
+  },
+
+  /**
+   * Creates a validator that checks a date is on or after a minimum
+   * @param min - Earliest allowed date (YYYY-MM-DD)
+   * @param message - Optional message overriding the default
+   */
+  minDate: (min: string, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const date = parseDateValue(value);
+      return check(
+        date !== null && date >= min,
+        'minDate',
+        message ?? `Date must be on or after ${min}`
+      );
+    };
+  },
+
+  /**
+   * Creates a validator that checks a date is on or before a maximum
+   * @param max - Latest allowed date (YYYY-MM-DD)
+   * @param message - Optional message overriding the default
+   */
+  maxDate: (max: string, message?: string): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const date = parseDateValue(value);
+      return check(
+        date !== null && date <= max,
+        'maxDate',
+        message ?? `Date must be on or before ${max}`
+      );
+    };
+  },
 
-    return date >= today;
+  /**
+   * Creates a validator for an ISO 8601 date interval (YYYY-MM-DD/YYYY-MM-DD)
+   * Both dates must be real, the start on or before the end, and the range no longer
+   * than `maxSpan` days counting both ends
+   * @param maxSpan - Optional longest allowed range in days
+   */
+  dateRange: (maxSpan?: number): ValidatorFn => {
+    return (value: string): ValidationResult => {
+      const parts = value.split('/');
+      const [start, end] = parts;
+      if (parts.length !== 2 || !parseIsoDate(start) || !parseIsoDate(end)) {
+        return check(false, 'date', 'Please enter a valid date range');
+      }
+      if (start > end) {
+        return check(false, 'dateRange', 'End date must be on or after the start date');
+      }
+      return check(
+        maxSpan === undefined || daysBetween(start, end) + 1 <= maxSpan,
+        'maxSpan',
+        `Date range cannot be longer than ${maxSpan} days`
+      );
+    };
   },
 };
+
+/**
+ * Named rule usable from the `rules` attribute
+ * Receives the value followed by the rule's parameters, e.g. `minLength:5` → `(value, '5')`
+ */
+export type RuleFn = (value: string, ...params: string[]) => boolean | ValidationResult;
+
+/**
+ * Registry of named rules, seeded with the built-in validators
+ */
+const rules = new Map<string, RuleFn>();
+
+/**
+ * Register a named rule for use in the `rules` attribute
+ * Registering an existing name replaces it.
+ *
+ * @example
+ * ```ts
+ * registerValidator('postcode', (value) => /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i.test(value));
+ * registerValidator('between', (value, min, max) => +value >= +min && +value <= +max);
+ * ```
+ * ```html
+ * <monk-text-input rules="required|postcode" validate></monk-text-input>
+ * ```
+ */
+export const registerValidator = (name: string, rule: RuleFn): void => {
+  rules.set(name, rule);
+};
+
+/**
+ * Remove a rule added with `registerValidator()`
+ */
+export const unregisterValidator = (name: string): void => {
+  rules.delete(name);
+};
+
+registerValidator('required', validators.required);
+registerValidator('email', validators.email);
+registerValidator('phone', validators.phone);
+registerValidator('url', validators.url);
+registerValidator('number', validators.number);
+registerValidator('ssn', validators.ssn);
+registerValidator('zip', validators.zip);
+registerValidator('creditCard', validators.creditCard);
+registerValidator('time', validators.time);
+registerValidator('minTime', (value, min) => validators.minTime(min)(value));
+registerValidator('maxTime', (value, max) => validators.maxTime(max)(value));
+registerValidator('timeStep', (value, step, base) =>
+  validators.timeStep(Number(step), base)(value)
+);
+registerValidator('color', validators.color);
+registerValidator('date', validators.date);
+registerValidator('futureDate', validators.futureDate);
+registerValidator('minDate', (value, min) => validators.minDate(min)(value));
+registerValidator('maxDate', (value, max) => validators.maxDate(max)(value));
+registerValidator('dateRange', (value, maxSpan) =>
+  validators.dateRange(maxSpan === undefined ? undefined : Number(maxSpan))(value)
+);
+registerValidator('minLength', (value, min) => validators.minLength(Number(min))(value));
+registerValidator('maxLength', (value, max) => validators.maxLength(Number(max))(value));
+registerValidator('min', (value, min) => validators.min(Number(min))(value));
+registerValidator('max', (value, max) => validators.max(Number(max))(value));
+registerValidator('phoneNumber', (value, country) => validators.phoneNumber(country)(value));
+// Regex sources may contain commas, so rejoin the parameters
+registerValidator('pattern', (value, ...source) => {
+  const regex = compilePattern(source.join(','));
+  return regex ? validators.pattern(regex)(value) : true;
+});
+
+/**
+ * Rule names already reported as unknown
+ */
+const unknownRules = new Set<string>();
+
+/**
+ * Split a rules string into rules
+ * A pattern's source may contain '|', so `pattern:` takes the rest of the string.
+ */
+const splitRules = (source: string): string[] => {
+  const start = source.search(/(?:^|\|)\s*pattern:/);
+  if (start === -1) return source.split('|');
+
+  const before = source.slice(0, start);
+  const pattern = source.slice(start).replace(/^\|/, '');
+  return [...(before ? before.split('|') : []), pattern];
+};
+
+/**
+ * Parse a rules string such as `required|email|minLength:5` into validators
+ * Rules other than `required` pass on an empty value, like native constraints.
+ * `pattern:` must come last, e.g. `required|pattern:^(cat|dog)$`.
+ * Unknown rule names are skipped, with a console warning the first time each is seen.
+ */
+export const parseRules = (source: string): ValidatorFn[] => {
+  return splitRules(source)
+    .map((rule) => rule.trim())
+    .filter(Boolean)
+    .flatMap((rule) => {
+      const separator = rule.indexOf(':');
+      const name = separator === -1 ? rule : rule.slice(0, separator);
+      const params = separator === -1 ? [] : rule.slice(separator + 1).split(',');
+      const fn = rules.get(name);
+
+      if (!fn) {
+        if (!unknownRules.has(name)) {
+          unknownRules.add(name);
+          console.warn(`[monkbunch] Unknown validation rule "${name}"`);
+        }
+        return [];
+      }
+
+      const validator: ValidatorFn = (value) => ({
+        code: name,
+        ...toValidationResult(fn(value, ...params)),
+      });
+      return [name === 'required' ? validator : whenFilled(validator)];
+    });
+};
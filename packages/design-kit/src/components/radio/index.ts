@@ -0,0 +1,9 @@
+/**
+ * Radio Components
+ *
+ * Single-choice radio group with roving tabindex and arrow-key selection
+ */
+
+export { MonkRadio } from './radio.js';
+export { MonkRadioGroup } from './radio-group.js';
+export type { ValueChangeDetail } from './radio-group.js';
@@ -0,0 +1,236 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkRadioGroup } from './radio-group.js';
+import type { MonkRadio } from './radio.js';
+
+const radio = (group: MonkRadioGroup, value: string): MonkRadio =>
+  group.querySelector(`monk-radio[value="${value}"]`) as MonkRadio;
+
+const press = (target: HTMLElement, key: string): void => {
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true }));
+};
+
+const plans = html`
+  <monk-radio value="free">Free</monk-radio>
+  <monk-radio value="pro">Pro</monk-radio>
+  <monk-radio value="team" disabled>Team</monk-radio>
+  <monk-radio value="enterprise">Enterprise</monk-radio>
+`;
+
+describe('MonkRadioGroup', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-radio-group');
+    expect(element).to.be.instanceOf(MonkRadioGroup);
+  });
+
+  it('should render a labelled radiogroup of radios', async () => {
+    const element = await fixture<MonkRadioGroup>(html`
+      <monk-radio-group label="Plan">${plans}</monk-radio-group>
+    `);
+
+    const group = element.shadowRoot?.querySelector('[role="radiogroup"]');
+    expect(group?.getAttribute('aria-labelledby')).to.equal('label');
+    expect(radio(element, 'free').getAttribute('role')).to.equal('radio');
+    expect(radio(element, 'team').getAttribute('aria-disabled')).to.equal('true');
+  });
+
+  describe('Value', () => {
+    it('should check the radio matching its value', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="pro">${plans}</monk-radio-group>
+      `);
+
+      expect(radio(element, 'pro').checked).to.be.true;
+      expect(radio(element, 'pro').getAttribute('aria-checked')).to.equal('true');
+      expect(radio(element, 'free').checked).to.be.false;
+      expect(element.selectedItem).to.equal(radio(element, 'pro'));
+    });
+
+    it('should take its value from a checked radio', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group>
+          <monk-radio value="free">Free</monk-radio>
+          <monk-radio value="pro" checked>Pro</monk-radio>
+        </monk-radio-group>
+      `);
+
+      expect(element.value).to.equal('pro');
+    });
+
+    it('should pick a radio on click and emit value-change', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="free">${plans}</monk-radio-group>
+      `);
+
+      setTimeout(() => radio(element, 'enterprise').click());
+      const event = await oneEvent(element, 'value-change');
+
+      expect(event.detail.value).to.equal('enterprise');
+      expect(event.detail.previousValue).to.equal('free');
+      expect(element.value).to.equal('enterprise');
+    });
+
+    it('should ignore clicks on disabled radios', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="free">${plans}</monk-radio-group>
+      `);
+
+      radio(element, 'team').click();
+      await element.updateComplete;
+
+      expect(element.value).to.equal('free');
+    });
+
+    it('should apply its size and color scheme to the radios', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group size="sm" color-scheme="success">${plans}</monk-radio-group>
+      `);
+
+      for (const item of element.items) {
+        expect(item.size).to.equal('sm');
+        expect(item.colorScheme).to.equal('success');
+      }
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('should make only the picked radio tabbable', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="pro">${plans}</monk-radio-group>
+      `);
+
+      expect(element.items.map((item) => item.tabIndex)).to.deep.equal([-1, 0, -1, -1]);
+    });
+
+    it('should make the first enabled radio tabbable when nothing is picked', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group>${plans}</monk-radio-group>
+      `);
+
+      expect(radio(element, 'free').tabIndex).to.equal(0);
+    });
+
+    it('should pick the next enabled radio with arrow keys, skipping disabled ones', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="pro">${plans}</monk-radio-group>
+      `);
+
+      press(radio(element, 'pro'), 'ArrowDown');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('enterprise');
+      expect(document.activeElement).to.equal(radio(element, 'enterprise'));
+      expect(radio(element, 'enterprise').tabIndex).to.equal(0);
+    });
+
+    it('should wrap around at both ends', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="enterprise">${plans}</monk-radio-group>
+      `);
+
+      press(radio(element, 'enterprise'), 'ArrowRight');
+      await element.updateComplete;
+      expect(element.value).to.equal('free');
+
+      press(radio(element, 'free'), 'ArrowUp');
+      await element.updateComplete;
+      expect(element.value).to.equal('enterprise');
+    });
+
+    it('should reverse Left and Right in right-to-left layouts', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group dir="rtl" value="free">${plans}</monk-radio-group>
+      `);
+
+      press(radio(element, 'free'), 'ArrowLeft');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('pro');
+    });
+
+    it('should pick the focused radio with Space', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group>${plans}</monk-radio-group>
+      `);
+
+      setTimeout(() => press(radio(element, 'free'), ' '));
+      const event = await oneEvent(element, 'value-change');
+
+      expect(event.detail.value).to.equal('free');
+    });
+
+    it('should only move focus when readonly', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group value="free" readonly>${plans}</monk-radio-group>
+      `);
+
+      press(radio(element, 'free'), 'ArrowDown');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('free');
+      expect(document.activeElement).to.equal(radio(element, 'pro'));
+    });
+  });
+
+  describe('Validation', () => {
+    it('should be invalid while required and empty', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group required>${plans}</monk-radio-group>
+      `);
+
+      expect(element.checkValidity()).to.be.false;
+      expect(element.validity.valueMissing).to.be.true;
+
+      element.value = 'pro';
+      await element.updateComplete;
+
+      expect(element.checkValidity()).to.be.true;
+    });
+
+    it('should emit input-invalid when validated without a pick', async () => {
+      const element = await fixture<MonkRadioGroup>(html`
+        <monk-radio-group required validate>${plans}</monk-radio-group>
+      `);
+
+      setTimeout(() => element.performValidation());
+      const event = await oneEvent(element, 'input-invalid');
+
+      expect(event.detail.message).to.be.a('string').and.not.be.empty;
+      expect(element.invalid).to.be.true;
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit the picked value under its name', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-radio-group name="plan" value="pro">${plans}</monk-radio-group>
+        </form>
+      `);
+      await form.querySelector('monk-radio-group')?.updateComplete;
+
+      expect(new FormData(form).get('plan')).to.equal('pro');
+    });
+
+    it('should return to its checked radio on form reset', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-radio-group name="plan">
+            <monk-radio value="free" checked>Free</monk-radio>
+            <monk-radio value="pro">Pro</monk-radio>
+          </monk-radio-group>
+        </form>
+      `);
+      const element = form.querySelector('monk-radio-group') as MonkRadioGroup;
+      await element.updateComplete;
+
+      element.value = 'pro';
+      await element.updateComplete;
+      form.reset();
+      await element.updateComplete;
+
+      expect(element.value).to.equal('free');
+      expect(element.items[0].checked).to.be.true;
+      expect(element.items[1].defaultChecked).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { html, type PropertyValues } from 'lit';
+import { customElement } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { GroupInput } from '../input/group-input.js';
+import './radio.js';
+import type { MonkRadio } from './radio.js';
+
+/**
+ * Detail of the `value-change` event
+ */
+export interface ValueChangeDetail {
+  value: string;
+  previousValue: string;
+  originalEvent?: Event;
+}
+
+/**
+ * Radio group component - Picks exactly one value from a set of radios
+ *
+ * Implements the WAI-ARIA radio group pattern: the group is a single Tab stop
+ * and the arrow keys move focus and selection between radios.
+ *
+ * @element monk-radio-group
+ *
+ * @example
+ * ```html
+ * <monk-radio-group label="Plan" name="plan" value="pro" required>
+ *   <monk-radio value="free">Free</monk-radio>
+ *   <monk-radio value="pro">Pro</monk-radio>
+ *   <monk-radio value="team" disabled>Team (coming soon)</monk-radio>
+ * </monk-radio-group>
+ *
+ * <monk-radio-group label="Size" orientation="horizontal" color-scheme="neutral">
+ *   <monk-radio value="s">S</monk-radio>
+ *   <monk-radio value="m">M</monk-radio>
+ *   <monk-radio value="l">L</monk-radio>
+ * </monk-radio-group>
+ * ```
+ *
+ * @accessibility
+ * - role="radiogroup" labelled by the group label, with aria-required
+ * - Roving tabindex: Tab focuses the picked radio (or the first one)
+ * - Arrow keys move to the next or previous enabled radio and pick it, wrapping around;
+ *   Left and Right follow the reading direction
+ * - Space picks the focused radio
+ *
+ * @fires value-change - Fired when the picked radio changes, detail: `{ value, previousValue }`
+ * @fires input-change - Fired when the picked radio changes, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when the picked radio changes, detail: `{ value, originalEvent }`
+ * @fires input-focus - Fired when focus moves into the group
+ * @fires input-blur - Fired when focus leaves the group
+ * @fires input-keydown - Fired on keydown in the group
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart group - The element around the radios
+ *
+ * @slot - `monk-radio` elements
+ */
+@customElement('monk-radio-group')
+export class MonkRadioGroup extends GroupInput<MonkRadio> {
+  /**
+   * Tag name of the child controls
+   */
+  protected get itemSelector(): string {
+    return 'monk-radio';
+  }
+
+  /**
+   * The radios in the group
+   */
+  get items(): MonkRadio[] {
+    return Array.from(this.querySelectorAll<MonkRadio>(this.itemSelector));
+  }
+
+  /**
+   * The picked radio, if any
+   */
+  get selectedItem(): MonkRadio | undefined {
+    return this.value ? this.items.find((item) => item.value === this.value) : undefined;
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    // Without a value, start from a radio's own `checked` attribute
+    if (!this.value) {
+      this.value = this.items.find((item) => item.checked)?.value ?? '';
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+    this.updateTabStops();
+  }
+
+  override formResetCallback(): void {
+    super.formResetCallback();
+    if (!this.hasAttribute('value')) {
+      this.value = this.items.find((item) => item.defaultChecked)?.value ?? '';
+    }
+  }
+
+  protected syncItems(): void {
+    for (const item of this.items) {
+      item.checked = item.value === this.value;
+      item.size = this.size;
+      item.colorScheme = this.colorScheme;
+    }
+  }
+
+  protected override _handleSlotChange(): void {
+    super._handleSlotChange();
+    this.updateTabStops();
+  }
+
+  /**
+   * Roving tabindex: only the picked (or first enabled) radio is in the Tab order
+   */
+  private updateTabStops(): void {
+    const tabStop = this.isDisabled ? undefined : this.focusTarget;
+    for (const item of this.items) {
+      item.tabIndex = item === tabStop ? 0 : -1;
+    }
+  }
+
+  /**
+   * Pick a radio, emitting change events when the value changes
+   */
+  private pick(item: MonkRadio, originalEvent?: Event): void {
+    if (this.isDisabled || this.readonly || item.disabled) return;
+
+    const previousValue = this.value;
+    this.value = item.value;
+    if (this.value === previousValue) return;
+
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.emitEvent(name, { value: this.value, originalEvent });
+    }
+    this.emitEvent<ValueChangeDetail>('value-change', {
+      value: this.value,
+      previousValue,
+      originalEvent,
+    });
+  }
+
+  private itemFromEvent(event: Event): MonkRadio | undefined {
+    return this.items.find((item) => event.composedPath().includes(item));
+  }
+
+  private _handleItemClick(event: MouseEvent): void {
+    const item = this.itemFromEvent(event);
+    if (!item || item.disabled) return;
+
+    item.focus();
+    this.pick(item, event);
+  }
+
+  private _handleItemKeyDown(event: KeyboardEvent): void {
+    const item = this.itemFromEvent(event);
+    if (!item) return;
+
+    const rtl = getComputedStyle(this).direction === 'rtl';
+    const steps: Record<string, number> = {
+      ArrowDown: 1,
+      ArrowUp: -1,
+      ArrowRight: rtl ? -1 : 1,
+      ArrowLeft: rtl ? 1 : -1,
+    };
+
+    if (event.key in steps) {
+      event.preventDefault();
+      const enabled = this.items.filter((candidate) => !candidate.disabled);
+      const index = enabled.indexOf(item);
+      const next = enabled[(index + steps[event.key] + enabled.length) % enabled.length];
+      if (!next) return;
+
+      next.focus();
+      if (this.readonly) {
+        // Readonly groups only move focus
+        this.items.forEach((candidate) => (candidate.tabIndex = candidate === next ? 0 : -1));
+      } else {
+        this.pick(next, event);
+      }
+    } else if (event.key === ' ') {
+      event.preventDefault();
+      this.pick(item, event);
+    }
+
+    this._handleKeyDown(event);
+  }
+
+  protected override renderInput() {
+    return html`
+      <div
+        class="group"
+        part="group"
+        role="radiogroup"
+        aria-labelledby=${ifDefined(this.label ? 'label' : undefined)}
+        aria-required=${this.required ? 'true' : 'false'}
+        aria-invalid=${this.invalid ? 'true' : 'false'}
+        aria-disabled=${this.isDisabled ? 'true' : 'false'}
+        @click=${this._handleItemClick}
+        @keydown=${this._handleItemKeyDown}
+      >
+        <slot @slotchange=${this._handleSlotChange}></slot>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-radio-group': MonkRadioGroup;
+  }
+}
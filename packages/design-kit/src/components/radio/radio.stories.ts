@@ -0,0 +1,129 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './radio-group.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Radio',
+  component: 'monk-radio-group',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Radio Group picks exactly one value from a set of \`monk-radio\` elements. The group
+is the form field: it owns the value, required validation and form submission, and
+emits \`value-change\` with the new and previous value.
+
+Following the WAI-ARIA radio group pattern, the group is a single Tab stop and the arrow
+keys move focus and selection, skipping disabled radios and wrapping around.
+
+## Usage
+
+\`\`\`html
+<monk-radio-group label="Plan" name="plan" value="pro" required>
+  <monk-radio value="free">Free</monk-radio>
+  <monk-radio value="pro">Pro</monk-radio>
+</monk-radio-group>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-radio-group label="Plan" name="plan" value="pro">
+      <monk-radio value="free">Free</monk-radio>
+      <monk-radio value="pro">Pro</monk-radio>
+      <monk-radio value="team" disabled>Team (coming soon)</monk-radio>
+      <monk-radio value="enterprise">Enterprise</monk-radio>
+    </monk-radio-group>
+  `,
+};
+
+export const Horizontal: Story = {
+  render: () => html`
+    <monk-radio-group label="Size" orientation="horizontal" value="m">
+      <monk-radio value="s">S</monk-radio>
+      <monk-radio value="m">M</monk-radio>
+      <monk-radio value="l">L</monk-radio>
+      <monk-radio value="xl">XL</monk-radio>
+    </monk-radio-group>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      ${(['sm', 'md', 'lg'] as const).map(
+        (size) => html`
+          <monk-radio-group label="Size ${size}" size=${size} value="a" orientation="horizontal">
+            <monk-radio value="a">Option A</monk-radio>
+            <monk-radio value="b">Option B</monk-radio>
+          </monk-radio-group>
+        `
+      )}
+    </monk-stack>
+  `,
+};
+
+export const ColorSchemes: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      ${(['primary', 'neutral', 'success', 'error', 'warning'] as const).map(
+        (scheme) => html`
+          <monk-radio-group
+            label=${scheme}
+            color-scheme=${scheme}
+            value="a"
+            orientation="horizontal"
+          >
+            <monk-radio value="a">Option A</monk-radio>
+            <monk-radio value="b">Option B</monk-radio>
+          </monk-radio-group>
+        `
+      )}
+    </monk-stack>
+  `,
+};
+
+export const Required: Story = {
+  render: () => html`
+    <monk-radio-group
+      label="Delivery"
+      name="delivery"
+      helper-text="Pick one, then tab away"
+      required
+      validate
+      validate-on="blur"
+    >
+      <monk-radio value="standard">Standard</monk-radio>
+      <monk-radio value="express">Express</monk-radio>
+    </monk-radio-group>
+  `,
+};
+
+export const ValueChange: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-radio-group
+        label="Theme"
+        value="system"
+        @value-change=${(e: CustomEvent) => {
+          const output = (e.target as HTMLElement).nextElementSibling as HTMLElement;
+          output.textContent = `${e.detail.previousValue} → ${e.detail.value}`;
+        }}
+      >
+        <monk-radio value="light">Light</monk-radio>
+        <monk-radio value="dark">Dark</monk-radio>
+        <monk-radio value="system">System</monk-radio>
+      </monk-radio-group>
+      <output></output>
+    </monk-stack>
+  `,
+};
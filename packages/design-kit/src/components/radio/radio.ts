@@ -0,0 +1,214 @@
+import { html, css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+import { coreStyles, reducedMotionStyles } from '../../core/styles.js';
+import type { ButtonColorScheme } from '../button/button.js';
+import type { InputSize } from '../input/base-input.js';
+
+/**
+ * Radio component - One choice inside a `monk-radio-group`
+ *
+ * The group owns the value, keyboard handling and form participation; a radio
+ * only displays its state. Size and color scheme are set by the group.
+ *
+ * @element monk-radio
+ *
+ * @example
+ * ```html
+ * <monk-radio-group label="Plan" name="plan">
+ *   <monk-radio value="free">Free</monk-radio>
+ *   <monk-radio value="pro">Pro</monk-radio>
+ * </monk-radio-group>
+ * ```
+ *
+ * @accessibility
+ * - role="radio" with aria-checked and aria-disabled
+ * - Takes part in the group's roving tabindex
+ *
+ * @csspart control - The element around the circle and text
+ * @csspart circle - The visible circle
+ * @csspart label - The label text
+ *
+ * @slot - Label content; falls back to the `label` property
+ */
+@customElement('monk-radio')
+export class MonkRadio extends MonkBaseElement {
+  /**
+   * Value the group takes when this radio is picked
+   */
+  @property({ type: String })
+  value = '';
+
+  /**
+   * Label text, used when the radio has no content
+   */
+  @property({ type: String })
+  label?: string;
+
+  /**
+   * Whether this is the group's picked radio
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  checked = false;
+
+  /**
+   * Whether the radio started out checked; the group returns to it on form reset
+   * `checked` reflects the current pick, so its attribute cannot tell.
+   */
+  defaultChecked = false;
+
+  /**
+   * Whether the radio cannot be picked or focused
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  /**
+   * Radio size, set by the group
+   * @default 'md'
+   */
+  @property({ type: String, reflect: true })
+  size: InputSize = 'md';
+
+  /**
+   * Color scheme of the picked state, set by the group
+   * @default 'primary'
+   */
+  @property({ type: String, reflect: true, attribute: 'color-scheme' })
+  colorScheme: ButtonColorScheme = 'primary';
+
+  static override styles: CSSResultArray = [
+    coreStyles,
+    reducedMotionStyles,
+    css`
+      :host {
+        display: inline-block;
+        outline: none;
+        font-family: var(--monk-font-family-base);
+        --monk-radio-accent: var(--monk-color-bg-primary);
+      }
+
+      :host([color-scheme='neutral']) {
+        --monk-radio-accent: var(--monk-color-bg-neutral);
+      }
+
+      :host([color-scheme='success']) {
+        --monk-radio-accent: var(--monk-color-bg-success);
+      }
+
+      :host([color-scheme='error']) {
+        --monk-radio-accent: var(--monk-color-bg-error);
+      }
+
+      :host([color-scheme='warning']) {
+        --monk-radio-accent: var(--monk-color-bg-warning);
+      }
+
+      .control {
+        display: inline-flex;
+        align-items: center;
+        gap: var(--monk-space-2);
+        cursor: pointer;
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-base);
+        line-height: var(--monk-font-lineHeight-normal);
+      }
+
+      :host([size='sm']) .control {
+        font-size: var(--monk-font-size-sm);
+      }
+
+      :host([size='lg']) .control {
+        font-size: var(--monk-font-size-lg);
+      }
+
+      :host([disabled]) .control {
+        cursor: not-allowed;
+        opacity: 0.5;
+      }
+
+      .circle {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        flex-shrink: 0;
+        width: 1.125em;
+        height: 1.125em;
+        border: 2px solid var(--monk-color-border-emphasized);
+        border-radius: 50%;
+        background: var(--monk-color-bg-canvas);
+        transition: border-color 150ms ease-in-out;
+      }
+
+      .dot {
+        width: 50%;
+        height: 50%;
+        border-radius: 50%;
+        background: var(--monk-radio-accent);
+        transform: scale(0);
+        transition: transform 150ms ease-in-out;
+      }
+
+      .control:hover .circle,
+      :host([checked]) .circle {
+        border-color: var(--monk-radio-accent);
+      }
+
+      :host([checked]) .dot {
+        transform: scale(1);
+      }
+
+      :host(:focus-visible) .circle {
+        box-shadow: 0 0 0 var(--monk-focus-ring-width, 2px) var(--monk-focus-ring-color);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .circle,
+        .dot {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    if (!this.hasUpdated) {
+      this.defaultChecked = this.checked;
+    }
+    if (!this.hasAttribute('role')) {
+      this.setAttribute('role', 'radio');
+    }
+    if (!this.hasAttribute('tabindex')) {
+      this.tabIndex = -1;
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('checked')) {
+      this.setAttribute('aria-checked', this.checked ? 'true' : 'false');
+    }
+    if (changedProperties.has('disabled')) {
+      this.setAttribute('aria-disabled', this.disabled ? 'true' : 'false');
+    }
+  }
+
+  protected override render() {
+    return html`
+      <span class="control" part="control">
+        <span class="circle" part="circle" aria-hidden="true"><span class="dot"></span></span>
+        <span class="text" part="label"><slot>${this.label}</slot></span>
+      </span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-radio': MonkRadio;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Segmented Control Components
+ *
+ * Radio group shown as a row of joined buttons
+ */
+
+export { MonkSegment } from './segment.js';
+export { MonkSegmentedControl } from './segmented-control.js';
+export type { SegmentedControlAppearance } from './segment.js';
@@ -0,0 +1,145 @@
+import { html, css, type CSSResultArray } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { coreStyles, reducedMotionStyles } from '../../core/styles.js';
+import { MonkRadio } from '../radio/radio.js';
+
+/**
+ * How the picked segment stands out, matching MonkButton's solid and outline variants
+ */
+export type SegmentedControlAppearance = 'solid' | 'outline';
+
+/**
+ * Segment component - One option inside a `monk-segmented-control`
+ *
+ * A radio styled as a button; the control sets its size, color scheme and appearance.
+ *
+ * @element monk-segment
+ *
+ * @csspart segment - The button-like surface
+ *
+ * @slot - Segment content (text and/or icon); falls back to the `label` property
+ */
+@customElement('monk-segment')
+export class MonkSegment extends MonkRadio {
+  /**
+   * Picked style, set by the control
+   * @default 'solid'
+   */
+  @property({ type: String, reflect: true })
+  appearance: SegmentedControlAppearance = 'solid';
+
+  static override styles: CSSResultArray = [
+    coreStyles,
+    reducedMotionStyles,
+    css`
+      :host {
+        display: inline-flex;
+        outline: none;
+        font-family: var(--monk-font-family-base);
+        --monk-segment-accent: var(--monk-color-bg-primary);
+        --monk-segment-on-accent: var(--monk-color-text-on-primary);
+      }
+
+      :host([color-scheme='neutral']) {
+        --monk-segment-accent: var(--monk-color-bg-neutral);
+        --monk-segment-on-accent: var(--monk-color-text-on-neutral);
+      }
+
+      :host([color-scheme='success']) {
+        --monk-segment-accent: var(--monk-color-bg-success);
+        --monk-segment-on-accent: var(--monk-color-text-on-success);
+      }
+
+      :host([color-scheme='error']) {
+        --monk-segment-accent: var(--monk-color-bg-error);
+        --monk-segment-on-accent: var(--monk-color-text-on-error);
+      }
+
+      :host([color-scheme='warning']) {
+        --monk-segment-accent: var(--monk-color-bg-warning);
+        --monk-segment-on-accent: var(--monk-color-text-on-warning);
+      }
+
+      .segment {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        gap: var(--monk-space-2);
+        width: 100%;
+        border: 1px solid transparent;
+        border-radius: var(--monk-radius-sm);
+        background: transparent;
+        color: var(--monk-color-text-primary);
+        font-weight: var(--monk-font-weight-semibold);
+        white-space: nowrap;
+        user-select: none;
+        cursor: pointer;
+        transition:
+          background-color 150ms ease-in-out,
+          border-color 150ms ease-in-out,
+          color 150ms ease-in-out;
+      }
+
+      /* Sizes */
+      :host([size='sm']) .segment {
+        padding: var(--monk-space-1) var(--monk-space-3);
+        font-size: var(--monk-font-size-sm);
+        line-height: var(--monk-font-lineHeight-tight);
+      }
+
+      :host([size='md']) .segment {
+        padding: var(--monk-space-2) var(--monk-space-4);
+        font-size: var(--monk-font-size-base);
+        line-height: var(--monk-font-lineHeight-normal);
+      }
+
+      :host([size='lg']) .segment {
+        padding: var(--monk-space-3) var(--monk-space-5);
+        font-size: var(--monk-font-size-lg);
+        line-height: var(--monk-font-lineHeight-normal);
+      }
+
+      :host(:not([checked]):not([disabled])) .segment:hover {
+        background: var(--monk-color-bg-hover);
+      }
+
+      /* Picked: solid */
+      :host([checked][appearance='solid']) .segment {
+        background: var(--monk-segment-accent);
+        color: var(--monk-segment-on-accent);
+      }
+
+      /* Picked: outline */
+      :host([checked][appearance='outline']) .segment {
+        background: var(--monk-color-bg-canvas);
+        border-color: var(--monk-segment-accent);
+        color: var(--monk-segment-accent);
+      }
+
+      :host([disabled]) .segment {
+        cursor: not-allowed;
+        opacity: 0.5;
+      }
+
+      :host(:focus-visible) .segment {
+        box-shadow: 0 0 0 var(--monk-focus-ring-width, 2px) var(--monk-focus-ring-color);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .segment {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  protected override render() {
+    return html`<span class="segment" part="segment"><slot>${this.label}</slot></span>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-segment': MonkSegment;
+  }
+}
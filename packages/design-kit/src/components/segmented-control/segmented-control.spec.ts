@@ -0,0 +1,70 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkSegmentedControl } from './segmented-control.js';
+import { MonkRadioGroup } from '../radio/radio-group.js';
+import type { MonkSegment } from './segment.js';
+
+const views = html`
+  <monk-segment value="list">List</monk-segment>
+  <monk-segment value="grid">Grid</monk-segment>
+  <monk-segment value="map">Map</monk-segment>
+`;
+
+describe('MonkSegmentedControl', () => {
+  it('should be defined as a radio group', () => {
+    const element = document.createElement('monk-segmented-control');
+    expect(element).to.be.instanceOf(MonkSegmentedControl);
+    expect(element).to.be.instanceOf(MonkRadioGroup);
+  });
+
+  it('should pick the segment matching its value', async () => {
+    const element = await fixture<MonkSegmentedControl>(html`
+      <monk-segmented-control value="grid">${views}</monk-segmented-control>
+    `);
+
+    expect(element.items.map((item) => item.checked)).to.deep.equal([false, true, false]);
+    expect(element.items[1].getAttribute('role')).to.equal('radio');
+  });
+
+  it('should apply its appearance to the segments', async () => {
+    const element = await fixture<MonkSegmentedControl>(html`
+      <monk-segmented-control appearance="outline">${views}</monk-segmented-control>
+    `);
+
+    expect(element.items.every((item) => item.appearance === 'outline')).to.be.true;
+
+    element.appearance = 'solid';
+    await element.updateComplete;
+
+    expect(element.items.every((item) => item.appearance === 'solid')).to.be.true;
+  });
+
+  it('should emit value-change when a segment is clicked', async () => {
+    const element = await fixture<MonkSegmentedControl>(html`
+      <monk-segmented-control value="list">${views}</monk-segmented-control>
+    `);
+    const map = element.querySelector('monk-segment[value="map"]') as MonkSegment;
+
+    setTimeout(() => map.click());
+    const event = await oneEvent(element, 'value-change');
+
+    expect(event.detail).to.include({ value: 'map', previousValue: 'list' });
+  });
+
+  it('should submit the picked value and honour required', async () => {
+    const form = await fixture<HTMLFormElement>(html`
+      <form>
+        <monk-segmented-control name="view" required>${views}</monk-segmented-control>
+      </form>
+    `);
+    const element = form.querySelector('monk-segmented-control') as MonkSegmentedControl;
+    await element.updateComplete;
+
+    expect(form.checkValidity()).to.be.false;
+
+    element.value = 'map';
+    await element.updateComplete;
+
+    expect(form.checkValidity()).to.be.true;
+    expect(new FormData(form).get('view')).to.equal('map');
+  });
+});
@@ -0,0 +1,108 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './segmented-control.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/SegmentedControl',
+  component: 'monk-segmented-control',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Segmented Control is a radio group shown as a row of joined buttons. Keyboard
+support, form participation, \`required\` validation and the \`value-change\` event
+are the same as \`monk-radio-group\`.
+
+\`appearance\` picks how the selected segment stands out, matching the Button's
+\`solid\` and \`outline\` variants, and \`color-scheme\` and \`size\` work as on the Button.
+
+## Usage
+
+\`\`\`html
+<monk-segmented-control label="View" name="view" value="list">
+  <monk-segment value="list">List</monk-segment>
+  <monk-segment value="grid">Grid</monk-segment>
+</monk-segmented-control>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+const segments = html`
+  <monk-segment value="day">Day</monk-segment>
+  <monk-segment value="week">Week</monk-segment>
+  <monk-segment value="month">Month</monk-segment>
+  <monk-segment value="year" disabled>Year</monk-segment>
+`;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-segmented-control label="Range" name="range" value="week">
+      ${segments}
+    </monk-segmented-control>
+  `,
+};
+
+export const Appearances: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      <monk-segmented-control label="Solid" value="week">${segments}</monk-segmented-control>
+      <monk-segmented-control label="Outline" appearance="outline" value="week">
+        ${segments}
+      </monk-segmented-control>
+    </monk-stack>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      ${(['sm', 'md', 'lg'] as const).map(
+        (size) => html`
+          <monk-segmented-control label="Size ${size}" size=${size} value="day">
+            ${segments}
+          </monk-segmented-control>
+        `
+      )}
+    </monk-stack>
+  `,
+};
+
+export const ColorSchemes: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      ${(['primary', 'neutral', 'success', 'error', 'warning'] as const).map(
+        (scheme) => html`
+          <monk-segmented-control label=${scheme} color-scheme=${scheme} value="month">
+            ${segments}
+          </monk-segmented-control>
+        `
+      )}
+    </monk-stack>
+  `,
+};
+
+export const FullWidth: Story = {
+  render: () => html`
+    <monk-segmented-control label="Billing" value="monthly" full-width>
+      <monk-segment value="monthly">Monthly</monk-segment>
+      <monk-segment value="yearly">Yearly</monk-segment>
+    </monk-segmented-control>
+  `,
+};
+
+export const Required: Story = {
+  render: () => html`
+    <monk-segmented-control label="Shipping" name="shipping" required validate>
+      <monk-segment value="pickup">Pickup</monk-segment>
+      <monk-segment value="delivery">Delivery</monk-segment>
+    </monk-segmented-control>
+  `,
+};
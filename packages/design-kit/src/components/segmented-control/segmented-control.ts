@@ -0,0 +1,120 @@
+import { css, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { MonkRadioGroup } from '../radio/radio-group.js';
+import type { GroupOrientation } from '../input/group-input.js';
+import './segment.js';
+import type { MonkSegment, SegmentedControlAppearance } from './segment.js';
+
+/**
+ * Segmented control component - Radio group shown as a row of joined buttons
+ *
+ * Behaves exactly like `monk-radio-group` (keyboard, forms, validation and
+ * events); only the look differs.
+ *
+ * @element monk-segmented-control
+ *
+ * @example
+ * ```html
+ * <monk-segmented-control label="View" name="view" value="list">
+ *   <monk-segment value="list">List</monk-segment>
+ *   <monk-segment value="grid">Grid</monk-segment>
+ *   <monk-segment value="map">Map</monk-segment>
+ * </monk-segmented-control>
+ *
+ * <monk-segmented-control appearance="outline" color-scheme="neutral" full-width>
+ *   <monk-segment value="day">Day</monk-segment>
+ *   <monk-segment value="week">Week</monk-segment>
+ * </monk-segmented-control>
+ * ```
+ *
+ * @accessibility
+ * - role="radiogroup" with role="radio" segments and a roving tabindex
+ * - Arrow keys move between segments and pick them; Left and Right follow the reading direction
+ *
+ * @fires value-change - Fired when the picked segment changes, detail: `{ value, previousValue }`
+ * @fires input-change - Fired when the picked segment changes, detail: `{ value, originalEvent }`
+ * @fires input-changed - Fired when the picked segment changes, detail: `{ value, originalEvent }`
+ * @fires input-focus - Fired when focus moves into the control
+ * @fires input-blur - Fired when focus leaves the control
+ * @fires input-keydown - Fired on keydown in the control
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart group - The track around the segments
+ *
+ * @slot - `monk-segment` elements
+ */
+@customElement('monk-segmented-control')
+export class MonkSegmentedControl extends MonkRadioGroup {
+  /**
+   * How the picked segment stands out, like MonkButton's variants
+   * @default 'solid'
+   */
+  @property({ type: String, reflect: true })
+  appearance: SegmentedControlAppearance = 'solid';
+
+  /**
+   * Stretch to the container width, sharing it equally between segments
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true, attribute: 'full-width' })
+  fullWidth = false;
+
+  override orientation: GroupOrientation = 'horizontal';
+
+  static override styles: CSSResultArray = [
+    ...(MonkRadioGroup.styles as CSSResultArray),
+    css`
+      :host([orientation]) .group {
+        display: inline-flex;
+        flex-direction: row;
+        flex-wrap: nowrap;
+        gap: 2px;
+        padding: 2px;
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        background: var(--monk-color-bg-subtle);
+      }
+
+      :host([full-width]) .group {
+        display: flex;
+      }
+
+      :host([full-width]) ::slotted(monk-segment) {
+        flex: 1 1 0;
+      }
+
+      :host([invalid]) .group {
+        border-color: var(--monk-color-border-error);
+      }
+    `,
+  ];
+
+  protected override get itemSelector(): string {
+    return 'monk-segment';
+  }
+
+  override get items(): MonkSegment[] {
+    return super.items as MonkSegment[];
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('appearance')) {
+      this.syncItems();
+    }
+  }
+
+  protected override syncItems(): void {
+    super.syncItems();
+    this.items.forEach((item) => (item.appearance = this.appearance));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-segmented-control': MonkSegmentedControl;
+  }
+}
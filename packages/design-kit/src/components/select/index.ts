@@ -0,0 +1,4 @@
+export { MonkSelect } from './select.js';
+export { MonkOption } from './option.js';
+export { MonkOptionGroup } from './option-group.js';
+export type { SelectOption } from './select.js';
@@ -0,0 +1,54 @@
+import { css, nothing, type CSSResultArray } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+
+/**
+ * Option group component - Groups monk-option elements under a heading in a monk-select
+ *
+ * @element monk-option-group
+ *
+ * @example
+ * ```html
+ * <monk-select label="Produce">
+ *   <monk-option-group label="Fruit">
+ *     <monk-option value="apple">Apple</monk-option>
+ *   </monk-option-group>
+ *   <monk-option-group label="Vegetables" disabled>
+ *     <monk-option value="kale">Kale</monk-option>
+ *   </monk-option-group>
+ * </monk-select>
+ * ```
+ */
+@customElement('monk-option-group')
+export class MonkOptionGroup extends MonkBaseElement {
+  /**
+   * Group heading
+   */
+  @property({ type: String, reflect: true })
+  label = '';
+
+  /**
+   * Whether all options in the group cannot be picked
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  static override styles: CSSResultArray = [
+    css`
+      :host {
+        display: none;
+      }
+    `,
+  ];
+
+  protected override render() {
+    return nothing;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-option-group': MonkOptionGroup;
+  }
+}
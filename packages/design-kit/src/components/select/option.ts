@@ -0,0 +1,58 @@
+import { css, nothing, type CSSResultArray } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { MonkBaseElement } from '../../core/base-element.js';
+
+/**
+ * Option component - Declares one choice of a monk-select
+ * Options are not rendered themselves; the select reads them and renders its own list.
+ *
+ * @element monk-option
+ *
+ * @example
+ * ```html
+ * <monk-select label="Size">
+ *   <monk-option value="s">Small</monk-option>
+ *   <monk-option value="m">Medium</monk-option>
+ *   <monk-option value="l" disabled>Large (sold out)</monk-option>
+ * </monk-select>
+ * ```
+ */
+@customElement('monk-option')
+export class MonkOption extends MonkBaseElement {
+  /**
+   * Value submitted with the form; defaults to the label
+   */
+  @property({ type: String, reflect: true })
+  value?: string;
+
+  /**
+   * Text shown in the list; defaults to the text content
+   */
+  @property({ type: String, reflect: true })
+  label?: string;
+
+  /**
+   * Whether the option cannot be picked
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  disabled = false;
+
+  static override styles: CSSResultArray = [
+    css`
+      :host {
+        display: none;
+      }
+    `,
+  ];
+
+  protected override render() {
+    return nothing;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-option': MonkOption;
+  }
+}
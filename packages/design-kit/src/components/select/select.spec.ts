@@ -0,0 +1,384 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkSelect, type SelectOption } from './select.js';
+import { MonkOption } from './option.js';
+import { MonkOptionGroup } from './option-group.js';
+
+const press = async (element: MonkSelect, key: string): Promise<void> => {
+  const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+  input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+  await element.updateComplete;
+};
+
+const renderedOptions = (element: MonkSelect): HTMLElement[] =>
+  Array.from(element.shadowRoot?.querySelectorAll<HTMLElement>('[role="option"]') ?? []);
+
+const colors = html`
+  <monk-option value="red">Red</monk-option>
+  <monk-option value="green" disabled>Green</monk-option>
+  <monk-option value="blue">Blue</monk-option>
+  <monk-option value="black">Black</monk-option>
+`;
+
+describe('MonkSelect', () => {
+  it('should be defined', () => {
+    expect(document.createElement('monk-select')).to.be.instanceOf(MonkSelect);
+    expect(document.createElement('monk-option')).to.be.instanceOf(MonkOption);
+    expect(document.createElement('monk-option-group')).to.be.instanceOf(MonkOptionGroup);
+  });
+
+  it('should render a closed select-only combobox', async () => {
+    const element = await fixture<MonkSelect>(html`
+      <monk-select label="Color">${colors}</monk-select>
+    `);
+
+    const input = element.shadowRoot?.querySelector('input');
+    expect(input?.getAttribute('role')).to.equal('combobox');
+    expect(input?.getAttribute('aria-haspopup')).to.equal('listbox');
+    expect(input?.getAttribute('aria-expanded')).to.equal('false');
+    expect(input?.readOnly).to.be.true;
+    expect(element.shadowRoot?.querySelector('[role="listbox"]')).to.be.null;
+  });
+
+  it('should share BaseInput size and variant styling', async () => {
+    const element = await fixture<MonkSelect>(html`
+      <monk-select size="lg" variant="filled">${colors}</monk-select>
+    `);
+
+    expect(element.getAttribute('size')).to.equal('lg');
+    expect(element.getAttribute('variant')).to.equal('filled');
+    expect(element.shadowRoot?.querySelector('[part="input-container"]')).to.exist;
+  });
+
+  describe('Options', () => {
+    it('should read monk-option and monk-option-group children', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select>
+          <monk-option value="none">None</monk-option>
+          <monk-option-group label="Fruit">
+            <monk-option value="apple">Apple</monk-option>
+          </monk-option-group>
+          <monk-option-group label="Nuts" disabled>
+            <monk-option>Walnut</monk-option>
+          </monk-option-group>
+        </monk-select>
+      `);
+
+      expect(element.allOptions).to.deep.equal([
+        { value: 'none', label: 'None', group: undefined, disabled: false },
+        { value: 'apple', label: 'Apple', group: 'Fruit', disabled: false },
+        { value: 'Walnut', label: 'Walnut', group: 'Nuts', disabled: true },
+      ]);
+    });
+
+    it('should update when option children change', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+
+      const option = document.createElement('monk-option');
+      option.value = 'white';
+      option.textContent = 'White';
+      element.appendChild(option);
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(element.allOptions.map((each) => each.value)).to.include('white');
+    });
+
+    it('should show the label of the selected value', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select value="blue">${colors}</monk-select>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(input?.value).to.equal('Blue');
+      expect(element.formValue).to.equal('blue');
+    });
+
+    it('should render groups with role="group"', async () => {
+      const options: SelectOption[] = [
+        { value: 'apple', label: 'Apple', group: 'Fruit' },
+        { value: 'kale', label: 'Kale', group: 'Vegetables' },
+      ];
+      const element = await fixture<MonkSelect>(html`
+        <monk-select .options=${options}></monk-select>
+      `);
+
+      element.openListbox();
+      await element.updateComplete;
+
+      const groups = Array.from(element.shadowRoot?.querySelectorAll('[role="group"]') ?? []);
+      expect(groups.map((group) => group.getAttribute('aria-label'))).to.deep.equal([
+        'Fruit',
+        'Vegetables',
+      ]);
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('should open with the selected option active', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select value="blue">${colors}</monk-select>
+      `);
+
+      await press(element, 'ArrowDown');
+
+      const input = element.shadowRoot?.querySelector('input');
+      expect(element.expanded).to.be.true;
+      expect(input?.getAttribute('aria-expanded')).to.equal('true');
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-2');
+      expect(renderedOptions(element)[2].getAttribute('aria-selected')).to.equal('true');
+    });
+
+    it('should skip disabled options and pick with Enter', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+
+      await press(element, 'ArrowDown');
+      await press(element, 'ArrowDown');
+      setTimeout(() => press(element, 'Enter'));
+      const event = await oneEvent(element, 'input-change');
+
+      expect(event.detail.value).to.equal('blue');
+      expect(element.value).to.equal('blue');
+      expect(element.expanded).to.be.false;
+    });
+
+    it('should move to the first and last option with Home and End', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+      const input = element.shadowRoot?.querySelector('input');
+
+      await press(element, 'ArrowDown');
+      await press(element, 'End');
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-3');
+
+      await press(element, 'Home');
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-0');
+    });
+
+    it('should close with Escape without changing the value', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select value="red">${colors}</monk-select>
+      `);
+
+      await press(element, 'ArrowDown');
+      await press(element, 'ArrowDown');
+      await press(element, 'Escape');
+
+      expect(element.expanded).to.be.false;
+      expect(element.value).to.equal('red');
+    });
+
+    it('should select by typeahead while closed', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+
+      await press(element, 'b');
+      expect(element.value).to.equal('blue');
+
+      // Repeating the letter cycles through matches
+      await press(element, 'b');
+      expect(element.value).to.equal('black');
+    });
+
+    it('should match typed prefixes while open', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+      const input = element.shadowRoot?.querySelector('input');
+
+      await press(element, 'ArrowDown');
+      await press(element, 'b');
+      await press(element, 'l');
+      await press(element, 'a');
+
+      expect(input?.getAttribute('aria-activedescendant')).to.equal('option-3');
+      expect(element.value).to.equal('');
+    });
+  });
+
+  describe('Mouse', () => {
+    it('should open on click and pick the clicked option', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+
+      const container = element.shadowRoot?.querySelector('.input-container') as HTMLElement;
+      container.click();
+      await element.updateComplete;
+      expect(element.expanded).to.be.true;
+
+      renderedOptions(element)[3].click();
+      await element.updateComplete;
+
+      expect(element.value).to.equal('black');
+      expect(element.expanded).to.be.false;
+    });
+
+    it('should ignore clicks on disabled options', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select>${colors}</monk-select>`);
+
+      element.openListbox();
+      await element.updateComplete;
+      renderedOptions(element)[1].click();
+
+      expect(element.value).to.equal('');
+    });
+  });
+
+  describe('Multiple', () => {
+    it('should toggle options and keep the list open', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select multiple>${colors}</monk-select>
+      `);
+
+      await press(element, 'ArrowDown');
+      await press(element, 'Enter');
+      await press(element, 'ArrowDown');
+      await press(element, ' ');
+
+      expect(element.value).to.equal('red,blue');
+      expect(element.selectedValues).to.deep.equal(['red', 'blue']);
+      expect(element.expanded).to.be.true;
+      const listbox = element.shadowRoot?.querySelector('[role="listbox"]');
+      expect(listbox?.getAttribute('aria-multiselectable')).to.equal('true');
+
+      await press(element, 'Enter');
+      expect(element.value).to.equal('red');
+    });
+
+    it('should show chips and remove them', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select multiple value="red,blue,black">${colors}</monk-select>
+      `);
+
+      let chips = element.shadowRoot?.querySelectorAll('monk-badge');
+      const labels = Array.from(chips ?? []).map((chip) =>
+        chip.textContent?.replace('×', '').trim()
+      );
+      expect(labels).to.deep.equal(['Red', 'Blue', 'Black']);
+
+      const remove = chips?.[1].querySelector('button') as HTMLButtonElement;
+      expect(remove.getAttribute('aria-label')).to.equal('Remove Blue');
+      remove.click();
+      await element.updateComplete;
+      expect(element.value).to.equal('red,black');
+
+      await press(element, 'Backspace');
+      chips = element.shadowRoot?.querySelectorAll('monk-badge');
+      expect(element.value).to.equal('red');
+      expect(chips?.length).to.equal(1);
+    });
+
+    it('should describe the selection to screen readers', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select multiple value="red,blue">${colors}</monk-select>
+      `);
+
+      const input = element.shadowRoot?.querySelector('input');
+      const summary = element.shadowRoot?.getElementById('selection-summary');
+      expect(input?.getAttribute('aria-describedby')).to.include('selection-summary');
+      expect(summary?.textContent).to.equal('2 selected: Red, Blue');
+    });
+
+    it('should submit each value under the field name', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form>
+          <monk-select name="colors" multiple value="red,black">${colors}</monk-select>
+        </form>
+      `);
+      await (form.querySelector('monk-select') as MonkSelect).updateComplete;
+
+      expect(new FormData(form).getAll('colors')).to.deep.equal(['red', 'black']);
+    });
+  });
+
+  describe('Searchable', () => {
+    it('should filter options by the typed text', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select searchable>${colors}</monk-select>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+      expect(input.readOnly).to.be.false;
+
+      input.value = 'bl';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      await element.updateComplete;
+
+      expect(renderedOptions(element).map((option) => option.textContent?.trim())).to.deep.equal([
+        'Blue',
+        'Black',
+      ]);
+      expect(input.getAttribute('aria-activedescendant')).to.equal('option-0');
+
+      await press(element, 'Enter');
+      expect(element.value).to.equal('blue');
+      expect(input.value).to.equal('Blue');
+    });
+
+    it('should show the no-results message', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select searchable>${colors}</monk-select>
+      `);
+      const input = element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+      input.value = 'purple';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      await element.updateComplete;
+
+      expect(renderedOptions(element).length).to.equal(0);
+      expect(element.shadowRoot?.querySelector('[part="status"]')?.textContent?.trim()).to.equal(
+        'No options'
+      );
+    });
+  });
+
+  describe('Virtualization', () => {
+    const many: SelectOption[] = Array.from({ length: 5000 }, (_, index) => ({
+      value: String(index),
+      label: `Option ${index}`,
+    }));
+
+    it('should only render the visible options', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select .options=${many}></monk-select>`);
+
+      element.openListbox();
+      await element.updateComplete;
+
+      const options = renderedOptions(element);
+      expect(options.length).to.be.lessThan(50);
+      expect(options[0].getAttribute('aria-setsize')).to.equal('5000');
+      expect(options[0].getAttribute('aria-posinset')).to.equal('1');
+    });
+
+    it('should render the active option when moving far', async () => {
+      const element = await fixture<MonkSelect>(html`<monk-select .options=${many}></monk-select>`);
+
+      await press(element, 'ArrowDown');
+      await press(element, 'End');
+
+      const active = element.shadowRoot?.querySelector('#option-4999');
+      expect(active).to.exist;
+      expect(active?.getAttribute('aria-posinset')).to.equal('5000');
+    });
+  });
+
+  describe('Validation', () => {
+    it('should report a missing required value', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select required>${colors}</monk-select>
+      `);
+
+      expect(element.checkValidity()).to.be.false;
+
+      element.value = 'red';
+      await element.updateComplete;
+      expect(element.checkValidity()).to.be.true;
+    });
+
+    it('should validate when the selection changes', async () => {
+      const element = await fixture<MonkSelect>(html`
+        <monk-select validate .validators=${[(value: string) => value !== 'black']}>
+          ${colors}
+        </monk-select>
+      `);
+
+      setTimeout(() => element.toggleOption(element.allOptions[3]));
+      await oneEvent(element, 'input-invalid');
+
+      expect(element.invalid).to.be.true;
+      expect(element.checkValidity(), 'blocks form submission').to.be.false;
+    });
+  });
+});
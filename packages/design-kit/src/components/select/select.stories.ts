@@ -0,0 +1,170 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './select.js';
+import type { SelectOption } from './select.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Select',
+  component: 'monk-select',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Select component picks one or more options from a listbox popover. It shares
+label, helper text, error message, validation, sizes, variants and form participation
+with the input components.
+
+## Features
+
+- \`monk-option\` and \`monk-option-group\` children, or an \`options\` array
+- Keyboard navigation and typeahead
+- \`multiple\` mode with removable chips; each value is submitted like \`<select multiple>\`
+- \`searchable\` mode filters options as you type
+- Virtualized rendering for thousands of options
+
+## Usage
+
+\`\`\`html
+<monk-select label="Country" name="country" placeholder="Choose a country">
+  <monk-option value="nl">Netherlands</monk-option>
+  <monk-option value="be">Belgium</monk-option>
+</monk-select>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+const countries = html`
+  <monk-option value="be">Belgium</monk-option>
+  <monk-option value="dk">Denmark</monk-option>
+  <monk-option value="fr">France</monk-option>
+  <monk-option value="de">Germany</monk-option>
+  <monk-option value="nl">Netherlands</monk-option>
+  <monk-option value="no" disabled>Norway (unavailable)</monk-option>
+  <monk-option value="es">Spain</monk-option>
+  <monk-option value="se">Sweden</monk-option>
+`;
+
+const manyOptions: SelectOption[] = Array.from({ length: 10000 }, (_, index) => ({
+  value: `item-${index + 1}`,
+  label: `Item ${index + 1}`,
+  group: `Items ${Math.floor(index / 1000) * 1000 + 1}–${Math.floor(index / 1000) * 1000 + 1000}`,
+}));
+
+export const Default: Story = {
+  render: () => html`
+    <monk-select
+      label="Country"
+      placeholder="Choose a country"
+      helper-text="Type a letter to jump to a country"
+      style="max-width: 400px;"
+    >
+      ${countries}
+    </monk-select>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-select size="sm" label="Small" placeholder="Choose...">${countries}</monk-select>
+      <monk-select size="md" label="Medium" placeholder="Choose...">${countries}</monk-select>
+      <monk-select size="lg" label="Large" placeholder="Choose...">${countries}</monk-select>
+    </monk-stack>
+  `,
+};
+
+export const Variants: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-select variant="outline" label="Outline" value="nl">${countries}</monk-select>
+      <monk-select variant="filled" label="Filled" value="nl">${countries}</monk-select>
+      <monk-select variant="flushed" label="Flushed" value="nl">${countries}</monk-select>
+    </monk-stack>
+  `,
+};
+
+export const Grouped: Story = {
+  render: () => html`
+    <monk-select label="Produce" placeholder="Pick one" style="max-width: 400px;">
+      <monk-option-group label="Fruit">
+        <monk-option value="apple">Apple</monk-option>
+        <monk-option value="banana">Banana</monk-option>
+      </monk-option-group>
+      <monk-option-group label="Vegetables">
+        <monk-option value="carrot">Carrot</monk-option>
+        <monk-option value="kale">Kale</monk-option>
+      </monk-option-group>
+      <monk-option-group label="Out of season" disabled>
+        <monk-option value="asparagus">Asparagus</monk-option>
+      </monk-option-group>
+    </monk-select>
+  `,
+};
+
+export const Multiple: Story = {
+  render: () => html`
+    <monk-select
+      label="Countries"
+      placeholder="Choose countries"
+      multiple
+      value="nl,be"
+      style="max-width: 400px;"
+    >
+      ${countries}
+    </monk-select>
+  `,
+};
+
+export const Searchable: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-select label="Country" placeholder="Search countries" searchable>
+        ${countries}
+        <span slot="no-results">No matching country</span>
+      </monk-select>
+      <monk-select label="Countries" placeholder="Search countries" searchable multiple>
+        ${countries}
+      </monk-select>
+    </monk-stack>
+  `,
+};
+
+export const ThousandsOfOptions: Story = {
+  render: () => html`
+    <monk-select
+      label="Item"
+      placeholder="10,000 options"
+      helper-text="Only the visible options are rendered"
+      searchable
+      .options=${manyOptions}
+      style="max-width: 400px;"
+    ></monk-select>
+  `,
+};
+
+export const Validation: Story = {
+  render: () => html`
+    <monk-stack spacing="6" style="max-width: 400px;">
+      <monk-select label="Country" placeholder="Required" required validate>
+        ${countries}
+      </monk-select>
+      <monk-select
+        label="Country"
+        invalid
+        error-message="We do not ship to this country"
+        value="se"
+      >
+        ${countries}
+      </monk-select>
+      <monk-select label="Disabled" disabled value="fr">${countries}</monk-select>
+    </monk-stack>
+  `,
+};
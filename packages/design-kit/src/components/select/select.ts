@@ -0,0 +1,850 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { srOnlyStyles } from '../../core/styles.js';
+import { BaseInput, type FieldValue } from '../input/base-input.js';
+import type { ComboboxOption } from '../input/combobox.js';
+import '../badge/badge.js';
+import './option.js';
+import './option-group.js';
+
+/**
+ * A choice in monk-select, given through `options` or read from monk-option children
+ */
+export type SelectOption = ComboboxOption;
+
+/**
+ * A rendered line of the list: a group heading or an option
+ */
+type SelectRow =
+  | { type: 'group'; label: string }
+  | { type: 'option'; option: SelectOption; index: number };
+
+/**
+ * Height of each list row in pixels; rows are fixed-height so long lists can be virtualized
+ */
+const ROW_HEIGHT = 36;
+
+/**
+ * Maximum height of the list in pixels
+ */
+const LISTBOX_HEIGHT = ROW_HEIGHT * 8;
+
+/**
+ * Lists with more rows than this only render the rows scrolled into view
+ */
+const VIRTUALIZE_THRESHOLD = 100;
+
+/**
+ * Extra rows rendered above and below the visible ones
+ */
+const OVERSCAN = 4;
+
+/**
+ * Milliseconds after the last keystroke before typeahead starts a new search
+ */
+const TYPEAHEAD_RESET = 500;
+
+/**
+ * Select component - Single or multiple choice from a listbox popover
+ *
+ * Options come from monk-option / monk-option-group children, or from the `options`
+ * property for large or dynamic lists. In `multiple` mode the value is a comma-separated
+ * list of option values and the picked options are shown as chips.
+ *
+ * @element monk-select
+ *
+ * @example
+ * ```html
+ * <!-- Single choice -->
+ * <monk-select label="Country" name="country" placeholder="Choose a country" required>
+ *   <monk-option value="nl">Netherlands</monk-option>
+ *   <monk-option value="be">Belgium</monk-option>
+ * </monk-select>
+ *
+ * <!-- Multiple choice with grouped options and search -->
+ * <monk-select label="Toppings" name="toppings" multiple searchable value="cheese,basil">
+ *   <monk-option-group label="Classic">
+ *     <monk-option value="cheese">Cheese</monk-option>
+ *     <monk-option value="tomato">Tomato</monk-option>
+ *   </monk-option-group>
+ *   <monk-option-group label="Herbs">
+ *     <monk-option value="basil">Basil</monk-option>
+ *   </monk-option-group>
+ * </monk-select>
+ *
+ * <!-- Thousands of options from data -->
+ * <monk-select label="Airport" searchable .options=${airports}></monk-select>
+ * ```
+ *
+ * @accessibility
+ * - The field is a `role="combobox"` controlling a `role="listbox"` popup; focus stays
+ *   on the field and the active option is exposed with `aria-activedescendant`
+ * - Arrow Up/Down, Home/End and Page Up/Down move through options; Enter (and Space
+ *   unless searchable) picks; Escape closes
+ * - Typing the start of a label jumps to it (typeahead); with `searchable` typing
+ *   filters the list instead
+ * - In `multiple` mode Backspace removes the last chip and the listbox is
+ *   `aria-multiselectable`
+ * - Virtualized options keep `aria-setsize` and `aria-posinset`
+ *
+ * @fires input-change - Fired when the selection changes
+ * @fires input-changed - Fired when the selection changes
+ * @fires input-focus - Fired when the field receives focus
+ * @fires input-blur - Fired when the field loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart input-container - The field container
+ * @csspart input - The native input showing the selection or search text
+ * @csspart chevron - The open/close indicator
+ * @csspart chip - Each picked option in multiple mode
+ * @csspart chip-remove - The remove button of each chip
+ * @csspart popup - The popover with the list
+ * @csspart listbox - The list of options
+ * @csspart group-label - Heading of each option group
+ * @csspart option - Each option
+ * @csspart status - The no-options message
+ *
+ * @slot - monk-option and monk-option-group elements
+ * @slot prefix - Content to display before the field (e.g., icons, text)
+ * @slot suffix - Content to display after the field
+ * @slot no-results - Shown when no option matches the search (default: "No options")
+ */
+@customElement('monk-select')
+export class MonkSelect extends BaseInput {
+  /**
+   * Options as data; takes precedence over monk-option children
+   */
+  @property({ attribute: false })
+  options: SelectOption[] = [];
+
+  /**
+   * Allow picking several options; the value is a comma-separated list
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  multiple = false;
+
+  /**
+   * Type in the field to filter the options
+   * @default false
+   */
+  @property({ type: Boolean, reflect: true })
+  searchable = false;
+
+  @state()
+  private _open = false;
+
+  /**
+   * Index of the highlighted option in `filteredOptions`
+   */
+  @state()
+  private _activeIndex = -1;
+
+  @state()
+  private _query = '';
+
+  @state()
+  private _scrollTop = 0;
+
+  /**
+   * Options read from monk-option children
+   */
+  @state()
+  private _childOptions: SelectOption[] = [];
+
+  private _typeahead = '';
+  private _typeaheadTimer?: ReturnType<typeof setTimeout>;
+  private _observer?: MutationObserver;
+
+  protected override get inputType(): string {
+    return 'text';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    srOnlyStyles,
+    css`
+      .select-field {
+        position: relative;
+      }
+
+      .input-container {
+        cursor: pointer;
+      }
+
+      :host([searchable]) input {
+        cursor: text;
+      }
+
+      :host(:not([searchable])) input {
+        cursor: pointer;
+        caret-color: transparent;
+      }
+
+      :host([multiple]) .input-container {
+        flex-wrap: wrap;
+      }
+
+      :host([multiple]) input {
+        min-width: 4em;
+      }
+
+      .chevron {
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        line-height: 1;
+        transition: transform 150ms ease-in-out;
+      }
+
+      .chevron.open {
+        transform: rotate(180deg);
+      }
+
+      .chip-remove {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        margin-left: var(--monk-space-1);
+        padding: 0;
+        border: none;
+        background: transparent;
+        color: inherit;
+        font: inherit;
+        line-height: 1;
+        cursor: pointer;
+      }
+
+      .popup {
+        position: absolute;
+        top: calc(100% + var(--monk-space-1));
+        left: 0;
+        right: 0;
+        z-index: 10;
+        padding: var(--monk-space-1);
+        background-color: var(--monk-color-bg-surface);
+        border: 1px solid var(--monk-color-border-default);
+        border-radius: var(--monk-radius-md);
+        box-shadow: var(--monk-shadow-lg);
+      }
+
+      .listbox {
+        max-height: ${LISTBOX_HEIGHT}px;
+        overflow-y: auto;
+      }
+
+      .group-label,
+      .option {
+        box-sizing: border-box;
+        display: flex;
+        align-items: center;
+        gap: var(--monk-space-2);
+        height: ${ROW_HEIGHT}px;
+        padding: 0 var(--monk-space-3);
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .group-label {
+        font-size: var(--monk-font-size-xs);
+        font-weight: var(--monk-font-weight-semibold);
+        color: var(--monk-color-text-secondary);
+        text-transform: uppercase;
+      }
+
+      .option {
+        border-radius: var(--monk-radius-sm);
+        color: var(--monk-color-text-primary);
+        font-size: var(--monk-font-size-sm);
+        cursor: pointer;
+      }
+
+      .option.active {
+        background-color: var(--monk-color-bg-hover);
+      }
+
+      .option.selected {
+        font-weight: var(--monk-font-weight-medium);
+      }
+
+      .option[aria-disabled='true'] {
+        color: var(--monk-color-text-tertiary);
+        cursor: not-allowed;
+      }
+
+      .check {
+        width: 1em;
+        text-align: center;
+      }
+
+      .status {
+        padding: var(--monk-space-2) var(--monk-space-3);
+        font-size: var(--monk-font-size-sm);
+        color: var(--monk-color-text-secondary);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .chevron {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  /**
+   * All options: `options` if set, otherwise the monk-option children
+   */
+  get allOptions(): SelectOption[] {
+    return this.options.length ? this.options : this._childOptions;
+  }
+
+  /**
+   * Values of the picked options
+   */
+  get selectedValues(): string[] {
+    if (!this.value) return [];
+    return this.multiple ? this.value.split(',') : [this.value];
+  }
+
+  set selectedValues(values: string[]) {
+    this.value = (this.multiple ? values : values.slice(0, 1)).join(',');
+  }
+
+  /**
+   * The picked values as a list when `multiple` is set
+   */
+  override get fieldValue(): FieldValue {
+    return this.multiple ? this.selectedValues : this.formValue;
+  }
+
+  /**
+   * The picked options, in the order they were picked
+   */
+  get selectedOptions(): SelectOption[] {
+    const options = this.allOptions;
+    return this.selectedValues
+      .map((value) => options.find((option) => option.value === value))
+      .filter((option): option is SelectOption => !!option);
+  }
+
+  get expanded(): boolean {
+    return this._open;
+  }
+
+  /**
+   * Options matching the search text
+   */
+  private get filteredOptions(): SelectOption[] {
+    const query = this._query.trim().toLowerCase();
+    const options = this.allOptions;
+    return query ? options.filter((option) => option.label.toLowerCase().includes(query)) : options;
+  }
+
+  /**
+   * Filtered options with a heading row wherever the group changes
+   */
+  private get rows(): SelectRow[] {
+    const rows: SelectRow[] = [];
+    let group: string | undefined;
+    this.filteredOptions.forEach((option, index) => {
+      if (option.group !== undefined && option.group !== group) {
+        rows.push({ type: 'group', label: option.group });
+      }
+      group = option.group;
+      rows.push({ type: 'option', option, index });
+    });
+    return rows;
+  }
+
+  /**
+   * Text in the field: the search text while searching, else the picked label (single mode)
+   */
+  private get displayText(): string {
+    if (this._open && this.searchable) return this._query;
+    if (this.multiple) return '';
+    return this.selectedOptions[0]?.label ?? '';
+  }
+
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this._childOptions = this.readOptionElements();
+    this._observer = new MutationObserver(() => {
+      this._childOptions = this.readOptionElements();
+    });
+    this._observer.observe(this, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._observer?.disconnect();
+    clearTimeout(this._typeaheadTimer);
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this.syncDisplayText();
+  }
+
+  protected override updated(_changedProperties: PropertyValues): void {
+    // BaseInput.updated() would put the raw value in the field, so sync the label here
+    this.syncDisplayText();
+
+    const listbox = this.renderRoot.querySelector<HTMLElement>('.listbox');
+    if (listbox && listbox.scrollTop !== this._scrollTop) {
+      listbox.scrollTop = this._scrollTop;
+    }
+
+    this.updateFormState();
+  }
+
+  /**
+   * Submit each picked value under the field name, like a native `<select multiple>`
+   */
+  protected override updateFormState(): void {
+    super.updateFormState();
+
+    if (this.multiple && this.name) {
+      const data = new FormData();
+      this.selectedValues.forEach((value) => data.append(this.name as string, value));
+      this.internals.setFormValue(data, this.value);
+    }
+  }
+
+  /**
+   * Open the list with the picked (or first) option highlighted
+   */
+  public openListbox(): void {
+    if (this.isDisabled || this.readonly || this._open) return;
+
+    this._open = true;
+    this._query = '';
+    this._scrollTop = 0;
+
+    const options = this.filteredOptions;
+    const selected = options.findIndex((option) => option.value === this.selectedValues[0]);
+    this.setActive(selected === -1 ? 0 : selected, 1);
+  }
+
+  public closeListbox(): void {
+    this._open = false;
+    this._query = '';
+    this._activeIndex = -1;
+  }
+
+  /**
+   * Pick an option; in multiple mode, pick or unpick it
+   */
+  public toggleOption(option: SelectOption, originalEvent?: Event): void {
+    if (option.disabled) return;
+
+    if (!this.multiple) {
+      this.value = option.value;
+      this.closeListbox();
+    } else {
+      const values = this.selectedValues;
+      this.selectedValues = values.includes(option.value)
+        ? values.filter((value) => value !== option.value)
+        : [...values, option.value];
+      this._query = '';
+    }
+
+    this.commitSelection(originalEvent);
+  }
+
+  private removeValue(value: string, originalEvent: Event): void {
+    this.selectedValues = this.selectedValues.filter((selected) => selected !== value);
+    this.commitSelection(originalEvent);
+  }
+
+  private commitSelection(originalEvent?: Event): void {
+    if (this.validate) {
+      this.performValidation();
+    }
+
+    for (const name of ['input-change', 'input-changed']) {
+      this.dispatchEvent(
+        new CustomEvent(name, {
+          detail: { value: this.value, originalEvent },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    }
+  }
+
+  private readOptionElements(): SelectOption[] {
+    const options: SelectOption[] = [];
+    const read = (element: Element, group?: Element): void => {
+      const label = element.getAttribute('label') ?? element.textContent?.trim() ?? '';
+      options.push({
+        value: element.getAttribute('value') ?? label,
+        label,
+        group: group?.getAttribute('label') ?? undefined,
+        disabled: element.hasAttribute('disabled') || !!group?.hasAttribute('disabled'),
+      });
+    };
+
+    for (const child of Array.from(this.children)) {
+      if (child.localName === 'monk-option') {
+        read(child);
+      } else if (child.localName === 'monk-option-group') {
+        child.querySelectorAll('monk-option').forEach((option) => read(option, child));
+      }
+    }
+    return options;
+  }
+
+  private syncDisplayText(): void {
+    const text = this.displayText;
+    if (this._input && this._input.value !== text) {
+      this._input.value = text;
+    }
+  }
+
+  /**
+   * Highlight the nearest enabled option from `index` in the direction of `step`
+   */
+  private setActive(index: number, step: 1 | -1): void {
+    const options = this.filteredOptions;
+    let next = Math.max(0, Math.min(index, options.length - 1));
+    while (options[next]?.disabled) {
+      next += step;
+    }
+    if (!options[next]) return;
+
+    this._activeIndex = next;
+    this.scrollToActive();
+  }
+
+  /**
+   * Scroll the list so the highlighted option is rendered and visible
+   */
+  private scrollToActive(): void {
+    const row = this.rows.findIndex(
+      (candidate) => candidate.type === 'option' && candidate.index === this._activeIndex
+    );
+    if (row === -1) return;
+
+    const top = row * ROW_HEIGHT;
+    if (top < this._scrollTop) {
+      this._scrollTop = top;
+    } else if (top + ROW_HEIGHT > this._scrollTop + LISTBOX_HEIGHT) {
+      this._scrollTop = top + ROW_HEIGHT - LISTBOX_HEIGHT;
+    }
+  }
+
+  /**
+   * Jump to the next option starting with the typed characters
+   * Repeating one character cycles through the options starting with it.
+   */
+  private typeahead(key: string, event: Event): void {
+    clearTimeout(this._typeaheadTimer);
+    this._typeahead += key.toLowerCase();
+    this._typeaheadTimer = setTimeout(() => {
+      this._typeahead = '';
+    }, TYPEAHEAD_RESET);
+
+    const search = /^(.)\1*$/.test(this._typeahead) ? this._typeahead[0] : this._typeahead;
+    const options = this.filteredOptions;
+    const current = this._open
+      ? this._activeIndex
+      : options.findIndex((option) => option.value === this.selectedValues[0]);
+    const start = current === -1 ? 0 : current + (search.length === 1 ? 1 : 0);
+
+    for (let offset = 0; offset < options.length; offset++) {
+      const index = (start + offset) % options.length;
+      const option = options[index];
+      if (option.disabled || !option.label.toLowerCase().startsWith(search)) continue;
+
+      if (!this._open && !this.multiple) {
+        this.toggleOption(option, event);
+      } else {
+        this.openListbox();
+        this._activeIndex = index;
+        this.scrollToActive();
+      }
+      return;
+    }
+  }
+
+  private _handleContainerClick(): void {
+    if (this.isDisabled || this.readonly) return;
+
+    this._input?.focus();
+    if (!this._open) {
+      this.openListbox();
+    } else if (!this.searchable) {
+      this.closeListbox();
+    }
+  }
+
+  private _handleSearchInput(event: Event): void {
+    this._query = (event.target as HTMLInputElement).value;
+    this._open = true;
+    this._scrollTop = 0;
+    this._activeIndex = -1;
+    this.setActive(0, 1);
+  }
+
+  protected override _handleKeyDown(event: KeyboardEvent): void {
+    const { key } = event;
+    const printable = key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+    const pick = key === 'Enter' || (key === ' ' && !this.searchable);
+    const pageSize = LISTBOX_HEIGHT / ROW_HEIGHT;
+
+    if (key === 'Backspace' && this.multiple && !this._query && this.value) {
+      event.preventDefault();
+      const last = this.selectedValues[this.selectedValues.length - 1];
+      this.removeValue(last, event);
+    } else if (!this._open) {
+      if (key === 'ArrowDown' || key === 'ArrowUp' || pick) {
+        event.preventDefault();
+        this.openListbox();
+      } else if (printable && !this.searchable) {
+        this.typeahead(key, event);
+      }
+    } else if (key === 'ArrowDown' || key === 'ArrowUp') {
+      event.preventDefault();
+      const step = key === 'ArrowDown' ? 1 : -1;
+      this.setActive(this._activeIndex + step, step);
+    } else if (key === 'PageDown' || key === 'PageUp') {
+      event.preventDefault();
+      const step = key === 'PageDown' ? 1 : -1;
+      this.setActive(this._activeIndex + step * pageSize, step);
+    } else if ((key === 'Home' || key === 'End') && !this.searchable) {
+      event.preventDefault();
+      if (key === 'Home') {
+        this.setActive(0, 1);
+      } else {
+        this.setActive(this.filteredOptions.length - 1, -1);
+      }
+    } else if (pick) {
+      event.preventDefault();
+      const active = this.filteredOptions[this._activeIndex];
+      if (active) {
+        this.toggleOption(active, event);
+      }
+    } else if (key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation();
+      this.closeListbox();
+    } else if (key === 'Tab') {
+      this.closeListbox();
+    } else if (printable && !this.searchable) {
+      this.typeahead(key, event);
+    }
+
+    super._handleKeyDown(event);
+  }
+
+  protected override _handleBlur(event: FocusEvent): void {
+    this.closeListbox();
+    super._handleBlur(event);
+  }
+
+  private _handleListboxScroll(event: Event): void {
+    this._scrollTop = (event.target as HTMLElement).scrollTop;
+  }
+
+  /**
+   * Screen reader description of the chips in multiple mode
+   */
+  private get selectionSummary(): string {
+    const labels = this.selectedOptions.map((option) => option.label);
+    return labels.length ? `${labels.length} selected: ${labels.join(', ')}` : 'None selected';
+  }
+
+  private renderChips() {
+    if (!this.multiple) return nothing;
+
+    return this.selectedOptions.map(
+      (option) => html`
+        <monk-badge class="chip" part="chip" variant="subtle" color-scheme="neutral" size="sm">
+          ${option.label}
+          <button
+            type="button"
+            class="chip-remove"
+            part="chip-remove"
+            tabindex="-1"
+            aria-label="Remove ${option.label}"
+            ?disabled=${this.isDisabled || this.readonly}
+            @pointerdown=${(event: PointerEvent) => event.preventDefault()}
+            @click=${(event: Event) => {
+              event.stopPropagation();
+              this.removeValue(option.value, event);
+            }}
+          >
+            ×
+          </button>
+        </monk-badge>
+      `
+    );
+  }
+
+  private renderOption(option: SelectOption, index: number, count: number) {
+    const selected = this.selectedValues.includes(option.value);
+    const classes = { option: true, active: index === this._activeIndex, selected };
+
+    return html`
+      <div
+        id="option-${index}"
+        class=${classMap(classes)}
+        part="option"
+        role="option"
+        aria-selected=${selected ? 'true' : 'false'}
+        aria-disabled=${option.disabled ? 'true' : 'false'}
+        aria-setsize=${count}
+        aria-posinset=${index + 1}
+        @click=${(event: Event) => this.toggleOption(option, event)}
+      >
+        ${this.multiple
+          ? html`<span class="check" aria-hidden="true">${selected ? '✓' : ''}</span>`
+          : nothing}
+        ${option.label}
+      </div>
+    `;
+  }
+
+  private renderListbox() {
+    const rows = this.rows;
+    const count = this.filteredOptions.length;
+    const virtual = rows.length > VIRTUALIZE_THRESHOLD;
+    const first = virtual ? Math.max(0, Math.floor(this._scrollTop / ROW_HEIGHT) - OVERSCAN) : 0;
+    const last = virtual
+      ? Math.min(rows.length, first + LISTBOX_HEIGHT / ROW_HEIGHT + 2 * OVERSCAN)
+      : rows.length;
+
+    // Rendered rows split by group, so each group's options share a role="group"
+    const segments: Array<{ group?: string; heading: boolean; rows: SelectRow[] }> = [];
+    for (const row of rows.slice(first, last)) {
+      const group = row.type === 'group' ? row.label : row.option.group;
+      const segment = segments[segments.length - 1];
+      if (row.type === 'group' || !segment || segment.group !== group) {
+        segments.push({ group, heading: row.type === 'group', rows: [] });
+      }
+      segments[segments.length - 1].rows.push(row);
+    }
+
+    const renderRows = (segmentRows: SelectRow[]) =>
+      segmentRows.map((row) =>
+        row.type === 'group'
+          ? html`
+              <div class="group-label" part="group-label" aria-hidden="true">${row.label}</div>
+            `
+          : this.renderOption(row.option, row.index, count)
+      );
+
+    return html`
+      <div
+        class="popup"
+        part="popup"
+        @pointerdown=${(event: PointerEvent) => event.preventDefault()}
+      >
+        <div
+          id="listbox"
+          class="listbox"
+          part="listbox"
+          role="listbox"
+          aria-label=${this.label || 'Options'}
+          aria-multiselectable=${this.multiple ? 'true' : 'false'}
+          @scroll=${this._handleListboxScroll}
+        >
+          ${virtual ? html`<div style="height: ${first * ROW_HEIGHT}px"></div>` : nothing}
+          ${segments.map((segment) =>
+            segment.group === undefined
+              ? renderRows(segment.rows)
+              : html`
+                  <div role="group" aria-label=${segment.group}>${renderRows(segment.rows)}</div>
+                `
+          )}
+          ${virtual
+            ? html`<div style="height: ${(rows.length - last) * ROW_HEIGHT}px"></div>`
+            : nothing}
+        </div>
+        ${count
+          ? nothing
+          : html`<div class="status" part="status"><slot name="no-results">No options</slot></div>`}
+      </div>
+    `;
+  }
+
+  protected override renderInput() {
+    const containerClasses = {
+      'input-container': true,
+      focused: this._focused,
+      disabled: this.isDisabled,
+    };
+    const chevronClasses = { chevron: true, open: this._open };
+    const selected = this.selectedOptions;
+    const describedBy = this.errorMessage
+      ? 'error-message'
+      : this.helperText
+        ? 'helper-text'
+        : undefined;
+
+    return html`
+      <div class="select-field">
+        <div
+          class=${classMap(containerClasses)}
+          part="input-container"
+          @click=${this._handleContainerClick}
+        >
+          ${this.renderPrefix()} ${this.renderChips()}
+          <input
+            id="input"
+            part="input"
+            type="text"
+            role="combobox"
+            autocomplete="off"
+            aria-haspopup="listbox"
+            aria-expanded=${this._open ? 'true' : 'false'}
+            aria-controls="listbox"
+            aria-autocomplete=${this.searchable ? 'list' : 'none'}
+            aria-activedescendant=${ifDefined(
+              this._open && this._activeIndex >= 0 ? `option-${this._activeIndex}` : undefined
+            )}
+            aria-required=${this.required ? 'true' : 'false'}
+            aria-invalid=${this.invalid ? 'true' : 'false'}
+            aria-busy=${this.pending ? 'true' : 'false'}
+            aria-describedby=${this.multiple
+              ? ['selection-summary', describedBy].filter(Boolean).join(' ')
+              : ifDefined(describedBy)}
+            placeholder=${ifDefined(selected.length ? undefined : this.placeholder)}
+            ?disabled=${this.isDisabled}
+            ?readonly=${!this.searchable || this.readonly}
+            @input=${this._handleSearchInput}
+            @focus=${this._handleFocus}
+            @blur=${this._handleBlur}
+            @keydown=${this._handleKeyDown}
+          />
+          ${this.renderPendingIndicator()}
+          <span class=${classMap(chevronClasses)} part="chevron" aria-hidden="true">▾</span>
+          ${this.renderSuffix()}
+        </div>
+        ${this.multiple
+          ? html`
+              <span id="selection-summary" class="sr-only">${this.selectionSummary}</span>
+            `
+          : nothing}
+        ${this._open ? this.renderListbox() : nothing}
+      </div>
+      <slot hidden></slot>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-select': MonkSelect;
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Slider Components
+ *
+ * Single and two-thumb sliders with ticks, value tooltips and vertical layout
+ */
+
+export { SliderBase } from './slider-base.js';
+export { MonkSlider } from './slider.js';
+export { MonkRangeSlider } from './range-slider.js';
+export type {
+  SliderOrientation,
+  SliderTooltip,
+  SliderFormatter,
+  SliderMark,
+  SliderChangeDetail,
+} from './slider-base.js';
@@ -0,0 +1,82 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkRangeSlider } from './range-slider.js';
+
+const thumbsOf = (element: MonkRangeSlider): HTMLElement[] =>
+  Array.from(element.shadowRoot?.querySelectorAll<HTMLElement>('[role="slider"]') ?? []);
+
+const press = (thumb: HTMLElement, key: string): void => {
+  thumb.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+};
+
+describe('MonkRangeSlider', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-range-slider');
+    expect(element).to.be.instanceOf(MonkRangeSlider);
+  });
+
+  it('should start at min and max without a value', async () => {
+    const element = await fixture<MonkRangeSlider>(html`
+      <monk-range-slider min="10" max="90"></monk-range-slider>
+    `);
+
+    expect(element.value).to.equal('10,90');
+    expect([element.lowerValue, element.upperValue]).to.deep.equal([10, 90]);
+  });
+
+  it('should order the bounds in its value', async () => {
+    const element = await fixture<MonkRangeSlider>(html`
+      <monk-range-slider value="80,20"></monk-range-slider>
+    `);
+
+    expect(element.values).to.deep.equal([20, 80]);
+  });
+
+  it('should name each thumb and bound it by the other', async () => {
+    const element = await fixture<MonkRangeSlider>(html`
+      <monk-range-slider label="Price" value="20,80"></monk-range-slider>
+    `);
+    const [lower, upper] = thumbsOf(element);
+
+    expect(lower.getAttribute('aria-label')).to.equal('Price, Minimum');
+    expect(lower.getAttribute('aria-valuemax')).to.equal('80');
+    expect(upper.getAttribute('aria-label')).to.equal('Price, Maximum');
+    expect(upper.getAttribute('aria-valuemin')).to.equal('20');
+  });
+
+  it('should stop a thumb at the other one', async () => {
+    const element = await fixture<MonkRangeSlider>(html`
+      <monk-range-slider value="20,30"></monk-range-slider>
+    `);
+    const [lower, upper] = thumbsOf(element);
+
+    press(lower, 'End');
+    expect(element.value).to.equal('30,30');
+
+    press(upper, 'Home');
+    expect(element.value).to.equal('30,30');
+
+    press(upper, 'PageUp');
+    expect(element.value).to.equal('30,40');
+  });
+
+  it('should emit both values on change', async () => {
+    const element = await fixture<MonkRangeSlider>(html`
+      <monk-range-slider value="20,80"></monk-range-slider>
+    `);
+
+    setTimeout(() => press(thumbsOf(element)[1], 'ArrowLeft'));
+    const event = await oneEvent(element, 'input-change');
+
+    expect(event.detail.value).to.equal('20,79');
+    expect(event.detail.values).to.deep.equal([20, 79]);
+  });
+
+  it('should submit both bounds under its name', async () => {
+    const form = await fixture<HTMLFormElement>(html`
+      <form><monk-range-slider name="price" value="50,200" max="500"></monk-range-slider></form>
+    `);
+    await form.querySelector('monk-range-slider')?.updateComplete;
+
+    expect(new FormData(form).getAll('price')).to.deep.equal(['50', '200']);
+  });
+});
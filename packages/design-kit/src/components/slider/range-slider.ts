@@ -0,0 +1,114 @@
+import { customElement, property } from 'lit/decorators.js';
+import { SliderBase } from './slider-base.js';
+
+/**
+ * Range slider component - Picks a lower and an upper bound with two thumbs
+ *
+ * The value is both bounds separated by a comma (e.g. "20,80"), and each one is
+ * submitted under the slider's name. Without a value the thumbs start at
+ * `min` and `max`; they can meet but not pass each other.
+ *
+ * @element monk-range-slider
+ *
+ * @example
+ * ```html
+ * <monk-range-slider
+ *   label="Price"
+ *   name="price"
+ *   min="0"
+ *   max="500"
+ *   step="10"
+ *   value="50,200"
+ * ></monk-range-slider>
+ * ```
+ *
+ * ```js
+ * slider.formatter = (value) => `$${value}`;
+ * ```
+ *
+ * @accessibility
+ * - Each thumb has role="slider", named after the label plus `lower-label`/`upper-label`
+ * - A thumb's aria-valuemin/max is bounded by the other thumb
+ * - Arrow keys move one step (Left and Right follow the reading direction),
+ *   Page Up/Down move ten steps, Home/End go as far as the thumb can
+ *
+ * @fires input-change - Fired while the value changes, detail: `{ value, values, originalEvent }`
+ * @fires input-changed - Fired when a change is committed, with the same detail
+ * @fires input-focus - Fired when focus moves into the slider
+ * @fires input-blur - Fired when focus leaves the slider
+ * @fires input-keydown - Fired on keydown on a thumb
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart slider - The element around the track and thumbs
+ * @csspart track - The track
+ * @csspart range - The part of the track between the thumbs
+ * @csspart thumb - Each thumb
+ * @csspart tooltip - The value tooltips
+ * @csspart tick - A tick mark
+ * @csspart tick-label - A tick label
+ *
+ * @cssprop --monk-slider-length - Height of a vertical slider (default 200px)
+ */
+@customElement('monk-range-slider')
+export class MonkRangeSlider extends SliderBase {
+  /**
+   * Accessible name of the lower thumb
+   * @default 'Minimum'
+   */
+  @property({ type: String, attribute: 'lower-label' })
+  lowerLabel = 'Minimum';
+
+  /**
+   * Accessible name of the upper thumb
+   * @default 'Maximum'
+   */
+  @property({ type: String, attribute: 'upper-label' })
+  upperLabel = 'Maximum';
+
+  /**
+   * The lower bound
+   */
+  get lowerValue(): number {
+    return this.values[0];
+  }
+
+  /**
+   * The upper bound
+   */
+  get upperValue(): number {
+    return this.values[1];
+  }
+
+  protected get thumbCount(): number {
+    return 2;
+  }
+
+  protected get defaultValues(): number[] {
+    return [this.minimum, this.maximum];
+  }
+
+  protected thumbLabel(index: number): string {
+    const name = index === 0 ? this.lowerLabel : this.upperLabel;
+    return this.label ? `${this.label}, ${name}` : name;
+  }
+
+  /**
+   * Submit both bounds under the slider's name
+   */
+  protected override updateFormState(): void {
+    const data = new FormData();
+    if (this.name) {
+      this.values.forEach((value) => data.append(this.name as string, String(value)));
+    }
+    this.internals.setFormValue(data, this.value);
+    this.updateFormValidity();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-range-slider': MonkRangeSlider;
+  }
+}
@@ -0,0 +1,727 @@
+import { html, css, nothing, type CSSResultArray, type PropertyValues } from 'lit';
+import { property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { BaseInput } from '../input/base-input.js';
+
+/**
+ * Page Up / Page Down move this many steps
+ */
+const PAGE_STEPS = 10;
+
+/**
+ * Number of digits after the decimal point of a numeric attribute
+ */
+const decimalsOf = (value: number): number => {
+  const [mantissa, exponent] = String(value).toLowerCase().split('e');
+  const fraction = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent ?? 0));
+};
+
+/**
+ * Direction of the track
+ */
+export type SliderOrientation = 'horizontal' | 'vertical';
+
+/**
+ * When the value tooltip above a thumb is shown
+ * - auto: while the thumb is hovered, focused or dragged
+ * - always: at all times
+ * - never: not at all
+ */
+export type SliderTooltip = 'auto' | 'always' | 'never';
+
+/**
+ * Formats a value for the tooltip, tick labels and screen readers
+ */
+export type SliderFormatter = (value: number) => string;
+
+/**
+ * A labelled point on the track
+ */
+export interface SliderMark {
+  value: number;
+  /** Text under the tick; omit for a bare tick */
+  label?: string;
+}
+
+/**
+ * Detail of the `input-change` and `input-changed` events
+ */
+export interface SliderChangeDetail {
+  /** The value as submitted: one number, or two separated by a comma */
+  value: string;
+  /** The thumb values as numbers, in ascending order */
+  values: number[];
+  originalEvent?: Event;
+}
+
+/**
+ * Base class for sliders with one or more thumbs
+ *
+ * The thumbs are role="slider" elements, so there is no native input: values
+ * are kept in `value` as comma-separated numbers, snapped to `step` and
+ * clamped to `min`/`max` (0 and 100 by default). Subclasses set the number of
+ * thumbs and their defaults.
+ */
+export abstract class SliderBase extends BaseInput {
+  /**
+   * Direction of the track; vertical sliders grow upwards
+   * @default 'horizontal'
+   */
+  @property({ type: String, reflect: true })
+  orientation: SliderOrientation = 'horizontal';
+
+  /**
+   * When to show the value tooltip
+   * @default 'auto'
+   */
+  @property({ type: String, reflect: true })
+  tooltip: SliderTooltip = 'auto';
+
+  /**
+   * Draw a tick every this many units, starting at `min`
+   */
+  @property({ type: Number, attribute: 'tick-interval' })
+  tickInterval?: number;
+
+  /**
+   * Label the `tick-interval` ticks with their formatted value
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'tick-labels' })
+  tickLabels = false;
+
+  /**
+   * Extra ticks, optionally labelled
+   */
+  @property({ type: Array })
+  marks: SliderMark[] = [];
+
+  /**
+   * Formats values for the tooltip, tick labels and `aria-valuetext`
+   */
+  @property({ attribute: false })
+  formatter?: SliderFormatter;
+
+  /**
+   * Index of the thumb being dragged, or -1
+   */
+  @state()
+  private _activeThumb = -1;
+
+  /**
+   * Value when the current drag started, to tell whether it changed anything
+   */
+  private _dragStartValue = '';
+
+  /**
+   * Custom error set through `setCustomValidity()` or a failing validator
+   */
+  private _customValidity = '';
+
+  protected override get inputType(): string {
+    return 'range';
+  }
+
+  static override styles: CSSResultArray = [
+    ...(BaseInput.styles as CSSResultArray),
+    css`
+      :host {
+        --monk-slider-thumb-size: 18px;
+        --monk-slider-track-size: 6px;
+        --monk-slider-accent: var(--monk-color-bg-primary);
+      }
+
+      :host([size='sm']) {
+        --monk-slider-thumb-size: 14px;
+        --monk-slider-track-size: 4px;
+      }
+
+      :host([size='lg']) {
+        --monk-slider-thumb-size: 22px;
+        --monk-slider-track-size: 8px;
+      }
+
+      :host([invalid]) {
+        --monk-slider-accent: var(--monk-color-bg-error);
+      }
+
+      .slider {
+        position: relative;
+        height: var(--monk-slider-thumb-size);
+        margin: var(--monk-space-1) calc(var(--monk-slider-thumb-size) / 2);
+        touch-action: none;
+        cursor: pointer;
+      }
+
+      .slider.has-labels {
+        margin-bottom: calc(var(--monk-space-2) + 1.5em);
+      }
+
+      .slider.disabled {
+        cursor: not-allowed;
+        opacity: 0.5;
+      }
+
+      .track {
+        position: absolute;
+        inset-inline: 0;
+        top: 50%;
+        height: var(--monk-slider-track-size);
+        transform: translateY(-50%);
+        border-radius: var(--monk-radius-full);
+        background: var(--monk-color-bg-muted);
+      }
+
+      .range {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        inset-inline-start: var(--monk-slider-range-start);
+        inset-inline-end: calc(100% - var(--monk-slider-range-end));
+        border-radius: inherit;
+        background: var(--monk-slider-accent);
+      }
+
+      .tick {
+        position: absolute;
+        top: 50%;
+        inset-inline-start: var(--monk-slider-position);
+        width: 2px;
+        height: var(--monk-slider-track-size);
+        transform: translate(-50%, -50%);
+        background: var(--monk-color-border-emphasized);
+        pointer-events: none;
+      }
+
+      .tick.in-range {
+        background: var(--monk-color-bg-canvas);
+      }
+
+      .tick-label {
+        position: absolute;
+        top: calc(var(--monk-slider-thumb-size) / 2 + var(--monk-space-2));
+        left: 50%;
+        transform: translateX(-50%);
+        color: var(--monk-color-text-secondary);
+        font-size: var(--monk-font-size-sm);
+        white-space: nowrap;
+      }
+
+      .thumb {
+        position: absolute;
+        top: 50%;
+        inset-inline-start: var(--monk-slider-position);
+        z-index: 1;
+        width: var(--monk-slider-thumb-size);
+        height: var(--monk-slider-thumb-size);
+        transform: translate(-50%, -50%);
+        border: 2px solid var(--monk-slider-accent);
+        border-radius: 50%;
+        background: var(--monk-color-bg-canvas);
+        box-shadow: var(--monk-shadow-sm);
+        outline: none;
+        cursor: grab;
+        transition: box-shadow 150ms ease-in-out;
+      }
+
+      .thumb.active {
+        z-index: 2;
+        cursor: grabbing;
+      }
+
+      .slider.disabled .thumb {
+        cursor: not-allowed;
+      }
+
+      .thumb:focus-visible {
+        box-shadow: 0 0 0 var(--monk-focus-ring-width, 2px) var(--monk-focus-ring-color);
+      }
+
+      :host(:dir(rtl)) .tick,
+      :host(:dir(rtl)) .thumb {
+        transform: translate(50%, -50%);
+      }
+
+      .tooltip {
+        position: absolute;
+        bottom: calc(100% + var(--monk-space-2));
+        left: 50%;
+        transform: translateX(-50%);
+        padding: var(--monk-space-1) var(--monk-space-2);
+        border-radius: var(--monk-radius-sm);
+        background: var(--monk-color-bg-neutral);
+        color: var(--monk-color-text-on-neutral);
+        font-size: var(--monk-font-size-sm);
+        line-height: var(--monk-font-lineHeight-tight);
+        white-space: nowrap;
+        pointer-events: none;
+        opacity: 0;
+        transition: opacity 150ms ease-in-out;
+      }
+
+      :host([tooltip='always']) .tooltip,
+      :host([tooltip='auto']) .thumb:hover .tooltip,
+      :host([tooltip='auto']) .thumb:focus-visible .tooltip,
+      :host([tooltip='auto']) .thumb.active .tooltip {
+        opacity: 1;
+      }
+
+      /* Vertical */
+      :host([orientation='vertical']) .slider {
+        display: inline-block;
+        width: var(--monk-slider-thumb-size);
+        height: var(--monk-slider-length, 200px);
+        margin: calc(var(--monk-slider-thumb-size) / 2) var(--monk-space-1);
+      }
+
+      :host([orientation='vertical']) .slider.has-labels {
+        margin-inline-end: calc(var(--monk-space-2) + 4em);
+      }
+
+      :host([orientation='vertical']) .track {
+        inset-inline: auto;
+        top: 0;
+        bottom: 0;
+        left: 50%;
+        width: var(--monk-slider-track-size);
+        height: auto;
+        transform: translateX(-50%);
+      }
+
+      :host([orientation='vertical']) .range {
+        inset-inline: 0;
+        top: calc(100% - var(--monk-slider-range-end));
+        bottom: var(--monk-slider-range-start);
+      }
+
+      :host([orientation='vertical']) .tick,
+      :host([orientation='vertical']) .thumb {
+        inset-inline-start: auto;
+        top: auto;
+        left: 50%;
+        bottom: var(--monk-slider-position);
+        transform: translate(-50%, 50%);
+      }
+
+      :host([orientation='vertical']) .tick {
+        width: var(--monk-slider-track-size);
+        height: 2px;
+      }
+
+      :host([orientation='vertical']) .tick-label {
+        top: 50%;
+        left: auto;
+        inset-inline-start: calc(var(--monk-slider-thumb-size) / 2 + var(--monk-space-2));
+        transform: translateY(-50%);
+      }
+
+      :host([orientation='vertical']) .tooltip {
+        bottom: 50%;
+        left: auto;
+        inset-inline-start: calc(100% + var(--monk-space-2));
+        transform: translateY(50%);
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .thumb,
+        .tooltip {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  /**
+   * Number of thumbs
+   */
+  protected abstract get thumbCount(): number;
+
+  /**
+   * Thumb values used when `value` is empty or unreadable
+   */
+  protected abstract get defaultValues(): number[];
+
+  /**
+   * Accessible name of a thumb; undefined names it after the slider label
+   */
+  protected abstract thumbLabel(index: number): string | undefined;
+
+  /**
+   * Lowest value (`min`, 0 by default)
+   */
+  get minimum(): number {
+    const min = Number(this.min);
+    return this.min === undefined || this.min === '' || Number.isNaN(min) ? 0 : min;
+  }
+
+  /**
+   * Highest value (`max`, 100 by default), never below the minimum
+   */
+  get maximum(): number {
+    const max = Number(this.max);
+    const fallback = this.max === undefined || this.max === '' || Number.isNaN(max);
+    return Math.max(this.minimum, fallback ? 100 : max);
+  }
+
+  /**
+   * Distance between allowed values (`step`, 1 by default)
+   */
+  get stepSize(): number {
+    const step = Number(this.step);
+    return step > 0 ? step : 1;
+  }
+
+  /**
+   * Thumb values as numbers, in ascending order
+   */
+  get values(): number[] {
+    return this.readValues(this.value);
+  }
+
+  set values(values: number[]) {
+    this.value = this.snapAll(values).join(',');
+  }
+
+  /**
+   * Format a value with the `formatter`, if any
+   */
+  format(value: number): string {
+    return this.formatter ? this.formatter(value) : String(value);
+  }
+
+  protected override willUpdate(changedProperties: PropertyValues): void {
+    super.willUpdate(changedProperties);
+
+    // Keep `value` snapped and in range, so what is submitted is what is shown
+    if (['value', 'min', 'max', 'step'].some((key) => changedProperties.has(key))) {
+      const normalized = this.values.join(',');
+      if (normalized !== this.value) {
+        this.value = normalized;
+      }
+    }
+  }
+
+  /**
+   * Report custom errors on the slider, anchored to its first thumb
+   * A slider always has a value, so it can never be missing
+   */
+  protected override updateFormValidity(): void {
+    const anchor = this.renderRoot?.querySelector<HTMLElement>('.thumb') ?? undefined;
+
+    if (this._customValidity) {
+      this.internals.setValidity({ customError: true }, this._customValidity, anchor);
+    } else {
+      this.internals.setValidity({});
+    }
+  }
+
+  protected override setNativeCustomValidity(message: string): void {
+    this._customValidity = message;
+  }
+
+  override focus(options?: FocusOptions): void {
+    this.thumbs[0]?.focus(options);
+  }
+
+  override blur(): void {
+    this.thumbs.forEach((thumb) => thumb.blur());
+  }
+
+  private get thumbs(): HTMLElement[] {
+    return Array.from(this.renderRoot?.querySelectorAll<HTMLElement>('.thumb') ?? []);
+  }
+
+  private get isRtl(): boolean {
+    return this.orientation === 'horizontal' && getComputedStyle(this).direction === 'rtl';
+  }
+
+  /**
+   * Parse a comma-separated value into snapped, ordered thumb values
+   */
+  private readValues(value: string): number[] {
+    const parsed = value === '' ? [] : value.split(',').map(Number);
+    const readable = parsed.length === this.thumbCount && parsed.every(Number.isFinite);
+    return this.snapAll(readable ? parsed : this.defaultValues);
+  }
+
+  private snapAll(values: number[]): number[] {
+    return values.map((value) => this.snap(value)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Round a value to the nearest step from the minimum, within bounds
+   */
+  protected snap(value: number): number {
+    const { minimum: min, maximum: max, stepSize: step } = this;
+    const lastStep = Math.floor((max - min) / step + 1e-9);
+    const steps = Math.min(lastStep, Math.max(0, Math.round((value - min) / step)));
+    const precision = Math.max(decimalsOf(step), decimalsOf(min));
+    return Number((min + steps * step).toFixed(precision));
+  }
+
+  private percentOf(value: number): number {
+    const span = this.maximum - this.minimum;
+    return span > 0 ? ((value - this.minimum) / span) * 100 : 0;
+  }
+
+  /**
+   * The ticks to draw: every `tick-interval`, plus `marks`
+   */
+  private get ticks(): SliderMark[] {
+    const ticks = new Map<number, SliderMark>();
+    const interval = this.tickInterval;
+
+    if (interval && interval > 0) {
+      const count = Math.floor((this.maximum - this.minimum) / interval + 1e-9);
+      for (let index = 0; index <= count; index++) {
+        const value = this.snap(this.minimum + index * interval);
+        ticks.set(value, { value, label: this.tickLabels ? this.format(value) : undefined });
+      }
+    }
+    for (const mark of this.marks) {
+      if (mark.value >= this.minimum && mark.value <= this.maximum) {
+        ticks.set(mark.value, mark);
+      }
+    }
+
+    return [...ticks.values()];
+  }
+
+  /**
+   * Move one thumb, keeping it between its neighbours
+   * @returns whether the value changed
+   */
+  private moveThumb(index: number, value: number, originalEvent?: Event): boolean {
+    const values = this.values;
+    const lower = values[index - 1] ?? this.minimum;
+    const upper = values[index + 1] ?? this.maximum;
+    const next = this.snap(Math.min(upper, Math.max(lower, value)));
+    if (next === values[index]) return false;
+
+    values[index] = next;
+    this.values = values;
+
+    if (this.validate && this.validateOn === 'input') {
+      this.validateWhileTyping();
+    }
+    this.emitValueEvent('input-change', originalEvent);
+    return true;
+  }
+
+  /**
+   * Finish a change: validate and report it as committed
+   */
+  private commitChange(originalEvent?: Event): void {
+    if (this.validate && this.validateOn === 'change') {
+      this.performValidation();
+    }
+    this.emitValueEvent('input-changed', originalEvent);
+  }
+
+  private emitValueEvent(name: string, originalEvent?: Event): void {
+    this.emitEvent<SliderChangeDetail>(name, {
+      value: this.value,
+      values: this.values,
+      originalEvent,
+    });
+  }
+
+  /**
+   * Value under the pointer, from the track's position and direction
+   */
+  private valueFromPointer(event: PointerEvent): number {
+    const track = this.renderRoot.querySelector('.track') as HTMLElement;
+    const rect = track.getBoundingClientRect();
+
+    let ratio =
+      this.orientation === 'vertical'
+        ? (rect.bottom - event.clientY) / (rect.height || 1)
+        : (event.clientX - rect.left) / (rect.width || 1);
+    if (this.isRtl) {
+      ratio = 1 - ratio;
+    }
+
+    return this.minimum + Math.min(1, Math.max(0, ratio)) * (this.maximum - this.minimum);
+  }
+
+  /**
+   * The thumb a press at this value should move: the nearest one, and on a tie
+   * the one that can move towards it
+   */
+  private thumbFor(value: number): number {
+    const values = this.values;
+    let closest = 0;
+    values.forEach((thumbValue, index) => {
+      const distance = Math.abs(thumbValue - value);
+      const best = Math.abs(values[closest] - value);
+      if (distance < best || (distance === best && value > thumbValue)) {
+        closest = index;
+      }
+    });
+    return closest;
+  }
+
+  private _handlePointerDown(event: PointerEvent): void {
+    if (this.isDisabled || this.readonly || event.button !== 0) return;
+
+    event.preventDefault();
+    const value = this.valueFromPointer(event);
+    const index = this.thumbFor(value);
+
+    this._activeThumb = index;
+    this._dragStartValue = this.value;
+    (event.currentTarget as HTMLElement).setPointerCapture?.(event.pointerId);
+    this.thumbs[index]?.focus();
+    this.moveThumb(index, value, event);
+  }
+
+  private _handlePointerMove(event: PointerEvent): void {
+    if (this._activeThumb < 0) return;
+    this.moveThumb(this._activeThumb, this.valueFromPointer(event), event);
+  }
+
+  private _handlePointerUp(event: PointerEvent): void {
+    if (this._activeThumb < 0) return;
+
+    this._activeThumb = -1;
+    if (this.value !== this._dragStartValue) {
+      this.commitChange(event);
+    }
+  }
+
+  private _handleThumbKeyDown(event: KeyboardEvent): void {
+    const index = this.thumbs.indexOf(event.currentTarget as HTMLElement);
+
+    if (index >= 0 && !this.isDisabled && !this.readonly) {
+      const value = this.values[index];
+      const step = this.stepSize;
+      const forward = this.isRtl ? -1 : 1;
+      const actions: Record<string, number> = {
+        ArrowUp: value + step,
+        ArrowDown: value - step,
+        ArrowRight: value + forward * step,
+        ArrowLeft: value - forward * step,
+        PageUp: value + PAGE_STEPS * step,
+        PageDown: value - PAGE_STEPS * step,
+        Home: this.minimum,
+        End: this.maximum,
+      };
+
+      if (event.key in actions) {
+        event.preventDefault();
+        if (this.moveThumb(index, actions[event.key], event)) {
+          this.commitChange(event);
+        }
+      }
+    }
+
+    this._handleKeyDown(event);
+  }
+
+  private _handleThumbFocus(event: FocusEvent): void {
+    if (this._focused) return;
+    this._handleFocus(event);
+  }
+
+  private _handleThumbBlur(event: FocusEvent): void {
+    // Moving between thumbs stays inside the slider
+    if (event.relatedTarget instanceof Node && this.renderRoot.contains(event.relatedTarget)) {
+      return;
+    }
+    this._handleBlur(event);
+  }
+
+  protected override renderLabel() {
+    if (!this.label) return null;
+
+    return html`
+      <div class="label" id="label" @click=${() => this.focus()}>
+        ${this.label}
+        ${this.required ? html`<span class="required-indicator">*</span>` : ''}
+      </div>
+    `;
+  }
+
+  private renderTicks(values: number[]) {
+    const [start, end] = values.length > 1 ? values : [this.minimum, values[0]];
+
+    return this.ticks.map(
+      (tick) => html`
+        <span
+          class=${classMap({ tick: true, 'in-range': tick.value >= start && tick.value <= end })}
+          part="tick"
+          style="--monk-slider-position: ${this.percentOf(tick.value)}%"
+          aria-hidden="true"
+        >
+          ${tick.label ? html`<span class="tick-label" part="tick-label">${tick.label}</span>` : ''}
+        </span>
+      `
+    );
+  }
+
+  private renderThumb(value: number, index: number, values: number[]) {
+    const name = this.thumbLabel(index);
+    const text = this.format(value);
+
+    return html`
+      <div
+        class=${classMap({ thumb: true, active: index === this._activeThumb })}
+        part="thumb"
+        role="slider"
+        tabindex=${this.isDisabled ? '-1' : '0'}
+        style="--monk-slider-position: ${this.percentOf(value)}%"
+        aria-valuemin=${values[index - 1] ?? this.minimum}
+        aria-valuemax=${values[index + 1] ?? this.maximum}
+        aria-valuenow=${value}
+        aria-valuetext=${ifDefined(this.formatter ? text : undefined)}
+        aria-orientation=${this.orientation}
+        aria-label=${ifDefined(name)}
+        aria-labelledby=${ifDefined(!name && this.label ? 'label' : undefined)}
+        aria-disabled=${this.isDisabled ? 'true' : 'false'}
+        aria-invalid=${this.invalid ? 'true' : 'false'}
+        aria-describedby=${ifDefined(
+          this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+        )}
+        @keydown=${this._handleThumbKeyDown}
+        @focus=${this._handleThumbFocus}
+        @blur=${this._handleThumbBlur}
+      >
+        ${this.tooltip === 'never'
+          ? nothing
+          : html`<span class="tooltip" part="tooltip" aria-hidden="true">${text}</span>`}
+      </div>
+    `;
+  }
+
+  protected override renderInput() {
+    const values = this.values;
+    const [start, end] = values.length > 1 ? values : [this.minimum, values[0]];
+    const classes = {
+      slider: true,
+      disabled: this.isDisabled,
+      'has-labels': this.ticks.some((tick) => tick.label),
+    };
+    const range = [
+      `--monk-slider-range-start: ${this.percentOf(start)}%`,
+      `--monk-slider-range-end: ${this.percentOf(end)}%`,
+    ].join('; ');
+
+    return html`
+      <div
+        class=${classMap(classes)}
+        part="slider"
+        style=${range}
+        @pointerdown=${this._handlePointerDown}
+        @pointermove=${this._handlePointerMove}
+        @pointerup=${this._handlePointerUp}
+        @pointercancel=${this._handlePointerUp}
+      >
+        <div class="track" part="track"><div class="range" part="range"></div></div>
+        ${this.renderTicks(values)}
+        ${values.map((value, index) => this.renderThumb(value, index, values))}
+      </div>
+    `;
+  }
+}
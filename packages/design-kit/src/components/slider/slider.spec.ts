@@ -0,0 +1,179 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkSlider } from './slider.js';
+
+const thumbOf = (element: MonkSlider): HTMLElement =>
+  element.shadowRoot?.querySelector('[role="slider"]') as HTMLElement;
+
+const press = (element: MonkSlider, key: string): void => {
+  thumbOf(element).dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+};
+
+describe('MonkSlider', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-slider');
+    expect(element).to.be.instanceOf(MonkSlider);
+  });
+
+  it('should render a labelled slider thumb', async () => {
+    const element = await fixture<MonkSlider>(html`
+      <monk-slider label="Volume" value="30"></monk-slider>
+    `);
+    const thumb = thumbOf(element);
+
+    expect(thumb.getAttribute('aria-labelledby')).to.equal('label');
+    expect(thumb.getAttribute('aria-valuenow')).to.equal('30');
+    expect(thumb.getAttribute('aria-valuemin')).to.equal('0');
+    expect(thumb.getAttribute('aria-valuemax')).to.equal('100');
+    expect(thumb.getAttribute('aria-orientation')).to.equal('horizontal');
+  });
+
+  describe('Value', () => {
+    it('should start halfway without a value', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider min="10" max="20"></monk-slider>
+      `);
+
+      expect(element.value).to.equal('15');
+      expect(element.valueAsNumber).to.equal(15);
+    });
+
+    it('should snap to the step and stay within bounds', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider min="0" max="1" step="0.25" value="0.3"></monk-slider>
+      `);
+
+      expect(element.value).to.equal('0.25');
+
+      element.value = '7';
+      await element.updateComplete;
+
+      expect(element.value).to.equal('1');
+    });
+  });
+
+  describe('Keyboard', () => {
+    it('should step with the arrow keys and emit input-changed', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider value="50" step="5"></monk-slider>
+      `);
+
+      setTimeout(() => press(element, 'ArrowRight'));
+      const event = await oneEvent(element, 'input-changed');
+
+      expect(event.detail.value).to.equal('55');
+      expect(event.detail.values).to.deep.equal([55]);
+
+      press(element, 'ArrowDown');
+      await element.updateComplete;
+
+      expect(element.value).to.equal('50');
+    });
+
+    it('should move ten steps with Page Up/Down and jump with Home/End', async () => {
+      const element = await fixture<MonkSlider>(html`<monk-slider value="50"></monk-slider>`);
+
+      press(element, 'PageUp');
+      expect(element.value).to.equal('60');
+
+      press(element, 'Home');
+      expect(element.value).to.equal('0');
+
+      press(element, 'End');
+      expect(element.value).to.equal('100');
+    });
+
+    it('should reverse Left and Right in right-to-left layouts', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider dir="rtl" value="50"></monk-slider>
+      `);
+
+      press(element, 'ArrowLeft');
+
+      expect(element.value).to.equal('51');
+    });
+
+    it('should not move when readonly', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider value="50" readonly></monk-slider>
+      `);
+
+      press(element, 'ArrowRight');
+
+      expect(element.value).to.equal('50');
+    });
+  });
+
+  describe('Display', () => {
+    it('should show the formatted value in the tooltip and aria-valuetext', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider value="20" .formatter=${(value: number) => `${value} min`}></monk-slider>
+      `);
+
+      expect(element.shadowRoot?.querySelector('.tooltip')?.textContent).to.equal('20 min');
+      expect(thumbOf(element).getAttribute('aria-valuetext')).to.equal('20 min');
+    });
+
+    it('should render ticks with labels', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider max="60" tick-interval="15" tick-labels></monk-slider>
+      `);
+
+      const labels = element.shadowRoot?.querySelectorAll('.tick-label') ?? [];
+      expect(Array.from(labels).map((label) => label.textContent)).to.deep.equal([
+        '0',
+        '15',
+        '30',
+        '45',
+        '60',
+      ]);
+    });
+
+    it('should add marks to the ticks', async () => {
+      const marks = [
+        { value: 0, label: 'Off' },
+        { value: 100, label: 'Max' },
+      ];
+      const element = await fixture<MonkSlider>(html`<monk-slider .marks=${marks}></monk-slider>`);
+
+      expect(element.shadowRoot?.querySelectorAll('.tick').length).to.equal(2);
+    });
+
+    it('should not render a tooltip when tooltip is never', async () => {
+      const element = await fixture<MonkSlider>(html`<monk-slider tooltip="never"></monk-slider>`);
+
+      expect(element.shadowRoot?.querySelector('.tooltip')).to.be.null;
+    });
+
+    it('should mark vertical sliders for assistive technology', async () => {
+      const element = await fixture<MonkSlider>(html`
+        <monk-slider orientation="vertical"></monk-slider>
+      `);
+
+      expect(thumbOf(element).getAttribute('aria-orientation')).to.equal('vertical');
+    });
+  });
+
+  describe('Form Integration', () => {
+    it('should submit its value', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-slider name="volume" value="40"></monk-slider></form>
+      `);
+      await form.querySelector('monk-slider')?.updateComplete;
+
+      expect(new FormData(form).get('volume')).to.equal('40');
+    });
+
+    it('should block submission when a validator fails', async () => {
+      const form = await fixture<HTMLFormElement>(html`
+        <form><monk-slider name="volume" value="90" max-value="80" validate></monk-slider></form>
+      `);
+      const element = form.querySelector('monk-slider') as MonkSlider;
+      await element.updateComplete;
+
+      element.performValidation();
+
+      expect(element.invalid).to.be.true;
+      expect(form.checkValidity()).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './slider.js';
+import './range-slider.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Slider',
+  component: 'monk-slider',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Slider picks a number by dragging a thumb along a track; the Range Slider picks a
+lower and an upper bound with two thumbs. Both snap to \`step\` within \`min\` and
+\`max\` (0 to 100 by default), work with the keyboard (arrows, Page Up/Down, Home/End),
+follow the reading direction and take part in forms. A range slider submits both
+bounds under its name.
+
+Ticks are drawn every \`tick-interval\` units (labelled with \`tick-labels\`) and at
+each entry of \`marks\`. The \`formatter\` callback formats the tooltip, tick labels
+and the value read by screen readers.
+
+## Usage
+
+\`\`\`html
+<monk-slider label="Volume" name="volume" value="40"></monk-slider>
+
+<monk-range-slider label="Price" name="price" max="500" step="10" value="50,200">
+</monk-range-slider>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+const minutes = (value: number) => `${value} min`;
+const dollars = (value: number) => `$${value}`;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      <monk-slider label="Volume" value="40"></monk-slider>
+      <monk-slider label="Disabled" value="60" disabled></monk-slider>
+    </monk-stack>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="6">
+      <monk-slider label="Small" size="sm" value="25"></monk-slider>
+      <monk-slider label="Medium" size="md" value="50"></monk-slider>
+      <monk-slider label="Large" size="lg" value="75"></monk-slider>
+    </monk-stack>
+  `,
+};
+
+export const TicksAndFormatter: Story = {
+  render: () => html`
+    <monk-slider
+      label="Session length"
+      min="5"
+      max="60"
+      step="5"
+      value="20"
+      tick-interval="5"
+      .marks=${[5, 15, 30, 45, 60].map((value) => ({ value, label: minutes(value) }))}
+      .formatter=${minutes}
+    ></monk-slider>
+  `,
+};
+
+export const RangeSlider: Story = {
+  render: () => html`
+    <monk-range-slider
+      label="Price"
+      name="price"
+      max="500"
+      step="10"
+      value="50,200"
+      tick-interval="100"
+      tick-labels
+      .formatter=${dollars}
+    ></monk-range-slider>
+  `,
+};
+
+export const Vertical: Story = {
+  render: () => html`
+    <monk-stack direction="horizontal" spacing="8">
+      <monk-slider label="Level" orientation="vertical" tooltip="always" value="70"></monk-slider>
+      <monk-range-slider
+        label="Band"
+        orientation="vertical"
+        tick-interval="25"
+        tick-labels
+        value="25,75"
+      ></monk-range-slider>
+    </monk-stack>
+  `,
+};
+
+export const RightToLeft: Story = {
+  render: () => html`
+    <div dir="rtl">
+      <monk-range-slider label="Range" value="20,60" tick-interval="20" tick-labels>
+      </monk-range-slider>
+    </div>
+  `,
+};
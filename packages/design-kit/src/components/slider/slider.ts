@@ -0,0 +1,82 @@
+import { customElement } from 'lit/decorators.js';
+import { SliderBase } from './slider-base.js';
+
+/**
+ * Slider component - Picks a number from a range by dragging a thumb
+ *
+ * Without a value the thumb starts halfway, like a native range input.
+ *
+ * @element monk-slider
+ *
+ * @example
+ * ```html
+ * <monk-slider label="Volume" name="volume" value="40"></monk-slider>
+ *
+ * <!-- Session length in minutes, with labelled ticks every 15 -->
+ * <monk-slider
+ *   label="Session length"
+ *   min="5"
+ *   max="60"
+ *   step="5"
+ *   tick-interval="15"
+ *   tick-labels
+ * ></monk-slider>
+ *
+ * <monk-slider label="Level" orientation="vertical" tooltip="always"></monk-slider>
+ * ```
+ *
+ * @accessibility
+ * - The thumb has role="slider" with aria-valuenow/min/max, and aria-valuetext from the formatter
+ * - Arrow keys move one step (Left and Right follow the reading direction),
+ *   Page Up/Down move ten steps, Home/End go to min/max
+ *
+ * @fires input-change - Fired while the value changes, detail: `{ value, values, originalEvent }`
+ * @fires input-changed - Fired when a change is committed, with the same detail
+ * @fires input-focus - Fired when the thumb receives focus
+ * @fires input-blur - Fired when the thumb loses focus
+ * @fires input-keydown - Fired on keydown on the thumb
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart slider - The element around the track and thumb
+ * @csspart track - The track
+ * @csspart range - The filled part of the track
+ * @csspart thumb - The thumb
+ * @csspart tooltip - The value tooltip
+ * @csspart tick - A tick mark
+ * @csspart tick-label - A tick label
+ *
+ * @cssprop --monk-slider-length - Height of a vertical slider (default 200px)
+ */
+@customElement('monk-slider')
+export class MonkSlider extends SliderBase {
+  /**
+   * The value as a number
+   */
+  get valueAsNumber(): number {
+    return this.values[0];
+  }
+
+  set valueAsNumber(value: number) {
+    this.values = [value];
+  }
+
+  protected get thumbCount(): number {
+    return 1;
+  }
+
+  protected get defaultValues(): number[] {
+    return [this.minimum + (this.maximum - this.minimum) / 2];
+  }
+
+  protected thumbLabel(): string | undefined {
+    return undefined;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-slider': MonkSlider;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Switch Component
+ *
+ * On/off toggle for settings that apply immediately
+ */
+
+export { MonkSwitch } from './switch.js';
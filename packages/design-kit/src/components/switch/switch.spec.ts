@@ -0,0 +1,71 @@
+import { expect, fixture, html, oneEvent } from '@open-wc/testing';
+import { MonkSwitch } from './switch.js';
+
+const nativeInput = (element: MonkSwitch): HTMLInputElement =>
+  element.shadowRoot?.querySelector('input') as HTMLInputElement;
+
+describe('MonkSwitch', () => {
+  it('should be defined', () => {
+    const element = document.createElement('monk-switch');
+    expect(element).to.be.instanceOf(MonkSwitch);
+  });
+
+  it('should render a checkbox with the switch role', async () => {
+    const element = await fixture<MonkSwitch>(html`<monk-switch>Wi-Fi</monk-switch>`);
+
+    const input = nativeInput(element);
+    expect(input.type).to.equal('checkbox');
+    expect(input.getAttribute('role')).to.equal('switch');
+    expect(input.getAttribute('aria-checked')).to.equal('false');
+  });
+
+  it('should toggle on click and emit input-change', async () => {
+    const element = await fixture<MonkSwitch>(html`<monk-switch>Wi-Fi</monk-switch>`);
+
+    setTimeout(() => nativeInput(element).click());
+    const event = await oneEvent(element, 'input-change');
+    await element.updateComplete;
+
+    expect(event.detail.checked).to.be.true;
+    expect(element.checked).to.be.true;
+    expect(nativeInput(element).getAttribute('aria-checked')).to.equal('true');
+  });
+
+  it('should reflect the color scheme', async () => {
+    const element = await fixture<MonkSwitch>(html`
+      <monk-switch color-scheme="error"></monk-switch>
+    `);
+
+    expect(element.colorScheme).to.equal('error');
+  });
+
+  it('should not toggle when disabled', async () => {
+    const element = await fixture<MonkSwitch>(html`<monk-switch disabled></monk-switch>`);
+
+    nativeInput(element).click();
+    element.toggle();
+    await element.updateComplete;
+
+    expect(element.checked).to.be.false;
+  });
+
+  it('should emit input-invalid when required and switched off', async () => {
+    const element = await fixture<MonkSwitch>(html`
+      <monk-switch required validate checked></monk-switch>
+    `);
+
+    setTimeout(() => element.toggle());
+    const event = await oneEvent(element, 'input-invalid');
+
+    expect(event.detail.message).to.be.a('string').and.not.be.empty;
+  });
+
+  it('should submit its value while on', async () => {
+    const form = await fixture<HTMLFormElement>(html`
+      <form><monk-switch name="dark-mode" checked></monk-switch></form>
+    `);
+    await form.querySelector('monk-switch')?.updateComplete;
+
+    expect(new FormData(form).get('dark-mode')).to.equal('on');
+  });
+});
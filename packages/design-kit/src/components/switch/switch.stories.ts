@@ -0,0 +1,70 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+import { html } from 'lit';
+import './switch.js';
+import '../layout/stack.js';
+
+const meta: Meta = {
+  title: 'Components/Switch',
+  component: 'monk-switch',
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: `
+The Switch component turns a setting on or off. It is a form-associated checkbox with
+the switch role, and uses the same \`size\` and \`color-scheme\` attributes as the Button.
+
+## Usage
+
+\`\`\`html
+<monk-switch name="notifications" checked>Email notifications</monk-switch>
+\`\`\`
+        `,
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Default: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-switch>Off</monk-switch>
+      <monk-switch checked>On</monk-switch>
+      <monk-switch disabled>Disabled</monk-switch>
+      <monk-switch disabled checked>Disabled and on</monk-switch>
+    </monk-stack>
+  `,
+};
+
+export const Sizes: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-switch size="sm" checked>Small</monk-switch>
+      <monk-switch size="md" checked>Medium</monk-switch>
+      <monk-switch size="lg" checked>Large</monk-switch>
+    </monk-stack>
+  `,
+};
+
+export const ColorSchemes: Story = {
+  render: () => html`
+    <monk-stack spacing="3">
+      <monk-switch color-scheme="primary" checked>Primary</monk-switch>
+      <monk-switch color-scheme="neutral" checked>Neutral</monk-switch>
+      <monk-switch color-scheme="success" checked>Success</monk-switch>
+      <monk-switch color-scheme="error" checked>Error</monk-switch>
+      <monk-switch color-scheme="warning" checked>Warning</monk-switch>
+    </monk-stack>
+  `,
+};
+
+export const WithHelperText: Story = {
+  render: () => html`
+    <monk-switch helper-text="Saves your changes every few seconds" checked>
+      Auto-save
+    </monk-switch>
+  `,
+};
@@ -0,0 +1,160 @@
+import { html, css, type CSSResultArray } from 'lit';
+import { customElement } from 'lit/decorators.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import { ToggleInput } from '../checkbox/toggle-input.js';
+
+/**
+ * Switch component - On/off toggle for settings that apply immediately
+ *
+ * @element monk-switch
+ *
+ * @example
+ * ```html
+ * <monk-switch name="notifications" checked>Email notifications</monk-switch>
+ *
+ * <monk-switch color-scheme="success" size="lg">Auto-save</monk-switch>
+ * ```
+ *
+ * @accessibility
+ * - Native checkbox with role="switch", announced as "on" or "off"
+ * - Space toggles the switch; clicking the label toggles it too
+ * - Helper text and errors are linked with aria-describedby
+ *
+ * @fires input-change - Fired when the switch is toggled, detail: `{ value, checked }`
+ * @fires input-changed - Fired when the switch is toggled, detail: `{ value, checked }`
+ * @fires input-focus - Fired when the switch receives focus
+ * @fires input-blur - Fired when the switch loses focus
+ * @fires input-keydown - Fired on keydown event
+ * @fires input-invalid - Fired when validation fails
+ * @fires input-valid - Fired when validation succeeds
+ *
+ * @csspart wrapper - The wrapper container
+ * @csspart control - The clickable label around the track and text
+ * @csspart track - The switch track
+ * @csspart thumb - The sliding thumb
+ * @csspart input - The native checkbox (visually hidden)
+ * @csspart label - The label text
+ *
+ * @slot - Label content; falls back to the `label` property
+ */
+@customElement('monk-switch')
+export class MonkSwitch extends ToggleInput {
+  static override styles: CSSResultArray = [
+    ...(ToggleInput.styles as CSSResultArray),
+    css`
+      .track {
+        --monk-switch-height: 1.25rem;
+        position: relative;
+        display: inline-block;
+        flex-shrink: 0;
+        width: calc(var(--monk-switch-height) * 1.8);
+        height: var(--monk-switch-height);
+        border-radius: var(--monk-radius-full);
+        background: var(--monk-color-border-emphasized);
+        transition: background-color 150ms ease-in-out;
+      }
+
+      :host([size='sm']) .track {
+        --monk-switch-height: 1rem;
+      }
+
+      :host([size='lg']) .track {
+        --monk-switch-height: 1.5rem;
+      }
+
+      .thumb {
+        position: absolute;
+        top: 2px;
+        left: 2px;
+        width: calc(var(--monk-switch-height) - 4px);
+        height: calc(var(--monk-switch-height) - 4px);
+        border-radius: 50%;
+        background: var(--monk-color-bg-canvas);
+        box-shadow: var(--monk-shadow-sm);
+        transition: transform 150ms ease-in-out;
+      }
+
+      input:checked + .indicator-line .track {
+        background: var(--monk-toggle-accent);
+      }
+
+      .control:hover input:checked + .indicator-line .track {
+        background: var(--monk-toggle-accent-hover);
+      }
+
+      input:checked + .indicator-line .thumb {
+        transform: translateX(calc(var(--monk-switch-height) * 0.8));
+      }
+
+      :host(:dir(rtl)) input:checked + .indicator-line .thumb {
+        transform: translateX(calc(var(--monk-switch-height) * -0.8));
+      }
+
+      :host(:dir(rtl)) .thumb {
+        left: auto;
+        right: 2px;
+      }
+
+      :host([invalid]) .track {
+        outline: 2px solid var(--monk-color-border-error);
+        outline-offset: 1px;
+      }
+
+      @media (prefers-reduced-motion: reduce) {
+        .track,
+        .thumb {
+          transition: none;
+        }
+      }
+    `,
+  ];
+
+  protected override render() {
+    return html`
+      <div class="input-wrapper" part="wrapper">
+        <label class="control" part="control">
+          <input
+            id="input"
+            class="sr-only"
+            part="input"
+            type="checkbox"
+            role="switch"
+            name=${ifDefined(this.name)}
+            .value=${this.value}
+            .checked=${live(this.checked)}
+            ?disabled=${this.isDisabled}
+            ?required=${this.required}
+            aria-checked=${this.checked ? 'true' : 'false'}
+            aria-readonly=${ifDefined(this.readonly ? 'true' : undefined)}
+            aria-invalid=${this.invalid ? 'true' : 'false'}
+            aria-describedby=${ifDefined(
+              this.errorMessage ? 'error-message' : this.helperText ? 'helper-text' : undefined
+            )}
+            @click=${this._handleClick}
+            @change=${this._handleChange}
+            @focus=${this._handleFocus}
+            @blur=${this._handleBlur}
+            @keydown=${this._handleKeyDown}
+          />
+          <span class="indicator-line">
+            <span class="track" part="track" aria-hidden="true">
+              <span class="thumb" part="thumb"></span>
+            </span>
+          </span>
+          <span class="text" part="label">
+            <slot>${this.label}</slot>
+            ${this.required ? html`<span class="required-indicator">*</span>` : ''}
+          </span>
+        </label>
+        ${this.renderHelperText()}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'monk-switch': MonkSwitch;
+  }
+}
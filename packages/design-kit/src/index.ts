@@ -29,9 +29,33 @@ export * from './components/divider/index.js';
 // Card component
 export * from './components/card/index.js';
 
+// Calendar component
+export * from './components/calendar/index.js';
+
 // Input components
 export * from './components/input/index.js';
 
+// Select components
+export * from './components/select/index.js';
+
+// Checkbox components
+export * from './components/checkbox/index.js';
+
+// Switch component
+export * from './components/switch/index.js';
+
+// Radio components
+export * from './components/radio/index.js';
+
+// Segmented control components
+export * from './components/segmented-control/index.js';
+
+// Slider components
+export * from './components/slider/index.js';
+
+// Form component
+export * from './components/form/index.js';
+
 // Import theme CSS variables
 // This makes the design tokens available when the package is imported
 import './theme/index.js';